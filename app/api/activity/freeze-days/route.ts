@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { addFreezeDay, removeFreezeDay } from '@/lib/activity/server'
+import { FreezeDayError, localDay } from '@/lib/activity/streaks'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { freezeDaySchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Streak Freeze Days Endpoint
+ *
+ * Days the user takes off without breaking their streak (lib/activity/streaks.ts).
+ * `day` is YYYY-MM-DD in `timeZone` (default UTC), which also decides what today is.
+ *
+ * POST ({ day, timeZone? }): freeze a day - today or up to 60 days ahead,
+ *   at most 2 per calendar month (409 otherwise). Returns { freezeDays }
+ * DELETE (?day=&timeZone=): unfreeze a day that isn't over yet
+ *
+ * Route: POST/DELETE /api/activity/freeze-days
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    const { day, timeZone } = validate(freezeDaySchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const freezeDays = await addFreezeDay(user.id, day, localDay(new Date(), timeZone))
+    return NextResponse.json({ success: true, freezeDays }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof FreezeDayError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Add freeze day error:', error)
+    return NextResponse.json({ error: 'Failed to add freeze day' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const { day, timeZone } = validate(freezeDaySchema, {
+      day: searchParams.get('day'),
+      timeZone: searchParams.get('timeZone') ?? undefined,
+    })
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await removeFreezeDay(user.id, day, localDay(new Date(), timeZone)))) {
+      return NextResponse.json({ error: 'Freeze day not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof FreezeDayError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Remove freeze day error:', error)
+    return NextResponse.json({ error: 'Failed to remove freeze day' }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { loadActivitySummary } from '@/lib/activity/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { timeZoneSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Activity Endpoint
+ *
+ * The user's learning streak and activity heatmap, from the activity_events
+ * log (lib/activity/).
+ *
+ * Flow:
+ * 1. Validate ?timeZone= (IANA name, default UTC) - days start at midnight there
+ * 2. Authenticate the user
+ * 3. Count events per day, and compute the current and longest streak
+ *    with the user's freeze days bridging gaps
+ * 4. Return { today, streak, heatmap, freezeDays } - the heatmap covers the
+ *    last 53 weeks, Monday first
+ *
+ * Route: GET /api/activity
+ */
+export async function GET(req: Request) {
+  try {
+    const timeZone = validate(
+      timeZoneSchema,
+      new URL(req.url).searchParams.get('timeZone') ?? undefined
+    )
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const summary = await loadActivitySummary(user.id, timeZone)
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Load activity error:', error)
+    return NextResponse.json({ error: 'Failed to load activity' }, { status: 500 })
+  }
+}
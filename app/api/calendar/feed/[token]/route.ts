@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { pathEvents } from '@/lib/calendar/feed'
+import { buildCalendar, ICS_CONTENT_TYPE } from '@/lib/calendar/ics'
+import { findFeedTokenUser } from '@/lib/calendar/server'
+import { loadLearningPaths, loadPathPlan } from '@/lib/paths/server'
+
+/**
+ * Calendar Feed
+ *
+ * RFC 5545 .ics feed of the user's scheduled learning path steps, one
+ * all-day event per step over the weeks it's planned in (GET
+ * /api/paths/[id]/schedule has the same plan). Authenticated by the secret
+ * token in the URL - see /api/calendar/feed to create or revoke it.
+ *
+ * All paths by default, or one with ?path=<id>. A trailing ".ics" on the
+ * token is ignored.
+ *
+ * Route: GET /api/calendar/feed/[token]
+ *
+ * Returns:
+ * - 200: text/calendar
+ * - 404: unknown or revoked token, or no such path
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params
+
+    const userId = await findFeedTokenUser(token.replace(/\.ics$/, ''))
+    if (!userId) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+    }
+
+    const pathId = new URL(req.url).searchParams.get('path')
+    const paths = (await loadLearningPaths(userId)).filter(path => !pathId || path.id === pathId)
+    if (pathId && !paths.length) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    const events = []
+    for (const path of paths) {
+      const { schedule } = await loadPathPlan(path)
+      events.push(...pathEvents(path, schedule))
+    }
+
+    const name = pathId ? paths[0].title : 'Learning paths'
+    return new Response(buildCalendar({ name, events }), {
+      headers: {
+        'Content-Type': ICS_CONTENT_TYPE,
+        'Content-Disposition': 'inline; filename="learning-paths.ics"',
+        'Cache-Control': 'private, no-cache',
+      },
+    })
+  } catch (error) {
+    console.error('Calendar feed error:', error)
+    return NextResponse.json({ error: 'Failed to load calendar feed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { createFeedToken, getFeedTokenStatus, revokeFeedToken } from '@/lib/calendar/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+
+/**
+ * Calendar Feed URL Endpoint
+ *
+ * Manages the secret URL of the user's .ics feed (lib/calendar/feed.ts),
+ * which calendar apps subscribe to without signing in.
+ *
+ * GET: whether the user has a feed URL ({ feed: { createdAt, lastUsedAt } | null })
+ * POST: create a feed URL, replacing the previous one - the response has the
+ *       only copy of the URL ({ url })
+ * DELETE: revoke the feed URL
+ *
+ * Route: GET/POST/DELETE /api/calendar/feed
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({ success: true, feed: await getFeedTokenStatus(user.id) })
+  } catch (error) {
+    console.error('Load calendar feed error:', error)
+    return NextResponse.json({ error: 'Failed to load calendar feed' }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, createdAt } = await createFeedToken(user.id)
+    const url = new URL(`/api/calendar/feed/${token}.ics`, req.url).toString()
+
+    return NextResponse.json({ success: true, url, createdAt }, { status: 201 })
+  } catch (error) {
+    console.error('Create calendar feed error:', error)
+    return NextResponse.json({ error: 'Failed to create calendar feed' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await revokeFeedToken(user.id))) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Revoke calendar feed error:', error)
+    return NextResponse.json({ error: 'Failed to revoke calendar feed' }, { status: 500 })
+  }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server'
+import { getCircuitBreakerStates } from '@/lib/ai/resilience'
 import { createServiceClient } from '@/lib/supabase/client'
 
 /**
@@ -15,12 +16,21 @@ import { createServiceClient } from '@/lib/supabase/client'
  * Returns:
  * - 200: Server is healthy
  * - 503: Server is unhealthy (database connection failed, etc.)
+ *
+ * `checks.ai` is 'degraded' while an AI provider's circuit breaker isn't
+ * closed (lib/ai/resilience.ts) - suggestions then fall back to generic ones,
+ * so it doesn't make the server unhealthy. `circuitBreakers` has the state
+ * per provider used since this server instance started.
  */
 export async function GET() {
   try {
     // Basic health check
     const timestamp = new Date().toISOString()
     const environment = process.env.NODE_ENV || 'unknown'
+    const circuitBreakers = getCircuitBreakerStates()
+    const ai = Object.values(circuitBreakers).every(breaker => breaker.state === 'closed')
+      ? 'ok'
+      : 'degraded'
 
     // Optional: Check database connection
     // Uncomment this to verify database is accessible
@@ -37,7 +47,9 @@ export async function GET() {
           checks: {
             server: 'ok',
             database: 'failed',
+            ai,
           },
+          circuitBreakers,
           error: 'Database connection failed',
         },
         { status: 503 }
@@ -51,7 +63,9 @@ export async function GET() {
       checks: {
         server: 'ok',
         database: 'ok',
+        ai,
       },
+      circuitBreakers,
     })
   } catch (error) {
     console.error('Health check error:', error)
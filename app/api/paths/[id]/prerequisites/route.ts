@@ -0,0 +1,145 @@
+import { NextResponse } from 'next/server'
+import {
+  availableSteps,
+  PrerequisiteCycleError,
+  topologicalOrder,
+  validatePrerequisites,
+  type PrerequisiteEdge,
+} from '@/lib/paths/graph'
+import { completedStepIds, pathStepIds } from '@/lib/paths/model'
+import { loadLearningPath } from '@/lib/paths/server'
+import { createServiceClient, getUserFromRequest } from '@/lib/supabase/client'
+import { setStepPrerequisitesSchema, validate, ValidationError } from '@/lib/validation/schemas'
+import type { LearningPath } from '@/types'
+
+/**
+ * Learning Path Prerequisites Endpoint
+ *
+ * Dependencies between the steps of a learning path (lib/paths/graph.ts).
+ *
+ * GET: the prerequisite edges, every step in topological order (each step
+ * after its prerequisites, otherwise in path order) and the steps available
+ * next - not completed, with every prerequisite completed
+ *
+ * PUT flow:
+ * 1. Validate input ({ stepId, prerequisiteIds }) - replaces the step's
+ *    prerequisites, an empty list removes them
+ * 2. Authenticate the user and load their path (404 if not theirs)
+ * 3. Validate the path's prerequisites with the change: every step must be
+ *    in the path (400) and there must be no cycle (409, with the cycle)
+ * 4. Store the change and return the same view as GET
+ *
+ * Route: GET/PUT /api/paths/[id]/prerequisites
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const path = await loadLearningPath(id, user.id)
+    if (!path) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, ...describePrerequisites(path, path.prerequisites) })
+  } catch (error) {
+    console.error('Load prerequisites error:', error)
+    return NextResponse.json({ error: 'Failed to load prerequisites' }, { status: 500 })
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const { stepId, prerequisiteIds } = validate(setStepPrerequisitesSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const path = await loadLearningPath(id, user.id)
+    if (!path) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    const stepIds = pathStepIds(path)
+    if (!stepIds.includes(stepId)) {
+      return NextResponse.json({ error: 'Step not found' }, { status: 404 })
+    }
+
+    const current = path.prerequisites.filter(edge => edge.stepId === stepId)
+    const edges = [
+      ...path.prerequisites.filter(edge => edge.stepId !== stepId),
+      ...prerequisiteIds.map(prerequisiteId => ({ stepId, prerequisiteId })),
+    ]
+
+    if (prerequisiteIds.some(prerequisiteId => !stepIds.includes(prerequisiteId))) {
+      return NextResponse.json(
+        { error: 'Prerequisites must be steps of the same learning path' },
+        { status: 400 }
+      )
+    }
+    validatePrerequisites(stepIds, edges)
+
+    const removed = current
+      .map(edge => edge.prerequisiteId)
+      .filter(prerequisiteId => !prerequisiteIds.includes(prerequisiteId))
+    const added = prerequisiteIds.filter(
+      prerequisiteId => !current.some(edge => edge.prerequisiteId === prerequisiteId)
+    )
+
+    const supabase = createServiceClient()
+    if (removed.length) {
+      const { error } = await supabase
+        .from('path_step_prerequisites')
+        .delete()
+        .eq('step_id', stepId)
+        .in('prerequisite_step_id', removed)
+
+      if (error) throw error
+    }
+
+    if (added.length) {
+      const { error } = await supabase.from('path_step_prerequisites').insert(
+        added.map(prerequisiteId => ({
+          step_id: stepId,
+          prerequisite_step_id: prerequisiteId,
+          user_id: user.id,
+        }))
+      )
+
+      // check_violation from the table's trigger: the path changed since it was loaded
+      if (error?.code === '23514') throw new PrerequisiteCycleError([])
+      if (error) throw error
+    }
+
+    return NextResponse.json({ success: true, ...describePrerequisites(path, edges) })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof PrerequisiteCycleError) {
+      return NextResponse.json({ error: error.message, cycle: error.cycle }, { status: 409 })
+    }
+
+    console.error('Update prerequisites error:', error)
+    return NextResponse.json({ error: 'Failed to update prerequisites' }, { status: 500 })
+  }
+}
+
+function describePrerequisites(path: LearningPath, edges: PrerequisiteEdge[]) {
+  const stepIds = pathStepIds(path)
+
+  return {
+    prerequisites: edges,
+    order: topologicalOrder(stepIds, edges),
+    available: availableSteps(stepIds, edges, completedStepIds(path)),
+  }
+}
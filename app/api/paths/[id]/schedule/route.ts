@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server'
+import { weekStartOf } from '@/lib/paths/schedule'
+import { loadLearningPath, loadPathPlan } from '@/lib/paths/server'
+import { createServiceClient, getUserFromRequest } from '@/lib/supabase/client'
+import { updatePathScheduleSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Learning Path Schedule Endpoint
+ *
+ * Week-by-week plan of a path's open steps against the user's weekly hours
+ * (lib/paths/schedule.ts), in prerequisite order.
+ *
+ * GET flow:
+ * 1. Authenticate the user and load their path (404 if not theirs)
+ * 2. Weekly hours: the path's own, else the time commitment of the
+ *    suggestion set it came from, else the default
+ * 3. Plan from the path's schedule_start. If a step is still open after its
+ *    planned week, the user fell behind: plan again from this week and
+ *    return the late steps in `behind`
+ * 4. Store schedule_start if the plan (re)started
+ *
+ * PUT: set the path's weekly hours ({ weeklyHours }, null for the default)
+ * and restart the plan from this week
+ *
+ * Route: GET/PUT /api/paths/[id]/schedule
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const path = await loadLearningPath(id, user.id)
+    if (!path) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    const plan = await loadPathPlan(path)
+    return NextResponse.json({ success: true, ...plan })
+  } catch (error) {
+    console.error('Load schedule error:', error)
+    return NextResponse.json({ error: 'Failed to load schedule' }, { status: 500 })
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const { weeklyHours } = validate(updatePathScheduleSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const path = await loadLearningPath(id, user.id)
+    if (!path) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    const updated = { ...path, weekly_hours: weeklyHours, schedule_start: weekStartOf(new Date()) }
+
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('learning_paths')
+      .update({ weekly_hours: updated.weekly_hours, schedule_start: updated.schedule_start })
+      .eq('id', path.id)
+
+    if (error) throw error
+
+    const plan = await loadPathPlan(updated)
+    return NextResponse.json({ success: true, ...plan })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Update schedule error:', error)
+    return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 })
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server'
+import { loadLearningPath } from '@/lib/paths/server'
+import { shareStatus } from '@/lib/sharing/share'
+import { createShareLink, deleteShareLink, loadShareLink } from '@/lib/sharing/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+
+/**
+ * Learning Path Sharing Endpoint
+ *
+ * Turns the public, read-only page of a path on and off (lib/sharing/share.ts).
+ * The page at the returned URL shows the path's milestones and steps, and
+ * which steps are done - nothing about the user.
+ *
+ * GET: whether the path is shared ({ share: { url, createdAt } | null })
+ * PUT: share the path - 201 with the new URL, or 200 with the current one
+ *      if it was already shared
+ * DELETE: unshare the path - the URL returns 404 from then on, and sharing
+ *         again gives a new one
+ *
+ * Route: GET/PUT/DELETE /api/paths/[id]/share
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const link = await loadShareLink(user.id, 'learning-path', id)
+    return NextResponse.json({ success: true, share: link && shareStatus(link, req.url) })
+  } catch (error) {
+    console.error('Load path sharing error:', error)
+    return NextResponse.json({ error: 'Failed to load sharing' }, { status: 500 })
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const path = await loadLearningPath(id, user.id)
+    if (!path) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    const { link, created } = await createShareLink(user.id, 'learning-path', path.id)
+    return NextResponse.json(
+      { success: true, share: shareStatus(link, req.url) },
+      { status: created ? 201 : 200 }
+    )
+  } catch (error) {
+    console.error('Share path error:', error)
+    return NextResponse.json({ error: 'Failed to share learning path' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await deleteShareLink(user.id, 'learning-path', id))) {
+      return NextResponse.json({ error: 'Learning path is not shared' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unshare path error:', error)
+    return NextResponse.json({ error: 'Failed to unshare learning path' }, { status: 500 })
+  }
+}
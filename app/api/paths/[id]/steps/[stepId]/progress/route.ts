@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { loadLearningPath, setStepCompleted } from '@/lib/paths/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { updatePathStepProgressSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Path Step Progress Endpoint
+ *
+ * Flow:
+ * 1. Validate input ({ completed, minutesSpent? })
+ * 2. Authenticate the user and load their path (404 if not theirs, or if
+ *    the step isn't in it)
+ * 3. Set or clear the step's completed_at
+ * 4. Log the change and the time spent in activity_events (lib/activity/events.ts)
+ * 5. Return the step
+ *
+ * Route: PUT /api/paths/[id]/steps/[stepId]/progress
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string; stepId: string }> }
+) {
+  try {
+    const { id, stepId } = await params
+    const body = await req.json()
+    const { completed, minutesSpent } = validate(updatePathStepProgressSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const path = await loadLearningPath(id, user.id)
+    if (!path) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    const step = path.milestones.flatMap(m => m.steps).find(s => s.id === stepId)
+    if (!step) {
+      return NextResponse.json({ error: 'Step not found' }, { status: 404 })
+    }
+
+    const updated = await setStepCompleted(user.id, step, completed, minutesSpent)
+    return NextResponse.json({ success: true, step: updated })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Update step progress error:', error)
+    return NextResponse.json({ error: 'Failed to update step progress' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { loadLearningPath, loadPathTemplate, loadPathTemplateVersion } from '@/lib/paths/server'
+import { compareWithTemplate } from '@/lib/paths/templates'
+import { getUserFromRequest } from '@/lib/supabase/client'
+
+/**
+ * Upstream Changes Endpoint
+ *
+ * What changed in the template a path was forked from since the fork
+ * (lib/paths/templates.ts): steps added, removed or changed in later
+ * versions, each with the path's own step for it. The user's own edits to
+ * the path aren't listed.
+ *
+ * Flow:
+ * 1. Authenticate the user and load their path (404 if not theirs)
+ * 2. Load the template it was forked from (404 if it wasn't forked, or the
+ *    template was removed since)
+ * 3. Compare the version it was forked from with the latest
+ *
+ * Route: GET /api/paths/[id]/upstream
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const path = await loadLearningPath(id, user.id)
+    if (!path) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    const template = path.source_template_id
+      ? await loadPathTemplate(path.source_template_id)
+      : null
+    const forkedVersion = path.source_template_version ?? 1
+    const forked = template && (await loadPathTemplateVersion(template.id, forkedVersion))
+    if (!template || !forked) {
+      return NextResponse.json(
+        { error: 'This path has no template to compare with' },
+        { status: 404 }
+      )
+    }
+
+    const changes = compareWithTemplate(path, { version: forkedVersion, content: forked }, template)
+    return NextResponse.json({ success: true, ...changes })
+  } catch (error) {
+    console.error('Load upstream changes error:', error)
+    return NextResponse.json({ error: 'Failed to load upstream changes' }, { status: 500 })
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server'
+import { currentSuggestions, isKnownSuggestion } from '@/lib/suggestions/model'
+import { summarizeProgress } from '@/lib/suggestions/progress'
+import {
+  loadProfileSuggestion,
+  loadSuggestionProgress,
+  loadSuggestionRefinements,
+  updateSuggestionProgress,
+} from '@/lib/suggestions/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { updateSuggestionProgressSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Suggestion Progress Endpoint
+ *
+ * Progress on the suggestions of a set (lib/suggestions/progress.ts).
+ *
+ * GET: the set's progress rows and a summary per status of its current
+ * suggestions (the latest refinement's, if it was refined) - suggestions
+ * without a row haven't been started
+ *
+ * PUT flow:
+ * 1. Validate input ({ suggestionId, status?, minutesSpent?, notes? })
+ * 2. Authenticate the user and load their suggestion set (404 if not theirs,
+ *    or if the suggestion was never in it or one of its refinements)
+ * 3. Apply the status change, add the time spent and set the notes
+ * 4. Log the change in activity_events (lib/activity/events.ts)
+ * 5. Return the suggestion's progress
+ *
+ * Route: GET/PUT /api/profile/suggestions/[id]/progress
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const set = await loadProfileSuggestion(id, user.id)
+    if (!set) {
+      return NextResponse.json({ error: 'Suggestions not found' }, { status: 404 })
+    }
+
+    const [progress, refinements] = await Promise.all([
+      loadSuggestionProgress(set.id, user.id),
+      loadSuggestionRefinements(set.id),
+    ])
+    const suggestions = currentSuggestions(set, refinements)
+    const current = new Set(suggestions.map(s => s.id))
+    const summary = summarizeProgress(
+      progress.filter(p => current.has(p.suggestion_id)),
+      suggestions.length
+    )
+
+    return NextResponse.json({ success: true, progress, summary })
+  } catch (error) {
+    console.error('Load suggestion progress error:', error)
+    return NextResponse.json({ error: 'Failed to load progress' }, { status: 500 })
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const input = validate(updateSuggestionProgressSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const set = await loadProfileSuggestion(id, user.id)
+    if (!set) {
+      return NextResponse.json({ error: 'Suggestions not found' }, { status: 404 })
+    }
+    const refinements = await loadSuggestionRefinements(set.id)
+    if (!isKnownSuggestion(set, refinements, input.suggestionId)) {
+      return NextResponse.json({ error: 'Suggestion not found' }, { status: 404 })
+    }
+
+    const progress = await updateSuggestionProgress(user.id, set, input)
+    return NextResponse.json({ success: true, progress })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Update suggestion progress error:', error)
+    return NextResponse.json({ error: 'Failed to update progress' }, { status: 500 })
+  }
+}
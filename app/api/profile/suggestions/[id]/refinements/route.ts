@@ -0,0 +1,257 @@
+import { NextResponse } from 'next/server'
+import { parseAiResponse } from '@/lib/ai/parser'
+import { promptId, selectPromptTemplate } from '@/lib/ai/prompts'
+import { AiProviderError, getSuggestionProvider } from '@/lib/ai/providers'
+import { PromptInjectionError, screenFields } from '@/lib/ai/safety'
+import { moderateSuggestions, recordModerationVerdicts } from '@/lib/ai/moderation'
+import {
+  countsTowardsQuota,
+  enforceAiQuota,
+  meterProvider,
+  QuotaExceededError,
+} from '@/lib/ai/usage'
+import { dedupeSuggestions, loadSuggestionHistory } from '@/lib/suggestions/history'
+import {
+  toStoredSuggestions,
+  upcastProfileSuggestion,
+  upcastSuggestionRefinement,
+} from '@/lib/suggestions/model'
+import { createServiceClient, getUserFromRequest } from '@/lib/supabase/client'
+import {
+  aiPromptSchema,
+  refineSuggestionsSchema,
+  validate,
+  ValidationError,
+} from '@/lib/validation/schemas'
+import type { SuggestionRefinementRow } from '@/types'
+
+// Every turn resends the whole conversation, so keep it bounded
+const MAX_TURNS = 10
+
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Conversational Refinement Endpoint
+ *
+ * Lets the user refine a suggestion set in a few conversation turns
+ * ("make these more backend-focused", "I only have 3 hours a week").
+ * Each turn is stored in suggestion_refinements, linked to the
+ * profile_suggestions row, with the complete new suggestion set.
+ *
+ * The row keeps the original set - the latest turn's set is the current one.
+ *
+ * GET: the conversation so far, oldest turn first
+ *
+ * POST flow:
+ * 1. Validate input ({ message, provider? }), redact PII and screen for
+ *    prompt injection (lib/ai/safety.ts)
+ * 2. Authenticate the user and load their suggestion set (404 if not theirs)
+ * 3. Enforce the user's AI quota, unless the provider is template
+ *    (lib/ai/usage.ts)
+ * 4. Prompt the model with the original input, the original set and every
+ *    earlier turn (suggestion-refinement prompt in lib/ai/prompts.ts)
+ * 5. Parse and validate the new set against aiResponseSchema (lib/ai/parser.ts),
+ *    moderate it (lib/ai/moderation.ts) and drop repeats and suggestions the
+ *    user already completed (lib/suggestions/history.ts). Unusable output
+ *    fails the turn (502) instead of storing fallback suggestions
+ * 6. Store and return the turn. If another turn for the set was stored
+ *    meanwhile, the turn number is taken and the request fails with 409
+ *
+ * Route: GET/POST /api/profile/suggestions/[id]/refinements
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: rows, error } = await supabase
+      .from('suggestion_refinements')
+      .select('*')
+      .eq('profile_suggestion_id', id)
+      .eq('user_id', user.id)
+      .order('turn', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({
+      success: true,
+      refinements: (rows as SuggestionRefinementRow[]).map(upcastSuggestionRefinement),
+    })
+  } catch (error) {
+    console.error('Load refinements error:', error)
+    return NextResponse.json({ error: 'Failed to load refinements' }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const { message: rawMessage, provider: providerName } = validate(refineSuggestionsSchema, body)
+    // The stored turn is the redacted message - exactly what the model saw
+    const {
+      fields: { message },
+    } = screenFields(
+      { message: rawMessage },
+      { schema: refineSuggestionsSchema.pick({ message: true }) }
+    )
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: row, error: fetchError } = await supabase
+      .from('profile_suggestions')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (fetchError) throw fetchError
+    if (!row) {
+      return NextResponse.json({ error: 'Suggestions not found' }, { status: 404 })
+    }
+
+    // Sets saved before the AI routes stored their input can't be prompted again
+    const input = aiPromptSchema.safeParse(row.input_data)
+    if (!input.success) {
+      return NextResponse.json(
+        { error: 'These suggestions were created in an older format and cannot be refined' },
+        { status: 409 }
+      )
+    }
+
+    const { data: turnRows, error: turnsError } = await supabase
+      .from('suggestion_refinements')
+      .select('*')
+      .eq('profile_suggestion_id', id)
+      .order('turn', { ascending: true })
+
+    if (turnsError) throw turnsError
+
+    const turns = (turnRows as SuggestionRefinementRow[]).map(upcastSuggestionRefinement)
+    if (turns.length >= MAX_TURNS) {
+      return NextResponse.json(
+        {
+          error: `Suggestions can be refined at most ${MAX_TURNS} times. Start a new set instead.`,
+        },
+        { status: 409 }
+      )
+    }
+
+    const template = selectPromptTemplate('suggestion-refinement', user.id)
+    const provider = meterProvider(getSuggestionProvider(providerName), {
+      userId: user.id,
+      feature: 'suggestion-refinement',
+    })
+    if (countsTowardsQuota(provider.name)) await enforceAiQuota(user.id)
+
+    const completion = await provider.complete({
+      input: input.data,
+      messages: template.build({
+        ...input.data,
+        suggestions: upcastProfileSuggestion(row).suggestions,
+        turns,
+        message,
+      }),
+      temperature: 0.7,
+      maxTokens: 800,
+    })
+
+    const parsed = parseAiResponse(completion.content)
+    const moderated = parsed.success
+      ? moderateSuggestions(parsed.suggestions)
+      : { suggestions: [], verdicts: [] }
+    const suggestions = dedupeSuggestions(
+      moderated.suggestions,
+      await loadSuggestionHistory(user.id)
+    )
+    const recordVerdicts = () =>
+      recordModerationVerdicts(moderated.verdicts, {
+        userId: user.id,
+        feature: 'suggestion-refinement',
+        profileSuggestionId: id,
+      })
+
+    if (suggestions.length === 0) {
+      await recordVerdicts()
+      console.warn('AI refinement was unusable:', {
+        strategy: parsed.strategy,
+        attempts: parsed.attempts,
+      })
+      return NextResponse.json(
+        { error: 'Could not refine the suggestions. Please try rephrasing your request.' },
+        { status: 502 }
+      )
+    }
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('suggestion_refinements')
+      .insert({
+        profile_suggestion_id: id,
+        user_id: user.id,
+        turn: (turns.at(-1)?.turn ?? 0) + 1,
+        message,
+        suggestions: toStoredSuggestions(suggestions),
+        prompt_version: promptId(template),
+      })
+      .select('*')
+      .single()
+
+    if (insertError?.code === UNIQUE_VIOLATION) {
+      await recordVerdicts()
+      return NextResponse.json(
+        { error: 'These suggestions were just refined in another request. Please try again.' },
+        { status: 409 }
+      )
+    }
+    if (insertError) throw insertError
+
+    await recordVerdicts()
+
+    return NextResponse.json({
+      success: true,
+      refinement: upcastSuggestionRefinement(inserted),
+      metadata: {
+        provider: provider.name,
+        promptVersion: promptId(template),
+        model: completion.model,
+        parseStrategy: parsed.strategy,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof PromptInjectionError ||
+      error instanceof SyntaxError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, period: error.period, limit: error.limit },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      )
+    }
+
+    if (error instanceof AiProviderError) {
+      console.error(`AI provider (${error.provider}) error:`, error.cause ?? error)
+      return NextResponse.json(
+        { error: 'The AI service is temporarily unavailable. Please try again later.' },
+        { status: 503 }
+      )
+    }
+
+    console.error('Refine suggestions error:', error)
+    return NextResponse.json({ error: 'Failed to refine suggestions' }, { status: 500 })
+  }
+}
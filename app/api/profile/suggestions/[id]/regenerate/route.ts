@@ -0,0 +1,204 @@
+import { NextResponse } from 'next/server'
+import { parseAiResponse } from '@/lib/ai/parser'
+import { promptId, selectPromptTemplate } from '@/lib/ai/prompts'
+import { AiProviderError, getSuggestionProvider } from '@/lib/ai/providers'
+import { PromptInjectionError, screenFields } from '@/lib/ai/safety'
+import { moderateSuggestions, recordModerationVerdicts } from '@/lib/ai/moderation'
+import {
+  countsTowardsQuota,
+  enforceAiQuota,
+  meterProvider,
+  QuotaExceededError,
+} from '@/lib/ai/usage'
+import {
+  pickReplacement,
+  replaceSuggestion,
+  toStoredSuggestion,
+  upcastProfileSuggestion,
+} from '@/lib/suggestions/model'
+import { createServiceClient, getUserFromRequest } from '@/lib/supabase/client'
+import {
+  aiPromptSchema,
+  regenerateSuggestionSchema,
+  validate,
+  ValidationError,
+} from '@/lib/validation/schemas'
+
+/**
+ * Regenerate a Single Suggestion Endpoint
+ *
+ * Replaces one suggestion in an existing profile_suggestions row instead of
+ * rerunning the whole suggestions flow.
+ *
+ * Flow:
+ * 1. Validate input ({ suggestionId, feedback?, provider? }) and screen the
+ *    feedback like any other free text (lib/ai/safety.ts)
+ * 2. Authenticate the user and load their suggestion set (404 if not theirs)
+ * 3. Enforce the user's AI quota, unless the provider is template
+ *    (lib/ai/usage.ts)
+ * 4. Prompt the model with the original input, the suggestion being replaced
+ *    and the rest of the set, so the replacement doesn't duplicate them
+ *    (suggestion-replacement prompt in lib/ai/prompts.ts)
+ * 5. Moderate the candidates (lib/ai/moderation.ts) and pick one that
+ *    doesn't repeat the set
+ * 6. Swap the suggestion in place; the old one goes to replaced_suggestions
+ * 7. Return the new suggestion
+ *
+ * The new suggestion gets a new id. Completions recorded against the old id
+ * are kept as they are; prerequisites pointing at it move to the new one.
+ * If the set's suggestions changed after step 2 (suggestions_updated_at),
+ * nothing is saved and the route returns 409.
+ *
+ * Route: POST /api/profile/suggestions/[id]/regenerate
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const {
+      suggestionId,
+      feedback: rawFeedback,
+      provider: providerName,
+    } = validate(regenerateSuggestionSchema, body)
+    const {
+      fields: { feedback },
+    } = screenFields({ feedback: rawFeedback })
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: row, error: fetchError } = await supabase
+      .from('profile_suggestions')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (fetchError) throw fetchError
+    if (!row) {
+      return NextResponse.json({ error: 'Suggestions not found' }, { status: 404 })
+    }
+
+    const current = upcastProfileSuggestion(row)
+    const replaced = current.suggestions.find(s => s.id === suggestionId)
+    if (!replaced) {
+      return NextResponse.json({ error: 'Suggestion not found' }, { status: 404 })
+    }
+
+    // Sets saved before the AI routes stored their input can't be prompted again
+    const input = aiPromptSchema.safeParse(row.input_data)
+    if (!input.success) {
+      return NextResponse.json(
+        { error: 'These suggestions were created in an older format and cannot be regenerated' },
+        { status: 409 }
+      )
+    }
+
+    const others = current.suggestions.filter(s => s.id !== suggestionId)
+    const template = selectPromptTemplate('suggestion-replacement', user.id)
+    const provider = meterProvider(getSuggestionProvider(providerName), {
+      userId: user.id,
+      feature: 'suggestion-regeneration',
+    })
+    if (countsTowardsQuota(provider.name)) await enforceAiQuota(user.id)
+
+    const completion = await provider.complete({
+      input: input.data,
+      messages: template.build({ ...input.data, replaced, others, feedback }),
+      temperature: 0.9,
+      maxTokens: 300,
+    })
+
+    const parsed = parseAiResponse(completion.content)
+    const moderated = parsed.success
+      ? moderateSuggestions(parsed.suggestions)
+      : { suggestions: [], verdicts: [] }
+    const replacement = pickReplacement(moderated.suggestions, current.suggestions)
+    const recordVerdicts = () =>
+      recordModerationVerdicts(moderated.verdicts, {
+        userId: user.id,
+        feature: 'suggestion-regeneration',
+        profileSuggestionId: id,
+      })
+
+    if (!replacement) {
+      await recordVerdicts()
+      console.warn('AI replacement was unusable:', {
+        strategy: parsed.strategy,
+        attempts: parsed.attempts,
+      })
+      return NextResponse.json(
+        { error: 'Could not come up with a different suggestion. Please try again.' },
+        { status: 502 }
+      )
+    }
+
+    const stored = toStoredSuggestion(replacement)
+    const updates = replaceSuggestion(current, suggestionId, stored, { feedback })!
+
+    // Only save over the set that was loaded - another regeneration may have
+    // replaced a suggestion in the meantime
+    const { data: saved, error: updateError } = await supabase
+      .from('profile_suggestions')
+      .update(updates)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .eq('suggestions_updated_at', row.suggestions_updated_at)
+      .select('id')
+
+    if (updateError) throw updateError
+
+    await recordVerdicts()
+
+    if (!(saved || []).length) {
+      return NextResponse.json(
+        {
+          error: 'These suggestions changed while a new one was being generated. Please try again.',
+        },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      suggestion: stored,
+      replacedId: suggestionId,
+      metadata: {
+        provider: provider.name,
+        promptVersion: promptId(template),
+        model: completion.model,
+        parseStrategy: parsed.strategy,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof PromptInjectionError ||
+      error instanceof SyntaxError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, period: error.period, limit: error.limit },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      )
+    }
+
+    if (error instanceof AiProviderError) {
+      console.error(`AI provider (${error.provider}) error:`, error.cause ?? error)
+      return NextResponse.json(
+        { error: 'The AI service is temporarily unavailable. Please try again later.' },
+        { status: 503 }
+      )
+    }
+
+    console.error('Regenerate suggestion error:', error)
+    return NextResponse.json({ error: 'Failed to regenerate suggestion' }, { status: 500 })
+  }
+}
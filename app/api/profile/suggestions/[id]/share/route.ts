@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server'
+import { shareStatus } from '@/lib/sharing/share'
+import { createShareLink, deleteShareLink, loadShareLink } from '@/lib/sharing/server'
+import { loadProfileSuggestion } from '@/lib/suggestions/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+
+/**
+ * Suggestion Sharing Endpoint
+ *
+ * Turns the public, read-only page of a suggestion set on and off
+ * (lib/sharing/share.ts). The page shows the set's current suggestions
+ * without their reasons, and never the input they were generated from
+ * (userBackground, goals).
+ *
+ * GET: whether the set is shared ({ share: { url, createdAt } | null })
+ * PUT: share the set - 201 with the new URL, or 200 with the current one
+ *      if it was already shared
+ * DELETE: unshare the set - the URL returns 404 from then on
+ *
+ * Route: GET/PUT/DELETE /api/profile/suggestions/[id]/share
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const link = await loadShareLink(user.id, 'suggestions', id)
+    return NextResponse.json({ success: true, share: link && shareStatus(link, req.url) })
+  } catch (error) {
+    console.error('Load suggestion sharing error:', error)
+    return NextResponse.json({ error: 'Failed to load sharing' }, { status: 500 })
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const set = await loadProfileSuggestion(id, user.id)
+    if (!set) {
+      return NextResponse.json({ error: 'Suggestions not found' }, { status: 404 })
+    }
+
+    const { link, created } = await createShareLink(user.id, 'suggestions', set.id)
+    return NextResponse.json(
+      { success: true, share: shareStatus(link, req.url) },
+      { status: created ? 201 : 200 }
+    )
+  } catch (error) {
+    console.error('Share suggestions error:', error)
+    return NextResponse.json({ error: 'Failed to share suggestions' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await deleteShareLink(user.id, 'suggestions', id))) {
+      return NextResponse.json({ error: 'Suggestions are not shared' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unshare suggestions error:', error)
+    return NextResponse.json({ error: 'Failed to unshare suggestions' }, { status: 500 })
+  }
+}
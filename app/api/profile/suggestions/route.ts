@@ -1,278 +1,222 @@
 import { NextResponse } from 'next/server'
-import { getOpenAIClient } from '@/lib/openai/client'
-import { createServiceClient } from '@/lib/supabase/client'
-import { validate, aiPromptSchema, aiResponseSchema } from '@/lib/validation/schemas'
-import type { Suggestion } from '@/lib/validation/schemas'
+import { promptId, selectPromptTemplate } from '@/lib/ai/prompts'
+import { FALLBACK_SUGGESTIONS, parseAiResponse } from '@/lib/ai/parser'
+import { AiProviderError, CircuitOpenError, getSuggestionProvider } from '@/lib/ai/providers'
+import { PromptInjectionError, screenPromptInput } from '@/lib/ai/safety'
+import {
+  moderateSuggestions,
+  recordModerationVerdicts,
+  type ModerationVerdict,
+} from '@/lib/ai/moderation'
+import { lookupSuggestionCache, storeSuggestionCache } from '@/lib/ai/cache'
+import {
+  countsTowardsQuota,
+  enforceAiQuota,
+  meterProvider,
+  QuotaExceededError,
+} from '@/lib/ai/usage'
+import {
+  dedupeSuggestions,
+  hasSuggestionHistory,
+  loadSuggestionHistory,
+} from '@/lib/suggestions/history'
+import { toStoredSuggestions } from '@/lib/suggestions/model'
+import { createServiceClient, getUserFromRequest } from '@/lib/supabase/client'
+import {
+  validate,
+  suggestionsRequestSchema,
+  ValidationError,
+  type AiSuggestion,
+} from '@/lib/validation/schemas'
 
 /**
  * AI-Powered Profile Suggestions Endpoint
  *
- * TODO: Implement AI-powered personalized learning suggestions
- *
- * This endpoint demonstrates how to integrate AI into your application
- * to provide personalized recommendations based on user profile data.
- *
- * Requirements:
- * 1. Authenticate the user (only logged-in users can get suggestions)
- * 2. Validate user input (background, goals, experience level)
- * 3. Build a personalized AI prompt
- * 4. Call OpenAI API to generate suggestions
- * 5. Parse and validate AI response
- * 6. Store suggestions in database
- * 7. Return suggestions to frontend
- *
- * Learning Objectives:
- * - AI integration (OpenAI API)
- * - Prompt engineering (getting quality AI responses)
- * - JSON parsing from AI responses
- * - Database operations (storing AI results)
- * - Authentication in API routes
- * - Complex error handling
+ * Generates personalized learning suggestions from the user's background,
+ * goals and experience level, stores them and returns them.
+ *
+ * Flow:
+ * 1. Validate input (background, goals, experience level, optional provider),
+ *    redact PII and screen for prompt injection (lib/ai/safety.ts)
+ * 2. Authenticate the user (Authorization: Bearer <access token>)
+ * 3. Load the user's suggestion history (lib/suggestions/history.ts)
+ * 4. Pick the prompt version from the prompt registry (lib/ai/prompts.ts)
+ * 5. Look up cached suggestions for similar input (lib/ai/cache.ts) -
+ *    only for users without history, since the prompt is personalized otherwise
+ * 6. On a cache miss:
+ *    - Enforce the user's daily/monthly AI quota, unless the provider is
+ *      template (lib/ai/usage.ts)
+ *    - Generate a completion with the selected SuggestionProvider (metered in ai_usage)
+ *    - Parse and validate the AI response (lib/ai/parser.ts)
+ *    - Moderate it (lib/ai/moderation.ts) and cache it
+ *    - If the provider's circuit breaker is open after repeated failures
+ *      (lib/ai/resilience.ts), use the fallback suggestions instead
+ * 7. Drop repeated titles and titles the user already completed
+ * 8. Store suggestions in profile_suggestions, with the prompt version used,
+ *    the screened input (including its safety report) and moderation verdicts
+ * 9. Return suggestions to the frontend
+ *
+ * The provider defaults to AI_PROVIDER and can be overridden per request
+ * with `provider: 'openai' | 'local' | 'template'`. See lib/ai/providers.ts.
+ * `cache: 'bypass'` forces a fresh generation (and refreshes the cache).
+ *
+ * For progressive results, see the streaming variant:
+ * POST /api/profile/suggestions/stream
  *
  * Route: POST /api/profile/suggestions
  * Reference: docs/ai-integration.md
  */
 export async function POST(req: Request) {
   try {
-    // TODO: Step 1 - Parse request body
-    // Hint: const body = await req.json()
-
-    // TODO: Step 2 - Validate input with aiPromptSchema
-    // Hint: const validated = validate(aiPromptSchema, body)
-    // This gives you: { userBackground, currentGoals?, experienceLevel }
-
-    // TODO: Step 3 - Authenticate user
-    // Get the current user from Supabase
-    // If no user, return 401 Unauthorized
-    // Hint: const supabase = createServiceClient()
-    //       const { data: { user }, error } = await supabase.auth.getUser()
-    //       if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-
-    // TODO: Step 4 - Build AI prompt
-    // Create a personalized prompt using the validated input
-    // See buildProfileSuggestionPrompt() helper function below
-    // Hint: const prompt = buildProfileSuggestionPrompt(validated)
-
-    // TODO: Step 5 - Call OpenAI API
-    // Use the openai client to generate suggestions
-    // Request JSON format for easy parsing
-    // Hint: const completion = await openai.chat.completions.create({
-    //   model: 'gpt-4',
-    //   messages: [
-    //     { role: 'system', content: 'You are a helpful learning advisor...' },
-    //     { role: 'user', content: prompt }
-    //   ],
-    //   temperature: 0.7,
-    //   max_tokens: 800,
-    // })
-
-    // TODO: Step 6 - Extract AI response
-    // Get the text content from the completion
-    // Hint: const aiResponse = completion.choices[0].message.content
-
-    // TODO: Step 7 - Parse AI response
-    // Extract and validate JSON from the AI response
-    // Use parseSuggestions() helper function below
-    // Hint: const suggestions = parseSuggestions(aiResponse || '')
-
-    // TODO: Step 8 - Store in database
-    // Save the suggestions to the profile_suggestions table
-    // Include user_id, suggestions, and input_data
-    // Hint: await supabase.from('profile_suggestions').insert({
-    //   user_id: user.id,
-    //   suggestions,
-    //   input_data: validated,
-    // })
+    const body = await req.json()
+    const { provider: providerName, cache, ...rawInput } = validate(suggestionsRequestSchema, body)
+    // Everything below (prompt, cache, storage) sees the redacted input only
+    const { input: validated, report: safety } = screenPromptInput(rawInput)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
 
-    // TODO: Step 9 - Return success response
-    // Return 200 with suggestions and metadata
-    // Hint: return NextResponse.json({
-    //   success: true,
-    //   suggestions,
-    //   metadata: { experienceLevel: validated.experienceLevel, timestamp: new Date().toISOString() }
-    // })
+    const history = await loadSuggestionHistory(user.id)
+    const template = selectPromptTemplate('profile-suggestions', user.id)
+    const provider = getSuggestionProvider(providerName)
+    const cacheScope = {
+      input: validated,
+      userId: user.id,
+      promptVersion: promptId(template),
+      provider: provider.name,
+      model: provider.model,
+    }
+    const cached = await lookupSuggestionCache(cacheScope, {
+      bypass: cache === 'bypass',
+      skip: hasSuggestionHistory(history),
+    })
+
+    let generated: { suggestions: AiSuggestion[]; model: string; parseStrategy: string }
+    let verdicts: ModerationVerdict[] = []
+
+    if (cached.suggestions) {
+      // Cache hits don't call the model, so they don't count towards the quota
+      generated = { suggestions: cached.suggestions, model: provider.model, parseStrategy: 'cache' }
+    } else {
+      if (countsTowardsQuota(provider.name)) await enforceAiQuota(user.id)
+
+      try {
+        const completion = await meterProvider(provider, {
+          userId: user.id,
+          feature: 'profile-suggestions',
+        }).complete({
+          input: validated,
+          messages: template.build({ ...validated, history }),
+          temperature: 0.7,
+          maxTokens: 800,
+        })
+
+        const parsed = parseAiResponse(completion.content)
+        if (parsed.strategy !== 'direct') {
+          console.warn('AI response needed repair:', {
+            strategy: parsed.strategy,
+            attempts: parsed.attempts,
+          })
+        }
+
+        // Only model output is moderated - the generic fallback suggestions are ours
+        const moderated = parsed.success
+          ? moderateSuggestions(parsed.suggestions)
+          : { suggestions: parsed.suggestions, verdicts: [] }
+        verdicts = moderated.verdicts
+
+        // Never cache the generic fallback suggestions
+        if (parsed.success && moderated.suggestions.length > 0) {
+          await storeSuggestionCache(cacheScope, cached, moderated.suggestions)
+        }
+
+        generated = {
+          suggestions: moderated.suggestions,
+          model: completion.model,
+          parseStrategy: parsed.strategy,
+        }
+      } catch (error) {
+        // The provider keeps failing (lib/ai/resilience.ts) - generic suggestions beat a 503
+        if (!(error instanceof CircuitOpenError)) throw error
+
+        console.warn(`AI provider (${error.provider}) circuit is open, using fallback suggestions`)
+        generated = {
+          suggestions: FALLBACK_SUGGESTIONS,
+          model: provider.model,
+          parseStrategy: 'circuit-open',
+        }
+      }
+    }
 
-    return NextResponse.json({ error: 'Not implemented yet' }, { status: 501 })
+    const deduped = dedupeSuggestions(generated.suggestions, history)
+    // Everything was rejected or repeated the user's history - generic suggestions beat an empty set
+    const suggestions = toStoredSuggestions(deduped.length ? deduped : FALLBACK_SUGGESTIONS)
+
+    const supabase = createServiceClient()
+    const { data: row, error: dbError } = await supabase
+      .from('profile_suggestions')
+      .insert({
+        user_id: user.id,
+        suggestions,
+        input_data: { ...validated, safety },
+        prompt_version: promptId(template),
+      })
+      .select('id')
+      .single()
+
+    if (dbError) throw dbError
+
+    await recordModerationVerdicts(verdicts, {
+      userId: user.id,
+      feature: 'profile-suggestions',
+      profileSuggestionId: row.id,
+    })
+
+    return NextResponse.json({
+      success: true,
+      id: row.id,
+      suggestions,
+      metadata: {
+        experienceLevel: validated.experienceLevel,
+        provider: provider.name,
+        promptVersion: promptId(template),
+        model: generated.model,
+        parseStrategy: generated.parseStrategy,
+        cache: cached.status,
+        timestamp: new Date().toISOString(),
+      },
+    })
   } catch (error) {
-    // TODO: Handle different types of errors
-
-    // Validation errors (from Zod)
-    // Return 400 Bad Request
+    if (
+      error instanceof ValidationError ||
+      error instanceof PromptInjectionError ||
+      error instanceof SyntaxError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
 
-    // OpenAI API errors (rate limit, API key, etc.)
-    // Return 503 Service Unavailable
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, period: error.period, limit: error.limit },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      )
+    }
 
-    // Database errors
-    // Return 500 Internal Server Error
+    if (error instanceof AiProviderError) {
+      console.error(`AI provider (${error.provider}) error:`, error.cause ?? error)
+      return NextResponse.json(
+        { error: 'The AI service is temporarily unavailable. Please try again later.' },
+        { status: 503 }
+      )
+    }
 
     console.error('Profile suggestions error:', error)
     return NextResponse.json({ error: 'Failed to generate suggestions' }, { status: 500 })
   }
 }
 
-/**
- * HELPER FUNCTION: Build AI Prompt
- *
- * TODO: Implement this function to create a personalized prompt
- *
- * The prompt should:
- * 1. Include the user's experience level
- * 2. Include their background
- * 3. Include their goals (if provided)
- * 4. Ask for 3-5 specific suggestions
- * 5. Request JSON format for easy parsing
- *
- * Each suggestion should have:
- * - title: Name of the skill/area
- * - reason: Why it's relevant to their background
- * - action: Concrete step they can take this week
- */
-function buildProfileSuggestionPrompt(data: {
-  userBackground: string
-  currentGoals?: string
-  experienceLevel: 'beginner' | 'intermediate' | 'advanced'
-}): string {
-  // TODO: Build the prompt string
-  // Example structure:
-  // "I'm a [level] software engineer who wants to improve.
-  //  Background: [background]
-  //  Goals: [goals]
-  //  Please suggest 3-5 specific things to focus on..."
-
-  return `
-TODO: Build personalized prompt here
-
-Include:
-- Experience level: ${data.experienceLevel}
-- Background: ${data.userBackground}
-- Goals: ${data.currentGoals || 'Not specified'}
-
-Ask for JSON response with structure:
-{
-  "suggestions": [
-    {
-      "title": "Skill name",
-      "reason": "Why this matters",
-      "action": "Specific next step"
-    }
-  ]
-}
-`.trim()
-}
-
-/**
- * HELPER FUNCTION: Parse AI Response
- *
- * TODO: Implement this function to extract suggestions from AI response
- *
- * The AI might return:
- * - Clean JSON (best case)
- * - JSON wrapped in markdown code blocks
- * - JSON with extra text before/after
- * - Invalid JSON (worst case - need fallback)
- *
- * Handle all cases gracefully!
- */
-function parseSuggestions(rawResponse: string): Suggestion[] {
-  try {
-    // TODO: Extract JSON from response
-    // Hint: Use regex to find JSON object: const jsonMatch = rawResponse.match(/\{[\s\S]*\}/)
-
-    // TODO: Parse JSON
-    // Hint: const parsed = JSON.parse(jsonMatch[0])
-
-    // TODO: Validate structure with aiResponseSchema
-    // Hint: const validated = aiResponseSchema.parse(parsed)
-
-    // TODO: Return suggestions array
-    // Hint: return validated.suggestions
-
-    // Temporary fallback - replace with actual implementation
-    return [
-      {
-        title: 'Start with Fundamentals',
-        reason: 'Building a strong foundation is crucial for long-term growth',
-        action: 'Complete one online tutorial on core programming concepts this week',
-      },
-    ]
-  } catch (error) {
-    // TODO: Handle parsing errors
-    // Log the error and return fallback suggestions
-
-    console.error('Failed to parse AI response:', error)
-
-    // Return generic fallback suggestion
-    return [
-      {
-        title: 'Start with Fundamentals',
-        reason: 'Building a strong foundation is crucial for long-term growth',
-        action: 'Complete one online tutorial on core programming concepts this week',
-      },
-    ]
-  }
-}
-
-/**
- * IMPLEMENTATION STEPS:
- *
- * Step 1: Input Validation
- * ────────────────────────
- * const body = await req.json()
- * const validated = validate(aiPromptSchema, body)
- * // Now you have type-safe: { userBackground, currentGoals?, experienceLevel }
- *
- * Step 2: Authentication
- * ────────────────────────
- * const supabase = createServiceClient()
- * const { data: { user }, error } = await supabase.auth.getUser()
- * if (error || !user) {
- *   return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
- * }
- *
- * Step 3: Build Prompt
- * ────────────────────────
- * const prompt = buildProfileSuggestionPrompt(validated)
- *
- * Step 4: Call OpenAI
- * ────────────────────────
- * const completion = await openai.chat.completions.create({
- *   model: 'gpt-4',
- *   messages: [
- *     {
- *       role: 'system',
- *       content: 'You are a helpful learning advisor for software engineers.'
- *     },
- *     { role: 'user', content: prompt }
- *   ],
- *   temperature: 0.7,
- *   max_tokens: 800,
- * })
- *
- * Step 5: Parse Response
- * ────────────────────────
- * const aiResponse = completion.choices[0].message.content
- * const suggestions = parseSuggestions(aiResponse || '')
- *
- * Step 6: Store in Database
- * ────────────────────────
- * await supabase.from('profile_suggestions').insert({
- *   user_id: user.id,
- *   suggestions,
- *   input_data: validated,
- * })
- *
- * Step 7: Return Response
- * ────────────────────────
- * return NextResponse.json({
- *   success: true,
- *   suggestions,
- *   metadata: {
- *     experienceLevel: validated.experienceLevel,
- *     timestamp: new Date().toISOString(),
- *   },
- * })
- */
-
 /**
  * PROMPT ENGINEERING TIPS:
  *
@@ -324,11 +268,18 @@ function parseSuggestions(rawResponse: string): Suggestion[] {
  *    Body: { "userBackground": "short", "experienceLevel": "beginner" }
  *    Expected: 400, validation error
  *
- * 4. Missing OpenAI API key:
+ * 4. Missing OpenAI API key (provider: "openai"):
  *    Expected: 503, service unavailable
  *
+ * 4b. Offline run without an API key:
+ *    Body: { ..., "provider": "template" }
+ *    Expected: 200, deterministic template suggestions
+ *
  * 5. Database connection failure:
  *    Expected: 500, internal server error
+ *
+ * 6. Quota used up (AI_QUOTA_DAILY=1, second request of the day):
+ *    Expected: 429, Retry-After header with seconds until midnight UTC
  */
 
 /**
@@ -342,9 +293,12 @@ function parseSuggestions(rawResponse: string): Suggestion[] {
  * - GPT-4: ~$30/month
  * - GPT-3.5-turbo: ~$2/month
  *
+ * Every call is recorded in ai_usage with tokens and estimated cost:
+ *   select date_trunc('day', created_at), sum(estimated_cost) from ai_usage group by 1
+ *
  * Optimization strategies:
- * 1. Rate limit: 1 request per user per day
- * 2. Cache similar backgrounds/suggestions
+ * 1. Rate limit: per-user quotas via AI_QUOTA_DAILY / AI_QUOTA_MONTHLY
+ * 2. Cache similar backgrounds/suggestions (suggestion_cache, see suggestion_cache_stats)
  * 3. Use GPT-3.5-turbo for simple cases
  * 4. Implement request queue for high traffic
  */
@@ -0,0 +1,273 @@
+import { NextResponse } from 'next/server'
+import { FALLBACK_SUGGESTIONS, parseAiResponse } from '@/lib/ai/parser'
+import { promptId, selectPromptTemplate } from '@/lib/ai/prompts'
+import { AiProviderError, CircuitOpenError, getSuggestionProvider } from '@/lib/ai/providers'
+import { PromptInjectionError, screenPromptInput } from '@/lib/ai/safety'
+import {
+  getModerationConfig,
+  moderateSuggestion,
+  recordModerationVerdicts,
+  type ModerationVerdict,
+} from '@/lib/ai/moderation'
+import { lookupSuggestionCache, storeSuggestionCache } from '@/lib/ai/cache'
+import {
+  countsTowardsQuota,
+  enforceAiQuota,
+  meterProvider,
+  QuotaExceededError,
+} from '@/lib/ai/usage'
+import {
+  createSuggestionStreamParser,
+  encodeSSE,
+  type SuggestionStreamEvent,
+} from '@/lib/ai/stream'
+import {
+  createSuggestionDeduper,
+  hasSuggestionHistory,
+  loadSuggestionHistory,
+} from '@/lib/suggestions/history'
+import { linkPrerequisites, toStoredSuggestion } from '@/lib/suggestions/model'
+import { createServiceClient, getUserFromRequest } from '@/lib/supabase/client'
+import { validate, suggestionsRequestSchema, ValidationError } from '@/lib/validation/schemas'
+import type { AiSuggestion, Suggestion } from '@/lib/validation/schemas'
+
+const MAX_SUGGESTIONS = 10
+
+/**
+ * Streaming AI Profile Suggestions Endpoint
+ *
+ * Same input, auth, history, cache and storage as POST /api/profile/suggestions, but the
+ * response is a server-sent event stream. Each suggestion is sent as soon
+ * as it has been generated and validated against suggestionSchema, so the
+ * UI can render cards while the model is still writing. Each suggestion is
+ * moderated (lib/ai/moderation.ts), and repeated titles and titles the user
+ * already completed are dropped before it is sent.
+ *
+ * Events:
+ * - suggestion: stored Suggestion ({ id, title, reason, action, ... })
+ * - done:       { id, count, metadata } - sent after the set is stored
+ * - error:      { error } - generation failed part-way through
+ *
+ * Validation and prompt-injection rejection (400), auth (401) and quota
+ * (429, with Retry-After) errors are returned as plain JSON before the
+ * stream starts. Input is screened like in the non-streaming route, and an
+ * open circuit breaker (lib/ai/resilience.ts) streams the fallback suggestions.
+ * If the client goes away mid-stream, the model request is aborted and
+ * nothing is stored.
+ *
+ * Route: POST /api/profile/suggestions/stream
+ * Client helper: readSSE() in lib/ai/stream.ts
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    const { provider: providerName, cache, ...rawInput } = validate(suggestionsRequestSchema, body)
+    // Everything below (prompt, cache, storage) sees the redacted input only
+    const { input: validated, report: safety } = screenPromptInput(rawInput)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const history = await loadSuggestionHistory(user.id)
+    const template = selectPromptTemplate('profile-suggestions', user.id)
+    const baseProvider = getSuggestionProvider(providerName)
+    const cacheScope = {
+      input: validated,
+      userId: user.id,
+      promptVersion: promptId(template),
+      provider: baseProvider.name,
+      model: baseProvider.model,
+    }
+    const cached = await lookupSuggestionCache(cacheScope, {
+      bypass: cache === 'bypass',
+      skip: hasSuggestionHistory(history),
+    })
+
+    // Cache hits don't call the model, so they don't count towards the quota
+    if (!cached.suggestions && countsTowardsQuota(baseProvider.name)) {
+      await enforceAiQuota(user.id)
+    }
+
+    const provider = meterProvider(baseProvider, {
+      userId: user.id,
+      feature: 'profile-suggestions',
+    })
+    const moderationConfig = getModerationConfig()
+    const encoder = new TextEncoder()
+    const abort = new AbortController()
+    let closed = false
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: SuggestionStreamEvent) => {
+          if (!closed) controller.enqueue(encoder.encode(encodeSSE(event)))
+        }
+        const parser = createSuggestionStreamParser()
+        const isNew = createSuggestionDeduper(history)
+        const generated: AiSuggestion[] = []
+        const suggestions: Suggestion[] = []
+        const verdicts: ModerationVerdict[] = []
+        let raw = ''
+        let streamed = 0
+
+        const push = (suggestion: AiSuggestion) => {
+          const stored = toStoredSuggestion(suggestion)
+          generated.push(suggestion)
+          suggestions.push(stored)
+          send({ event: 'suggestion', data: stored })
+        }
+        const emit = (suggestion: AiSuggestion) => {
+          if (isNew(suggestion)) push(suggestion)
+        }
+        // Model output is moderated first; cached suggestions already were
+        const emitModerated = (suggestion: AiSuggestion) => {
+          const verdict = moderateSuggestion(suggestion, moderationConfig)
+          verdicts.push(verdict)
+          if (verdict.suggestion) emit(verdict.suggestion)
+        }
+
+        try {
+          if (cached.suggestions) {
+            cached.suggestions.forEach(emit)
+          } else {
+            try {
+              for await (const delta of provider.stream({
+                input: validated,
+                messages: template.build({ ...validated, history }),
+                temperature: 0.7,
+                maxTokens: 800,
+                signal: abort.signal,
+              })) {
+                raw += delta
+                for (const suggestion of parser.push(delta)) {
+                  if (suggestions.length >= MAX_SUGGESTIONS) break
+                  streamed++
+                  emitModerated(suggestion)
+                }
+              }
+
+              // Nothing streamed cleanly (e.g. a single object or a bare array) - parse the
+              // whole response instead, which also falls back to generic suggestions
+              let cacheable = streamed > 0
+              if (streamed === 0) {
+                const parsed = parseAiResponse(raw)
+                console.warn('AI stream needed repair:', {
+                  strategy: parsed.strategy,
+                  attempts: parsed.attempts,
+                })
+
+                parsed.suggestions.forEach(parsed.success ? emitModerated : emit)
+                cacheable = parsed.success
+              }
+
+              // Never cache the generic fallback suggestions
+              if (cacheable && generated.length > 0) {
+                await storeSuggestionCache(cacheScope, cached, generated)
+              }
+            } catch (error) {
+              // The provider keeps failing (lib/ai/resilience.ts) - the fallback below takes over
+              if (!(error instanceof CircuitOpenError)) throw error
+              console.warn(
+                `AI provider (${error.provider}) circuit is open, using fallback suggestions`
+              )
+            }
+          }
+
+          // The client went away - there's no one to show the set to
+          if (closed) return
+
+          // Everything was rejected or repeated the user's history - generic suggestions beat an empty set
+          if (suggestions.length === 0) FALLBACK_SUGGESTIONS.forEach(push)
+
+          const supabase = createServiceClient()
+          const { data: row, error: dbError } = await supabase
+            .from('profile_suggestions')
+            .insert({
+              user_id: user.id,
+              // Prerequisites can point at later suggestions, so they are linked once the set is complete
+              suggestions: linkPrerequisites(suggestions, generated),
+              input_data: { ...validated, safety },
+              prompt_version: promptId(template),
+            })
+            .select('id')
+            .single()
+
+          if (dbError) throw dbError
+
+          await recordModerationVerdicts(verdicts, {
+            userId: user.id,
+            feature: 'profile-suggestions',
+            profileSuggestionId: row.id,
+          })
+
+          send({
+            event: 'done',
+            data: {
+              id: row.id,
+              count: suggestions.length,
+              metadata: {
+                experienceLevel: validated.experienceLevel,
+                provider: provider.name,
+                promptVersion: promptId(template),
+                model: provider.model,
+                cache: cached.status,
+                timestamp: new Date().toISOString(),
+              },
+            },
+          })
+        } catch (error) {
+          // Aborting the model request after a disconnect ends up here
+          if (closed) return
+
+          console.error('Profile suggestions stream error:', error)
+          send({
+            event: 'error',
+            data: {
+              error:
+                error instanceof AiProviderError
+                  ? 'The AI service is temporarily unavailable. Please try again later.'
+                  : 'Failed to generate suggestions',
+            },
+          })
+        } finally {
+          if (!closed) {
+            closed = true
+            controller.close()
+          }
+        }
+      },
+      cancel() {
+        closed = true
+        abort.abort()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof PromptInjectionError ||
+      error instanceof SyntaxError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, period: error.period, limit: error.limit },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      )
+    }
+
+    console.error('Profile suggestions stream error:', error)
+    return NextResponse.json({ error: 'Failed to generate suggestions' }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { localDay } from '@/lib/activity/streaks'
+import { gradeReviewItem } from '@/lib/reviews/server'
+import { ReviewNotDueError } from '@/lib/reviews/sm2'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { gradeReviewSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Grade a Review Endpoint
+ *
+ * Flow:
+ * 1. Validate input ({ grade, timeZone? }) - grade is recall from 0
+ *    (blackout) to 5 (perfect)
+ * 2. Authenticate the user and load their review item (404 if not theirs)
+ * 3. Check it's due today in the user's time zone (409 if not)
+ * 4. Update its SM-2 repetitions, interval and ease factor, and set the next due day
+ * 5. Log the review in activity_events, so it counts towards the streak
+ * 6. Return the rescheduled item
+ *
+ * Route: POST /api/reviews/[id]
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const { grade, timeZone } = validate(gradeReviewSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const item = await gradeReviewItem(user.id, id, grade, localDay(new Date(), timeZone))
+    if (!item) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, item })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof ReviewNotDueError) {
+      return NextResponse.json({ error: error.message, dueOn: error.dueOn }, { status: 409 })
+    }
+
+    console.error('Grade review error:', error)
+    return NextResponse.json({ error: 'Failed to grade review' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { localDay } from '@/lib/activity/streaks'
+import { loadReviewQueue } from '@/lib/reviews/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { timeZoneSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Review Today Endpoint
+ *
+ * Completed suggestions come back for review on a spaced-repetition
+ * schedule (lib/reviews/sm2.ts). This returns the ones to review today.
+ *
+ * Flow:
+ * 1. Validate ?timeZone= (IANA name, default UTC) - "today" is today there
+ * 2. Authenticate the user
+ * 3. Load their review items due today or earlier, most overdue first,
+ *    each with the suggestion it reviews
+ * 4. Return { today, due, nextDueOn } - nextDueOn is the next day something
+ *    comes due after today
+ *
+ * Grade each item with POST /api/reviews/[id].
+ *
+ * Route: GET /api/reviews
+ */
+export async function GET(req: Request) {
+  try {
+    const timeZone = validate(
+      timeZoneSchema,
+      new URL(req.url).searchParams.get('timeZone') ?? undefined
+    )
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const today = localDay(new Date(), timeZone)
+    const queue = await loadReviewQueue(user.id, today)
+    return NextResponse.json({ success: true, today, ...queue })
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Load reviews error:', error)
+    return NextResponse.json({ error: 'Failed to load reviews' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { loadSharedPage } from '@/lib/sharing/server'
+
+/**
+ * Shared Page Endpoint
+ *
+ * The content of a shared learning path or suggestion set, as JSON - the
+ * same as the page at /share/[slug] shows. No authentication: the slug is
+ * the credential, and the content has nothing about its owner
+ * (lib/sharing/share.ts).
+ *
+ * Route: GET /api/share/[slug]
+ *
+ * Returns:
+ * - 200: { page: { kind: 'learning-path' | 'suggestions', ... } }
+ * - 404: unknown slug, or the item was unshared
+ */
+export async function GET(_req: Request, { params }: { params: Promise<{ slug: string }> }) {
+  try {
+    const { slug } = await params
+
+    const page = await loadSharedPage(slug)
+    if (!page) {
+      return NextResponse.json({ error: 'Shared page not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      { success: true, page },
+      { headers: { 'Cache-Control': 'no-store', 'X-Robots-Tag': 'noindex' } }
+    )
+  } catch (error) {
+    console.error('Load shared page error:', error)
+    return NextResponse.json({ error: 'Failed to load shared page' }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server'
+import { loadLearningPath } from '@/lib/paths/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { canManageTeam } from '@/lib/teams/roles'
+import { assignTeamPath, loadTeamAssignments, loadTeamRole } from '@/lib/teams/server'
+import { assignTeamPathSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Team Assignments Endpoint
+ *
+ * GET: paths assigned to the team, newest first (any member)
+ *
+ * POST flow:
+ * 1. Validate input ({ pathId })
+ * 2. Authenticate the user - owners and admins only (403)
+ * 3. Load the path - it must be the user's own (404)
+ * 4. Snapshot its milestones, steps and prerequisites, without progress,
+ *    and give every member (role 'member') their own copy. Members who join
+ *    later get one when they accept their invitation. Later edits of the
+ *    path aren't passed on - assign it again for that
+ * 5. Return the assignment and how many members got a copy (201)
+ *
+ * Route: GET/POST /api/teams/[id]/assignments
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await loadTeamRole(id, user.id))) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+
+    const assignments = await loadTeamAssignments(id)
+    return NextResponse.json({ success: true, assignments })
+  } catch (error) {
+    console.error('Load team assignments error:', error)
+    return NextResponse.json({ error: 'Failed to load assignments' }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const { pathId } = validate(assignTeamPathSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = await loadTeamRole(id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!canManageTeam(role)) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can assign paths' },
+        { status: 403 }
+      )
+    }
+
+    const path = await loadLearningPath(pathId, user.id)
+    if (!path) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    const { assignment, assignedTo } = await assignTeamPath(id, user.id, path)
+    return NextResponse.json({ success: true, assignment, assignedTo }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Assign team path error:', error)
+    return NextResponse.json({ error: 'Failed to assign learning path' }, { status: 500 })
+  }
+}
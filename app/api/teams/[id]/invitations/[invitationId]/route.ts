@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { canManageTeam } from '@/lib/teams/roles'
+import { deleteTeamInvitation, loadTeamRole } from '@/lib/teams/server'
+
+/**
+ * Team Invitation Endpoint
+ *
+ * DELETE: revoke a pending invitation (owners and admins) - its token stops
+ *         working
+ *
+ * Route: DELETE /api/teams/[id]/invitations/[invitationId]
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+) {
+  try {
+    const { id, invitationId } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = await loadTeamRole(id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!canManageTeam(role)) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can revoke invitations' },
+        { status: 403 }
+      )
+    }
+
+    if (!(await deleteTeamInvitation(id, invitationId))) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Revoke team invitation error:', error)
+    return NextResponse.json({ error: 'Failed to revoke invitation' }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { canManageTeam } from '@/lib/teams/roles'
+import { createTeamInvitation, loadTeamInvitations, loadTeamRole } from '@/lib/teams/server'
+import { createTeamInvitationSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Team Invitations Endpoint
+ *
+ * Owners and admins invite people by email (lib/teams/invitations.ts).
+ * There's no mailer yet: POST returns the invitation's secret token once,
+ * and the inviter sends it on. The invitee accepts it with
+ * POST /api/teams/invitations/accept while signed in with that address.
+ *
+ * GET: pending invitations of the team (expired ones included)
+ *
+ * POST flow:
+ * 1. Validate input ({ email, role? } - role is 'member' or 'admin')
+ * 2. Authenticate the user - owners and admins only (403)
+ * 3. Replace any pending invitation for the address with a new one, valid
+ *    for 7 days
+ * 4. Return the invitation and its token (201)
+ *
+ * Route: GET/POST /api/teams/[id]/invitations
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = await loadTeamRole(id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!canManageTeam(role)) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can see invitations' },
+        { status: 403 }
+      )
+    }
+
+    const invitations = await loadTeamInvitations(id)
+    return NextResponse.json({ success: true, invitations })
+  } catch (error) {
+    console.error('Load team invitations error:', error)
+    return NextResponse.json({ error: 'Failed to load invitations' }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const input = validate(createTeamInvitationSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = await loadTeamRole(id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!canManageTeam(role)) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can invite people' },
+        { status: 403 }
+      )
+    }
+
+    const { invitation, token } = await createTeamInvitation(id, user.id, input)
+    return NextResponse.json({ success: true, invitation, token }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Create team invitation error:', error)
+    return NextResponse.json({ error: 'Failed to create invitation' }, { status: 500 })
+  }
+}
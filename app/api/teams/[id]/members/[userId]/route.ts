@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { canChangeRole, canRemoveMember } from '@/lib/teams/roles'
+import {
+  loadTeamMember,
+  loadTeamRole,
+  removeTeamMember,
+  updateTeamMemberRole,
+} from '@/lib/teams/server'
+import { updateTeamMemberSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Team Member Endpoint
+ *
+ * PATCH: change a member's role between admin and member ({ role }). Only
+ *        the owner can, and the owner's own role can't change
+ * DELETE: remove someone from the team (lib/teams/roles.ts) - anyone but the
+ *         owner can leave, the owner can remove anyone, and admins can
+ *         remove members. They keep their copies of assigned paths
+ *
+ * Route: PATCH/DELETE /api/teams/[id]/members/[userId]
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const { id, userId } = await params
+    const body = await req.json()
+    const { role } = validate(updateTeamMemberSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const actorRole = await loadTeamRole(id, user.id)
+    const target = actorRole && (await loadTeamMember(id, userId))
+    if (!actorRole) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!target) {
+      return NextResponse.json({ error: 'Team member not found' }, { status: 404 })
+    }
+    if (!canChangeRole(actorRole, target)) {
+      return NextResponse.json(
+        { error: 'Only the owner can change the roles of other members' },
+        { status: 403 }
+      )
+    }
+
+    const member = await updateTeamMemberRole(id, userId, role)
+    return NextResponse.json({ success: true, member })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Update team member error:', error)
+    return NextResponse.json({ error: 'Failed to update team member' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const { id, userId } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const actorRole = await loadTeamRole(id, user.id)
+    const target = actorRole && (await loadTeamMember(id, userId))
+    if (!actorRole) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!target) {
+      return NextResponse.json({ error: 'Team member not found' }, { status: 404 })
+    }
+    if (!canRemoveMember({ userId: user.id, role: actorRole }, target)) {
+      return NextResponse.json(
+        {
+          error:
+            target.role === 'owner'
+              ? 'The owner cannot leave the team. Delete it instead.'
+              : 'You cannot remove this member',
+        },
+        { status: 403 }
+      )
+    }
+
+    await removeTeamMember(id, userId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Remove team member error:', error)
+    return NextResponse.json({ error: 'Failed to remove team member' }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { loadTeamProgress, loadTeamRole } from '@/lib/teams/server'
+
+/**
+ * Team Progress Endpoint
+ *
+ * The team's dashboard and leaderboard (lib/teams/progress.ts): for each
+ * member, how many steps of their assigned paths they completed, ranked by
+ * completion, plus the team's average. Visible to every member of the team.
+ *
+ * Route: GET /api/teams/[id]/progress
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await loadTeamRole(id, user.id))) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+
+    const progress = await loadTeamProgress(id)
+    return NextResponse.json({ success: true, progress })
+  } catch (error) {
+    console.error('Load team progress error:', error)
+    return NextResponse.json({ error: 'Failed to load team progress' }, { status: 500 })
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { canManageTeam } from '@/lib/teams/roles'
+import { deleteTeam, loadTeam, loadTeamMembers, loadTeamRole, updateTeam } from '@/lib/teams/server'
+import { updateTeamSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Team Endpoint
+ *
+ * Teams are only visible to their members - everyone else gets 404.
+ *
+ * GET: the team, its members with their roles, and the caller's role
+ * PATCH: rename the team or change its description (owner or admin)
+ * DELETE: delete the team with its invitations and assignments (owner only).
+ *         Members keep their copies of assigned paths
+ *
+ * Route: GET/PATCH/DELETE /api/teams/[id]
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = await loadTeamRole(id, user.id)
+    const team = role && (await loadTeam(id))
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+
+    const members = await loadTeamMembers(id)
+    return NextResponse.json({ success: true, team: { ...team, role }, members })
+  } catch (error) {
+    console.error('Load team error:', error)
+    return NextResponse.json({ error: 'Failed to load team' }, { status: 500 })
+  }
+}
+
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const input = validate(updateTeamSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = await loadTeamRole(id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!canManageTeam(role)) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can edit the team' },
+        { status: 403 }
+      )
+    }
+
+    const team = await updateTeam(id, input)
+    return NextResponse.json({ success: true, team: { ...team, role } })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Update team error:', error)
+    return NextResponse.json({ error: 'Failed to update team' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = await loadTeamRole(id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (role !== 'owner') {
+      return NextResponse.json({ error: 'Only the owner can delete the team' }, { status: 403 })
+    }
+
+    await deleteTeam(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete team error:', error)
+    return NextResponse.json({ error: 'Failed to delete team' }, { status: 500 })
+  }
+}
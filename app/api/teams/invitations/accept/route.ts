@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { TeamInvitationError } from '@/lib/teams/invitations'
+import { acceptTeamInvitation } from '@/lib/teams/server'
+import { acceptTeamInvitationSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Accept Team Invitation Endpoint
+ *
+ * Flow:
+ * 1. Validate input ({ token } - from the invitation)
+ * 2. Authenticate the user
+ * 3. Find the invitation (404 for unknown or revoked tokens)
+ * 4. Check it was sent to the user's email address (403), hasn't expired
+ *    and hasn't been used (409)
+ * 5. Add the user to the team with the invited role. Members get their own
+ *    copies of the paths assigned to the team so far
+ * 6. Return the team id and the user's role
+ *
+ * Route: POST /api/teams/invitations/accept
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    const { token } = validate(acceptTeamInvitationSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const membership = await acceptTeamInvitation(user, token)
+    if (!membership) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, ...membership })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof TeamInvitationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.problem === 'wrong-email' ? 403 : 409 }
+      )
+    }
+
+    console.error('Accept team invitation error:', error)
+    return NextResponse.json({ error: 'Failed to accept invitation' }, { status: 500 })
+  }
+}
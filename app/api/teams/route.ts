@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { createTeam, loadTeams } from '@/lib/teams/server'
+import { createTeamSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Teams Endpoint
+ *
+ * GET: the teams the user belongs to, with their role in each
+ *
+ * POST flow:
+ * 1. Validate input ({ name, description? })
+ * 2. Authenticate the user
+ * 3. Create the team - the user becomes its owner
+ * 4. Return the team (201)
+ *
+ * Route: GET/POST /api/teams
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const teams = await loadTeams(user.id)
+    return NextResponse.json({ success: true, teams })
+  } catch (error) {
+    console.error('Load teams error:', error)
+    return NextResponse.json({ error: 'Failed to load teams' }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    const input = validate(createTeamSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const team = await createTeam(user.id, input)
+    return NextResponse.json({ success: true, team: { ...team, role: 'owner' } }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Create team error:', error)
+    return NextResponse.json({ error: 'Failed to create team' }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { createLearningPath, loadPathTemplate } from '@/lib/paths/server'
+import { buildPathFromTemplate } from '@/lib/paths/templates'
+import { getUserFromRequest } from '@/lib/supabase/client'
+import { forkTemplateSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Fork Template Endpoint
+ *
+ * Flow:
+ * 1. Validate input ({ title? }) - defaults to the template's title
+ * 2. Authenticate the user and load the template (404 if it doesn't exist)
+ * 3. Create a path of the user's own with the template's milestones, steps
+ *    and prerequisites. The path keeps the template id and version, and each
+ *    step its template step key, for GET /api/paths/[id]/upstream
+ * 4. Return the new path (201)
+ *
+ * Route: POST /api/templates/[id]/fork
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const { title } = validate(forkTemplateSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const template = await loadPathTemplate(id)
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    const path = await createLearningPath(user.id, buildPathFromTemplate(template, title), {
+      source_template_id: template.id,
+      source_template_version: template.version,
+    })
+
+    return NextResponse.json({ success: true, path }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Fork template error:', error)
+    return NextResponse.json({ error: 'Failed to fork template' }, { status: 500 })
+  }
+}
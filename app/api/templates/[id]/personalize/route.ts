@@ -0,0 +1,178 @@
+import { NextResponse } from 'next/server'
+import { parseAiResponse } from '@/lib/ai/parser'
+import { promptId, selectPromptTemplate } from '@/lib/ai/prompts'
+import { AiProviderError, getSuggestionProvider } from '@/lib/ai/providers'
+import { PromptInjectionError, screenPromptInput } from '@/lib/ai/safety'
+import { moderateSuggestions, recordModerationVerdicts } from '@/lib/ai/moderation'
+import {
+  countsTowardsQuota,
+  enforceAiQuota,
+  meterProvider,
+  QuotaExceededError,
+} from '@/lib/ai/usage'
+import { createLearningPath, loadPathTemplate } from '@/lib/paths/server'
+import { buildPathFromPersonalizedTemplate, findTemplateInjections } from '@/lib/paths/templates'
+import { toStoredSuggestions } from '@/lib/suggestions/model'
+import { createServiceClient, getUserFromRequest } from '@/lib/supabase/client'
+import { personalizeTemplateSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Personalized Template Endpoint
+ *
+ * Seeds a new path from a template, with its steps adapted by the AI to the
+ * user's background and goals instead of copied as they are.
+ *
+ * Flow:
+ * 1. Validate input (aiPromptSchema plus { title?, provider? }), redact PII
+ *    and screen for prompt injection (lib/ai/safety.ts)
+ * 2. Authenticate the user and load the template (404 if it doesn't exist).
+ *    Templates are written by other users, so one whose text looks like
+ *    instructions for the AI is refused (409)
+ * 3. Enforce the user's AI quota, unless the provider is template
+ *    (lib/ai/usage.ts)
+ * 4. Prompt the model with the input and the template
+ *    (path-template-personalization prompt in lib/ai/prompts.ts)
+ * 5. Parse and moderate the steps (lib/ai/parser.ts, lib/ai/moderation.ts).
+ *    Unusable output fails the request (502) instead of creating a path
+ *    from fallback suggestions
+ * 6. Store the steps as a suggestion set, like POST /api/profile/suggestions
+ * 7. Create the path: steps the AI kept stay linked to their template step,
+ *    so upstream changes still show for them
+ * 8. Return the new path (201)
+ *
+ * Route: POST /api/templates/[id]/personalize
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const { title, provider: providerName, ...rawInput } = validate(personalizeTemplateSchema, body)
+    const { input: validated, report: safety } = screenPromptInput(rawInput)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const pathTemplate = await loadPathTemplate(id)
+    if (!pathTemplate) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    const injections = findTemplateInjections(pathTemplate)
+    if (injections.length) {
+      console.warn('Template refused for personalization:', { id, injections })
+      return NextResponse.json(
+        { error: 'This template cannot be personalized. Fork it instead.' },
+        { status: 409 }
+      )
+    }
+
+    const template = selectPromptTemplate('path-template-personalization', user.id)
+    const provider = meterProvider(getSuggestionProvider(providerName), {
+      userId: user.id,
+      feature: 'template-personalization',
+    })
+    if (countsTowardsQuota(provider.name)) await enforceAiQuota(user.id)
+
+    const completion = await provider.complete({
+      input: validated,
+      messages: template.build({ ...validated, template: pathTemplate }),
+      temperature: 0.7,
+      maxTokens: 1500,
+    })
+
+    const parsed = parseAiResponse(completion.content)
+    const moderated = parsed.success
+      ? moderateSuggestions(parsed.suggestions)
+      : { suggestions: [], verdicts: [] }
+
+    if (moderated.suggestions.length === 0) {
+      await recordModerationVerdicts(moderated.verdicts, {
+        userId: user.id,
+        feature: 'template-personalization',
+      })
+      console.warn('AI template personalization was unusable:', {
+        strategy: parsed.strategy,
+        attempts: parsed.attempts,
+      })
+      return NextResponse.json(
+        { error: 'Could not personalize the template. Please try again or fork it instead.' },
+        { status: 502 }
+      )
+    }
+
+    const suggestions = toStoredSuggestions(moderated.suggestions)
+
+    const supabase = createServiceClient()
+    const { data: row, error: dbError } = await supabase
+      .from('profile_suggestions')
+      .insert({
+        user_id: user.id,
+        suggestions,
+        input_data: { ...validated, safety },
+        prompt_version: promptId(template),
+      })
+      .select('id')
+      .single()
+
+    if (dbError) throw dbError
+
+    await recordModerationVerdicts(moderated.verdicts, {
+      userId: user.id,
+      feature: 'template-personalization',
+      profileSuggestionId: row.id,
+    })
+
+    const path = await createLearningPath(
+      user.id,
+      buildPathFromPersonalizedTemplate(pathTemplate, suggestions, title),
+      {
+        source_template_id: pathTemplate.id,
+        source_template_version: pathTemplate.version,
+        source_profile_suggestion_id: row.id,
+      }
+    )
+
+    return NextResponse.json(
+      {
+        success: true,
+        path,
+        metadata: {
+          provider: provider.name,
+          promptVersion: promptId(template),
+          model: completion.model,
+          parseStrategy: parsed.strategy,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof PromptInjectionError ||
+      error instanceof SyntaxError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, period: error.period, limit: error.limit },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      )
+    }
+
+    if (error instanceof AiProviderError) {
+      console.error(`AI provider (${error.provider}) error:`, error.cause ?? error)
+      return NextResponse.json(
+        { error: 'The AI service is temporarily unavailable. Please try again later.' },
+        { status: 503 }
+      )
+    }
+
+    console.error('Personalize template error:', error)
+    return NextResponse.json({ error: 'Failed to personalize template' }, { status: 500 })
+  }
+}
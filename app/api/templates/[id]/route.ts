@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server'
+import { loadPathTemplate } from '@/lib/paths/server'
+import { toPublicTemplate } from '@/lib/paths/templates'
+import { createServiceClient, getUserFromRequest, isAdmin } from '@/lib/supabase/client'
+import { updateTemplateSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Path Template Endpoint
+ *
+ * GET: one template with its content
+ *
+ * PATCH: feature or unfeature a template ({ featured }) - admins only (403)
+ *
+ * DELETE: unpublish a template - its author or an admin (403 otherwise).
+ * Paths forked from it are kept, without their back-reference
+ *
+ * Route: GET/PATCH/DELETE /api/templates/[id]
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const template = await loadPathTemplate(id)
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, template: toPublicTemplate(template, user.id) })
+  } catch (error) {
+    console.error('Load template error:', error)
+    return NextResponse.json({ error: 'Failed to load template' }, { status: 500 })
+  }
+}
+
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const { featured } = validate(updateTemplateSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Only admins can feature templates' }, { status: 403 })
+    }
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('path_templates')
+      .update({ featured })
+      .eq('id', id)
+      .select('id, featured')
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, template: data })
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Update template error:', error)
+    return NextResponse.json({ error: 'Failed to update template' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const template = await loadPathTemplate(id)
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+    if (template.user_id !== user.id && !isAdmin(user)) {
+      return NextResponse.json(
+        { error: 'Only the author or an admin can remove a template' },
+        { status: 403 }
+      )
+    }
+
+    const supabase = createServiceClient()
+    const { error } = await supabase.from('path_templates').delete().eq('id', id)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete template error:', error)
+    return NextResponse.json({ error: 'Failed to delete template' }, { status: 500 })
+  }
+}
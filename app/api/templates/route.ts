@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { loadLearningPath, loadPathTemplates, publishPathTemplate } from '@/lib/paths/server'
+import { toPublicTemplate } from '@/lib/paths/templates'
+import { getUserFromRequest, isAdmin } from '@/lib/supabase/client'
+import { publishTemplateSchema, validate, ValidationError } from '@/lib/validation/schemas'
+
+/**
+ * Path Templates Endpoint
+ *
+ * GET: every template, featured first, then most recently updated. Authors
+ * aren't exposed - each template only says whether it's the caller's own
+ *
+ * POST flow:
+ * 1. Validate input ({ pathId, description?, featured? })
+ * 2. Authenticate the user and load their path (404 if not theirs)
+ * 3. Only admins can feature a template (403)
+ * 4. Publish the path's milestones, steps and prerequisites - without
+ *    progress - as a template (lib/paths/templates.ts). Publishing a path
+ *    again updates its template and bumps the version, so forks can see
+ *    what changed upstream
+ * 5. Return the template (201 when it was created)
+ *
+ * Route: GET/POST /api/templates
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const templates = await loadPathTemplates()
+    return NextResponse.json({
+      success: true,
+      templates: templates.map(template => toPublicTemplate(template, user.id)),
+    })
+  } catch (error) {
+    console.error('Load templates error:', error)
+    return NextResponse.json({ error: 'Failed to load templates' }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    const { pathId, ...options } = validate(publishTemplateSchema, body)
+
+    const user = await getUserFromRequest(req)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (options.featured !== undefined && !isAdmin(user)) {
+      return NextResponse.json({ error: 'Only admins can feature templates' }, { status: 403 })
+    }
+
+    const path = await loadLearningPath(pathId, user.id)
+    if (!path) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    const { template, created } = await publishPathTemplate(path, options)
+    return NextResponse.json(
+      { success: true, template: toPublicTemplate(template, user.id) },
+      { status: created ? 201 : 200 }
+    )
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Publish template error:', error)
+    return NextResponse.json({ error: 'Failed to publish template' }, { status: 500 })
+  }
+}
@@ -0,0 +1,132 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { cache } from 'react'
+import { shareSummary, type SharedItem, type SharedPage } from '@/lib/sharing/share'
+import { loadSharedPage } from '@/lib/sharing/server'
+
+/**
+ * Public Share Page
+ *
+ * Read-only page of a shared learning path or suggestion set, for anyone
+ * with the link (see lib/sharing/share.ts). Server-rendered, so link
+ * previews get the OpenGraph title and description. Not indexed - shared
+ * pages are unlisted.
+ *
+ * Route: /share/[slug]
+ */
+
+interface SharePageProps {
+  params: Promise<{ slug: string }>
+}
+
+// generateMetadata and the page render in the same request - load once
+const loadPage = cache(loadSharedPage)
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const { slug } = await params
+  const page = await loadPage(slug)
+  if (!page) return { title: 'Not found', robots: { index: false } }
+
+  const { title, description } = shareSummary(page)
+  return {
+    title,
+    description,
+    robots: { index: false, follow: false },
+    ...(process.env.NEXT_PUBLIC_SITE_URL && {
+      metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL),
+    }),
+    openGraph: {
+      type: 'article',
+      title,
+      description,
+      url: `/share/${slug}`,
+      siteName: 'Learning Path Creator',
+    },
+    twitter: { card: 'summary', title, description },
+  }
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const { slug } = await params
+  const page = await loadPage(slug)
+  if (!page) notFound()
+
+  return (
+    <main className="mx-auto max-w-2xl space-y-8 px-4 py-12">
+      <header>
+        <p className="text-sm font-medium text-blue-600">
+          Shared {page.kind === 'learning-path' ? 'learning path' : 'suggestions'}
+        </p>
+        <h1 className="mt-1 text-3xl font-bold text-gray-900">{page.title}</h1>
+        {page.kind === 'learning-path' && page.description && (
+          <p className="mt-2 text-gray-600">{page.description}</p>
+        )}
+      </header>
+
+      <SharedContent page={page} />
+    </main>
+  )
+}
+
+function SharedContent({ page }: { page: SharedPage }) {
+  if (page.kind === 'suggestions') {
+    return (
+      <ol className="space-y-4">
+        {page.suggestions.map(suggestion => (
+          <SharedItemCard key={suggestion.id} item={suggestion} />
+        ))}
+      </ol>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      {page.milestones.map((milestone, index) => (
+        <section key={index} className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">{milestone.title}</h2>
+            {milestone.description && (
+              <p className="mt-1 text-sm text-gray-600">{milestone.description}</p>
+            )}
+          </div>
+          <ol className="space-y-4">
+            {milestone.steps.map(step => (
+              <SharedItemCard key={step.id} item={step} completed={step.completed} />
+            ))}
+          </ol>
+        </section>
+      ))}
+    </div>
+  )
+}
+
+function SharedItemCard({ item, completed }: { item: SharedItem; completed?: boolean }) {
+  return (
+    <li className="rounded-lg border-2 border-gray-200 p-5">
+      <div className="flex items-start justify-between gap-3">
+        <h3 className="text-lg font-semibold text-gray-900">{item.title}</h3>
+        {completed && (
+          <span className="shrink-0 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">
+            Done
+          </span>
+        )}
+      </div>
+      {item.action && <p className="mt-2 text-sm text-gray-700">{item.action}</p>}
+      {(item.type || item.duration) && (
+        <p className="mt-2 text-xs text-gray-500">
+          {[item.type, item.duration].filter(Boolean).join(' · ')}
+        </p>
+      )}
+      {item.url && (
+        <a
+          href={item.url}
+          className="mt-2 inline-block text-sm font-medium text-blue-600 hover:text-blue-700"
+          rel="noopener noreferrer nofollow"
+          target="_blank"
+        >
+          Open resource
+        </a>
+      )}
+    </li>
+  )
+}
@@ -3,69 +3,179 @@
 
 import { useState } from 'react'
 import { Button } from '../ui/Button'
+import { Input } from '../ui/Input'
+import { readSSE } from '@/lib/ai/stream'
+import { createClient } from '@/lib/supabase/client'
+import type { AiSuggestion, Suggestion } from '@/lib/validation/schemas'
+import type { SuggestionRefinement } from '@/types'
 
 /**
  * ProfileSuggestions Component
  *
- * TODO: Build the AI profile suggestions feature
- *
  * This component demonstrates AI integration in a real-world use case:
  * After a user signs up, we help them set up their profile by providing
  * personalized learning recommendations based on their background.
  *
- * Requirements:
- * 1. Form with: background (textarea), goals (textarea), experience level (buttons)
- * 2. Submit form to POST /api/profile/suggestions
- * 3. Show loading state while waiting for AI (3-5 seconds)
- * 4. Display suggestions in cards when received
- * 5. Handle errors gracefully with user-friendly messages
- *
- * Learning Objectives:
- * - Form state management with multiple fields
- * - API calls to AI endpoints
- * - Handling async loading states
- * - Displaying structured data from AI
- * - Error handling with good UX
+ * Features:
+ * 1. Form with: background (textarea), goals (textarea), weekly time commitment
+ *    (input), experience level (buttons)
+ * 2. Submits to POST /api/profile/suggestions/stream
+ * 3. Renders each suggestion card as soon as it is streamed back
+ * 4. Loading state while the AI is still generating
+ * 5. User-friendly error messages
+ * 6. Regenerate a single card via POST /api/profile/suggestions/[id]/regenerate
+ * 7. Refine the whole set in a chat below the cards
+ *    via POST /api/profile/suggestions/[id]/refinements
  */
 
-interface Suggestion {
-  title: string
-  reason: string
-  action: string
-}
+type ExperienceLevel = 'beginner' | 'intermediate' | 'advanced'
 
-interface ProfileSuggestionsResponse {
-  success: boolean
-  suggestions: Suggestion[]
-  metadata: {
-    experienceLevel: string
-    timestamp: string
-  }
+const EXAMPLE_SUGGESTION: AiSuggestion = {
+  title: 'Automated Testing',
+  reason: 'Tests let you change code with confidence as your projects grow',
+  action: 'Add unit tests for three functions in one of your existing projects',
 }
 
-export function ProfileSuggestions() {
-  // TODO: Add state for form fields
-  // You need: userBackground (string), currentGoals (string), experienceLevel (enum)
-  // Hint: const [userBackground, setUserBackground] = useState('')
+/**
+ * Authorization header for the signed-in user's API requests
+ */
+async function authHeaders(): Promise<Record<string, string>> {
+  const {
+    data: { session },
+  } = await createClient().auth.getSession()
 
-  // TODO: Add state for suggestions array
-  // Hint: const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {}
+}
 
-  // TODO: Add loading and error states
-  // Hint: const [isLoading, setIsLoading] = useState(false)
-  //       const [error, setError] = useState<string | null>(null)
+const textareaStyles =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm transition-colors hover:border-gray-400 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:outline-none'
+
+export function ProfileSuggestions() {
+  const [userBackground, setUserBackground] = useState('')
+  const [currentGoals, setCurrentGoals] = useState('')
+  const [timeCommitment, setTimeCommitment] = useState('')
+  const [experienceLevel, setExperienceLevel] = useState<ExperienceLevel>('beginner')
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+  const [suggestionSetId, setSuggestionSetId] = useState<string | null>(null)
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null)
+  const [refinements, setRefinements] = useState<SuggestionRefinement[]>([])
+  const [isRefining, setIsRefining] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    // TODO: Implement form submission
-    // Step 1: Validate input (at least 10 chars for background)
-    // Step 2: Set loading to true, clear errors
-    // Step 3: Call API with fetch()
-    // Step 4: Handle response (set suggestions or error)
-    // Step 5: Set loading to false
+    if (userBackground.trim().length < 10) {
+      setError('Please provide more details (at least 10 characters)')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    setSuggestions([])
+    setSuggestionSetId(null)
+    setRefinements([])
+
+    try {
+      const response = await fetch('/api/profile/suggestions/stream', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await authHeaders()),
+        },
+        body: JSON.stringify({
+          userBackground,
+          currentGoals: currentGoals || undefined,
+          timeCommitment: timeCommitment.trim() || undefined,
+          experienceLevel,
+        }),
+      })
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to get suggestions')
+      }
+
+      for await (const event of readSSE(response.body)) {
+        if (event.event === 'suggestion') {
+          setSuggestions(current => [...current, event.data])
+        } else if (event.event === 'done') {
+          setSuggestionSetId(event.data.id)
+        } else if (event.event === 'error') {
+          throw new Error(event.data.error)
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleRegenerate = async (suggestionId: string) => {
+    if (!suggestionSetId) return
+
+    setRegeneratingId(suggestionId)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/profile/suggestions/${suggestionSetId}/regenerate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await authHeaders()),
+        },
+        body: JSON.stringify({ suggestionId }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to regenerate suggestion')
+      }
 
-    console.log('TODO: Implement form submission')
+      setSuggestions(current =>
+        current.map(s => (s.id === data.replacedId ? (data.suggestion as Suggestion) : s))
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setRegeneratingId(null)
+    }
+  }
+
+  // Returns whether the message was sent, so the chat input can be cleared
+  const handleRefine = async (message: string): Promise<boolean> => {
+    if (!suggestionSetId) return false
+
+    setIsRefining(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/profile/suggestions/${suggestionSetId}/refinements`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await authHeaders()),
+        },
+        body: JSON.stringify({ message }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to refine suggestions')
+      }
+
+      const refinement = data.refinement as SuggestionRefinement
+      setRefinements(current => [...current, refinement])
+      setSuggestions(refinement.suggestions)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+      return false
+    } finally {
+      setIsRefining(false)
+    }
   }
 
   return (
@@ -80,51 +190,127 @@ export function ProfileSuggestions() {
         </p>
       </div>
 
-      {/* TODO: Build the form */}
       <form onSubmit={handleSubmit} className="space-y-6">
-        {/* TODO: Experience level selector */}
-        {/* 3 buttons: beginner, intermediate, advanced */}
-        {/* Highlight the selected one */}
+        {/* Experience level selector */}
         <div>
           <label className="mb-2 block text-sm font-medium text-gray-700">
             What&apos;s your experience level?
           </label>
-          {/* TODO: Add experience level buttons */}
+          <div className="flex gap-3">
+            {(['beginner', 'intermediate', 'advanced'] as const).map(level => (
+              <button
+                key={level}
+                type="button"
+                onClick={() => setExperienceLevel(level)}
+                aria-pressed={experienceLevel === level}
+                className={`flex-1 rounded-lg border-2 px-4 py-3 text-sm font-medium transition-colors ${
+                  experienceLevel === level
+                    ? 'border-blue-600 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                }`}
+              >
+                {level.charAt(0).toUpperCase() + level.slice(1)}
+              </button>
+            ))}
+          </div>
         </div>
 
-        {/* TODO: Background textarea */}
+        {/* Background textarea */}
         <div>
           <label htmlFor="background" className="mb-2 block text-sm font-medium text-gray-700">
             Tell us about your background <span className="text-red-500">*</span>
           </label>
-          {/* TODO: Add textarea for background */}
-          {/* Placeholder: "e.g., I'm a career changer from marketing..." */}
-          {/* rows={4} */}
+          <textarea
+            id="background"
+            rows={4}
+            required
+            value={userBackground}
+            onChange={e => setUserBackground(e.target.value)}
+            placeholder="e.g., I'm a career changer from marketing..."
+            className={textareaStyles}
+          />
         </div>
 
-        {/* TODO: Goals textarea (optional) */}
+        {/* Goals textarea (optional) */}
         <div>
           <label htmlFor="goals" className="mb-2 block text-sm font-medium text-gray-700">
             What are your current goals? (optional)
           </label>
-          {/* TODO: Add textarea for goals */}
-          {/* Placeholder: "e.g., I want to become a full-stack developer..." */}
-          {/* rows={3} */}
+          <textarea
+            id="goals"
+            rows={3}
+            value={currentGoals}
+            onChange={e => setCurrentGoals(e.target.value)}
+            placeholder="e.g., I want to become a full-stack developer..."
+            className={textareaStyles}
+          />
         </div>
 
-        {/* TODO: Submit button */}
-        {/* Use the Button component with isLoading prop */}
-        {/* Disable if background is too short */}
+        {/* Time commitment (optional) - schedules learning paths made from the suggestions */}
+        <Input
+          id="time-commitment"
+          label="How much time can you spend learning? (optional)"
+          value={timeCommitment}
+          onChange={e => setTimeCommitment(e.target.value)}
+          placeholder="e.g., 5 hours a week"
+          maxLength={100}
+        />
+
+        <Button
+          type="submit"
+          fullWidth
+          isLoading={isLoading}
+          disabled={userBackground.trim().length < 10}
+        >
+          {isLoading ? 'Generating suggestions...' : 'Get my suggestions'}
+        </Button>
       </form>
 
-      {/* TODO: Error state */}
-      {/* Show red alert box if error exists */}
+      {/* Error state */}
+      {error && (
+        <div
+          className="rounded-md border border-red-300 bg-red-50 p-4 text-sm text-red-700"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
 
-      {/* TODO: Success state - Display suggestions */}
-      {/* Map over suggestions array and render SuggestionCard for each */}
+      {/* Suggestions - rendered as they stream in */}
+      {suggestions.length > 0 && (
+        <div className="space-y-4" aria-live="polite" aria-busy={isLoading}>
+          <h3 className="text-xl font-semibold text-gray-900">Your Personalized Suggestions</h3>
+          {suggestions.map((suggestion, index) => (
+            <SuggestionCard
+              key={suggestion.id}
+              suggestion={suggestion}
+              index={index}
+              // Only once the set is stored - regeneration updates the saved row,
+              // which keeps the original set rather than refined ones
+              onRegenerate={
+                suggestionSetId && refinements.length === 0
+                  ? () => handleRegenerate(suggestion.id)
+                  : undefined
+              }
+              isRegenerating={regeneratingId === suggestion.id}
+            />
+          ))}
+          {isLoading && <p className="text-sm text-gray-500">Generating more suggestions...</p>}
+        </div>
+      )}
 
-      {/* TODO: Empty state (before submission) */}
-      {/* Show an example suggestion card with isExample prop */}
+      {/* Refinement chat - once the set is stored */}
+      {suggestionSetId && !isLoading && (
+        <RefinementChat refinements={refinements} isRefining={isRefining} onSend={handleRefine} />
+      )}
+
+      {/* Empty state (before submission) */}
+      {suggestions.length === 0 && !isLoading && !error && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-500">Example suggestion:</p>
+          <SuggestionCard suggestion={EXAMPLE_SUGGESTION} index={0} isExample />
+        </div>
+      )}
     </div>
   )
 }
@@ -132,51 +318,70 @@ export function ProfileSuggestions() {
 /**
  * SuggestionCard Component
  *
- * TODO: Build individual suggestion display card
+ * Displays a single suggestion: number badge, title, reason and action
+ * With onRegenerate, also offers to replace it with a different suggestion
  */
 interface SuggestionCardProps {
-  suggestion: Suggestion
+  suggestion: AiSuggestion
   index: number
   isExample?: boolean
+  onRegenerate?: () => void
+  isRegenerating?: boolean
 }
 
-function SuggestionCard({ suggestion, index, isExample = false }: SuggestionCardProps) {
+function SuggestionCard({
+  suggestion,
+  index,
+  isExample = false,
+  onRegenerate,
+  isRegenerating = false,
+}: SuggestionCardProps) {
   return (
     <div
       className={`rounded-lg border-2 p-5 transition-shadow hover:shadow-md ${
         isExample ? 'border-gray-300 bg-white opacity-60' : 'border-gray-200 bg-white'
       }`}
     >
-      {/* TODO: Card header with number badge and title */}
+      {/* Card header with number badge and title */}
       <div className="mb-3 flex items-start gap-3">
-        {/* TODO: Number badge (circular, blue background) */}
+        {/* Number badge */}
         <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-blue-100 text-sm font-semibold text-blue-700">
           {index + 1}
         </div>
-        {/* TODO: Title */}
+        {/* Title */}
         <h4 className="text-lg font-semibold text-gray-900">{suggestion.title}</h4>
       </div>
 
-      {/* TODO: Reason section */}
+      {/* Reason section */}
       <div className="ml-11 space-y-3">
         <div>
           <p className="text-sm font-medium text-gray-500">Why this matters:</p>
           <p className="mt-1 text-sm text-gray-700">{suggestion.reason}</p>
         </div>
 
-        {/* TODO: Action section */}
+        {/* Action section */}
         <div>
           <p className="text-sm font-medium text-gray-500">Action to take this week:</p>
           <p className="mt-1 text-sm font-semibold text-gray-900">{suggestion.action}</p>
         </div>
       </div>
 
-      {/* TODO: Optional "Mark as completed" button (not for examples) */}
+      {/* "Mark as completed" button (not for examples) */}
       {!isExample && (
-        <div className="mt-4 ml-11">
+        <div className="mt-4 ml-11 flex gap-4">
           <button className="text-sm font-medium text-blue-600 hover:text-blue-700">
             Mark as completed →
           </button>
+          {onRegenerate && (
+            <button
+              type="button"
+              onClick={onRegenerate}
+              disabled={isRegenerating}
+              className="text-sm font-medium text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            >
+              {isRegenerating ? 'Finding another...' : 'Not relevant? Suggest another ↻'}
+            </button>
+          )}
         </div>
       )}
     </div>
@@ -184,65 +389,72 @@ function SuggestionCard({ suggestion, index, isExample = false }: SuggestionCard
 }
 
 /**
- * IMPLEMENTATION HINTS:
- *
- * State Management:
- * ────────────────
- * const [userBackground, setUserBackground] = useState('')
- * const [currentGoals, setCurrentGoals] = useState('')
- * const [experienceLevel, setExperienceLevel] = useState<'beginner' | 'intermediate' | 'advanced'>('beginner')
- * const [suggestions, setSuggestions] = useState<Suggestion[]>([])
- * const [isLoading, setIsLoading] = useState(false)
- * const [error, setError] = useState<string | null>(null)
- *
- * Form Submission:
- * ────────────────
- * const handleSubmit = async (e: React.FormEvent) => {
- *   e.preventDefault()
- *
- *   if (userBackground.length < 10) {
- *     setError('Please provide more details (at least 10 characters)')
- *     return
- *   }
- *
- *   setIsLoading(true)
- *   setError(null)
+ * RefinementChat Component
  *
- *   try {
- *     const response = await fetch('/api/profile/suggestions', {
- *       method: 'POST',
- *       headers: { 'Content-Type': 'application/json' },
- *       body: JSON.stringify({ userBackground, currentGoals, experienceLevel }),
- *     })
- *
- *     if (!response.ok) throw new Error('Failed to get suggestions')
- *
- *     const data: ProfileSuggestionsResponse = await response.json()
- *     setSuggestions(data.suggestions)
- *   } catch (err) {
- *     setError(err instanceof Error ? err.message : 'Something went wrong')
- *   } finally {
- *     setIsLoading(false)
- *   }
- * }
- *
- * Experience Level Buttons:
- * ────────────────────────
- * {(['beginner', 'intermediate', 'advanced'] as const).map(level => (
- *   <button
- *     key={level}
- *     type="button"
- *     onClick={() => setExperienceLevel(level)}
- *     className={`flex-1 rounded-lg border-2 px-4 py-3 ${
- *       experienceLevel === level
- *         ? 'border-blue-600 bg-blue-50 text-blue-700'
- *         : 'border-gray-300 bg-white text-gray-700'
- *     }`}
- *   >
- *     {level.charAt(0).toUpperCase() + level.slice(1)}
- *   </button>
- * ))}
+ * Chat-style panel for refining the suggestion set. Each message the user
+ * sends produces a new set, which replaces the cards above.
  */
+interface RefinementChatProps {
+  refinements: SuggestionRefinement[]
+  isRefining: boolean
+  onSend: (message: string) => Promise<boolean>
+}
+
+function RefinementChat({ refinements, isRefining, onSend }: RefinementChatProps) {
+  const [message, setMessage] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!message.trim()) return
+
+    if (await onSend(message.trim())) setMessage('')
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border-2 border-gray-200 bg-gray-50 p-5">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Not quite right?</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Tell us what to change, e.g. &quot;make these more backend-focused&quot; or &quot;I only
+          have 3 hours a week&quot;
+        </p>
+      </div>
+
+      {refinements.length > 0 && (
+        <ol className="space-y-3" aria-live="polite">
+          {refinements.map(refinement => (
+            <li key={refinement.id} className="space-y-2">
+              <p className="ml-auto w-fit max-w-[80%] rounded-lg bg-blue-600 px-3 py-2 text-sm text-white">
+                {refinement.message}
+              </p>
+              <p className="w-fit max-w-[80%] rounded-lg bg-white px-3 py-2 text-sm text-gray-700">
+                Updated your suggestions ({refinement.suggestions.length}) above.
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-3">
+        <label htmlFor="refinement" className="sr-only">
+          How should we change your suggestions?
+        </label>
+        <input
+          id="refinement"
+          type="text"
+          maxLength={500}
+          value={message}
+          onChange={e => setMessage(e.target.value)}
+          placeholder="How should we change your suggestions?"
+          className={textareaStyles}
+        />
+        <Button type="submit" isLoading={isRefining} disabled={!message.trim()}>
+          {isRefining ? 'Refining...' : 'Send'}
+        </Button>
+      </form>
+    </div>
+  )
+}
 
 /**
  * SUCCESS CRITERIA:
@@ -252,5 +464,8 @@ function SuggestionCard({ suggestion, index, isExample = false }: SuggestionCard
  * ✅ Loading spinner shows while waiting for AI
  * ✅ Error messages displayed in red alert box
  * ✅ Suggestions displayed in clean cards
+ * ✅ Cards appear one by one while the AI is still generating
  * ✅ Example suggestion shown before submission
+ * ✅ A single card can be regenerated without rerunning the whole flow
+ * ✅ The set can be refined in a conversation below the cards
  */
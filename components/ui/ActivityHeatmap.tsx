@@ -0,0 +1,131 @@
+// src/components/ui/ActivityHeatmap.tsx
+import { HTMLAttributes } from 'react'
+import { clsx } from 'clsx'
+import type { HeatmapDay, HeatmapWeek } from '@/lib/activity/heatmap'
+import type { Streak } from '@/lib/activity/streaks'
+
+/**
+ * ActivityHeatmap Component
+ *
+ * A GitHub-style activity graph: one column per week, one square per day,
+ * darker for busier days. Takes the `heatmap` (and optionally `streak`)
+ * returned by GET /api/activity - see lib/activity/heatmap.ts
+ *
+ * Features:
+ * - Five shades from no activity to the busiest day shown
+ * - Freeze days marked in blue
+ * - Month labels above the weeks they start in
+ * - Optional current/longest streak summary
+ * - Accessible (every day has a text label)
+ */
+
+interface ActivityHeatmapProps extends HTMLAttributes<HTMLDivElement> {
+  weeks: HeatmapWeek[]
+  streak?: Streak
+}
+
+const levelStyles = ['bg-gray-100', 'bg-green-200', 'bg-green-400', 'bg-green-600', 'bg-green-800']
+
+const weekdayLabels = ['Mon', '', 'Wed', '', 'Fri', '', '']
+
+function monthLabel(week: HeatmapWeek): string {
+  const first = week.days.find(d => d.day.endsWith('-01'))
+  return first
+    ? new Date(first.day).toLocaleString('en-US', { month: 'short', timeZone: 'UTC' })
+    : ''
+}
+
+function plural(count: number, word: string, words: string = `${word}s`): string {
+  return `${count} ${count === 1 ? word : words}`
+}
+
+function dayLabel({ day, count, frozen }: HeatmapDay): string {
+  const activities = `${plural(count, 'activity', 'activities')} on ${day}`
+  return frozen ? `${activities} (freeze day)` : activities
+}
+
+export function ActivityHeatmap({ weeks, streak, className, ...props }: ActivityHeatmapProps) {
+  const total = weeks.reduce((sum, week) => sum + week.days.reduce((n, d) => n + d.count, 0), 0)
+
+  return (
+    <div className={clsx('w-full', className)} {...props}>
+      {/* Summary */}
+      <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2 text-sm">
+        <p className="text-gray-700">{plural(total, 'activity', 'activities')} in the last year</p>
+        {streak && (
+          <p className="text-gray-500">
+            Current streak:{' '}
+            <span className="font-medium text-gray-900">{plural(streak.current, 'day')}</span>
+            {' · '}
+            Longest:{' '}
+            <span className="font-medium text-gray-900">{plural(streak.longest, 'day')}</span>
+          </p>
+        )}
+      </div>
+
+      {/* Graph */}
+      <div className="overflow-x-auto">
+        <div role="group" aria-label="Activity heatmap" className="inline-flex gap-1">
+          {/* Weekday labels */}
+          <div className="flex flex-col gap-1 pt-5 pr-1" aria-hidden="true">
+            {weekdayLabels.map((label, i) => (
+              <span key={i} className="h-3 text-[10px] leading-3 text-gray-500">
+                {label}
+              </span>
+            ))}
+          </div>
+
+          {weeks.map(week => (
+            <div key={week.weekStart} className="flex flex-col gap-1">
+              <span
+                className="h-4 text-[10px] leading-4 whitespace-nowrap text-gray-500"
+                aria-hidden="true"
+              >
+                {monthLabel(week)}
+              </span>
+              {week.days.map(day => (
+                <span
+                  key={day.day}
+                  role="img"
+                  aria-label={dayLabel(day)}
+                  title={dayLabel(day)}
+                  data-level={day.level}
+                  className={clsx(
+                    'h-3 w-3 rounded-sm',
+                    day.frozen && !day.count ? 'bg-blue-200' : levelStyles[day.level]
+                  )}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div
+        className="mt-2 flex items-center justify-end gap-1 text-xs text-gray-500"
+        aria-hidden="true"
+      >
+        <span className="mr-1">Less</span>
+        {levelStyles.map(style => (
+          <span key={style} className={clsx('h-3 w-3 rounded-sm', style)} />
+        ))}
+        <span className="ml-1">More</span>
+        <span className="ml-3 h-3 w-3 rounded-sm bg-blue-200" />
+        <span>Freeze day</span>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * USAGE EXAMPLES:
+ *
+ * // From GET /api/activity
+ * const res = await fetch(`/api/activity?timeZone=${timeZone}`, { headers: await authHeaders() })
+ * const { heatmap, streak } = await res.json()
+ * <ActivityHeatmap weeks={heatmap} streak={streak} />
+ *
+ * // Without the streak summary
+ * <ActivityHeatmap weeks={heatmap} className="mt-6" />
+ */
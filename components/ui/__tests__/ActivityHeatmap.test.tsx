@@ -0,0 +1,58 @@
+import { render, screen } from '@testing-library/react'
+import { ActivityHeatmap } from '@/components/ui/ActivityHeatmap'
+import { buildHeatmap } from '@/lib/activity/heatmap'
+
+/**
+ * ActivityHeatmap Component Tests
+ *
+ * What we're testing:
+ * - One labelled square per day
+ * - Shades by activity level, and freeze days
+ * - Streak summary
+ */
+
+const weeks = buildHeatmap(
+  { '2026-01-19': 1, '2026-01-20': 4, '2026-01-21': 2 },
+  ['2026-01-22'],
+  '2026-01-23',
+  2
+)
+
+describe('ActivityHeatmap', () => {
+  it('renders a labelled square per day', () => {
+    render(<ActivityHeatmap weeks={weeks} />)
+
+    expect(screen.getAllByRole('img')).toHaveLength(12)
+    expect(screen.getByLabelText('4 activities on 2026-01-20')).toBeInTheDocument()
+    expect(screen.getByLabelText('1 activity on 2026-01-19')).toBeInTheDocument()
+    expect(screen.getByText('7 activities in the last year')).toBeInTheDocument()
+  })
+
+  it('shades days by level', () => {
+    render(<ActivityHeatmap weeks={weeks} />)
+
+    expect(screen.getByLabelText('4 activities on 2026-01-20')).toHaveClass('bg-green-800')
+    expect(screen.getByLabelText('1 activity on 2026-01-19')).toHaveClass('bg-green-200')
+    expect(screen.getByLabelText('0 activities on 2026-01-23')).toHaveClass('bg-gray-100')
+  })
+
+  it('marks freeze days', () => {
+    render(<ActivityHeatmap weeks={weeks} />)
+
+    expect(screen.getByLabelText('0 activities on 2026-01-22 (freeze day)')).toHaveClass(
+      'bg-blue-200'
+    )
+  })
+
+  it('shows the streak when given', () => {
+    render(
+      <ActivityHeatmap
+        weeks={weeks}
+        streak={{ current: 3, longest: 1, activeToday: false, lastActiveDay: '2026-01-21' }}
+      />
+    )
+
+    expect(screen.getByText('3 days')).toBeInTheDocument()
+    expect(screen.getByText('1 day')).toBeInTheDocument()
+  })
+})
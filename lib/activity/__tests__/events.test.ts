@@ -0,0 +1,85 @@
+import { pathStepActivity, suggestionProgressActivity } from '@/lib/activity/events'
+import type { SuggestionProgress } from '@/types'
+
+/**
+ * Activity Event Tests
+ *
+ * Which changes are logged, and how.
+ */
+
+const progress = (overrides: Partial<SuggestionProgress> = {}): SuggestionProgress => ({
+  id: 'progress-1',
+  user_id: 'user-1',
+  profile_suggestion_id: 'row-1',
+  suggestion_id: 's1',
+  status: 'in_progress',
+  started_at: '2026-01-24T10:00:00.000Z',
+  blocked_at: null,
+  completed_at: null,
+  skipped_at: null,
+  time_spent_minutes: 0,
+  notes: null,
+  created_at: '2026-01-24T10:00:00.000Z',
+  updated_at: '2026-01-24T10:00:00.000Z',
+  ...overrides,
+})
+
+describe('suggestionProgressActivity', () => {
+  it('logs status changes', () => {
+    expect(suggestionProgressActivity('user-1', null, progress())).toEqual({
+      user_id: 'user-1',
+      type: 'suggestion_progress',
+      profile_suggestion_id: 'row-1',
+      suggestion_id: 's1',
+      status: 'in_progress',
+      minutes_spent: 0,
+    })
+  })
+
+  it('logs time spent without a status change', () => {
+    expect(suggestionProgressActivity('user-1', progress(), progress(), 30)).toMatchObject({
+      status: 'in_progress',
+      minutes_spent: 30,
+    })
+  })
+
+  it('skips notes-only updates', () => {
+    expect(suggestionProgressActivity('user-1', progress(), progress({ notes: 'Hi' }))).toBeNull()
+    expect(
+      suggestionProgressActivity('user-1', null, progress({ status: 'not_started' }))
+    ).toBeNull()
+  })
+})
+
+describe('pathStepActivity', () => {
+  const completedAt = '2026-01-24T10:00:00.000Z'
+
+  it('logs completing and reopening a step', () => {
+    expect(
+      pathStepActivity(
+        'user-1',
+        { completed_at: null },
+        { id: 'step-1', completed_at: completedAt }
+      )
+    ).toEqual({
+      user_id: 'user-1',
+      type: 'path_step_progress',
+      path_step_id: 'step-1',
+      status: 'completed',
+      minutes_spent: 0,
+    })
+    expect(
+      pathStepActivity(
+        'user-1',
+        { completed_at: completedAt },
+        { id: 'step-1', completed_at: null }
+      )
+    ).toMatchObject({ status: 'not_started' })
+  })
+
+  it('skips updates that leave the step as it was', () => {
+    const step = { id: 'step-1', completed_at: completedAt }
+
+    expect(pathStepActivity('user-1', step, step)).toBeNull()
+  })
+})
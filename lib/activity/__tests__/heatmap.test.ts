@@ -0,0 +1,58 @@
+import { buildHeatmap, countByDay } from '@/lib/activity/heatmap'
+
+/**
+ * Heatmap Tests
+ *
+ * Week columns, per-day counts and levels.
+ */
+
+describe('countByDay', () => {
+  it('counts events per day', () => {
+    expect(countByDay(['2026-01-20', '2026-01-21', '2026-01-20'])).toEqual({
+      '2026-01-20': 2,
+      '2026-01-21': 1,
+    })
+  })
+})
+
+describe('buildHeatmap', () => {
+  // Saturday 2026-01-24
+  const weeks = buildHeatmap(
+    { '2026-01-12': 1, '2026-01-20': 8, '2026-01-21': 3 },
+    ['2026-01-22'],
+    '2026-01-24',
+    2
+  )
+
+  it('lays out Monday-first weeks up to today', () => {
+    expect(weeks.map(w => w.weekStart)).toEqual(['2026-01-12', '2026-01-19'])
+    expect(weeks[0].days).toHaveLength(7)
+    expect(weeks[1].days.map(d => d.day)).toEqual([
+      '2026-01-19',
+      '2026-01-20',
+      '2026-01-21',
+      '2026-01-22',
+      '2026-01-23',
+      '2026-01-24',
+    ])
+  })
+
+  it('scales levels to the busiest day', () => {
+    const levels = Object.fromEntries(weeks.flatMap(w => w.days).map(d => [d.day, d.level]))
+
+    expect(levels).toMatchObject({
+      '2026-01-12': 1,
+      '2026-01-20': 4,
+      '2026-01-21': 2,
+      '2026-01-23': 0,
+    })
+  })
+
+  it('marks freeze days', () => {
+    expect(weeks[1].days[3]).toEqual({ day: '2026-01-22', count: 0, level: 0, frozen: true })
+  })
+
+  it('leaves out days before the first week', () => {
+    expect(weeks.flatMap(w => w.days).every(d => d.day >= '2026-01-12')).toBe(true)
+  })
+})
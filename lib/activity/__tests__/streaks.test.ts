@@ -0,0 +1,104 @@
+import {
+  calculateStreak,
+  checkFreezeDay,
+  FreezeDayError,
+  isTimeZone,
+  localDay,
+} from '@/lib/activity/streaks'
+
+/**
+ * Streak Tests
+ *
+ * Local days, consecutive-day streaks with freeze days, and the freeze day allowance.
+ */
+
+const today = '2026-01-24'
+
+describe('localDay', () => {
+  it('uses the calendar day of the time zone', () => {
+    const evening = '2026-01-24T02:30:00.000Z'
+
+    expect(localDay(evening, 'UTC')).toBe('2026-01-24')
+    expect(localDay(evening, 'America/New_York')).toBe('2026-01-23')
+    expect(localDay('2026-01-23T23:30:00.000Z', 'Asia/Tokyo')).toBe('2026-01-24')
+  })
+})
+
+describe('isTimeZone', () => {
+  it('accepts IANA names only', () => {
+    expect(isTimeZone('Europe/Paris')).toBe(true)
+    expect(isTimeZone('Mars/Olympus_Mons')).toBe(false)
+  })
+})
+
+describe('calculateStreak', () => {
+  it('counts consecutive active days up to today', () => {
+    expect(calculateStreak(['2026-01-22', '2026-01-23', '2026-01-24'], [], today)).toEqual({
+      current: 3,
+      longest: 3,
+      activeToday: true,
+      lastActiveDay: '2026-01-24',
+    })
+  })
+
+  it('keeps a streak that ended yesterday until today is over', () => {
+    const streak = calculateStreak(['2026-01-22', '2026-01-23'], [], today)
+
+    expect(streak).toMatchObject({ current: 2, activeToday: false })
+  })
+
+  it('breaks on a missed day', () => {
+    const streak = calculateStreak(
+      ['2026-01-18', '2026-01-19', '2026-01-20', '2026-01-22'],
+      [],
+      today
+    )
+
+    expect(streak).toMatchObject({ current: 0, longest: 3, lastActiveDay: '2026-01-22' })
+  })
+
+  it('bridges freeze days without counting them', () => {
+    const streak = calculateStreak(
+      ['2026-01-20', '2026-01-21', '2026-01-23', '2026-01-24'],
+      ['2026-01-22'],
+      today
+    )
+
+    expect(streak).toMatchObject({ current: 4, longest: 4 })
+  })
+
+  it('keeps the streak on a frozen today', () => {
+    expect(calculateStreak(['2026-01-23'], [today], today).current).toBe(1)
+  })
+
+  it('counts repeated events on a day once', () => {
+    expect(calculateStreak(['2026-01-24', '2026-01-24'], [], today).current).toBe(1)
+  })
+
+  it('is empty without activity', () => {
+    expect(calculateStreak([], ['2026-01-24'], today)).toEqual({
+      current: 0,
+      longest: 0,
+      activeToday: false,
+      lastActiveDay: null,
+    })
+  })
+})
+
+describe('checkFreezeDay', () => {
+  it('allows today and planned days', () => {
+    expect(() => checkFreezeDay(today, today, [])).not.toThrow()
+    expect(() => checkFreezeDay('2026-02-10', today, ['2026-01-30'])).not.toThrow()
+  })
+
+  it('refuses past and far-off days', () => {
+    expect(() => checkFreezeDay('2026-01-23', today, [])).toThrow(FreezeDayError)
+    expect(() => checkFreezeDay('2026-06-01', today, [])).toThrow(/days ahead/)
+  })
+
+  it('enforces the monthly allowance', () => {
+    expect(() => checkFreezeDay('2026-01-30', today, ['2026-01-10', '2026-01-25'])).toThrow(
+      /per month/
+    )
+  })
+})
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PASSING_GRADE } from '@/lib/reviews/sm2'
+import type { ActivityEventInsert, PathStep, ReviewItemRow, SuggestionProgress } from '@/types'
+
+/**
+ * Activity events
+ *
+ * activity_events logs every state change of a suggestion or path step:
+ * - suggestion_viewed: a suggestion set was opened (markViewed)
+ * - suggestion_progress: a suggestion changed status or had time logged
+ * - path_step_progress: a path step was completed or reopened, or had time logged
+ * - suggestion_reviewed: a completed suggestion was reviewed (lib/reviews/sm2.ts)
+ *
+ * The log feeds streaks (streaks.ts) and the heatmap (heatmap.ts). It's a
+ * side record: failing to write an event is logged but never fails the
+ * change it describes.
+ *
+ * Usage:
+ *   const event = suggestionProgressActivity(user.id, before, after, minutesSpent)
+ *   if (event) await recordActivity(supabase, event)
+ */
+
+export type ActivityEventType =
+  | 'suggestion_viewed'
+  | 'suggestion_progress'
+  | 'path_step_progress'
+  | 'suggestion_reviewed'
+
+export type ActivityEvent = ActivityEventInsert & { type: ActivityEventType }
+
+/**
+ * Insert an event, logging (not throwing) on failure
+ */
+export async function recordActivity(
+  supabase: SupabaseClient,
+  event: ActivityEvent
+): Promise<void> {
+  const { error } = await supabase.from('activity_events').insert(event)
+  if (error) console.error('Record activity error:', error)
+}
+
+export function suggestionViewedActivity(
+  userId: string,
+  profileSuggestionId: string
+): ActivityEvent {
+  return { user_id: userId, type: 'suggestion_viewed', profile_suggestion_id: profileSuggestionId }
+}
+
+/**
+ * Event for a progress update, or null if neither the status changed nor time was logged
+ */
+export function suggestionProgressActivity(
+  userId: string,
+  before: Pick<SuggestionProgress, 'status'> | null,
+  after: SuggestionProgress,
+  minutesSpent: number = 0
+): ActivityEvent | null {
+  if (after.status === (before?.status ?? 'not_started') && !minutesSpent) return null
+
+  return {
+    user_id: userId,
+    type: 'suggestion_progress',
+    profile_suggestion_id: after.profile_suggestion_id,
+    suggestion_id: after.suggestion_id,
+    status: after.status,
+    minutes_spent: minutesSpent,
+  }
+}
+
+/**
+ * Event for a path step update, or null if it wasn't completed or reopened and no time was logged
+ */
+export function pathStepActivity(
+  userId: string,
+  before: Pick<PathStep, 'completed_at'>,
+  after: Pick<PathStep, 'id' | 'completed_at'>,
+  minutesSpent: number = 0
+): ActivityEvent | null {
+  if (!before.completed_at === !after.completed_at && !minutesSpent) return null
+
+  return {
+    user_id: userId,
+    type: 'path_step_progress',
+    path_step_id: after.id,
+    status: after.completed_at ? 'completed' : 'not_started',
+    minutes_spent: minutesSpent,
+  }
+}
+
+/**
+ * Event for a graded review - status is "recalled" for a passing grade, else "forgotten"
+ */
+export function reviewActivity(
+  userId: string,
+  item: Pick<ReviewItemRow, 'id' | 'profile_suggestion_id' | 'suggestion_id'>,
+  grade: number
+): ActivityEvent {
+  return {
+    user_id: userId,
+    type: 'suggestion_reviewed',
+    review_item_id: item.id,
+    profile_suggestion_id: item.profile_suggestion_id,
+    suggestion_id: item.suggestion_id,
+    status: grade >= PASSING_GRADE ? 'recalled' : 'forgotten',
+  }
+}
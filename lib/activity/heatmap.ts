@@ -0,0 +1,75 @@
+import { addDays } from '@/lib/activity/streaks'
+import { weekStartOf } from '@/lib/paths/schedule'
+
+/**
+ * Activity heatmap
+ *
+ * Daily activity counts laid out like a GitHub contribution graph: one
+ * column per week (Monday first, like the path schedule), one cell per
+ * day, ending today. Each cell gets a level from 0 (no activity) to 4
+ * relative to the busiest day shown, so a quiet month still has contrast.
+ *
+ * Rendered by components/ui/ActivityHeatmap.tsx.
+ *
+ * Usage:
+ *   const counts = countByDay(events.map(e => localDay(e.occurred_at, timeZone)))
+ *   const weeks = buildHeatmap(counts, freezeDays, today)
+ */
+
+export const HEATMAP_WEEKS = 53
+export const HEATMAP_LEVELS = 4
+
+export interface HeatmapDay {
+  day: string
+  count: number
+  /** 0 for no activity, up to HEATMAP_LEVELS for the busiest days */
+  level: number
+  frozen: boolean
+}
+
+export interface HeatmapWeek {
+  weekStart: string
+  /** Monday to Sunday - the current week stops at today */
+  days: HeatmapDay[]
+}
+
+export function countByDay(days: Iterable<string>): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const day of days) counts[day] = (counts[day] ?? 0) + 1
+  return counts
+}
+
+/**
+ * The last `weeks` weeks up to and including `today`
+ */
+export function buildHeatmap(
+  counts: Record<string, number>,
+  freezeDays: Iterable<string>,
+  today: string,
+  weeks: number = HEATMAP_WEEKS
+): HeatmapWeek[] {
+  const frozen = new Set(freezeDays)
+  const start = addDays(weekStartOf(new Date(today)), -7 * (weeks - 1))
+
+  let busiest = 0
+  for (let day = start; day <= today; day = addDays(day, 1)) {
+    busiest = Math.max(busiest, counts[day] ?? 0)
+  }
+
+  const result: HeatmapWeek[] = []
+  for (let day = start; day <= today; day = addDays(day, 1)) {
+    if (result.length === 0 || result[result.length - 1].days.length === 7) {
+      result.push({ weekStart: day, days: [] })
+    }
+
+    const count = counts[day] ?? 0
+    result[result.length - 1].days.push({
+      day,
+      count,
+      level: count ? Math.ceil((count / busiest) * HEATMAP_LEVELS) : 0,
+      frozen: frozen.has(day),
+    })
+  }
+
+  return result
+}
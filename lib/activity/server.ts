@@ -0,0 +1,119 @@
+import { buildHeatmap, countByDay, type HeatmapWeek } from '@/lib/activity/heatmap'
+import {
+  calculateStreak,
+  checkFreezeDay,
+  FreezeDayError,
+  localDay,
+  type Streak,
+} from '@/lib/activity/streaks'
+import { createServiceClient } from '@/lib/supabase/client'
+
+/**
+ * Server-side activity helpers (streaks, heatmap, freeze days), for API routes
+ * Freeze days are only written here, where the allowance is enforced
+ */
+
+export interface ActivitySummary {
+  /** Today in the user's time zone */
+  today: string
+  streak: Streak
+  heatmap: HeatmapWeek[]
+  freezeDays: string[]
+}
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000
+
+/**
+ * Every day (in `timeZone`) the user had activity on, once per event
+ */
+export async function loadActivityDays(userId: string, timeZone: string): Promise<string[]> {
+  const supabase = createServiceClient()
+  const days: string[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('activity_events')
+      .select('occurred_at')
+      .eq('user_id', userId)
+      .order('occurred_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    for (const { occurred_at } of data || []) days.push(localDay(occurred_at, timeZone))
+    if (!data || data.length < PAGE_SIZE) return days
+  }
+}
+
+export async function loadFreezeDays(userId: string): Promise<string[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('activity_freeze_days')
+    .select('day')
+    .eq('user_id', userId)
+    .order('day', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map(row => row.day as string)
+}
+
+/**
+ * Streak and heatmap of a user, with days counted in `timeZone`
+ */
+export async function loadActivitySummary(
+  userId: string,
+  timeZone: string,
+  now: Date = new Date()
+): Promise<ActivitySummary> {
+  const [days, freezeDays] = await Promise.all([
+    loadActivityDays(userId, timeZone),
+    loadFreezeDays(userId),
+  ])
+  const today = localDay(now, timeZone)
+
+  return {
+    today,
+    streak: calculateStreak(days, freezeDays, today),
+    heatmap: buildHeatmap(countByDay(days), freezeDays, today),
+    freezeDays,
+  }
+}
+
+/**
+ * Freeze `day` (see checkFreezeDay()). Freezing a day twice is a no-op
+ * Returns the user's freeze days
+ */
+export async function addFreezeDay(userId: string, day: string, today: string): Promise<string[]> {
+  const freezeDays = await loadFreezeDays(userId)
+  if (freezeDays.includes(day)) return freezeDays
+  checkFreezeDay(day, today, freezeDays)
+
+  const supabase = createServiceClient()
+  const { error } = await supabase.from('activity_freeze_days').insert({ user_id: userId, day })
+
+  if (error) throw error
+  return [...freezeDays, day].sort()
+}
+
+/**
+ * Unfreeze `day`. Days that are over can't be unfrozen - they're part of the streak
+ * Returns false if the day wasn't frozen
+ */
+export async function removeFreezeDay(
+  userId: string,
+  day: string,
+  today: string
+): Promise<boolean> {
+  if (day < today) throw new FreezeDayError('Past freeze days cannot be removed')
+
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('activity_freeze_days')
+    .delete()
+    .eq('user_id', userId)
+    .eq('day', day)
+    .select('day')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
@@ -0,0 +1,134 @@
+/**
+ * Learning streaks
+ *
+ * A streak is a run of consecutive days with at least one activity event
+ * (lib/activity/events.ts). Days are calendar days in the user's time zone,
+ * so an evening session in New York counts for that evening, not for the
+ * next UTC day.
+ *
+ * Freeze days are days the user takes off on purpose: they keep the streak
+ * going but don't add to it. A day that is both active and frozen counts
+ * as active.
+ *
+ * Today doesn't break a streak until it's over - a streak that ended
+ * yesterday is still the current streak, it just isn't `activeToday`.
+ *
+ * Freeze days are planned: they can be taken today or up to
+ * FREEZE_DAYS_AHEAD days ahead, never after the fact (that would mend broken
+ * streaks), and at most MAX_FREEZE_DAYS_PER_MONTH per calendar month.
+ *
+ * Days are YYYY-MM-DD strings, like weeks in lib/paths/schedule.ts.
+ *
+ * Usage:
+ *   const days = events.map(e => localDay(e.occurred_at, timeZone))
+ *   const streak = calculateStreak(days, freezeDays, localDay(new Date(), timeZone))
+ */
+
+export const MAX_FREEZE_DAYS_PER_MONTH = 2
+export const FREEZE_DAYS_AHEAD = 60
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Thrown by checkFreezeDay() when a freeze day isn't allowed
+ */
+export class FreezeDayError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FreezeDayError'
+  }
+}
+
+export interface Streak {
+  /** Active days in the streak that is still going (0 if it's broken) */
+  current: number
+  /** Active days in the longest streak so far */
+  longest: number
+  activeToday: boolean
+  lastActiveDay: string | null
+}
+
+/**
+ * Whether `timeZone` is an IANA time zone name this runtime knows ("Europe/Paris")
+ */
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The calendar day (YYYY-MM-DD) of an instant in `timeZone`
+ */
+export function localDay(at: Date | string, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(at))
+}
+
+export function addDays(day: string, days: number): string {
+  return new Date(Date.parse(day) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Current and longest streak up to `today`
+ * Activity and freeze days after `today` are ignored
+ */
+export function calculateStreak(
+  activeDays: Iterable<string>,
+  freezeDays: Iterable<string>,
+  today: string
+): Streak {
+  const active = new Set([...activeDays].filter(day => day <= today))
+  const frozen = new Set(freezeDays)
+
+  const first = [...active].sort()[0]
+  if (!first) return { current: 0, longest: 0, activeToday: false, lastActiveDay: null }
+
+  let run = 0
+  let longest = 0
+  let lastActiveDay = first
+  let runUntilYesterday = 0
+
+  for (let day = first; day <= today; day = addDays(day, 1)) {
+    if (day === today) runUntilYesterday = run
+
+    if (active.has(day)) {
+      run += 1
+      lastActiveDay = day
+    } else if (!frozen.has(day)) {
+      run = 0
+    }
+    longest = Math.max(longest, run)
+  }
+
+  const activeToday = active.has(today)
+  // An empty today only ends the streak once it's over
+  const current = activeToday || frozen.has(today) ? run : runUntilYesterday
+
+  return { current, longest, activeToday, lastActiveDay }
+}
+
+/**
+ * Check that `day` can be frozen, given the user's existing freeze days
+ * Throws FreezeDayError if it's in the past, too far ahead or over the monthly allowance
+ */
+export function checkFreezeDay(day: string, today: string, freezeDays: string[]): void {
+  if (day < today) throw new FreezeDayError('Past days cannot be frozen')
+  if (day > addDays(today, FREEZE_DAYS_AHEAD)) {
+    throw new FreezeDayError(`Freeze days can be planned at most ${FREEZE_DAYS_AHEAD} days ahead`)
+  }
+
+  const month = day.slice(0, 7)
+  const taken = freezeDays.filter(d => d !== day && d.startsWith(month)).length
+  if (taken >= MAX_FREEZE_DAYS_PER_MONTH) {
+    throw new FreezeDayError(`At most ${MAX_FREEZE_DAYS_PER_MONTH} freeze days per month`)
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  cosineSimilarity,
+  getSuggestionCacheConfig,
+  normalizeInput,
+  normalizeText,
+  suggestionCacheKey,
+  type SuggestionCacheScope,
+} from '@/lib/ai/cache'
+
+/**
+ * Suggestion Cache Tests
+ *
+ * Near-identical inputs must share a cache key; anything that changes the
+ * generated output (prompt version, provider, model) must not.
+ */
+
+const scope = (overrides: Partial<SuggestionCacheScope> = {}): SuggestionCacheScope => ({
+  input: {
+    userBackground: 'Bootcamp grad, knows React',
+    experienceLevel: 'beginner',
+  },
+  userId: 'user-1',
+  promptVersion: 'profile-suggestions@v1',
+  provider: 'openai',
+  model: 'gpt-4',
+  ...overrides,
+})
+
+describe('normalizeText', () => {
+  it('ignores case, whitespace and punctuation', () => {
+    expect(normalizeText('  Bootcamp grad,   knows React!! ')).toBe('bootcamp grad knows react')
+    expect(normalizeText('bootcamp grad - knows react.')).toBe('bootcamp grad knows react')
+  })
+
+  it('keeps characters that change meaning', () => {
+    expect(normalizeText('I know C++, C# and Node.js.')).toBe('i know c++ c# and node.js')
+  })
+})
+
+describe('normalizeInput', () => {
+  it('drops goals that are empty after normalizing', () => {
+    expect(
+      normalizeInput({
+        userBackground: 'Knows React',
+        currentGoals: ' ?! ',
+        experienceLevel: 'beginner',
+      })
+    ).toEqual({ userBackground: 'knows react', experienceLevel: 'beginner' })
+  })
+})
+
+describe('suggestionCacheKey', () => {
+  it('matches near-identical inputs', () => {
+    const other = scope({
+      input: { userBackground: 'bootcamp grad -  knows react.', experienceLevel: 'beginner' },
+    })
+    expect(suggestionCacheKey(other)).toBe(suggestionCacheKey(scope()))
+  })
+
+  it('is shared between users', () => {
+    expect(suggestionCacheKey(scope({ userId: 'user-2' }))).toBe(suggestionCacheKey(scope()))
+  })
+
+  it('separates prompt versions, providers, models and levels', () => {
+    const key = suggestionCacheKey(scope())
+
+    expect(suggestionCacheKey(scope({ promptVersion: 'profile-suggestions@v2' }))).not.toBe(key)
+    expect(suggestionCacheKey(scope({ provider: 'template' }))).not.toBe(key)
+    expect(suggestionCacheKey(scope({ model: 'gpt-4o' }))).not.toBe(key)
+    expect(
+      suggestionCacheKey(
+        scope({
+          input: { userBackground: 'Bootcamp grad, knows React', experienceLevel: 'intermediate' },
+        })
+      )
+    ).not.toBe(key)
+  })
+})
+
+describe('cosineSimilarity', () => {
+  it('compares direction, not length', () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1)
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0)
+  })
+
+  it('returns 0 for mismatched or empty vectors', () => {
+    expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0)
+    expect(cosineSimilarity([], [])).toBe(0)
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0)
+  })
+})
+
+describe('getSuggestionCacheConfig', () => {
+  const env = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...env }
+  })
+
+  it('uses exact matching with a 7 day TTL by default', () => {
+    delete process.env.SUGGESTION_CACHE
+    delete process.env.SUGGESTION_CACHE_TTL_SECONDS
+    delete process.env.SUGGESTION_CACHE_EMBEDDINGS
+
+    expect(getSuggestionCacheConfig()).toEqual({
+      enabled: true,
+      ttlSeconds: 604800,
+      similarityThreshold: 0.95,
+      embed: undefined,
+    })
+  })
+
+  it('can be turned off', () => {
+    process.env.SUGGESTION_CACHE = 'off'
+    expect(getSuggestionCacheConfig().enabled).toBe(false)
+  })
+
+  it('rejects invalid values', () => {
+    process.env.SUGGESTION_CACHE_SIMILARITY_THRESHOLD = '1.5'
+    expect(() => getSuggestionCacheConfig()).toThrow('SUGGESTION_CACHE_SIMILARITY_THRESHOLD')
+  })
+})
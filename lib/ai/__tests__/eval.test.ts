@@ -0,0 +1,157 @@
+import fixtureInputs from '@/eval/fixtures/profile-suggestions.json'
+import syntheticResponses from '@/eval/fixtures/synthetic-responses.json'
+import {
+  createRecordedProvider,
+  evalFixtureSchema,
+  evalRecordingSchema,
+  formatEvalMarkdown,
+  isSpecificAction,
+  runEval,
+  scoreSuggestions,
+  type EvalFixture,
+} from '@/lib/ai/eval'
+import { parseAiResponse } from '@/lib/ai/parser'
+import { getPromptTemplate } from '@/lib/ai/prompts'
+
+/**
+ * Suggestion Eval Tests
+ *
+ * The checks must be deterministic - the same response always gets the
+ * same score, so reports can be diffed between commits.
+ */
+
+const suggestion = (title: string, action = 'Write five unit tests for your login form') => ({
+  title,
+  reason: 'It matters for your background',
+  action,
+})
+
+const response = (...titles: string[]) =>
+  JSON.stringify({ suggestions: titles.map(title => suggestion(title)) })
+
+const fixtures: EvalFixture[] = [
+  {
+    id: 'react',
+    input: { userBackground: 'Bootcamp grad, knows React', experienceLevel: 'beginner' },
+  },
+  {
+    id: 'java',
+    input: { userBackground: 'Three years of Java at a bank', experienceLevel: 'intermediate' },
+  },
+]
+
+describe('isSpecificAction', () => {
+  it('accepts concrete, time-boxed actions', () => {
+    expect(isSpecificAction('Build a to-do app and deploy it to Vercel')).toBe(true)
+    expect(isSpecificAction('Complete 20 exercises on SQLBolt this week')).toBe(true)
+  })
+
+  it('rejects generic or short actions', () => {
+    expect(isSpecificAction('Learn more about ETL concepts')).toBe(false)
+    expect(isSpecificAction('Practice more and keep learning every day')).toBe(false)
+    expect(isSpecificAction('Write tests')).toBe(false)
+  })
+})
+
+describe('scoreSuggestions', () => {
+  it('passes every check for a clean response', () => {
+    const checks = scoreSuggestions(parseAiResponse(response('Testing', 'Git', 'SQL')))
+    expect(checks.every(check => check.passed)).toBe(true)
+  })
+
+  it('flags counts outside 3-5 and duplicate titles', () => {
+    const checks = scoreSuggestions(parseAiResponse(response('Testing', 'testing!')))
+
+    expect(checks.find(check => check.name === 'count')?.passed).toBe(false)
+    expect(checks.find(check => check.name === 'uniqueTitles')).toEqual({
+      name: 'uniqueTitles',
+      passed: false,
+      detail: 'Duplicate titles: testing!',
+    })
+  })
+
+  it('fails every check when nothing parses', () => {
+    const checks = scoreSuggestions(parseAiResponse('Sorry, I cannot help with that.'))
+    expect(checks.some(check => check.passed)).toBe(false)
+  })
+})
+
+describe('runEval', () => {
+  const template = getPromptTemplate('profile-suggestions', 'v1')
+
+  it('scores recorded responses per fixture', async () => {
+    const provider = createRecordedProvider(
+      {
+        prompt: 'profile-suggestions@v1',
+        model: 'gpt-4',
+        responses: { react: response('Testing', 'Git', 'SQL'), java: response('Testing') },
+      },
+      fixtures
+    )
+
+    const { report, responses } = await runEval({ fixtures, template, provider })
+
+    expect(report.prompt).toBe('profile-suggestions@v1')
+    expect(report.cases.map(c => [c.fixtureId, c.score])).toEqual([
+      ['react', 1],
+      ['java', 0.75],
+    ])
+    expect(report.summary).toEqual({
+      cases: 2,
+      score: 0.88,
+      checks: { schema: 1, count: 0.5, actionSpecificity: 1, uniqueTitles: 1 },
+    })
+    expect(Object.keys(responses)).toEqual(['react', 'java'])
+    expect(formatEvalMarkdown(report)).toContain('| java | direct | 1 | 75% | count')
+  })
+
+  it('reports missing recordings as failed cases', async () => {
+    const provider = createRecordedProvider(
+      { prompt: 'profile-suggestions@v1', model: 'gpt-4', responses: {} },
+      fixtures
+    )
+
+    const { report } = await runEval({ fixtures: fixtures.slice(0, 1), template, provider })
+
+    expect(report.cases[0]).toMatchObject({
+      fixtureId: 'react',
+      score: 0,
+      error: "No recorded response for fixture 'react' in profile-suggestions@v1",
+    })
+  })
+})
+
+describe('synthetic responses', () => {
+  // Hand-written model output (eval/fixtures/synthetic-responses.json) that
+  // exercises the parser and every check - not a score of any prompt
+  it('scores the broken responses as broken', async () => {
+    const evalFixtures = evalFixtureSchema.array().parse(fixtureInputs)
+    const provider = createRecordedProvider(
+      evalRecordingSchema.parse(syntheticResponses),
+      evalFixtures
+    )
+
+    const { report } = await runEval({
+      fixtures: evalFixtures,
+      template: getPromptTemplate('profile-suggestions', 'v1'),
+      provider,
+    })
+    const failed = Object.fromEntries(
+      report.cases.map(c => [
+        c.fixtureId,
+        [c.parseStrategy, ...c.checks.filter(check => !check.passed).map(check => check.name)],
+      ])
+    )
+
+    expect(failed).toEqual({
+      'bootcamp-react': ['direct'],
+      'self-taught-no-goals': ['fenced'],
+      'career-switch-data': ['direct', 'actionSpecificity'],
+      'backend-java': ['direct'],
+      'frontend-no-tests': ['direct', 'uniqueTitles'],
+      'mobile-to-web': ['direct', 'count'],
+      'senior-platform': ['direct'],
+      'senior-ml': ['truncated', 'actionSpecificity'],
+    })
+  })
+})
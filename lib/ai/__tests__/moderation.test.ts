@@ -0,0 +1,171 @@
+import {
+  getModerationConfig,
+  moderateSuggestion,
+  moderateSuggestions,
+  truncateAtWord,
+} from '@/lib/ai/moderation'
+
+/**
+ * Output Moderation Tests
+ */
+
+const config = { allowedDomains: ['react.dev', 'github.com'], maxActionLength: 60 }
+
+const suggestion = (overrides: Partial<{ title: string; reason: string; action: string }>) => ({
+  title: 'React Testing',
+  reason: 'Tests catch regressions',
+  action: 'Write five component tests',
+  ...overrides,
+})
+
+describe('moderateSuggestion', () => {
+  it('allows clean suggestions unchanged', () => {
+    const verdict = moderateSuggestion(suggestion({}), config)
+    expect(verdict).toMatchObject({ outcome: 'allowed', reasons: [], suggestion: suggestion({}) })
+  })
+
+  it('rejects disallowed content', () => {
+    const verdict = moderateSuggestion(
+      suggestion({ action: 'Find a torrent of the paid course' }),
+      config
+    )
+
+    expect(verdict).toEqual({
+      outcome: 'rejected',
+      reasons: ['disallowed-content'],
+      original: suggestion({ action: 'Find a torrent of the paid course' }),
+    })
+  })
+
+  it('does not reject security topics', () => {
+    const verdict = moderateSuggestion(
+      suggestion({ title: 'Phishing and DDoS protection' }),
+      config
+    )
+    expect(verdict.outcome).toBe('allowed')
+  })
+
+  it('keeps allowlisted links and removes the rest', () => {
+    const verdict = moderateSuggestion(
+      suggestion({
+        reason: 'See https://docs.react.dev/learn and https://made-up-course.biz/react.',
+        action: 'Follow the guide: https://example.com/guide',
+      }),
+      config
+    )
+
+    expect(verdict.outcome).toBe('rewritten')
+    expect(verdict.reasons).toEqual(['url-not-allowed'])
+    expect(verdict.suggestion?.reason).toBe('See https://docs.react.dev/learn and.')
+    expect(verdict.suggestion?.action).toBe('Follow the guide')
+  })
+
+  it('removes links without a scheme', () => {
+    const verdict = moderateSuggestion(
+      suggestion({
+        reason: 'Docs at react.dev/learn, more at www.evil.example/x',
+        action: 'Sign up at evil.example/path today',
+      }),
+      config
+    )
+
+    expect(verdict.reasons).toEqual(['url-not-allowed'])
+    expect(verdict.suggestion?.reason).toBe('Docs at react.dev/learn, more at')
+    expect(verdict.suggestion?.action).toBe('Sign up at today')
+  })
+
+  it('does not mistake framework names for links', () => {
+    const verdict = moderateSuggestion(
+      suggestion({ title: 'Node.js/Express APIs', action: 'Build a Next.js app with Vue.js/Nuxt' }),
+      config
+    )
+    expect(verdict.outcome).toBe('allowed')
+  })
+
+  it('moderates links in the title', () => {
+    const verdict = moderateSuggestion(
+      suggestion({ title: 'React Testing at https://evil.example/react' }),
+      config
+    )
+
+    expect(verdict.reasons).toEqual(['url-not-allowed'])
+    expect(verdict.suggestion?.title).toBe('React Testing at')
+    expect(moderateSuggestion(suggestion({ title: 'www.evil.example' }), config)).toMatchObject({
+      outcome: 'rejected',
+      reasons: ['url-not-allowed', 'empty-after-rewrite'],
+    })
+  })
+
+  it('removes malformed links', () => {
+    const verdict = moderateSuggestion(
+      suggestion({ action: 'Read http://localhost/docs now' }),
+      config
+    )
+
+    expect(verdict.reasons).toEqual(['malformed-url'])
+    expect(verdict.suggestion?.action).toBe('Read now')
+  })
+
+  it('rejects suggestions left empty after rewriting', () => {
+    const verdict = moderateSuggestion(suggestion({ action: 'https://example.com' }), config)
+    expect(verdict).toMatchObject({
+      outcome: 'rejected',
+      reasons: ['url-not-allowed', 'empty-after-rewrite'],
+    })
+  })
+
+  it('shortens long actions at a word boundary', () => {
+    const action = 'Build a small todo app with React hooks and then add tests for every component'
+    const verdict = moderateSuggestion(suggestion({ action }), config)
+
+    expect(verdict.reasons).toEqual(['action-too-long'])
+    expect(verdict.suggestion!.action.length).toBeLessThanOrEqual(60)
+    expect(verdict.suggestion!.action).toBe(
+      'Build a small todo app with React hooks and then add tests…'
+    )
+  })
+})
+
+describe('moderateSuggestions', () => {
+  it('returns storable suggestions and a verdict for every input', () => {
+    const { suggestions, verdicts } = moderateSuggestions(
+      [
+        suggestion({}),
+        suggestion({ title: 'Cheating on interviews', action: 'Use a fake degree' }),
+      ],
+      config
+    )
+
+    expect(suggestions).toHaveLength(1)
+    expect(verdicts.map(v => v.outcome)).toEqual(['allowed', 'rejected'])
+  })
+})
+
+describe('truncateAtWord', () => {
+  it('leaves short text alone', () => {
+    expect(truncateAtWord('short', 10)).toBe('short')
+  })
+})
+
+describe('getModerationConfig', () => {
+  const original = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...original }
+  })
+
+  it('reads the allowlist and action length from the environment', () => {
+    process.env.AI_LINK_ALLOWLIST = 'Example.com, docs.rs'
+    process.env.AI_ACTION_MAX_LENGTH = '120'
+
+    expect(getModerationConfig()).toEqual({
+      allowedDomains: ['example.com', 'docs.rs'],
+      maxActionLength: 120,
+    })
+  })
+
+  it('rejects invalid action lengths', () => {
+    process.env.AI_ACTION_MAX_LENGTH = 'long'
+    expect(() => getModerationConfig()).toThrow('Invalid AI_ACTION_MAX_LENGTH environment variable')
+  })
+})
@@ -0,0 +1,86 @@
+import { FALLBACK_SUGGESTIONS, parseAiResponse } from '@/lib/ai/parser'
+
+/**
+ * AI Response Parser Tests
+ *
+ * Each test feeds one kind of misbehaving model output and checks both the
+ * parsed suggestions and which strategy recovered them.
+ */
+
+const suggestion = { title: 'Testing', reason: 'Confidence', action: 'Write three tests' }
+const json = JSON.stringify({ suggestions: [suggestion] })
+
+describe('parseAiResponse', () => {
+  it('parses clean JSON directly', () => {
+    const result = parseAiResponse(json)
+
+    expect(result.success).toBe(true)
+    expect(result.strategy).toBe('direct')
+    expect(result.suggestions).toEqual([suggestion])
+    expect(result.attempts).toEqual([{ strategy: 'direct', success: true }])
+  })
+
+  it('parses JSON inside a markdown code block', () => {
+    const result = parseAiResponse(`Sure!\n\`\`\`json\n${json}\n\`\`\``)
+
+    expect(result.strategy).toBe('fenced')
+    expect(result.suggestions).toEqual([suggestion])
+    expect(result.attempts[0]).toMatchObject({ strategy: 'direct', success: false })
+    expect(result.attempts[0].error).toMatch(/^Invalid JSON/)
+  })
+
+  it('extracts JSON surrounded by prose', () => {
+    const result = parseAiResponse(`Here are your suggestions: ${json} Hope this helps.`)
+
+    expect(result.strategy).toBe('extracted')
+    expect(result.attempts[1]).toEqual({
+      strategy: 'fenced',
+      success: false,
+      error: 'Not applicable',
+    })
+  })
+
+  it('repairs trailing commas', () => {
+    const result = parseAiResponse(
+      '{"suggestions": [{"title": "Testing", "reason": "Confidence", "action": "Write three tests",},],}'
+    )
+
+    expect(result.strategy).toBe('repaired')
+    expect(result.suggestions).toEqual([suggestion])
+  })
+
+  it('keeps complete suggestions from truncated output', () => {
+    const result = parseAiResponse(
+      `{"suggestions": [${JSON.stringify(suggestion)}, {"title": "SQL", "tags": ["db"], "reason": "Data ma`
+    )
+
+    expect(result.strategy).toBe('truncated')
+    expect(result.suggestions).toEqual([suggestion])
+  })
+
+  it('wraps a single suggestion object', () => {
+    const result = parseAiResponse(JSON.stringify(suggestion))
+
+    expect(result.strategy).toBe('direct')
+    expect(result.suggestions).toEqual([suggestion])
+  })
+
+  it('wraps a bare array of suggestions', () => {
+    expect(parseAiResponse(JSON.stringify([suggestion])).suggestions).toEqual([suggestion])
+  })
+
+  it('reports schema errors', () => {
+    const result = parseAiResponse('{"suggestions": [{"title": "Testing"}]}')
+
+    expect(result.attempts[0].error).toMatch(/^Schema: suggestions\.0\.reason/)
+  })
+
+  it('falls back when nothing can be parsed', () => {
+    const result = parseAiResponse('I cannot help with that.')
+
+    expect(result.success).toBe(false)
+    expect(result.strategy).toBe('fallback')
+    expect(result.suggestions).toBe(FALLBACK_SUGGESTIONS)
+    expect(result.attempts).toHaveLength(5)
+  })
+})
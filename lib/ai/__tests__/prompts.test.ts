@@ -0,0 +1,171 @@
+import {
+  getPromptTemplate,
+  listPromptTemplates,
+  promptId,
+  selectPromptTemplate,
+} from '@/lib/ai/prompts'
+
+/**
+ * Prompt Registry Tests
+ */
+
+const input = {
+  userBackground: 'Bootcamp grad, knows React',
+  currentGoals: 'Get a frontend job',
+  experienceLevel: 'beginner' as const,
+}
+
+describe('prompt registry', () => {
+  const originalSplit = process.env.PROMPT_AB_PROFILE_SUGGESTIONS
+
+  afterEach(() => {
+    process.env.PROMPT_AB_PROFILE_SUGGESTIONS = originalSplit
+  })
+
+  it('builds system and user messages from the input', () => {
+    const messages = getPromptTemplate('profile-suggestions', 'v1').build(input)
+
+    expect(messages.map(m => m.role)).toEqual(['system', 'user'])
+    expect(messages[1].content).toContain('Bootcamp grad, knows React')
+    expect(messages[1].content).toContain('Current Goals: Get a frontend job')
+  })
+
+  it('uses unique ids for every registered template', () => {
+    const ids = listPromptTemplates().map(promptId)
+    expect(new Set(ids).size).toBe(ids.length)
+  })
+
+  it('lists the templates of a single prompt', () => {
+    expect(listPromptTemplates('profile-suggestions').map(t => t.version)).toEqual([
+      'v1',
+      'v2',
+      'v3',
+      'v4',
+    ])
+    expect(listPromptTemplates('suggestion-replacement').map(promptId)).toEqual([
+      'suggestion-replacement@v1',
+    ])
+  })
+
+  it('throws for unknown versions', () => {
+    expect(() => getPromptTemplate('profile-suggestions', 'v999')).toThrow(
+      'Unknown prompt template: profile-suggestions@v999'
+    )
+  })
+
+  it('uses the default version without an A/B split', () => {
+    delete process.env.PROMPT_AB_PROFILE_SUGGESTIONS
+    expect(selectPromptTemplate('profile-suggestions', 'user-1').version).toBe('v4')
+  })
+
+  it('assigns users to versions consistently', () => {
+    process.env.PROMPT_AB_PROFILE_SUGGESTIONS = 'v1:50,v2:50'
+    const versions = Array.from(
+      { length: 50 },
+      (_, i) => selectPromptTemplate('profile-suggestions', `user-${i}`).version
+    )
+
+    expect(new Set(versions)).toEqual(new Set(['v1', 'v2']))
+    expect(selectPromptTemplate('profile-suggestions', 'user-7').version).toBe(versions[7])
+  })
+
+  it('ignores unregistered versions in the split', () => {
+    process.env.PROMPT_AB_PROFILE_SUGGESTIONS = 'v999:100'
+    expect(selectPromptTemplate('profile-suggestions', 'user-1').version).toBe('v4')
+  })
+})
+
+describe('suggestion-refinement prompt', () => {
+  const suggestion = (title: string) => ({ title, reason: 'r', action: 'a' })
+
+  it('replays earlier turns as a conversation before the new message', () => {
+    const messages = getPromptTemplate('suggestion-refinement').build({
+      ...input,
+      suggestions: [suggestion('React Testing')],
+      turns: [{ message: 'More backend please', suggestions: [suggestion('SQL Basics')] }],
+      message: 'I only have 3 hours a week',
+    })
+
+    expect(messages.map(m => m.role)).toEqual([
+      'system',
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+      'user',
+    ])
+    expect(JSON.parse(messages[2].content).suggestions[0].title).toBe('React Testing')
+    expect(messages[3].content).toBe('More backend please')
+    expect(JSON.parse(messages[4].content).suggestions[0].title).toBe('SQL Basics')
+    expect(messages[5].content).toContain('I only have 3 hours a week')
+  })
+})
+
+describe('profile-suggestions prompt history', () => {
+  const history = {
+    completed: [{ title: 'SQL Joins', completedAt: '2026-01-05T00:00:00.000Z' }],
+    suggested: ['Git Rebase'],
+  }
+
+  it('lists finished and earlier suggestions from v3', () => {
+    const content = getPromptTemplate('profile-suggestions', 'v3').build({ ...input, history })[1]
+      .content
+
+    expect(content).toContain('Already finished:\n- SQL Joins')
+    expect(content).toContain('Suggested before, not finished yet:\n- Git Rebase')
+    expect(content).toContain('Never suggest anything they already finished')
+  })
+
+  it('leaves the history out when there is none', () => {
+    const content = getPromptTemplate('profile-suggestions', 'v3').build(input)[1].content
+    expect(content).not.toContain('Already finished')
+  })
+})
+
+describe('profile-suggestions prompt prerequisites', () => {
+  it('asks for prerequisites by title from v4', () => {
+    const content = getPromptTemplate('profile-suggestions', 'v4').build(input)[1].content
+
+    expect(content).toContain('"prerequisites"')
+    expect(content).toContain('exact titles of earlier suggestions')
+    expect(getPromptTemplate('profile-suggestions', 'v3').build(input)[1].content).not.toContain(
+      'prerequisites'
+    )
+  })
+})
+
+describe('path-template-personalization prompt', () => {
+  it('lists the template steps by milestone', () => {
+    const content = getPromptTemplate('path-template-personalization').build({
+      ...input,
+      template: {
+        title: 'Frontend basics',
+        description: null,
+        content: {
+          milestones: [
+            {
+              title: 'Foundations',
+              description: null,
+              steps: [
+                {
+                  key: 'step-1',
+                  title: 'Semantic HTML',
+                  reason: 'Accessible markup',
+                  action: 'Rebuild a page with semantic tags',
+                  type: null,
+                  url: null,
+                  duration: null,
+                },
+              ],
+            },
+          ],
+          prerequisites: [],
+        },
+      },
+    })[1].content
+
+    expect(content).toContain('"Frontend basics"')
+    expect(content).toContain('Foundations\n- Semantic HTML: Rebuild a page with semantic tags')
+    expect(content).toContain('Keep the exact title of every template step you keep')
+  })
+})
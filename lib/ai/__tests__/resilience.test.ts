@@ -0,0 +1,338 @@
+import {
+  AiProviderError,
+  CircuitOpenError,
+  type CompletionRequest,
+  type SuggestionProvider,
+} from '@/lib/ai/providers'
+import {
+  backoffDelay,
+  CircuitBreaker,
+  getCircuitBreakerStates,
+  getResilienceConfig,
+  isRetryable,
+  resetCircuitBreakers,
+  withResilience,
+  type ResilienceConfig,
+} from '@/lib/ai/resilience'
+
+/**
+ * Resilience Tests
+ *
+ * Retries, timeouts and the circuit breaker around providers, using a
+ * fake provider that fails as told. Delays are zero so tests run instantly.
+ */
+
+const config: ResilienceConfig = {
+  timeoutMs: 50,
+  maxRetries: 2,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  failureThreshold: 3,
+  resetAfterMs: 60_000,
+}
+
+const request = {
+  input: { userBackground: 'Frontend developer', experienceLevel: 'beginner' },
+  messages: [{ role: 'user', content: 'Suggest something' }],
+} as CompletionRequest
+
+const apiError = (status: number) =>
+  new AiProviderError('The openai provider request failed', 'openai', {
+    cause: Object.assign(new Error(`${status}`), { status }),
+  })
+
+/**
+ * Provider whose calls play `outcomes` in order: an error is thrown,
+ * 'hang' waits until aborted, anything else succeeds
+ */
+function fakeProvider(outcomes: (Error | 'hang' | 'ok')[]) {
+  const signals: (AbortSignal | undefined)[] = []
+
+  const next = (signal?: AbortSignal) => {
+    signals.push(signal)
+    const outcome = outcomes.shift() ?? 'ok'
+    if (outcome instanceof Error) return Promise.reject(outcome)
+    if (outcome === 'hang') {
+      return new Promise<never>((_, reject) =>
+        signal?.addEventListener('abort', () => reject(new Error('Request was aborted.')))
+      )
+    }
+    return Promise.resolve()
+  }
+
+  const provider: SuggestionProvider = {
+    name: 'openai',
+    model: 'gpt-4',
+    complete: async ({ signal }) => {
+      await next(signal)
+      return { content: '{"suggestions":[]}', model: 'gpt-4' }
+    },
+    stream: async function* ({ signal }) {
+      await next(signal)
+      yield '{"suggestions":'
+      yield '[]}'
+    },
+  }
+
+  return { provider, calls: () => signals.length, signals }
+}
+
+async function collect(stream: AsyncIterable<string>) {
+  let content = ''
+  for await (const delta of stream) content += delta
+  return content
+}
+
+beforeEach(() => resetCircuitBreakers())
+
+describe('getResilienceConfig', () => {
+  const env = process.env
+
+  afterEach(() => {
+    process.env = env
+  })
+
+  it('uses defaults when nothing is configured', () => {
+    process.env = { ...env }
+    delete process.env.AI_MAX_RETRIES
+    delete process.env.AI_TIMEOUT_MS
+
+    expect(getResilienceConfig()).toMatchObject({ maxRetries: 2, timeoutMs: 30_000 })
+  })
+
+  it('reads overrides and rejects invalid values', () => {
+    process.env = { ...env, AI_MAX_RETRIES: '0', AI_BREAKER_FAILURE_THRESHOLD: '10' }
+    expect(getResilienceConfig()).toMatchObject({ maxRetries: 0, failureThreshold: 10 })
+
+    process.env = { ...env, AI_TIMEOUT_MS: '0' }
+    expect(() => getResilienceConfig()).toThrow('Invalid AI_TIMEOUT_MS environment variable')
+  })
+})
+
+describe('isRetryable', () => {
+  it('retries rate limits, server errors and connection errors', () => {
+    expect(isRetryable(apiError(429))).toBe(true)
+    expect(isRetryable(apiError(503))).toBe(true)
+    expect(
+      isRetryable(
+        new AiProviderError('failed', 'openai', {
+          cause: Object.assign(new Error('Connection error.'), { name: 'APIConnectionError' }),
+        })
+      )
+    ).toBe(true)
+  })
+
+  it('does not retry client errors or missing credentials', () => {
+    expect(isRetryable(apiError(400))).toBe(false)
+    expect(isRetryable(apiError(401))).toBe(false)
+    expect(
+      isRetryable(
+        new AiProviderError('failed', 'openai', {
+          cause: new Error('Missing OPENAI_API_KEY environment variable'),
+        })
+      )
+    ).toBe(false)
+  })
+})
+
+describe('backoffDelay', () => {
+  const delays = { baseDelayMs: 500, maxDelayMs: 3_000 }
+
+  it('doubles the ceiling with each attempt, up to the maximum', () => {
+    expect(backoffDelay(0, delays, () => 1)).toBe(500)
+    expect(backoffDelay(1, delays, () => 1)).toBe(1_000)
+    expect(backoffDelay(2, delays, () => 1)).toBe(2_000)
+    expect(backoffDelay(5, delays, () => 1)).toBe(3_000)
+  })
+
+  it('picks a random delay below the ceiling', () => {
+    expect(backoffDelay(1, delays, () => 0)).toBe(0)
+    expect(backoffDelay(1, delays, () => 0.5)).toBe(500)
+  })
+})
+
+describe('CircuitBreaker', () => {
+  let now = 0
+  const breaker = () => new CircuitBreaker({ failureThreshold: 2, resetAfterMs: 1_000 }, () => now)
+
+  beforeEach(() => {
+    now = 0
+  })
+
+  it('opens after consecutive failures', () => {
+    const b = breaker()
+    b.recordFailure()
+    expect(b.tryAcquire()).toBe(true)
+
+    b.recordFailure()
+    expect(b.snapshot()).toMatchObject({ state: 'open', consecutiveFailures: 2 })
+    expect(b.tryAcquire()).toBe(false)
+  })
+
+  it('resets the failure count on success', () => {
+    const b = breaker()
+    b.recordFailure()
+    b.recordSuccess()
+    b.recordFailure()
+    expect(b.snapshot().state).toBe('closed')
+  })
+
+  it('lets a single trial call through once the reset time has passed', () => {
+    const b = breaker()
+    b.recordFailure()
+    b.recordFailure()
+
+    now = 1_000
+    expect(b.tryAcquire()).toBe(true)
+    expect(b.snapshot().state).toBe('half-open')
+    expect(b.tryAcquire()).toBe(false)
+
+    b.recordSuccess()
+    expect(b.snapshot().state).toBe('closed')
+  })
+
+  it('opens again when the trial call fails', () => {
+    const b = breaker()
+    b.recordFailure()
+    b.recordFailure()
+
+    now = 1_000
+    b.tryAcquire()
+    b.recordFailure()
+    expect(b.snapshot()).toMatchObject({ state: 'open', retryAt: new Date(2_000).toISOString() })
+  })
+})
+
+describe('withResilience', () => {
+  it('retries retryable failures', async () => {
+    const fake = fakeProvider([apiError(429), apiError(500), 'ok'])
+    const result = await withResilience(fake.provider, config).complete(request)
+
+    expect(result.content).toBe('{"suggestions":[]}')
+    expect(fake.calls()).toBe(3)
+  })
+
+  it('gives up after the configured number of retries', async () => {
+    const fake = fakeProvider([apiError(503), apiError(503), apiError(503), 'ok'])
+
+    await expect(withResilience(fake.provider, config).complete(request)).rejects.toThrow(
+      AiProviderError
+    )
+    expect(fake.calls()).toBe(3)
+  })
+
+  it('does not retry other failures', async () => {
+    const fake = fakeProvider([apiError(400), 'ok'])
+
+    await expect(withResilience(fake.provider, config).complete(request)).rejects.toThrow(
+      AiProviderError
+    )
+    expect(fake.calls()).toBe(1)
+  })
+
+  it('aborts attempts that take too long and retries them', async () => {
+    const fake = fakeProvider(['hang', 'ok'])
+    const result = await withResilience(fake.provider, config).complete(request)
+
+    expect(result.model).toBe('gpt-4')
+    expect(fake.signals[0]?.aborted).toBe(true)
+    expect(fake.calls()).toBe(2)
+  })
+
+  it('passes the caller’s abort signal on to the provider', async () => {
+    const fake = fakeProvider(['hang'])
+    const caller = new AbortController()
+
+    const result = withResilience(fake.provider, config).complete({
+      ...request,
+      signal: caller.signal,
+    })
+    caller.abort()
+
+    await expect(result).rejects.toThrow('Request was aborted.')
+    expect(fake.calls()).toBe(1)
+  })
+
+  it('reports timeouts as provider errors', async () => {
+    const fake = fakeProvider(['hang'])
+
+    await expect(
+      withResilience(fake.provider, { ...config, maxRetries: 0 }).complete(request)
+    ).rejects.toThrow('The openai provider timed out')
+  })
+
+  it('short-circuits once the breaker opens, and reports its state', async () => {
+    const fake = fakeProvider(Array(3).fill(apiError(503)))
+    const provider = withResilience(fake.provider, { ...config, maxRetries: 0 })
+
+    for (let i = 0; i < 3; i++) {
+      await expect(provider.complete(request)).rejects.toThrow(AiProviderError)
+    }
+
+    await expect(provider.complete(request)).rejects.toThrow(CircuitOpenError)
+    expect(fake.calls()).toBe(3)
+    expect(getCircuitBreakerStates().openai).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+    })
+  })
+
+  it('does not open the breaker for failures that are not the provider’s', async () => {
+    const fake = fakeProvider(Array(5).fill(apiError(400)))
+    const provider = withResilience(fake.provider, config)
+
+    for (let i = 0; i < 5; i++) {
+      await expect(provider.complete(request)).rejects.toThrow(AiProviderError)
+    }
+    expect(getCircuitBreakerStates().openai).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 0,
+    })
+  })
+
+  it('frees the half-open trial when the consumer stops reading a stream', async () => {
+    const fake = fakeProvider([apiError(503)])
+    const provider = withResilience(fake.provider, {
+      ...config,
+      maxRetries: 0,
+      failureThreshold: 1,
+      resetAfterMs: 0,
+    })
+    await expect(provider.complete(request)).rejects.toThrow(AiProviderError)
+
+    // The trial call: read one chunk, then go away
+    const stream = provider.stream(request)[Symbol.asyncIterator]()
+    await stream.next()
+    await stream.return?.()
+
+    expect(getCircuitBreakerStates().openai?.state).toBe('half-open')
+    await expect(provider.complete(request)).resolves.toMatchObject({ model: 'gpt-4' })
+    expect(getCircuitBreakerStates().openai?.state).toBe('closed')
+  })
+
+  it('retries streams that fail before the first chunk', async () => {
+    const fake = fakeProvider([apiError(502), 'ok'])
+
+    expect(await collect(withResilience(fake.provider, config).stream(request))).toBe(
+      '{"suggestions":[]}'
+    )
+    expect(fake.calls()).toBe(2)
+  })
+
+  it('does not retry streams that fail after the first chunk', async () => {
+    let calls = 0
+    const provider: SuggestionProvider = {
+      ...fakeProvider([]).provider,
+      stream: async function* () {
+        calls++
+        yield '{"suggestions":'
+        throw apiError(502)
+      },
+    }
+
+    await expect(collect(withResilience(provider, config).stream(request))).rejects.toThrow(
+      AiProviderError
+    )
+    expect(calls).toBe(1)
+  })
+})
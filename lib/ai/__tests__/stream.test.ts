@@ -0,0 +1,61 @@
+import { createSuggestionStreamParser, encodeSSE } from '@/lib/ai/stream'
+
+/**
+ * Suggestion Stream Parser Tests
+ *
+ * The parser receives model output in arbitrary chunks and must emit each
+ * suggestion exactly once, as soon as its closing brace arrives.
+ */
+
+const response = JSON.stringify({
+  suggestions: [
+    { title: 'Testing', reason: 'Confidence {always}', action: 'Write "three" tests' },
+    { title: 'SQL', reason: 'Data matters', action: 'Write five queries' },
+  ],
+})
+
+describe('createSuggestionStreamParser', () => {
+  it('emits each suggestion once it is complete', () => {
+    const parser = createSuggestionStreamParser()
+    const cut = response.indexOf('},') + 1
+
+    expect(parser.push(response.slice(0, cut - 1))).toEqual([])
+    expect(parser.push(response.slice(cut - 1, cut))).toEqual([
+      { title: 'Testing', reason: 'Confidence {always}', action: 'Write "three" tests' },
+    ])
+    expect(parser.push(response.slice(cut))).toEqual([
+      { title: 'SQL', reason: 'Data matters', action: 'Write five queries' },
+    ])
+  })
+
+  it('handles one-character chunks', () => {
+    const parser = createSuggestionStreamParser()
+    const emitted = [...response].flatMap(char => parser.push(char))
+
+    expect(emitted.map(s => s.title)).toEqual(['Testing', 'SQL'])
+  })
+
+  it('ignores prose and markdown fences around the JSON', () => {
+    const parser = createSuggestionStreamParser()
+    const emitted = parser.push(`Here you go:\n\`\`\`json\n${response}\n\`\`\`\nGood luck!`)
+
+    expect(emitted).toHaveLength(2)
+  })
+
+  it('skips objects that fail validation', () => {
+    const parser = createSuggestionStreamParser()
+    const emitted = parser.push(
+      '{"suggestions": [{"title": "No action", "reason": "x"}, {"title": "Ok", "reason": "y", "action": "z"}]}'
+    )
+
+    expect(emitted).toEqual([{ title: 'Ok', reason: 'y', action: 'z' }])
+  })
+})
+
+describe('encodeSSE', () => {
+  it('formats an event for text/event-stream', () => {
+    expect(encodeSSE({ event: 'error', data: { error: 'Oops' } })).toBe(
+      'event: error\ndata: {"error":"Oops"}\n\n'
+    )
+  })
+})
@@ -0,0 +1,226 @@
+import {
+  AiProviderError,
+  CircuitOpenError,
+  type CompletionRequest,
+  type SuggestionProvider,
+} from '@/lib/ai/providers'
+import { resetCircuitBreakers, withResilience } from '@/lib/ai/resilience'
+import {
+  countsTowardsQuota,
+  estimateCost,
+  estimateTokens,
+  getAiQuota,
+  meterProvider,
+  QuotaExceededError,
+  quotaWindow,
+  type AiUsageRecord,
+} from '@/lib/ai/usage'
+
+/**
+ * AI Usage Tests
+ *
+ * Cost estimates, quota windows and what gets metered - the parts of
+ * metering that don't need a database.
+ */
+
+describe('estimateCost', () => {
+  it('prices OpenAI models per token', () => {
+    // ~$0.03 for a typical GPT-4 suggestions request
+    expect(estimateCost('openai', 'gpt-4-0613', { promptTokens: 500, completionTokens: 250 })).toBe(
+      0.03
+    )
+    expect(estimateCost('openai', 'gpt-4o-mini', { promptTokens: 1000, completionTokens: 0 })).toBe(
+      0.00015
+    )
+  })
+
+  it('prices unknown OpenAI models like gpt-4', () => {
+    const usage = { promptTokens: 100, completionTokens: 100 }
+    expect(estimateCost('openai', 'o9-preview', usage)).toBe(estimateCost('openai', 'gpt-4', usage))
+  })
+
+  it('treats local and template providers as free', () => {
+    expect(estimateCost('local', 'llama3.1', { promptTokens: 500, completionTokens: 500 })).toBe(0)
+    expect(estimateCost('template', 'template-v1', { promptTokens: 5, completionTokens: 5 })).toBe(
+      0
+    )
+  })
+})
+
+describe('estimateTokens', () => {
+  it('counts roughly four characters per token', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('abcdefghi')).toBe(3)
+  })
+})
+
+describe('quotaWindow', () => {
+  const now = new Date('2026-01-31T22:30:00.000Z')
+
+  it('covers the current UTC day', () => {
+    expect(quotaWindow('daily', now)).toEqual({
+      start: new Date('2026-01-31T00:00:00.000Z'),
+      end: new Date('2026-02-01T00:00:00.000Z'),
+    })
+  })
+
+  it('covers the current UTC month', () => {
+    expect(quotaWindow('monthly', now)).toEqual({
+      start: new Date('2026-01-01T00:00:00.000Z'),
+      end: new Date('2026-02-01T00:00:00.000Z'),
+    })
+  })
+})
+
+describe('getAiQuota', () => {
+  const env = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...env }
+  })
+
+  it('uses defaults when nothing is configured', () => {
+    delete process.env.AI_QUOTA_DAILY
+    delete process.env.AI_QUOTA_MONTHLY
+    expect(getAiQuota()).toEqual({ daily: 10, monthly: 100 })
+  })
+
+  it('reads limits and unlimited from the environment', () => {
+    process.env.AI_QUOTA_DAILY = '1'
+    process.env.AI_QUOTA_MONTHLY = 'unlimited'
+    expect(getAiQuota()).toEqual({ daily: 1, monthly: null })
+  })
+
+  it('rejects invalid values', () => {
+    process.env.AI_QUOTA_DAILY = 'lots'
+    expect(() => getAiQuota()).toThrow('Invalid AI_QUOTA_DAILY')
+  })
+})
+
+describe('QuotaExceededError', () => {
+  it('carries what the 429 response needs', () => {
+    const error = new QuotaExceededError('daily', 10, 5400)
+
+    expect(error.message).toBe(
+      "You've reached your daily limit of 10 AI requests. Please try again tomorrow."
+    )
+    expect(error).toMatchObject({ period: 'daily', limit: 10, retryAfter: 5400 })
+  })
+})
+
+describe('countsTowardsQuota', () => {
+  it('leaves out the free template provider', () => {
+    expect(countsTowardsQuota('openai')).toBe(true)
+    expect(countsTowardsQuota('local')).toBe(true)
+    expect(countsTowardsQuota('template')).toBe(false)
+  })
+})
+
+describe('meterProvider', () => {
+  const request = {
+    input: { userBackground: 'Frontend developer', experienceLevel: 'beginner' },
+    messages: [{ role: 'user', content: 'Suggest something' }],
+  } as CompletionRequest
+
+  const serverError = () =>
+    new AiProviderError('The openai provider request failed', 'openai', {
+      cause: Object.assign(new Error('503'), { status: 503 }),
+    })
+
+  /** Provider whose calls fail with the given errors in order, then succeed */
+  function failingProvider(failures: Error[], partial = '') {
+    const provider: SuggestionProvider = {
+      name: 'openai',
+      model: 'gpt-4',
+      complete: async () => {
+        const failure = failures.shift()
+        if (failure) throw failure
+        return {
+          content: '{"suggestions":[]}',
+          model: 'gpt-4-0613',
+          usage: { promptTokens: 100, completionTokens: 20 },
+        }
+      },
+      stream: async function* () {
+        if (partial) yield partial
+        const failure = failures.shift()
+        if (failure) throw failure
+        yield '{"suggestions":[]}'
+      },
+    }
+
+    return withResilience(provider, {
+      timeoutMs: 50,
+      maxRetries: 2,
+      baseDelayMs: 0,
+      maxDelayMs: 0,
+      failureThreshold: 1,
+      resetAfterMs: 60_000,
+    })
+  }
+
+  function metered(provider: SuggestionProvider) {
+    const records: AiUsageRecord[] = []
+    const wrapped = meterProvider(
+      provider,
+      { userId: 'user-1', feature: 'profile-suggestions' },
+      async record => {
+        records.push(record)
+      }
+    )
+    return { provider: wrapped, records }
+  }
+
+  async function collect(stream: AsyncIterable<string>) {
+    let content = ''
+    for await (const delta of stream) content += delta
+    return content
+  }
+
+  beforeEach(() => resetCircuitBreakers())
+
+  it('records retried attempts and the call that succeeded', async () => {
+    const { provider, records } = metered(failingProvider([serverError()]))
+
+    await provider.complete(request)
+
+    expect(records.map(r => r.status)).toEqual(['retried', 'succeeded'])
+    expect(records[0].usage).toEqual({ promptTokens: 0, completionTokens: 0 })
+    expect(records[1]).toMatchObject({
+      model: 'gpt-4-0613',
+      usage: { promptTokens: 100, completionTokens: 20 },
+      estimated: false,
+    })
+  })
+
+  it('records a call that failed', async () => {
+    const { provider, records } = metered(
+      failingProvider([serverError(), serverError(), serverError()])
+    )
+
+    await expect(provider.complete(request)).rejects.toThrow(AiProviderError)
+    expect(records.map(r => r.status)).toEqual(['retried', 'retried', 'failed'])
+  })
+
+  it('does not record calls the circuit breaker turned away', async () => {
+    const { provider, records } = metered(
+      failingProvider([serverError(), serverError(), serverError()])
+    )
+
+    await expect(provider.complete(request)).rejects.toThrow(AiProviderError)
+    records.length = 0
+
+    await expect(provider.complete(request)).rejects.toThrow(CircuitOpenError)
+    await expect(collect(provider.stream(request))).rejects.toThrow(CircuitOpenError)
+    expect(records).toEqual([])
+  })
+
+  it('records a stream that broke off with the tokens received', async () => {
+    const { provider, records } = metered(failingProvider([serverError()], '{"suggestions":'))
+
+    await expect(collect(provider.stream(request))).rejects.toThrow(AiProviderError)
+    expect(records).toHaveLength(1)
+    expect(records[0]).toMatchObject({ status: 'failed', estimated: true })
+    expect(records[0].usage.completionTokens).toBe(estimateTokens('{"suggestions":'))
+  })
+})
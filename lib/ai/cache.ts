@@ -0,0 +1,324 @@
+import { createHash } from 'node:crypto'
+import type { ProviderName } from '@/lib/ai/providers'
+import { getOpenAIClient } from '@/lib/openai/client'
+import { createServiceClient } from '@/lib/supabase/client'
+import { suggestionSchema, type AiPromptInput, type AiSuggestion } from '@/lib/validation/schemas'
+
+/**
+ * Suggestion cache
+ *
+ * Many users submit near-identical inputs ("bootcamp grad, knows React"),
+ * so parsed AI suggestions are cached in suggestion_cache and reused
+ * instead of calling the model again.
+ *
+ * Lookup order:
+ * 1. Exact match on a hash of the normalized input (case, whitespace and
+ *    punctuation ignored) plus prompt version, provider and model
+ * 2. Optional similarity match: when an embedding function is configured,
+ *    the closest unexpired entry with the same scope and experience level is
+ *    used if its cosine similarity reaches the threshold. Only the same
+ *    user's entries are compared - reasons can repeat details of the input
+ *    they were generated from, which a merely similar input doesn't share
+ *
+ * Every lookup is recorded in suggestion_cache_events (see the
+ * suggestion_cache_stats view for hit rates). Cache failures are logged and
+ * treated as misses - the cache never fails a request.
+ *
+ * Requests personalized beyond the cache scope (e.g. by the user's
+ * suggestion history) pass `skip: true`: nothing is read or stored.
+ *
+ * Configuration:
+ * - SUGGESTION_CACHE=off                      disable the cache
+ * - SUGGESTION_CACHE_TTL_SECONDS              entry lifetime (default 7 days)
+ * - SUGGESTION_CACHE_EMBEDDINGS=openai        enable similarity lookup
+ * - SUGGESTION_CACHE_SIMILARITY_THRESHOLD     minimum cosine similarity (default 0.95)
+ *
+ * Usage:
+ *   const lookup = await lookupSuggestionCache(scope, { bypass: cache === 'bypass' })
+ *   if (lookup.suggestions) return lookup.suggestions
+ *   // ...generate...
+ *   await storeSuggestionCache(scope, lookup, suggestions)
+ */
+
+/**
+ * Turns text into an embedding vector for similarity lookup
+ * Any implementation works, as long as it is used consistently
+ */
+export type EmbeddingFunction = (text: string) => Promise<number[]>
+
+export interface SuggestionCacheConfig {
+  enabled: boolean
+  ttlSeconds: number
+  similarityThreshold: number
+  embed?: EmbeddingFunction
+}
+
+/**
+ * Everything that must match for a cached result to be reused
+ */
+export interface SuggestionCacheScope {
+  input: AiPromptInput
+  /** Who the request is for - not part of the key, but limits similarity hits */
+  userId: string
+  promptVersion: string
+  provider: ProviderName
+  model: string
+}
+
+export type SuggestionCacheStatus = 'hit' | 'similar' | 'miss' | 'bypass'
+
+export interface SuggestionCacheLookup {
+  status: SuggestionCacheStatus | 'disabled' | 'skipped'
+  key: string
+  /** Set on 'hit' and 'similar' */
+  suggestions?: AiSuggestion[]
+  /** Embedding of the normalized input, reused by storeSuggestionCache() */
+  embedding?: number[]
+}
+
+type ActiveLookup = SuggestionCacheLookup & { status: SuggestionCacheStatus }
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60
+const DEFAULT_SIMILARITY_THRESHOLD = 0.95
+
+// How many recent entries a similarity lookup compares against
+const SIMILARITY_CANDIDATES = 100
+
+/**
+ * Embeddings from the OpenAI API
+ */
+export function createOpenAIEmbedding(model = 'text-embedding-3-small'): EmbeddingFunction {
+  return async text => {
+    const response = await getOpenAIClient().embeddings.create({ model, input: text })
+    return response.data[0].embedding
+  }
+}
+
+export function getSuggestionCacheConfig(): SuggestionCacheConfig {
+  const ttlSeconds = Number(process.env.SUGGESTION_CACHE_TTL_SECONDS || DEFAULT_TTL_SECONDS)
+  const similarityThreshold = Number(
+    process.env.SUGGESTION_CACHE_SIMILARITY_THRESHOLD || DEFAULT_SIMILARITY_THRESHOLD
+  )
+
+  if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0) {
+    throw new Error(
+      'Invalid SUGGESTION_CACHE_TTL_SECONDS environment variable. Expected a positive whole number'
+    )
+  }
+
+  if (!(similarityThreshold > 0 && similarityThreshold <= 1)) {
+    throw new Error(
+      'Invalid SUGGESTION_CACHE_SIMILARITY_THRESHOLD environment variable. Expected a number between 0 and 1'
+    )
+  }
+
+  return {
+    enabled: process.env.SUGGESTION_CACHE !== 'off',
+    ttlSeconds,
+    similarityThreshold,
+    embed:
+      process.env.SUGGESTION_CACHE_EMBEDDINGS === 'openai' ? createOpenAIEmbedding() : undefined,
+  }
+}
+
+/**
+ * Lowercase, collapse whitespace and drop punctuation that doesn't change
+ * meaning - keeps characters that do, like "C++", "C#" and "Node.js"
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}+#.]+/gu, ' ')
+    .replace(/\.+(?=\s|$)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function normalizeInput(input: AiPromptInput): AiPromptInput {
+  const currentGoals = input.currentGoals && normalizeText(input.currentGoals)
+
+  return {
+    userBackground: normalizeText(input.userBackground),
+    ...(currentGoals && { currentGoals }),
+    experienceLevel: input.experienceLevel,
+  }
+}
+
+export function suggestionCacheKey(scope: SuggestionCacheScope): string {
+  const input = normalizeInput(scope.input)
+
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        scope.promptVersion,
+        scope.provider,
+        scope.model,
+        input.experienceLevel,
+        input.userBackground,
+        input.currentGoals ?? '',
+      ])
+    )
+    .digest('hex')
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+function embeddingText(input: AiPromptInput): string {
+  const normalized = normalizeInput(input)
+  return [normalized.userBackground, normalized.currentGoals].filter(Boolean).join('\n')
+}
+
+function parseCachedSuggestions(raw: unknown): AiSuggestion[] | undefined {
+  const result = suggestionSchema.array().min(1).safeParse(raw)
+  return result.success ? result.data : undefined
+}
+
+async function recordCacheEvent(status: SuggestionCacheStatus, promptVersion: string) {
+  try {
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('suggestion_cache_events')
+      .insert({ status, prompt_version: promptVersion })
+
+    if (error) throw error
+  } catch (error) {
+    console.error('Failed to record suggestion cache event:', error)
+  }
+}
+
+/**
+ * Look up cached suggestions for a request
+ * With `bypass`, skips the lookup (the fresh result still refreshes the entry)
+ * With `skip`, the request doesn't use the cache at all
+ */
+export async function lookupSuggestionCache(
+  scope: SuggestionCacheScope,
+  { bypass = false, skip = false, config = getSuggestionCacheConfig() } = {}
+): Promise<SuggestionCacheLookup> {
+  const key = suggestionCacheKey(scope)
+  if (!config.enabled) return { status: 'disabled', key }
+  if (skip) return { status: 'skipped', key }
+
+  const lookup = await findCachedSuggestions(scope, key, bypass, config).catch(
+    (error): ActiveLookup => {
+      console.error('Suggestion cache lookup failed:', error)
+      return { status: 'miss', key }
+    }
+  )
+
+  await recordCacheEvent(lookup.status, scope.promptVersion)
+  return lookup
+}
+
+async function findCachedSuggestions(
+  scope: SuggestionCacheScope,
+  key: string,
+  bypass: boolean,
+  config: SuggestionCacheConfig
+): Promise<ActiveLookup> {
+  const embedding = config.embed ? await config.embed(embeddingText(scope.input)) : undefined
+  if (bypass) return { status: 'bypass', key, embedding }
+
+  const supabase = createServiceClient()
+  const now = new Date().toISOString()
+
+  const { data: exact, error } = await supabase
+    .from('suggestion_cache')
+    .select('key, suggestions, hit_count')
+    .eq('key', key)
+    .gt('expires_at', now)
+    .maybeSingle()
+
+  if (error) throw error
+
+  let match: { key: string; suggestions: unknown; hit_count: number } | null = exact
+  let status: SuggestionCacheStatus = 'hit'
+
+  if (!match && embedding) {
+    const { data: candidates, error: candidatesError } = await supabase
+      .from('suggestion_cache')
+      .select('key, suggestions, hit_count, embedding')
+      .eq('user_id', scope.userId)
+      .eq('prompt_version', scope.promptVersion)
+      .eq('provider', scope.provider)
+      .eq('model', scope.model)
+      .eq('experience_level', scope.input.experienceLevel)
+      .gt('expires_at', now)
+      .not('embedding', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(SIMILARITY_CANDIDATES)
+
+    if (candidatesError) throw candidatesError
+
+    let best = config.similarityThreshold
+    for (const candidate of candidates ?? []) {
+      const similarity = cosineSimilarity(embedding, candidate.embedding)
+      if (similarity >= best) {
+        best = similarity
+        match = candidate
+        status = 'similar'
+      }
+    }
+  }
+
+  const suggestions = match ? parseCachedSuggestions(match.suggestions) : undefined
+  if (!match || !suggestions) return { status: 'miss', key, embedding }
+
+  // Read-modify-write - concurrent hits may undercount, which is fine for metrics
+  await supabase
+    .from('suggestion_cache')
+    .update({ hit_count: match.hit_count + 1, last_hit_at: now })
+    .eq('key', match.key)
+
+  return { status, key, suggestions, embedding }
+}
+
+/**
+ * Store freshly generated suggestions for the lookup's key
+ * Replaces any expired (or bypassed) entry for the same key
+ */
+export async function storeSuggestionCache(
+  scope: SuggestionCacheScope,
+  lookup: SuggestionCacheLookup,
+  suggestions: AiSuggestion[],
+  { config = getSuggestionCacheConfig() } = {}
+): Promise<void> {
+  if (!config.enabled || (lookup.status !== 'miss' && lookup.status !== 'bypass')) return
+
+  try {
+    const supabase = createServiceClient()
+    const { error } = await supabase.from('suggestion_cache').upsert({
+      key: lookup.key,
+      prompt_version: scope.promptVersion,
+      provider: scope.provider,
+      model: scope.model,
+      experience_level: scope.input.experienceLevel,
+      user_id: scope.userId,
+      normalized_input: normalizeInput(scope.input),
+      embedding: lookup.embedding ?? null,
+      suggestions,
+      hit_count: 0,
+      last_hit_at: null,
+      created_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + config.ttlSeconds * 1000).toISOString(),
+    })
+
+    if (error) throw error
+  } catch (error) {
+    console.error('Failed to store suggestions in cache:', error)
+  }
+}
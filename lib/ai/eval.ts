@@ -0,0 +1,324 @@
+import { z } from 'zod'
+import { parseAiResponse, type ParseResult } from '@/lib/ai/parser'
+import { promptId, type PromptTemplate } from '@/lib/ai/prompts'
+import { AiProviderError, type SuggestionProvider } from '@/lib/ai/providers'
+import { normalizeTitle } from '@/lib/suggestions/model'
+import { aiPromptSchema, type AiPromptInput } from '@/lib/validation/schemas'
+
+/**
+ * Offline evaluation of suggestion quality
+ *
+ * Runs a fixed set of inputs through the same pipeline as the suggestions
+ * route (prompt template -> provider -> parseAiResponse) and scores every
+ * output with deterministic checks, so prompt and model changes can be
+ * compared by diffing reports between commits.
+ *
+ * Checks:
+ * - schema:            the response parsed into valid suggestions
+ * - count:             between 3 and 5 suggestions (what the prompt asks for)
+ * - actionSpecificity: every action is concrete (see isSpecificAction)
+ * - uniqueTitles:      no two suggestions share a title
+ *
+ * Offline runs use createRecordedProvider() with responses recorded earlier
+ * from a real provider. The CLI lives in scripts/eval-suggestions.ts.
+ *
+ * Usage:
+ *   const provider = createRecordedProvider(recording, fixtures)
+ *   const { report } = await runEval({ fixtures, template, provider })
+ *   console.log(formatEvalMarkdown(report))
+ */
+
+export const evalFixtureSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  input: aiPromptSchema,
+})
+
+export type EvalFixture = z.infer<typeof evalFixtureSchema>
+
+/**
+ * Raw model output for every fixture, for a single prompt version
+ */
+export const evalRecordingSchema = z.object({
+  prompt: z.string(),
+  model: z.string(),
+  responses: z.record(z.string(), z.string()),
+})
+
+export type EvalRecording = z.infer<typeof evalRecordingSchema>
+
+export type EvalCheckName = 'schema' | 'count' | 'actionSpecificity' | 'uniqueTitles'
+
+export interface EvalCheck {
+  name: EvalCheckName
+  passed: boolean
+  detail: string
+}
+
+export interface EvalCaseResult {
+  fixtureId: string
+  parseStrategy: ParseResult['strategy']
+  suggestionCount: number
+  checks: EvalCheck[]
+  /** Share of checks passed, 0-1 */
+  score: number
+  /** Set when the provider failed - every check counts as failed */
+  error?: string
+}
+
+export interface EvalReport {
+  prompt: string
+  provider: string
+  model: string
+  summary: {
+    cases: number
+    /** Mean case score, 0-1 */
+    score: number
+    /** Pass rate per check, 0-1 */
+    checks: Record<EvalCheckName, number>
+  }
+  cases: EvalCaseResult[]
+}
+
+const CHECK_NAMES: EvalCheckName[] = ['schema', 'count', 'actionSpecificity', 'uniqueTitles']
+
+const MIN_SUGGESTIONS = 3
+const MAX_SUGGESTIONS = 5
+
+// Advice that could be given to anyone, regardless of background
+const GENERIC_ACTION_PATTERNS = [
+  /\bpractice (more|regularly|daily)\b/i,
+  /\bkeep (learning|practicing|coding)\b/i,
+  /\blearn more\b/i,
+  /\bread (up )?(on|about)\b/i,
+  /\bget (familiar|comfortable) with\b/i,
+  /\bstay up to date\b/i,
+  /\bimprove your\b/i,
+]
+
+// Signs of a concrete step: a quantity, a link or a verb that produces something
+const CONCRETE_ACTION_PATTERNS = [
+  /\d/,
+  /https?:\/\//,
+  /\b(one|two|three|four|five|ten)\b/i,
+  /\b(build|write|create|deploy|complete|implement|add|solve|review|refactor|publish|pair|design|ship)\b/i,
+]
+
+/**
+ * Heuristic for "one concrete step I can take this week"
+ * At least 6 words, no generic advice, and at least one concrete marker
+ */
+export function isSpecificAction(action: string): boolean {
+  const words = action.trim().split(/\s+/).filter(Boolean).length
+
+  return (
+    words >= 6 &&
+    !GENERIC_ACTION_PATTERNS.some(pattern => pattern.test(action)) &&
+    CONCRETE_ACTION_PATTERNS.some(pattern => pattern.test(action))
+  )
+}
+
+/**
+ * Run every check against a parsed response
+ */
+export function scoreSuggestions(parsed: ParseResult): EvalCheck[] {
+  if (!parsed.success) {
+    return CHECK_NAMES.map(name => ({
+      name,
+      passed: false,
+      detail: name === 'schema' ? 'No strategy produced valid suggestions' : 'Not scored',
+    }))
+  }
+
+  const { suggestions } = parsed
+  const specific = suggestions.filter(s => isSpecificAction(s.action)).length
+
+  const seen = new Set<string>()
+  const duplicates = suggestions
+    .map(s => s.title)
+    .filter(title => {
+      const key = normalizeTitle(title)
+      if (seen.has(key)) return true
+      seen.add(key)
+      return false
+    })
+
+  return [
+    { name: 'schema', passed: true, detail: `Parsed with strategy '${parsed.strategy}'` },
+    {
+      name: 'count',
+      passed: suggestions.length >= MIN_SUGGESTIONS && suggestions.length <= MAX_SUGGESTIONS,
+      detail: `${suggestions.length} suggestions (expected ${MIN_SUGGESTIONS}-${MAX_SUGGESTIONS})`,
+    },
+    {
+      name: 'actionSpecificity',
+      passed: specific === suggestions.length,
+      detail: `${specific}/${suggestions.length} actions are specific`,
+    },
+    {
+      name: 'uniqueTitles',
+      passed: duplicates.length === 0,
+      detail: duplicates.length
+        ? `Duplicate titles: ${duplicates.join(', ')}`
+        : 'All titles unique',
+    },
+  ]
+}
+
+// Scores are rounded so reports stay readable and diff cleanly
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Run every fixture through a prompt template and provider
+ * Also returns the raw responses, so a live run can be saved as a recording
+ */
+export async function runEval({
+  fixtures,
+  template,
+  provider,
+}: {
+  fixtures: EvalFixture[]
+  template: PromptTemplate<'profile-suggestions'>
+  provider: SuggestionProvider
+}): Promise<{ report: EvalReport; responses: Record<string, string> }> {
+  const cases: EvalCaseResult[] = []
+  const responses: Record<string, string> = {}
+  let model = provider.model
+
+  // Sequential on purpose: keeps live runs under rate limits and output order stable
+  for (const fixture of fixtures) {
+    try {
+      const completion = await provider.complete({
+        input: fixture.input,
+        messages: template.build(fixture.input),
+        // Same parameters as the suggestions route
+        temperature: 0.7,
+        maxTokens: 800,
+      })
+      responses[fixture.id] = completion.content
+      model = completion.model
+
+      const parsed = parseAiResponse(completion.content)
+      const checks = scoreSuggestions(parsed)
+
+      cases.push({
+        fixtureId: fixture.id,
+        parseStrategy: parsed.strategy,
+        suggestionCount: parsed.success ? parsed.suggestions.length : 0,
+        checks,
+        score: round(checks.filter(check => check.passed).length / checks.length),
+      })
+    } catch (error) {
+      if (!(error instanceof AiProviderError)) throw error
+
+      cases.push({
+        fixtureId: fixture.id,
+        parseStrategy: 'fallback',
+        suggestionCount: 0,
+        checks: CHECK_NAMES.map(name => ({ name, passed: false, detail: 'Provider failed' })),
+        score: 0,
+        error: error.message,
+      })
+    }
+  }
+
+  const passRate = (name: EvalCheckName) =>
+    cases.length
+      ? round(
+          cases.filter(c => c.checks.some(check => check.name === name && check.passed)).length /
+            cases.length
+        )
+      : 0
+
+  return {
+    report: {
+      prompt: promptId(template),
+      provider: provider.name,
+      model,
+      summary: {
+        cases: cases.length,
+        score: cases.length ? round(cases.reduce((sum, c) => sum + c.score, 0) / cases.length) : 0,
+        checks: Object.fromEntries(CHECK_NAMES.map(name => [name, passRate(name)])) as Record<
+          EvalCheckName,
+          number
+        >,
+      },
+      cases,
+    },
+    responses,
+  }
+}
+
+function inputKey(input: AiPromptInput): string {
+  return JSON.stringify([input.experienceLevel, input.userBackground, input.currentGoals ?? ''])
+}
+
+/**
+ * Provider that replays a recording instead of calling a model
+ * Inputs are matched to fixtures by value; unknown inputs fail with AiProviderError
+ */
+export function createRecordedProvider(
+  recording: EvalRecording,
+  fixtures: EvalFixture[]
+): SuggestionProvider {
+  const contentFor = (input: AiPromptInput) => {
+    const fixture = fixtures.find(f => inputKey(f.input) === inputKey(input))
+    const content = fixture && recording.responses[fixture.id]
+
+    if (content === undefined) {
+      throw new AiProviderError(
+        `No recorded response for ${fixture ? `fixture '${fixture.id}'` : 'this input'} in ${recording.prompt}`,
+        'recorded'
+      )
+    }
+
+    return content
+  }
+
+  return {
+    name: 'recorded',
+    model: recording.model,
+    complete: async ({ input }) => ({ content: contentFor(input), model: recording.model }),
+    stream: async function* ({ input }) {
+      yield contentFor(input)
+    },
+  }
+}
+
+/**
+ * Markdown summary of a report, for PR descriptions and quick diffs
+ */
+export function formatEvalMarkdown(report: EvalReport): string {
+  const percent = (value: number) => `${Math.round(value * 100)}%`
+
+  const lines = [
+    `# Suggestion eval: ${report.prompt}`,
+    '',
+    `- Provider: ${report.provider} (${report.model})`,
+    `- Cases: ${report.summary.cases}`,
+    `- Score: ${percent(report.summary.score)}`,
+    '',
+    '| Check | Pass rate |',
+    '| --- | --- |',
+    ...CHECK_NAMES.map(name => `| ${name} | ${percent(report.summary.checks[name])} |`),
+    '',
+    '## Cases',
+    '',
+    '| Fixture | Parse | Suggestions | Score | Failed checks |',
+    '| --- | --- | --- | --- | --- |',
+    ...report.cases.map(c => {
+      const failed = c.error
+        ? `Error: ${c.error}`
+        : c.checks
+            .filter(check => !check.passed)
+            .map(check => `${check.name} (${check.detail})`)
+            .join('; ') || '-'
+
+      return `| ${c.fixtureId} | ${c.parseStrategy} | ${c.suggestionCount} | ${percent(c.score)} | ${failed.replace(/\|/g, '\\|')} |`
+    }),
+  ]
+
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,275 @@
+import type { AiFeature } from '@/lib/ai/usage'
+import { createServiceClient } from '@/lib/supabase/client'
+import type { AiSuggestion } from '@/lib/validation/schemas'
+
+/**
+ * Output moderation
+ *
+ * Runs on AI suggestions after they passed aiResponseSchema validation and
+ * before they are stored or sent to the user:
+ * - Disallowed content (piracy, cheating, attacking systems you don't own, ...):
+ *   the suggestion is rejected
+ * - URLs in the title, reason or action that are malformed or not on the
+ *   learning domain allowlist: the URL is removed (rewritten). Links without
+ *   a scheme count too ("www.example.com", "example.com/path")
+ * - Actions longer than the maximum: cut at a word boundary (rewritten)
+ *
+ * Suggestions left without a title, reason or action after rewriting are
+ * rejected.
+ * Every verdict other than 'allowed' is stored in suggestion_moderation_verdicts
+ * for review.
+ *
+ * Configuration:
+ * - AI_LINK_ALLOWLIST          comma-separated domains (subdomains included),
+ *                              replaces the default list below
+ * - AI_ACTION_MAX_LENGTH       maximum action length in characters (default 280)
+ *
+ * Usage:
+ *   const { suggestions, verdicts } = moderateSuggestions(parsed.suggestions)
+ *   // ...store suggestions...
+ *   await recordModerationVerdicts(verdicts, { userId, feature, profileSuggestionId })
+ */
+
+export type ModerationOutcome = 'allowed' | 'rewritten' | 'rejected'
+
+export type ModerationReason =
+  | 'disallowed-content'
+  | 'malformed-url'
+  | 'url-not-allowed'
+  | 'action-too-long'
+  | 'empty-after-rewrite'
+
+export interface ModerationVerdict {
+  outcome: ModerationOutcome
+  reasons: ModerationReason[]
+  original: AiSuggestion
+  /** What is stored - missing when rejected */
+  suggestion?: AiSuggestion
+}
+
+export interface ModerationConfig {
+  allowedDomains: string[]
+  maxActionLength: number
+}
+
+export const DEFAULT_LINK_ALLOWLIST = [
+  'developer.mozilla.org',
+  'web.dev',
+  'react.dev',
+  'nextjs.org',
+  'nodejs.org',
+  'typescriptlang.org',
+  'python.org',
+  'go.dev',
+  'rust-lang.org',
+  'docs.docker.com',
+  'kubernetes.io',
+  'postgresql.org',
+  'supabase.com',
+  'github.com',
+  'freecodecamp.org',
+  'exercism.org',
+  'roadmap.sh',
+  'coursera.org',
+  'edx.org',
+  'udemy.com',
+  'khanacademy.org',
+  'theodinproject.com',
+  'leetcode.com',
+]
+
+const DEFAULT_MAX_ACTION_LENGTH = 280
+
+// A small blocklist, not a content classifier - it catches what a learning
+// advisor should never recommend. Security topics themselves (phishing,
+// DDoS protection, ...) are fine to learn about
+const DISALLOWED_PATTERNS: RegExp[] = [
+  /\b(?:torrent|warez|pirated?|piracy|keygen)\b/i,
+  /\bcracked\s+(?:software|version|copy|license)\b/i,
+  /\bfree\s+download\s+of\s+(?:paid|premium)\b/i,
+  /\bcheat(?:ing)?\s+(?:on|in|at|during)\s+(?:an?\s+|the\s+|your\s+)?(?:exams?|tests?|interviews?|certifications?|assessments?)\b/i,
+  /\b(?:hack|break)\s+into\b/i,
+  /\b(?:launch|run|carry\s+out)\s+(?:an?\s+)?(?:ddos|phishing)\b/i,
+  /\b(?:fake|forged?)\s+(?:degree|diploma|certificate|certification|references?|experience)\b/i,
+]
+
+// With a scheme or "www.", or a bare domain followed by a path
+const URL_PATTERN =
+  /\b(?:https?:\/\/|www\.)[^\s<>"'()]+[^\s<>"'().,;:!?]|\b(?:[a-z0-9-]+\.)+[a-z]{2,}\/(?:[^\s<>"'()]*[^\s<>"'().,;:!?])?/gi
+
+// Names like "Node.js/Express" look like a bare domain with a path - none of
+// these are real top-level domains
+const FILE_EXTENSIONS = new Set(['js', 'ts', 'jsx', 'tsx', 'json', 'css', 'html', 'yml', 'yaml'])
+
+export function getModerationConfig(): ModerationConfig {
+  const maxActionLength = Number(process.env.AI_ACTION_MAX_LENGTH || DEFAULT_MAX_ACTION_LENGTH)
+
+  if (!Number.isInteger(maxActionLength) || maxActionLength < 20) {
+    throw new Error(
+      'Invalid AI_ACTION_MAX_LENGTH environment variable. Expected a whole number of at least 20'
+    )
+  }
+
+  const allowlist = process.env.AI_LINK_ALLOWLIST?.split(',')
+    .map(domain => domain.trim().toLowerCase())
+    .filter(Boolean)
+
+  return {
+    allowedDomains: allowlist?.length ? allowlist : DEFAULT_LINK_ALLOWLIST,
+    maxActionLength,
+  }
+}
+
+/**
+ * Whether a URL is well-formed https/http with a real hostname
+ */
+function parseLink(raw: string): URL | null {
+  try {
+    const url = new URL(raw)
+    const wellFormed =
+      (url.protocol === 'https:' || url.protocol === 'http:') &&
+      /^[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}$/i.test(url.hostname)
+    return wellFormed ? url : null
+  } catch {
+    return null
+  }
+}
+
+export function isAllowedDomain(hostname: string, allowedDomains: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/^www\./, '')
+  return allowedDomains.some(domain => host === domain || host.endsWith(`.${domain}`))
+}
+
+function tidy(text: string): string {
+  return (
+    text
+      .replace(/\(\s*\)/g, '')
+      .replace(/\s+([.,;:!?])/g, '$1')
+      .replace(/[ \t]{2,}/g, ' ')
+      // A dangling "Start here:" once the link is gone
+      .replace(/\s*[:\-–]\s*$/, '')
+      .trim()
+  )
+}
+
+function removeLinks(text: string, config: ModerationConfig, reasons: Set<ModerationReason>) {
+  const result = text.replace(URL_PATTERN, match => {
+    const hasScheme = /^https?:\/\//i.test(match)
+    const host = match.split('/')[0]
+    if (!hasScheme && FILE_EXTENSIONS.has(host.slice(host.lastIndexOf('.') + 1).toLowerCase())) {
+      return match
+    }
+
+    const url = parseLink(hasScheme ? match : `https://${match}`)
+    if (!url) {
+      reasons.add('malformed-url')
+      return ''
+    }
+    if (!isAllowedDomain(url.hostname, config.allowedDomains)) {
+      reasons.add('url-not-allowed')
+      return ''
+    }
+    return match
+  })
+
+  return result === text ? text : tidy(result)
+}
+
+/**
+ * Cut text to a maximum length at a word boundary
+ */
+export function truncateAtWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text
+
+  const cut = text.slice(0, maxLength - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:]+$/, '')}…`
+}
+
+/**
+ * Moderate a single suggestion
+ */
+export function moderateSuggestion(
+  suggestion: AiSuggestion,
+  config: ModerationConfig = getModerationConfig()
+): ModerationVerdict {
+  const text = `${suggestion.title}\n${suggestion.reason}\n${suggestion.action}`
+  if (DISALLOWED_PATTERNS.some(pattern => pattern.test(text))) {
+    return { outcome: 'rejected', reasons: ['disallowed-content'], original: suggestion }
+  }
+
+  const reasons = new Set<ModerationReason>()
+  const title = removeLinks(suggestion.title, config, reasons)
+  const reason = removeLinks(suggestion.reason, config, reasons)
+  let action = removeLinks(suggestion.action, config, reasons)
+
+  if (action.length > config.maxActionLength) {
+    reasons.add('action-too-long')
+    action = truncateAtWord(action, config.maxActionLength)
+  }
+
+  if (!title || !reason || !action) {
+    reasons.add('empty-after-rewrite')
+    return { outcome: 'rejected', reasons: [...reasons], original: suggestion }
+  }
+
+  return {
+    outcome: reasons.size ? 'rewritten' : 'allowed',
+    reasons: [...reasons],
+    original: suggestion,
+    suggestion: { ...suggestion, title, reason, action },
+  }
+}
+
+/**
+ * Moderate a suggestion set
+ * Returns the suggestions that may be stored (rewritten where needed) and
+ * a verdict for every input suggestion
+ */
+export function moderateSuggestions(
+  suggestions: AiSuggestion[],
+  config: ModerationConfig = getModerationConfig()
+): { suggestions: AiSuggestion[]; verdicts: ModerationVerdict[] } {
+  const verdicts = suggestions.map(suggestion => moderateSuggestion(suggestion, config))
+
+  return {
+    suggestions: verdicts.flatMap(v => (v.suggestion ? [v.suggestion] : [])),
+    verdicts,
+  }
+}
+
+/**
+ * Store rewritten and rejected verdicts for review
+ * Never throws - the suggestions were already moderated, so a failure to
+ * store verdicts is logged rather than failing the user's request
+ */
+export async function recordModerationVerdicts(
+  verdicts: ModerationVerdict[],
+  {
+    userId,
+    feature,
+    profileSuggestionId,
+  }: { userId: string; feature: AiFeature; profileSuggestionId?: string }
+): Promise<void> {
+  const flagged = verdicts.filter(v => v.outcome !== 'allowed')
+  if (flagged.length === 0) return
+
+  try {
+    const supabase = createServiceClient()
+    const { error } = await supabase.from('suggestion_moderation_verdicts').insert(
+      flagged.map(verdict => ({
+        user_id: userId,
+        profile_suggestion_id: profileSuggestionId ?? null,
+        feature,
+        outcome: verdict.outcome,
+        reasons: verdict.reasons,
+        original: verdict.original,
+        result: verdict.suggestion ?? null,
+      }))
+    )
+
+    if (error) throw error
+  } catch (error) {
+    console.error('Failed to record moderation verdicts:', error)
+  }
+}
@@ -0,0 +1,187 @@
+import { aiResponseSchema, type AiSuggestion } from '@/lib/validation/schemas'
+
+/**
+ * AI response parser
+ *
+ * Models don't always return clean JSON. parseAiResponse() tries a series of
+ * strategies, from strict to forgiving, and reports which one worked and why
+ * the others failed so we can track how often the model misbehaves.
+ *
+ * Strategies (in order):
+ * - direct:    the whole response is valid JSON
+ * - fenced:    JSON inside a ```json markdown block
+ * - extracted: JSON surrounded by leading/trailing prose
+ * - repaired:  extracted JSON with trailing commas removed
+ * - truncated: output cut off mid-way; keep every complete suggestion and close the brackets
+ *
+ * Every candidate is normalized (a bare array or a single suggestion object is
+ * wrapped in `{ suggestions }`) and validated against aiResponseSchema.
+ * If nothing works, FALLBACK_SUGGESTIONS are returned with strategy 'fallback'.
+ *
+ * Usage:
+ *   const result = parseAiResponse(completion.content)
+ *   if (result.strategy !== 'direct') console.warn('AI response needed repair', result.attempts)
+ *   return result.suggestions
+ */
+
+export type ParseStrategy = 'direct' | 'fenced' | 'extracted' | 'repaired' | 'truncated'
+
+export interface ParseAttempt {
+  strategy: ParseStrategy
+  success: boolean
+  /** Why the strategy failed (not applicable, invalid JSON, schema errors) */
+  error?: string
+}
+
+export type ParseResult =
+  | {
+      success: true
+      strategy: ParseStrategy
+      suggestions: AiSuggestion[]
+      attempts: ParseAttempt[]
+    }
+  | { success: false; strategy: 'fallback'; suggestions: AiSuggestion[]; attempts: ParseAttempt[] }
+
+/**
+ * Generic suggestions used when the AI response cannot be parsed at all
+ */
+export const FALLBACK_SUGGESTIONS: AiSuggestion[] = [
+  {
+    title: 'Start with Fundamentals',
+    reason: 'Building a strong foundation is crucial for long-term growth',
+    action: 'Complete one online tutorial on core programming concepts this week',
+  },
+]
+
+const STRATEGIES: { name: ParseStrategy; candidate: (raw: string) => string | null }[] = [
+  { name: 'direct', candidate: raw => raw.trim() },
+  { name: 'fenced', candidate: raw => raw.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1] ?? null },
+  { name: 'extracted', candidate: extractJson },
+  {
+    name: 'repaired',
+    candidate: raw => {
+      const extracted = extractJson(raw)
+      return extracted && removeTrailingCommas(extracted)
+    },
+  },
+  { name: 'truncated', candidate: closeTruncatedJson },
+]
+
+export function parseAiResponse(raw: string): ParseResult {
+  const attempts: ParseAttempt[] = []
+
+  for (const { name, candidate } of STRATEGIES) {
+    const text = candidate(raw)
+
+    if (!text) {
+      attempts.push({ strategy: name, success: false, error: 'Not applicable' })
+      continue
+    }
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(text)
+    } catch (error) {
+      attempts.push({
+        strategy: name,
+        success: false,
+        error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      })
+      continue
+    }
+
+    const result = aiResponseSchema.safeParse(normalize(parsed))
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      attempts.push({ strategy: name, success: false, error: `Schema: ${issues.join(', ')}` })
+      continue
+    }
+
+    attempts.push({ strategy: name, success: true })
+    return { success: true, strategy: name, suggestions: result.data.suggestions, attempts }
+  }
+
+  return { success: false, strategy: 'fallback', suggestions: FALLBACK_SUGGESTIONS, attempts }
+}
+
+/**
+ * Wrap the shapes models commonly return instead of `{ suggestions: [...] }`
+ */
+function normalize(parsed: unknown): unknown {
+  if (Array.isArray(parsed)) {
+    return { suggestions: parsed }
+  }
+
+  if (parsed && typeof parsed === 'object' && !('suggestions' in parsed) && 'title' in parsed) {
+    return { suggestions: [parsed] }
+  }
+
+  return parsed
+}
+
+/**
+ * Slice from the first '{' or '[' to the last matching '}' or ']'
+ */
+function extractJson(raw: string): string | null {
+  const start = raw.search(/[{[]/)
+  if (start === -1) return null
+
+  const close = raw[start] === '{' ? '}' : ']'
+  const end = raw.lastIndexOf(close)
+  if (end <= start) return null
+
+  return raw.slice(start, end + 1)
+}
+
+function removeTrailingCommas(json: string): string {
+  return json.replace(/,\s*([}\]])/g, '$1')
+}
+
+/**
+ * Repair output that was cut off (e.g. by max_tokens)
+ *
+ * Walks the JSON, remembers the last point where a complete suggestion
+ * ended, drops everything after it and appends the missing closing brackets.
+ * Returns null when the JSON is not actually truncated.
+ */
+function closeTruncatedJson(raw: string): string | null {
+  const start = raw.search(/[{[]/)
+  if (start === -1) return null
+
+  const stack: string[] = []
+  let inString = false
+  let escaped = false
+  let lastSafe = -1
+  let stackAtLastSafe: string[] = []
+
+  for (let i = start; i < raw.length; i++) {
+    const char = raw[i]
+
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']')
+    } else if (char === '}' || char === ']') {
+      stack.pop()
+      if (stack.length === 0) return null // Complete JSON - not truncated
+
+      // Only cut after whole suggestions, never inside one (e.g. after a nested tags array)
+      if (stack.length <= 2) {
+        lastSafe = i + 1
+        stackAtLastSafe = [...stack]
+      }
+    }
+  }
+
+  if (lastSafe === -1) return null
+
+  const body = raw.slice(start, lastSafe).replace(/,\s*$/, '')
+  return removeTrailingCommas(body + stackAtLastSafe.reverse().join(''))
+}
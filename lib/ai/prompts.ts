@@ -0,0 +1,481 @@
+import type { AiPromptInput, AiSuggestion, PathTemplateContent } from '@/lib/validation/schemas'
+import type { ChatMessage } from '@/lib/ai/providers'
+import type { SuggestionHistory } from '@/lib/suggestions/history'
+
+/**
+ * Prompt template registry
+ *
+ * Every prompt we send to the model is a named, versioned template built
+ * from a typed input (see PromptInputs). The id of the template used (e.g.
+ * "profile-suggestions@v1") is stored in profile_suggestions.prompt_version,
+ * so prompt versions can be compared against the rating column
+ * (see the profile_suggestion_prompt_stats view).
+ *
+ * Rules:
+ * - Never edit a registered version - add a new one instead
+ * - DEFAULT_PROMPT_VERSIONS decides what new requests use
+ * - PROMPT_AB_<NAME> (e.g. PROMPT_AB_PROFILE_SUGGESTIONS="v1:50,v2:50")
+ *   splits users between versions; each user always gets the same version
+ *
+ * Usage:
+ *   const template = selectPromptTemplate('profile-suggestions', user.id)
+ *   const messages = template.build(validated)
+ *   // store promptId(template) with the results
+ */
+
+/**
+ * Input each prompt is built from
+ */
+export interface PromptInputs {
+  'profile-suggestions': ProfileSuggestionsInput
+  'suggestion-replacement': SuggestionReplacementInput
+  'suggestion-refinement': SuggestionRefinementInput
+  'path-template-personalization': PathTemplatePersonalizationInput
+}
+
+export type PromptName = keyof PromptInputs
+
+/**
+ * The user's input, plus what they were suggested and finished before
+ * (used from v3 - earlier versions ignore the history)
+ */
+export interface ProfileSuggestionsInput extends AiPromptInput {
+  history?: SuggestionHistory
+}
+
+/**
+ * Context for replacing one suggestion in an existing set
+ */
+export interface SuggestionReplacementInput extends AiPromptInput {
+  /** The suggestion being replaced */
+  replaced: AiSuggestion
+  /** The rest of the set - the replacement must not duplicate these */
+  others: AiSuggestion[]
+  /** Why the user wants a different suggestion, if they said */
+  feedback?: string
+}
+
+/**
+ * Context for one turn of a conversation refining a suggestion set
+ */
+export interface SuggestionRefinementInput extends AiPromptInput {
+  /** The set the conversation started from */
+  suggestions: AiSuggestion[]
+  /** Earlier turns, oldest first - each with the set the model answered with */
+  turns: { message: string; suggestions: AiSuggestion[] }[]
+  /** What the user is asking for now */
+  message: string
+}
+
+/**
+ * The user's input, plus the template to adapt to them
+ */
+export interface PathTemplatePersonalizationInput extends AiPromptInput {
+  template: { title: string; description: string | null; content: PathTemplateContent }
+}
+
+export interface PromptTemplate<N extends PromptName = PromptName> {
+  name: N
+  version: string
+  description: string
+  build: (input: PromptInputs[N]) => ChatMessage[]
+}
+
+type AnyPromptTemplate = { [N in PromptName]: PromptTemplate<N> }[PromptName]
+
+// Templates by prompt name, so looking one up keeps its input type
+type PromptRegistry = { [N in PromptName]: PromptTemplate<N>[] }
+
+export const SYSTEM_PROMPT =
+  'You are a helpful learning advisor for software engineers. You provide practical, actionable advice based on their experience level and goals.'
+
+const RESPONSE_FORMAT = `{
+  "suggestions": [
+    {
+      "title": "Skill name",
+      "reason": "Why this matters for your background",
+      "action": "Specific action you can take this week"
+    }
+  ]
+}`
+
+const profileSuggestionsV1: PromptTemplate<'profile-suggestions'> = {
+  name: 'profile-suggestions',
+  version: 'v1',
+  description: 'Original prompt: 3-5 suggestions with title, reason and a weekly action',
+  build: data => [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `
+I'm a ${data.experienceLevel} software engineer who wants to improve my skills.
+
+Background: ${data.userBackground}
+${data.currentGoals ? `Current Goals: ${data.currentGoals}` : ''}
+
+Based on this information, suggest 3-5 specific things I should focus on to grow as a developer.
+
+For each suggestion, provide:
+1. Title: Name of the skill or area
+2. Reason: Why it's relevant to my specific background
+3. Action: One concrete step I can take THIS WEEK
+
+IMPORTANT: Return ONLY valid JSON in this exact format, with no markdown or extra text:
+
+${RESPONSE_FORMAT}
+`.trim(),
+    },
+  ],
+}
+
+const profileSuggestionsV2: PromptTemplate<'profile-suggestions'> = {
+  name: 'profile-suggestions',
+  version: 'v2',
+  description: 'Stricter actions: named resource, time-boxed, no generic advice',
+  build: data => [
+    {
+      role: 'system',
+      content: `${SYSTEM_PROMPT} You never give generic advice like "practice more" - every action names a concrete resource, project or exercise.`,
+    },
+    {
+      role: 'user',
+      content: `
+Experience level: ${data.experienceLevel}
+Background: ${data.userBackground}
+Goals: ${data.currentGoals || 'Not specified'}
+
+Suggest 3-5 distinct areas this person should focus on next.
+
+Rules:
+- Each title is a specific skill or topic (max 6 words), no duplicates
+- Each reason refers to something in their background or goals
+- Each action can be finished within 5 hours this week and names a concrete resource, project or exercise
+
+Return ONLY valid JSON in this exact format, with no markdown or extra text:
+
+${RESPONSE_FORMAT}
+`.trim(),
+    },
+  ],
+}
+
+const formatHistory = (history: SuggestionHistory | undefined) => {
+  if (!history || (history.completed.length === 0 && history.suggested.length === 0)) return ''
+
+  const completed = history.completed.map(c => `- ${c.title}`).join('\n')
+  const suggested = history.suggested.map(title => `- ${title}`).join('\n')
+
+  return `
+${completed ? `Already finished:\n${completed}\n` : ''}${suggested ? `Suggested before, not finished yet:\n${suggested}\n` : ''}`
+}
+
+const profileSuggestionsV3: PromptTemplate<'profile-suggestions'> = {
+  name: 'profile-suggestions',
+  version: 'v3',
+  description: 'v2 plus history: never repeat finished suggestions, build on them',
+  build: data => [
+    {
+      role: 'system',
+      content: `${SYSTEM_PROMPT} You never give generic advice like "practice more" - every action names a concrete resource, project or exercise.`,
+    },
+    {
+      role: 'user',
+      content: `
+Experience level: ${data.experienceLevel}
+Background: ${data.userBackground}
+Goals: ${data.currentGoals || 'Not specified'}
+${formatHistory(data.history)}
+Suggest 3-5 distinct areas this person should focus on next.
+
+Rules:
+- Each title is a specific skill or topic (max 6 words), no duplicates
+- Never suggest anything they already finished
+- Where it fits, build on what they finished and say so in the reason (e.g. "You finished X, now try Y")
+- Only repeat an earlier suggestion if it is still one of the most important next steps
+- Each reason refers to something in their background, goals or progress
+- Each action can be finished within 5 hours this week and names a concrete resource, project or exercise
+
+Return ONLY valid JSON in this exact format, with no markdown or extra text:
+
+${RESPONSE_FORMAT}
+`.trim(),
+    },
+  ],
+}
+
+// v4+: suggestions can depend on each other
+const RESPONSE_FORMAT_WITH_PREREQUISITES = `{
+  "suggestions": [
+    {
+      "title": "Skill name",
+      "reason": "Why this matters for your background",
+      "action": "Specific action you can take this week",
+      "prerequisites": ["Title of another suggestion above to do first"]
+    }
+  ]
+}`
+
+const profileSuggestionsV4: PromptTemplate<'profile-suggestions'> = {
+  name: 'profile-suggestions',
+  version: 'v4',
+  description: 'v3 plus prerequisites: suggestions can name others in the set to do first',
+  build: data => [
+    {
+      role: 'system',
+      content: `${SYSTEM_PROMPT} You never give generic advice like "practice more" - every action names a concrete resource, project or exercise.`,
+    },
+    {
+      role: 'user',
+      content: `
+Experience level: ${data.experienceLevel}
+Background: ${data.userBackground}
+Goals: ${data.currentGoals || 'Not specified'}
+${formatHistory(data.history)}
+Suggest 3-5 distinct areas this person should focus on next, in the order they should work on them.
+
+Rules:
+- Each title is a specific skill or topic (max 6 words), no duplicates
+- Never suggest anything they already finished
+- Where it fits, build on what they finished and say so in the reason (e.g. "You finished X, now try Y")
+- Only repeat an earlier suggestion if it is still one of the most important next steps
+- Each reason refers to something in their background, goals or progress
+- Each action can be finished within 5 hours this week and names a concrete resource, project or exercise
+- "prerequisites" lists the exact titles of earlier suggestions in your list that must be done first, or [] if there are none. Only add real dependencies (e.g. "SQL Basics" before "Database Indexing")
+
+Return ONLY valid JSON in this exact format, with no markdown or extra text:
+
+${RESPONSE_FORMAT_WITH_PREREQUISITES}
+`.trim(),
+    },
+  ],
+}
+
+const formatSuggestion = (suggestion: AiSuggestion) => `- ${suggestion.title}: ${suggestion.action}`
+
+const suggestionReplacementV1: PromptTemplate<'suggestion-replacement'> = {
+  name: 'suggestion-replacement',
+  version: 'v1',
+  description: 'One new suggestion that replaces an irrelevant one without repeating the rest',
+  build: data => [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `
+I'm a ${data.experienceLevel} software engineer who wants to improve my skills.
+
+Background: ${data.userBackground}
+${data.currentGoals ? `Current Goals: ${data.currentGoals}` : ''}
+
+You already suggested these, and I'm keeping them:
+${data.others.length ? data.others.map(formatSuggestion).join('\n') : '- (none)'}
+
+This suggestion didn't fit me, so replace it:
+${formatSuggestion(data.replaced)}
+${data.feedback ? `\nWhy it didn't fit: ${data.feedback}\n` : ''}
+Suggest exactly ONE different thing I should focus on. It must not repeat or overlap with any suggestion above, including the one being replaced.
+
+Provide:
+1. Title: Name of the skill or area
+2. Reason: Why it's relevant to my specific background
+3. Action: One concrete step I can take THIS WEEK
+
+IMPORTANT: Return ONLY valid JSON in this exact format, with exactly one suggestion and no markdown or extra text:
+
+${RESPONSE_FORMAT}
+`.trim(),
+    },
+  ],
+}
+
+// Previous sets go back to the model as the assistant's own answers
+const formatSuggestionSet = (suggestions: AiSuggestion[]) =>
+  JSON.stringify({
+    suggestions: suggestions.map(({ title, reason, action }) => ({ title, reason, action })),
+  })
+
+const suggestionRefinementV1: PromptTemplate<'suggestion-refinement'> = {
+  name: 'suggestion-refinement',
+  version: 'v1',
+  description: 'Multi-turn: revise the whole set to follow the latest user request',
+  build: data => [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `
+I'm a ${data.experienceLevel} software engineer who wants to improve my skills.
+
+Background: ${data.userBackground}
+${data.currentGoals ? `Current Goals: ${data.currentGoals}` : ''}
+
+Suggest 3-5 specific things I should focus on to grow as a developer, each with a title, a reason and one concrete action for THIS WEEK, as JSON.
+`.trim(),
+    },
+    { role: 'assistant', content: formatSuggestionSet(data.suggestions) },
+    ...data.turns.flatMap((turn): ChatMessage[] => [
+      { role: 'user', content: turn.message },
+      { role: 'assistant', content: formatSuggestionSet(turn.suggestions) },
+    ]),
+    {
+      role: 'user',
+      content: `
+${data.message}
+
+Revise your latest suggestions to follow this request while still fitting my background. Keep suggestions that already fit, replace or adjust the rest, and return the complete updated set of 3-5 suggestions.
+
+IMPORTANT: Return ONLY valid JSON in this exact format, with no markdown or extra text:
+
+${RESPONSE_FORMAT}
+`.trim(),
+    },
+  ],
+}
+
+const formatTemplate = (template: PathTemplatePersonalizationInput['template']) =>
+  template.content.milestones
+    .map(milestone =>
+      [
+        `${milestone.title}${milestone.description ? ` - ${milestone.description}` : ''}`,
+        ...milestone.steps.map(step => `- ${step.title}: ${step.action}`),
+      ].join('\n')
+    )
+    .join('\n\n')
+
+const pathTemplatePersonalizationV1: PromptTemplate<'path-template-personalization'> = {
+  name: 'path-template-personalization',
+  version: 'v1',
+  description:
+    'Adapt the steps of a path template to the user, keeping the titles of steps that stay',
+  build: data => [
+    {
+      role: 'system',
+      content: `${SYSTEM_PROMPT} You never give generic advice like "practice more" - every action names a concrete resource, project or exercise.`,
+    },
+    {
+      role: 'user',
+      content: `
+Experience level: ${data.experienceLevel}
+Background: ${data.userBackground}
+Goals: ${data.currentGoals || 'Not specified'}
+
+This is a learning path template, "${data.template.title}"${data.template.description ? ` (${data.template.description})` : ''}, by milestone:
+
+${formatTemplate(data.template)}
+
+Adapt it into 3-10 steps for this person, in the order they should work on them.
+
+Rules:
+- Keep the exact title of every template step you keep, and drop steps they clearly know already
+- Add a step only to fill a gap between their background and the template
+- Each reason refers to something in their background or goals
+- Each action fits their level and names a concrete resource, project or exercise
+- "prerequisites" lists the exact titles of earlier steps in your list that must be done first, or [] if there are none
+
+Return ONLY valid JSON in this exact format, with no markdown or extra text:
+
+${RESPONSE_FORMAT_WITH_PREREQUISITES}
+`.trim(),
+    },
+  ],
+}
+
+const TEMPLATES: PromptRegistry = {
+  'profile-suggestions': [
+    profileSuggestionsV1,
+    profileSuggestionsV2,
+    profileSuggestionsV3,
+    profileSuggestionsV4,
+  ],
+  'suggestion-replacement': [suggestionReplacementV1],
+  'suggestion-refinement': [suggestionRefinementV1],
+  'path-template-personalization': [pathTemplatePersonalizationV1],
+}
+
+export const DEFAULT_PROMPT_VERSIONS: Record<PromptName, string> = {
+  'profile-suggestions': 'v4',
+  'suggestion-replacement': 'v1',
+  'suggestion-refinement': 'v1',
+  'path-template-personalization': 'v1',
+}
+
+/**
+ * Stable identifier stored alongside generated results
+ */
+export function promptId(template: { name: PromptName; version: string }): string {
+  return `${template.name}@${template.version}`
+}
+
+/**
+ * List registered templates, optionally for a single prompt name
+ */
+export function listPromptTemplates(): AnyPromptTemplate[]
+export function listPromptTemplates<N extends PromptName>(name: N): PromptTemplate<N>[]
+export function listPromptTemplates(name?: PromptName): AnyPromptTemplate[] {
+  return name ? [...TEMPLATES[name]] : Object.values(TEMPLATES).flat()
+}
+
+/**
+ * Get a template by name and version (default version if omitted)
+ * Throws if the version is not registered
+ */
+export function getPromptTemplate<N extends PromptName>(
+  name: N,
+  version?: string
+): PromptTemplate<N> {
+  const wanted = version ?? DEFAULT_PROMPT_VERSIONS[name]
+  const template = TEMPLATES[name].find(t => t.version === wanted)
+
+  if (!template) {
+    throw new Error(`Unknown prompt template: ${name}@${wanted}`)
+  }
+
+  return template
+}
+
+/**
+ * Pick the template version for a user
+ * Uses the A/B split from PROMPT_AB_<NAME> when set, otherwise the default
+ */
+export function selectPromptTemplate<N extends PromptName>(
+  name: N,
+  userId: string
+): PromptTemplate<N> {
+  // Ignore versions that aren't registered rather than failing the request
+  const split = parseSplit(
+    process.env[`PROMPT_AB_${name.toUpperCase().replace(/-/g, '_')}`]
+  ).filter(({ version }) => TEMPLATES[name].some(t => t.version === version))
+  if (split.length === 0) return getPromptTemplate(name)
+
+  const total = split.reduce((sum, { weight }) => sum + weight, 0)
+  let bucket = hash(`${name}:${userId}`) % total
+
+  for (const { version, weight } of split) {
+    if (bucket < weight) return getPromptTemplate(name, version)
+    bucket -= weight
+  }
+
+  return getPromptTemplate(name)
+}
+
+function parseSplit(value: string | undefined): { version: string; weight: number }[] {
+  if (!value) return []
+
+  return value
+    .split(',')
+    .map(part => {
+      const [version, weight] = part.trim().split(':')
+      return { version, weight: Number(weight ?? 1) }
+    })
+    .filter(({ version, weight }) => version && Number.isInteger(weight) && weight > 0)
+}
+
+/**
+ * FNV-1a - small, stable string hash for bucketing users
+ */
+function hash(value: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
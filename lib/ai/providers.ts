@@ -0,0 +1,274 @@
+import type OpenAI from 'openai'
+import { withResilience } from '@/lib/ai/resilience'
+import { getLocalLLMClient, getOpenAIClient } from '@/lib/openai/client'
+import {
+  suggestionProviderEnum,
+  type AiPromptInput,
+  type AiSuggestion,
+  type SuggestionProviderName,
+} from '@/lib/validation/schemas'
+
+/**
+ * Suggestion providers
+ *
+ * Every LLM call for suggestions goes through a SuggestionProvider, so the
+ * route never talks to a specific SDK directly. Available providers:
+ * - openai:   OpenAI API (needs OPENAI_API_KEY)
+ * - local:    Any OpenAI-compatible endpoint (needs LOCAL_LLM_BASE_URL)
+ * - template: Deterministic offline suggestions (no network, no API key)
+ *
+ * The default comes from AI_PROVIDER (falls back to 'openai'); a request can
+ * override it by name. Network providers are wrapped with timeouts, retries
+ * and a circuit breaker (lib/ai/resilience.ts).
+ *
+ * Usage:
+ *   const provider = getSuggestionProvider()
+ *   const { content } = await provider.complete({ input, messages })
+ *
+ *   for await (const delta of provider.stream({ input, messages })) {
+ *     // delta is the next piece of raw model output
+ *   }
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface CompletionRequest {
+  /** Validated user input the messages were built from */
+  input: AiPromptInput
+  messages: ChatMessage[]
+  temperature?: number
+  maxTokens?: number
+  /** Aborts the request - set by withResilience() to enforce its timeout */
+  signal?: AbortSignal
+  /** Called by withResilience() with each failed attempt it is about to retry */
+  onRetry?: (error: unknown) => void | Promise<void>
+}
+
+export interface CompletionUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface CompletionResult {
+  /** Raw model output - still needs parsing and validation */
+  content: string
+  model: string
+  usage?: CompletionUsage
+}
+
+/**
+ * 'recorded' is only used offline by the eval harness (lib/ai/eval.ts)
+ * and can't be requested by name
+ */
+export type ProviderName = SuggestionProviderName | 'recorded'
+
+export interface SuggestionProvider {
+  name: ProviderName
+  model: string
+  complete: (request: CompletionRequest) => Promise<CompletionResult>
+  /** Same as complete(), but yields the raw output as it is generated */
+  stream: (request: CompletionRequest) => AsyncIterable<string>
+}
+
+/**
+ * Thrown when a provider cannot produce a completion
+ * (missing credentials, network failure, rate limit, ...)
+ * API routes map this to 503 Service Unavailable
+ */
+export class AiProviderError extends Error {
+  provider: ProviderName
+
+  constructor(message: string, provider: ProviderName, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = 'AiProviderError'
+    this.provider = provider
+  }
+}
+
+/**
+ * Thrown without calling the provider while its circuit breaker is open
+ * (lib/ai/resilience.ts). Routes that can answer without the model use
+ * their fallback; the others map it to 503 like any AiProviderError
+ */
+export class CircuitOpenError extends AiProviderError {
+  retryAt: Date
+
+  constructor(provider: ProviderName, retryAt: Date) {
+    super(`The ${provider} provider is unavailable after repeated failures`, provider)
+    this.name = 'CircuitOpenError'
+    this.retryAt = retryAt
+  }
+}
+
+/**
+ * Provider backed by the chat completions API of an OpenAI SDK client
+ * The client is resolved lazily so missing credentials surface as AiProviderError
+ */
+function createChatCompletionProvider(
+  name: SuggestionProviderName,
+  getClient: () => OpenAI,
+  model: string
+): SuggestionProvider {
+  return {
+    name,
+    model,
+    complete: async ({ messages, temperature = 0.7, maxTokens = 800, signal }) => {
+      try {
+        const completion = await getClient().chat.completions.create(
+          { model, messages, temperature, max_tokens: maxTokens },
+          // Retries are handled by withResilience(), not the SDK
+          { signal, maxRetries: 0 }
+        )
+
+        return {
+          content: completion.choices[0]?.message.content ?? '',
+          model: completion.model,
+          usage: completion.usage && {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+          },
+        }
+      } catch (error) {
+        throw new AiProviderError(`The ${name} provider request failed`, name, { cause: error })
+      }
+    },
+    stream: async function* ({ messages, temperature = 0.7, maxTokens = 800, signal }) {
+      try {
+        const stream = await getClient().chat.completions.create(
+          { model, messages, temperature, max_tokens: maxTokens, stream: true },
+          { signal, maxRetries: 0 }
+        )
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content
+          if (delta) yield delta
+        }
+      } catch (error) {
+        throw new AiProviderError(`The ${name} provider stream failed`, name, { cause: error })
+      }
+    },
+  }
+}
+
+const TEMPLATE_SUGGESTIONS: Record<AiPromptInput['experienceLevel'], AiSuggestion[]> = {
+  beginner: [
+    {
+      title: 'Programming Fundamentals',
+      reason: 'A solid grasp of variables, control flow and functions makes everything else easier',
+      action: 'Solve five beginner exercises on a site like Exercism this week',
+    },
+    {
+      title: 'Version Control with Git',
+      reason: 'Every team uses Git, and committing often builds good habits early',
+      action: 'Create a GitHub repository and push a small project with at least five commits',
+    },
+    {
+      title: 'Build a Small Project',
+      reason: 'Projects turn isolated concepts into working knowledge',
+      action: 'Build a to-do list app and deploy it to a free hosting service',
+    },
+  ],
+  intermediate: [
+    {
+      title: 'Automated Testing',
+      reason: 'Tests let you change code with confidence as projects grow',
+      action: 'Add unit tests for three functions in one of your existing projects',
+    },
+    {
+      title: 'Databases and Data Modeling',
+      reason: 'Most real applications live or die by how they store data',
+      action: 'Design a schema for a small app and write five SQL queries against it',
+    },
+    {
+      title: 'Code Review Practice',
+      reason: 'Reading other people’s code is the fastest way to learn new patterns',
+      action: 'Review two open pull requests in an open source project you use',
+    },
+  ],
+  advanced: [
+    {
+      title: 'System Design',
+      reason: 'Senior work is mostly about trade-offs between components, not single functions',
+      action: 'Write a one-page design for a URL shortener, including scaling bottlenecks',
+    },
+    {
+      title: 'Observability',
+      reason: 'You cannot fix what you cannot see in production',
+      action: 'Add structured logging and one latency metric to a service you own',
+    },
+    {
+      title: 'Mentoring',
+      reason: 'Teaching others deepens your own understanding and multiplies your impact',
+      action: 'Pair with a less experienced developer for one hour on a real task',
+    },
+  ],
+}
+
+/**
+ * Deterministic offline provider
+ * Returns the same suggestions for the same input, so CI and local
+ * development can exercise the whole pipeline without network access
+ */
+function createTemplateProvider(): SuggestionProvider {
+  const render = (input: AiPromptInput) => {
+    const suggestions = TEMPLATE_SUGGESTIONS[input.experienceLevel].map((suggestion, index) =>
+      index === 0 && input.currentGoals
+        ? {
+            ...suggestion,
+            reason: `${suggestion.reason} - and it supports your goal: ${input.currentGoals}`,
+          }
+        : suggestion
+    )
+
+    return JSON.stringify({ suggestions })
+  }
+
+  return {
+    name: 'template',
+    model: 'template-v1',
+    complete: async ({ input }) => ({ content: render(input), model: 'template-v1' }),
+    stream: async function* ({ input }) {
+      const content = render(input)
+
+      // Emit in small chunks so streaming consumers see realistic partial output
+      for (let i = 0; i < content.length; i += 32) {
+        yield content.slice(i, i + 32)
+      }
+    },
+  }
+}
+
+/**
+ * Get a suggestion provider by name
+ * Without a name, uses AI_PROVIDER from the environment (default: openai)
+ */
+export function getSuggestionProvider(name?: SuggestionProviderName): SuggestionProvider {
+  const configured = suggestionProviderEnum.safeParse(process.env.AI_PROVIDER ?? 'openai')
+
+  if (!name && !configured.success) {
+    throw new Error(
+      `Invalid AI_PROVIDER environment variable. Expected one of: ${suggestionProviderEnum.options.join(', ')}`
+    )
+  }
+
+  switch (name ?? configured.data) {
+    case 'local':
+      return withResilience(
+        createChatCompletionProvider(
+          'local',
+          getLocalLLMClient,
+          process.env.LOCAL_LLM_MODEL || 'llama3.1'
+        )
+      )
+    case 'template':
+      return createTemplateProvider()
+    case 'openai':
+    default:
+      return withResilience(
+        createChatCompletionProvider('openai', getOpenAIClient, process.env.OPENAI_MODEL || 'gpt-4')
+      )
+  }
+}
@@ -0,0 +1,323 @@
+import {
+  AiProviderError,
+  CircuitOpenError,
+  type ProviderName,
+  type SuggestionProvider,
+} from '@/lib/ai/providers'
+
+/**
+ * Resilient LLM calls
+ *
+ * withResilience() wraps a SuggestionProvider with:
+ * - Timeouts: each attempt is aborted after AI_TIMEOUT_MS. For streams this
+ *   is the time allowed between chunks, so long answers aren't cut off
+ * - Retries: rate limits (429), server errors (5xx), connection errors and
+ *   timeouts are retried up to AI_MAX_RETRIES times with exponential backoff
+ *   and full jitter. Streams are only retried before the first chunk.
+ *   request.onRetry is told about each failed attempt before it is retried
+ * - Circuit breaker (one per provider): after AI_BREAKER_FAILURE_THRESHOLD
+ *   consecutive failed calls the breaker opens and calls fail immediately
+ *   with CircuitOpenError for AI_BREAKER_RESET_MS. Then one trial call is let
+ *   through (half-open) - success closes the breaker, failure opens it again.
+ *   Only failures that mean the provider is unavailable (the retryable ones)
+ *   count - a bad request or missing API key isn't fixed by waiting, and
+ *   should keep surfacing as an error rather than as the fallback
+ *
+ * Routes that can do without the model (new suggestion sets) answer
+ * CircuitOpenError with the fallback suggestions; the others return 503.
+ * Breaker state lives in memory, so each server instance has its own.
+ * GET /api/health reports it.
+ *
+ * Usage:
+ *   const provider = getSuggestionProvider() // openai and local are already wrapped
+ *   withResilience(provider, { ...getResilienceConfig(), maxRetries: 0 })
+ */
+
+export interface ResilienceConfig {
+  timeoutMs: number
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  failureThreshold: number
+  resetAfterMs: number
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState
+  consecutiveFailures: number
+  /** When the breaker last opened (ISO), if it is not closed */
+  openedAt: string | null
+  /** When the next trial call is allowed (ISO), while open */
+  retryAt: string | null
+}
+
+const DEFAULTS: ResilienceConfig = {
+  timeoutMs: 30_000,
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  failureThreshold: 5,
+  resetAfterMs: 30_000,
+}
+
+export function getResilienceConfig(): ResilienceConfig {
+  const read = (variable: string, fallback: number, min: number) => {
+    const value = process.env[variable]
+    if (!value) return fallback
+
+    const number = Number(value)
+    if (!Number.isInteger(number) || number < min) {
+      throw new Error(
+        `Invalid ${variable} environment variable. Expected a whole number of at least ${min}`
+      )
+    }
+    return number
+  }
+
+  return {
+    timeoutMs: read('AI_TIMEOUT_MS', DEFAULTS.timeoutMs, 1),
+    maxRetries: read('AI_MAX_RETRIES', DEFAULTS.maxRetries, 0),
+    baseDelayMs: read('AI_RETRY_BASE_DELAY_MS', DEFAULTS.baseDelayMs, 0),
+    maxDelayMs: DEFAULTS.maxDelayMs,
+    failureThreshold: read('AI_BREAKER_FAILURE_THRESHOLD', DEFAULTS.failureThreshold, 1),
+    resetAfterMs: read('AI_BREAKER_RESET_MS', DEFAULTS.resetAfterMs, 1),
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private trialInFlight = false
+
+  constructor(
+    private readonly options: Pick<ResilienceConfig, 'failureThreshold' | 'resetAfterMs'>,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Whether a call may go ahead - moves an open breaker to half-open once
+   * the reset time has passed, and then allows a single trial call
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && this.now() - this.openedAt! >= this.options.resetAfterMs) {
+      this.state = 'half-open'
+    }
+
+    if (this.state === 'closed') return true
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true
+      return true
+    }
+    return false
+  }
+
+  recordSuccess() {
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+  }
+
+  /**
+   * End a call without a verdict on the provider (a failure that isn't the
+   * provider's, or a stream the consumer stopped reading), freeing the trial
+   */
+  release() {
+    this.trialInFlight = false
+  }
+
+  recordFailure() {
+    this.consecutiveFailures++
+    this.trialInFlight = false
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open'
+      this.openedAt = this.now()
+    }
+  }
+
+  retryAt(): Date {
+    return new Date((this.openedAt ?? this.now()) + this.options.resetAfterMs)
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt).toISOString(),
+      retryAt: this.state === 'open' ? this.retryAt().toISOString() : null,
+    }
+  }
+}
+
+const breakers = new Map<ProviderName, CircuitBreaker>()
+
+export function getCircuitBreaker(
+  provider: ProviderName,
+  config: ResilienceConfig = getResilienceConfig()
+): CircuitBreaker {
+  let breaker = breakers.get(provider)
+  if (!breaker) {
+    breaker = new CircuitBreaker(config)
+    breakers.set(provider, breaker)
+  }
+  return breaker
+}
+
+/**
+ * State of every breaker used so far in this server instance
+ */
+export function getCircuitBreakerStates(): Partial<Record<ProviderName, CircuitBreakerSnapshot>> {
+  return Object.fromEntries([...breakers].map(([name, breaker]) => [name, breaker.snapshot()]))
+}
+
+/**
+ * Forget all breakers - for tests
+ */
+export function resetCircuitBreakers() {
+  breakers.clear()
+}
+
+class AttemptTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`No response within ${timeoutMs}ms`)
+    this.name = 'AttemptTimeoutError'
+  }
+}
+
+/**
+ * Whether a failed attempt is worth retrying: timeouts, connection errors,
+ * rate limits and server errors. Other failures (bad request, missing
+ * credentials) would fail the same way again
+ */
+export function isRetryable(error: unknown): boolean {
+  const cause = error instanceof AiProviderError ? error.cause : error
+  if (cause instanceof AttemptTimeoutError) return true
+  if (!cause || typeof cause !== 'object') return false
+
+  const { status, name } = cause as { status?: unknown; name?: unknown }
+  if (typeof status === 'number') return status === 429 || status >= 500
+  return name === 'APIConnectionError' || name === 'APIConnectionTimeoutError'
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential backoff with full jitter
+ */
+export function backoffDelay(
+  attempt: number,
+  config: Pick<ResilienceConfig, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random
+): number {
+  return Math.round(random() * Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt))
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Abort signal that fires after `timeoutMs` - restart() pushes the deadline back
+ * The caller's own signal (e.g. a client that went away) aborts it too
+ */
+function attemptTimer(timeoutMs: number, callerSignal?: AbortSignal) {
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout>
+  const restart = () => {
+    clearTimeout(timer)
+    timer = setTimeout(() => controller.abort(new AttemptTimeoutError(timeoutMs)), timeoutMs)
+  }
+  restart()
+
+  return {
+    signal: callerSignal ? AbortSignal.any([callerSignal, controller.signal]) : controller.signal,
+    restart,
+    clear: () => clearTimeout(timer),
+  }
+}
+
+// Errors from an aborted attempt carry the SDK's abort error - report the timeout instead
+function attemptError(error: unknown, signal: AbortSignal, provider: ProviderName): unknown {
+  if (!signal.aborted || !(signal.reason instanceof AttemptTimeoutError)) return error
+  return new AiProviderError(`The ${provider} provider timed out`, provider, {
+    cause: signal.reason,
+  })
+}
+
+export function withResilience(
+  provider: SuggestionProvider,
+  config: ResilienceConfig = getResilienceConfig()
+): SuggestionProvider {
+  const breaker = getCircuitBreaker(provider.name, config)
+
+  const acquire = () => {
+    if (!breaker.tryAcquire()) throw new CircuitOpenError(provider.name, breaker.retryAt())
+  }
+
+  const recordFailure = (failure: unknown) => {
+    if (isRetryable(failure)) breaker.recordFailure()
+    else breaker.release()
+  }
+
+  return {
+    ...provider,
+    complete: async request => {
+      acquire()
+
+      for (let attempt = 0; ; attempt++) {
+        const timer = attemptTimer(config.timeoutMs, request.signal)
+        try {
+          const result = await provider.complete({ ...request, signal: timer.signal })
+          breaker.recordSuccess()
+          return result
+        } catch (error) {
+          const failure = attemptError(error, timer.signal, provider.name)
+          if (attempt >= config.maxRetries || !isRetryable(failure)) {
+            recordFailure(failure)
+            throw failure
+          }
+          await request.onRetry?.(failure)
+          await sleep(backoffDelay(attempt, config))
+        } finally {
+          timer.clear()
+        }
+      }
+    },
+    stream: async function* (request) {
+      acquire()
+      let settled = false
+
+      try {
+        for (let attempt = 0; ; attempt++) {
+          const timer = attemptTimer(config.timeoutMs, request.signal)
+          let yielded = false
+          try {
+            for await (const delta of provider.stream({ ...request, signal: timer.signal })) {
+              timer.restart()
+              yielded = true
+              yield delta
+            }
+            settled = true
+            breaker.recordSuccess()
+            return
+          } catch (error) {
+            const failure = attemptError(error, timer.signal, provider.name)
+            // Output already sent can't be taken back, so only retry before the first chunk
+            if (yielded || attempt >= config.maxRetries || !isRetryable(failure)) {
+              settled = true
+              recordFailure(failure)
+              throw failure
+            }
+            await request.onRetry?.(failure)
+            await sleep(backoffDelay(attempt, config))
+          } finally {
+            timer.clear()
+          }
+        }
+      } finally {
+        // The consumer stopped reading (e.g. the client went away)
+        if (!settled) breaker.release()
+      }
+    },
+  }
+}
@@ -0,0 +1,213 @@
+import type { z } from 'zod'
+import { aiPromptSchema, validate, type AiPromptInput } from '@/lib/validation/schemas'
+
+/**
+ * Input safety layer
+ *
+ * Free text from users (background, goals, refinement messages, feedback)
+ * goes into prompts, so it is screened first:
+ * - PII redaction: emails, phone numbers and URLs are replaced with tokens
+ *   ([EMAIL_1], [PHONE_1], [URL_1]). The same value always gets the same
+ *   token within one input, so the model can still tell them apart.
+ * - Prompt-injection screening: phrases like "ignore previous instructions"
+ *   are flagged, and depending on AI_INJECTION_MODE also stripped or rejected.
+ *
+ * Routes store the screened input together with its InputSafetyReport in
+ * input_data, so the stored input is exactly what the prompt was built from.
+ * Redacted values themselves are never stored.
+ *
+ * Configuration:
+ * - AI_INJECTION_MODE=flag     (default) send as is, record the matches
+ * - AI_INJECTION_MODE=strip    remove matched phrases before prompting - the
+ *                              result is validated again, so input that was
+ *                              mostly an injection fails with ValidationError
+ * - AI_INJECTION_MODE=reject   throw PromptInjectionError (routes return 400)
+ *
+ * Usage:
+ *   const { input, report } = screenPromptInput(validated)
+ *   const messages = template.build(input)
+ *   // insert input_data: { ...input, safety: report }
+ */
+
+export type RedactionType = 'email' | 'phone' | 'url'
+
+export type InjectionMode = 'flag' | 'strip' | 'reject'
+
+export interface Redaction {
+  field: string
+  type: RedactionType
+  token: string
+}
+
+export interface InjectionMatch {
+  field: string
+  phrase: string
+}
+
+export interface InputSafetyReport {
+  redactions: Redaction[]
+  injection: {
+    mode: InjectionMode
+    matches: InjectionMatch[]
+  }
+}
+
+/**
+ * Thrown in 'reject' mode when input looks like a prompt-injection attempt
+ */
+export class PromptInjectionError extends Error {
+  matches: InjectionMatch[]
+
+  constructor(matches: InjectionMatch[]) {
+    super(
+      'Your input looks like it contains instructions for the AI. Please rephrase it in your own words.'
+    )
+    this.name = 'PromptInjectionError'
+    this.matches = matches
+  }
+}
+
+// Emails first, so their domains aren't picked up as URLs
+const PII_PATTERNS: { type: RedactionType; pattern: RegExp }[] = [
+  { type: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { type: 'url', pattern: /\b(?:https?:\/\/|www\.)[^\s<>"'()]+[^\s<>"'().,;:!?]/gi },
+  // Checked for 9-15 digits below, so years and date ranges are left alone
+  { type: 'phone', pattern: /\+?\(?\d[\d\s().-]{7,}\d/g },
+]
+
+const INJECTION_PATTERNS: RegExp[] = [
+  /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|preceding|system)\s+(?:instructions?|prompts?|rules|messages?)/gi,
+  /\b(?:reveal|show|print|repeat|output)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+)?(?:prompt|instructions)/gi,
+  /\byou\s+are\s+now\s+(?:a|an|in)\b[^.\n]*/gi,
+  // Not plain "act as" - people act as scrum masters and team leads
+  /\b(?:pretend\s+(?:to\s+be|you\s+are)|from\s+now\s+on,?\s+you)\b[^.\n]*/gi,
+  /\bnew\s+instructions\s*:/gi,
+  /<\/?\s*(?:system|assistant|instructions?)\s*>/gi,
+  /^\s*(?:system|assistant)\s*:/gim,
+  /\b(?:jailbreak|developer\s+mode|DAN\s+mode)\b/gi,
+]
+
+export function getInjectionMode(): InjectionMode {
+  const mode = process.env.AI_INJECTION_MODE || 'flag'
+
+  if (mode !== 'flag' && mode !== 'strip' && mode !== 'reject') {
+    throw new Error(
+      'Invalid AI_INJECTION_MODE environment variable. Expected one of: flag, strip, reject'
+    )
+  }
+
+  return mode
+}
+
+/**
+ * Replace emails, phone numbers and URLs with tokens
+ * `tokens` maps already-seen values to their token, so pass the same map for
+ * every field of one input to keep tokens consistent
+ */
+export function redactPii(
+  text: string,
+  field: string,
+  tokens: Map<string, string> = new Map()
+): { text: string; redactions: Redaction[] } {
+  const redactions: Redaction[] = []
+  let result = text
+
+  for (const { type, pattern } of PII_PATTERNS) {
+    result = result.replace(pattern, match => {
+      if (type === 'phone') {
+        const digits = match.replace(/\D/g, '').length
+        if (digits < 9 || digits > 15) return match
+      }
+
+      const key = `${type}:${match.toLowerCase()}`
+      let token = tokens.get(key)
+      if (!token) {
+        const count = [...tokens.keys()].filter(k => k.startsWith(`${type}:`)).length
+        token = `[${type.toUpperCase()}_${count + 1}]`
+        tokens.set(key, token)
+      }
+
+      redactions.push({ field, type, token })
+      return token
+    })
+  }
+
+  return { text: result, redactions }
+}
+
+/**
+ * Find likely prompt-injection phrases
+ */
+export function findInjections(text: string, field: string): InjectionMatch[] {
+  return INJECTION_PATTERNS.flatMap(pattern =>
+    [...text.matchAll(pattern)].map(match => ({ field, phrase: match[0].trim() }))
+  )
+}
+
+function stripInjections(text: string): string {
+  return INJECTION_PATTERNS.reduce((result, pattern) => result.replace(pattern, ' '), text)
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/^[\s.,;:!?-]+/, '')
+    .trim()
+}
+
+/**
+ * Redact and screen a set of free-text fields
+ * Throws PromptInjectionError in 'reject' mode when anything is flagged, and
+ * ValidationError when the screened fields no longer match `schema`
+ */
+export function screenFields<T extends Record<string, string | undefined>>(
+  fields: T,
+  { mode = getInjectionMode(), schema }: { mode?: InjectionMode; schema?: z.ZodType<T> } = {}
+): { fields: T; report: InputSafetyReport } {
+  const tokens = new Map<string, string>()
+  const report: InputSafetyReport = { redactions: [], injection: { mode, matches: [] } }
+  const screened: Record<string, string | undefined> = { ...fields }
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (!value) continue
+
+    const redacted = redactPii(value, field, tokens)
+    const matches = findInjections(redacted.text, field)
+
+    report.redactions.push(...redacted.redactions)
+    report.injection.matches.push(...matches)
+    screened[field] =
+      mode === 'strip' && matches.length ? stripInjections(redacted.text) : redacted.text
+  }
+
+  if (mode === 'reject' && report.injection.matches.length) {
+    throw new PromptInjectionError(report.injection.matches)
+  }
+
+  if (report.injection.matches.length) {
+    console.warn('Possible prompt injection in user input:', {
+      mode,
+      fields: [...new Set(report.injection.matches.map(m => m.field))],
+    })
+  }
+
+  return { fields: schema ? validate(schema, screened) : (screened as T), report }
+}
+
+/**
+ * Screen the free-text fields of an AI prompt input
+ */
+export function screenPromptInput(
+  input: AiPromptInput,
+  options?: { mode?: InjectionMode }
+): { input: AiPromptInput; report: InputSafetyReport } {
+  const { fields, report } = screenFields(
+    { userBackground: input.userBackground, currentGoals: input.currentGoals },
+    options
+  )
+
+  return {
+    input: validate(aiPromptSchema, {
+      ...input,
+      userBackground: fields.userBackground,
+      ...(input.currentGoals !== undefined && { currentGoals: fields.currentGoals }),
+    }),
+    report,
+  }
+}
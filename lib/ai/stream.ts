@@ -0,0 +1,156 @@
+import type { SuggestionCacheLookup } from '@/lib/ai/cache'
+import { suggestionSchema, type AiSuggestion, type Suggestion } from '@/lib/validation/schemas'
+
+/**
+ * Streaming helpers for AI suggestions
+ *
+ * The streaming endpoint sends server-sent events (SSE):
+ *   event: suggestion   data: stored Suggestion ({ id, title, reason, action, ... })
+ *   event: done         data: { id, count, metadata } - id of the stored set
+ *   event: error        data: { error }
+ *
+ * Server side: createSuggestionStreamParser() + encodeSSE()
+ * Client side: readSSE()
+ */
+
+export interface SuggestionStreamMetadata {
+  experienceLevel: string
+  provider: string
+  promptVersion: string
+  model: string
+  /** Suggestion cache result (see lib/ai/cache.ts) */
+  cache: SuggestionCacheLookup['status']
+  timestamp: string
+}
+
+export type SuggestionStreamEvent =
+  | { event: 'suggestion'; data: Suggestion }
+  | { event: 'done'; data: { id: string; count: number; metadata: SuggestionStreamMetadata } }
+  | { event: 'error'; data: { error: string } }
+
+/**
+ * Incremental parser for a streamed `{ "suggestions": [ ... ] }` response
+ *
+ * Feed it raw model output as it arrives; every call to push() returns the
+ * suggestions that were completed by that chunk and pass suggestionSchema.
+ * Objects that fail validation are skipped rather than aborting the stream.
+ *
+ * Usage:
+ *   const parser = createSuggestionStreamParser()
+ *   for await (const delta of provider.stream(request)) {
+ *     for (const suggestion of parser.push(delta)) send(suggestion)
+ *   }
+ */
+export function createSuggestionStreamParser() {
+  let buffer = ''
+  let position = 0
+  let inArray = false
+  let arrayClosed = false
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let objectStart = -1
+
+  return {
+    push(chunk: string): AiSuggestion[] {
+      buffer += chunk
+      const completed: AiSuggestion[] = []
+
+      for (; position < buffer.length && !arrayClosed; position++) {
+        const char = buffer[position]
+
+        // The first '[' opens the suggestions array - skip anything before it
+        if (!inArray) {
+          if (char === '[') inArray = true
+          continue
+        }
+
+        if (inString) {
+          if (escaped) escaped = false
+          else if (char === '\\') escaped = true
+          else if (char === '"') inString = false
+          continue
+        }
+
+        if (char === '"') {
+          inString = true
+        } else if (char === '{' || char === '[') {
+          if (depth === 0 && char === '{') objectStart = position
+          depth++
+        } else if (char === '}' || char === ']') {
+          if (depth === 0 && char === ']') {
+            arrayClosed = true
+            continue
+          }
+
+          depth--
+          if (depth === 0 && char === '}' && objectStart !== -1) {
+            const suggestion = parseSuggestionObject(buffer.slice(objectStart, position + 1))
+            if (suggestion) completed.push(suggestion)
+            objectStart = -1
+          }
+        }
+      }
+
+      return completed
+    },
+  }
+}
+
+function parseSuggestionObject(text: string): AiSuggestion | undefined {
+  try {
+    const result = suggestionSchema.safeParse(JSON.parse(text))
+    return result.success ? result.data : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Encode an event in the text/event-stream wire format
+ */
+export function encodeSSE(event: SuggestionStreamEvent): string {
+  return `event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`
+}
+
+/**
+ * Read server-sent events from a fetch() response body
+ *
+ * Usage:
+ *   const response = await fetch('/api/profile/suggestions/stream', { ... })
+ *   for await (const event of readSSE(response.body!)) {
+ *     if (event.event === 'suggestion') addSuggestion(event.data)
+ *   }
+ */
+export async function* readSSE(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SuggestionStreamEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const message = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+
+        const event = message.match(/^event: (.*)$/m)?.[1]
+        const data = message.match(/^data: (.*)$/m)?.[1]
+        if (event && data) {
+          yield { event, data: JSON.parse(data) } as SuggestionStreamEvent
+        }
+
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
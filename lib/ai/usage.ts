@@ -0,0 +1,323 @@
+import {
+  CircuitOpenError,
+  type CompletionRequest,
+  type CompletionUsage,
+  type ProviderName,
+  type SuggestionProvider,
+} from '@/lib/ai/providers'
+import { createServiceClient } from '@/lib/supabase/client'
+
+/**
+ * AI usage metering and quotas
+ *
+ * Every LLM call made on behalf of a user is recorded in ai_usage with its
+ * token counts, model, estimated cost and status. Failed calls are recorded
+ * too ('failed'), as is each attempt withResilience() retries ('retried'),
+ * with the tokens they're known to have used - none, or the part of a
+ * stream received before it broke off. Before generating, API routes call
+ * enforceAiQuota(), which throws QuotaExceededError once the user has used
+ * up their daily or monthly allowance (routes map it to 429 with a
+ * Retry-After header).
+ *
+ * Quotas count succeeded calls, not tokens or failures, and reset at
+ * midnight UTC and on the first of the month (UTC). Calls to the template
+ * provider cost nothing and don't count either: routes skip the check for
+ * it (countsTowardsQuota()). Configure quotas with AI_QUOTA_DAILY and
+ * AI_QUOTA_MONTHLY (a number, or "unlimited").
+ *
+ * Usage:
+ *   await enforceAiQuota(user.id)
+ *   const provider = meterProvider(getSuggestionProvider(), {
+ *     userId: user.id,
+ *     feature: 'profile-suggestions',
+ *   })
+ *   await provider.complete(request) // usage is recorded automatically
+ */
+
+export type AiFeature =
+  | 'profile-suggestions'
+  | 'suggestion-regeneration'
+  | 'suggestion-refinement'
+  | 'template-personalization'
+
+export type AiUsageStatus = 'succeeded' | 'failed' | 'retried'
+
+export type QuotaPeriod = 'daily' | 'monthly'
+
+export type AiQuota = Record<QuotaPeriod, number | null>
+
+const DEFAULT_QUOTA: Record<QuotaPeriod, number> = { daily: 10, monthly: 100 }
+
+/**
+ * OpenAI prices in USD per 1M tokens (input / output)
+ * Checked in order, so more specific prefixes come first
+ */
+const MODEL_PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4-turbo', input: 10, output: 30 },
+  { prefix: 'gpt-4', input: 30, output: 60 },
+  { prefix: 'gpt-3.5-turbo', input: 0.5, output: 1.5 },
+]
+
+/**
+ * Thrown when a user has used up a quota
+ * retryAfter is the number of seconds until the quota resets
+ */
+export class QuotaExceededError extends Error {
+  period: QuotaPeriod
+  limit: number
+  retryAfter: number
+
+  constructor(period: QuotaPeriod, limit: number, retryAfter: number) {
+    super(
+      `You've reached your ${period} limit of ${limit} AI requests. Please try again ${
+        period === 'daily' ? 'tomorrow' : 'next month'
+      }.`
+    )
+    this.name = 'QuotaExceededError'
+    this.period = period
+    this.limit = limit
+    this.retryAfter = retryAfter
+  }
+}
+
+/**
+ * Read quotas from AI_QUOTA_DAILY / AI_QUOTA_MONTHLY
+ * null means unlimited
+ */
+export function getAiQuota(): AiQuota {
+  const read = (period: QuotaPeriod, value: string | undefined) => {
+    if (!value) return DEFAULT_QUOTA[period]
+    if (value === 'unlimited') return null
+
+    const limit = Number(value)
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new Error(
+        `Invalid AI_QUOTA_${period.toUpperCase()} environment variable. Expected a whole number or "unlimited"`
+      )
+    }
+    return limit
+  }
+
+  return {
+    daily: read('daily', process.env.AI_QUOTA_DAILY),
+    monthly: read('monthly', process.env.AI_QUOTA_MONTHLY),
+  }
+}
+
+/**
+ * Start and end (exclusive) of the UTC day or month containing `now`
+ */
+export function quotaWindow(period: QuotaPeriod, now: Date): { start: Date; end: Date } {
+  const year = now.getUTCFullYear()
+  const month = now.getUTCMonth()
+
+  if (period === 'monthly') {
+    return {
+      start: new Date(Date.UTC(year, month, 1)),
+      end: new Date(Date.UTC(year, month + 1, 1)),
+    }
+  }
+
+  const day = now.getUTCDate()
+  return {
+    start: new Date(Date.UTC(year, month, day)),
+    end: new Date(Date.UTC(year, month, day + 1)),
+  }
+}
+
+/**
+ * Whether calls to a provider use up the user's quota
+ * Template suggestions are generated locally and cost nothing
+ */
+export function countsTowardsQuota(provider: ProviderName): boolean {
+  return provider !== 'template'
+}
+
+/**
+ * Throw QuotaExceededError if the user can't make another AI call
+ *
+ * Checks the monthly quota first, so Retry-After points at the later reset
+ * when both are used up. Concurrent requests can overshoot a quota by a
+ * call or two - fine for cost control.
+ */
+export async function enforceAiQuota(userId: string, now = new Date()): Promise<void> {
+  const quota = getAiQuota()
+  const supabase = createServiceClient()
+
+  for (const period of ['monthly', 'daily'] as const) {
+    const limit = quota[period]
+    if (limit === null) continue
+
+    const { start, end } = quotaWindow(period, now)
+    const { count, error } = await supabase
+      .from('ai_usage')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('status', 'succeeded')
+      .neq('provider', 'template')
+      .gte('created_at', start.toISOString())
+
+    if (error) throw error
+
+    if ((count ?? 0) >= limit) {
+      throw new QuotaExceededError(period, limit, Math.ceil((end.getTime() - now.getTime()) / 1000))
+    }
+  }
+}
+
+/**
+ * Rough token count for providers that don't report usage (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Estimated cost in USD
+ * Only OpenAI calls cost money; unknown OpenAI models are priced like gpt-4
+ * so estimates err on the high side
+ */
+export function estimateCost(
+  provider: ProviderName,
+  model: string,
+  usage: CompletionUsage
+): number {
+  if (provider !== 'openai') return 0
+
+  const price =
+    MODEL_PRICES.find(p => model.startsWith(p.prefix)) ??
+    MODEL_PRICES.find(p => p.prefix === 'gpt-4')!
+  const cost =
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000
+
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
+
+export interface AiUsageRecord {
+  userId: string
+  feature: AiFeature
+  provider: ProviderName
+  model: string
+  usage: CompletionUsage
+  estimated: boolean
+  status: AiUsageStatus
+}
+
+/**
+ * Store one ai_usage row
+ * Never throws - the call already happened, so a metering failure is
+ * logged rather than failing the user's request
+ */
+export async function recordAiUsage({
+  userId,
+  feature,
+  provider,
+  model,
+  usage,
+  estimated,
+  status,
+}: AiUsageRecord): Promise<void> {
+  try {
+    const supabase = createServiceClient()
+    const { error } = await supabase.from('ai_usage').insert({
+      user_id: userId,
+      feature,
+      provider,
+      model,
+      status,
+      prompt_tokens: usage.promptTokens,
+      completion_tokens: usage.completionTokens,
+      usage_estimated: estimated,
+      estimated_cost: estimateCost(provider, model, usage),
+    })
+
+    if (error) throw error
+  } catch (error) {
+    console.error('Failed to record AI usage:', error)
+  }
+}
+
+function estimateUsage(request: CompletionRequest, content: string): CompletionUsage {
+  return {
+    promptTokens: estimateTokens(request.messages.map(m => m.content).join('\n')),
+    completionTokens: estimateTokens(content),
+  }
+}
+
+const NO_USAGE: CompletionUsage = { promptTokens: 0, completionTokens: 0 }
+
+/**
+ * Wrap a provider so every call is recorded in ai_usage
+ * Streams are recorded when they finish (or fail part-way) with estimated
+ * token counts, since streamed responses don't report usage. Failed calls
+ * and retried attempts are recorded without tokens - nothing reports them -
+ * except for the part of a stream received before it failed. A call the
+ * circuit breaker turned away never reached the provider and isn't recorded.
+ * `record` is replaceable for tests
+ */
+export function meterProvider(
+  provider: SuggestionProvider,
+  { userId, feature }: { userId: string; feature: AiFeature },
+  record: (usage: AiUsageRecord) => Promise<void> = recordAiUsage
+): SuggestionProvider {
+  const meter = (
+    status: AiUsageStatus,
+    {
+      model = provider.model,
+      usage = NO_USAGE,
+      estimated = false,
+    }: Partial<Pick<AiUsageRecord, 'model' | 'usage' | 'estimated'>> = {}
+  ) => record({ userId, feature, provider: provider.name, model, usage, estimated, status })
+
+  const metered = (request: CompletionRequest): CompletionRequest => ({
+    ...request,
+    onRetry: async error => {
+      await meter('retried')
+      await request.onRetry?.(error)
+    },
+  })
+
+  return {
+    ...provider,
+    complete: async request => {
+      let result
+      try {
+        result = await provider.complete(metered(request))
+      } catch (error) {
+        if (!(error instanceof CircuitOpenError)) await meter('failed')
+        throw error
+      }
+
+      await meter('succeeded', {
+        model: result.model,
+        usage: result.usage ?? estimateUsage(request, result.content),
+        estimated: !result.usage,
+      })
+
+      return result
+    },
+    stream: async function* (request) {
+      let content = ''
+      let status: AiUsageStatus = 'succeeded'
+
+      try {
+        for await (const delta of provider.stream(metered(request))) {
+          content += delta
+          yield delta
+        }
+      } catch (error) {
+        if (!(error instanceof CircuitOpenError)) status = 'failed'
+        throw error
+      } finally {
+        if (content || status === 'failed') {
+          await meter(status, {
+            usage: content ? estimateUsage(request, content) : NO_USAGE,
+            estimated: Boolean(content),
+          })
+        }
+      }
+    },
+  }
+}
@@ -0,0 +1,94 @@
+import { generateFeedToken, hashFeedToken, isFeedToken, pathEvents } from '@/lib/calendar/feed'
+import type { PathSchedule } from '@/lib/paths/schedule'
+import type { PathStep } from '@/types'
+
+/**
+ * Calendar Feed Tests
+ *
+ * Events from a path's schedule and the shape of feed tokens.
+ */
+
+const step = (id: string, overrides: Partial<PathStep> = {}): PathStep => ({
+  created_at: '2026-01-19T00:00:00.000Z',
+  updated_at: '2026-01-19T00:00:00.000Z',
+  id,
+  milestone_id: 'milestone-1',
+  user_id: 'user-1',
+  position: 0,
+  title: `Step ${id}`,
+  reason: null,
+  action: null,
+  type: null,
+  url: null,
+  duration: null,
+  source_suggestion_id: null,
+  template_step_key: null,
+  completed_at: null,
+  ...overrides,
+})
+
+const path = {
+  title: 'Backend',
+  milestones: [
+    {
+      created_at: '2026-01-19T00:00:00.000Z',
+      updated_at: '2026-01-19T00:00:00.000Z',
+      id: 'milestone-1',
+      path_id: 'path-1',
+      user_id: 'user-1',
+      position: 0,
+      title: 'Milestone',
+      description: null,
+      steps: [step('a', { reason: 'Data', action: 'Do 10 queries' }), step('b')],
+    },
+  ],
+}
+
+const scheduled = (stepId: string) => ({ stepId, hours: 5, finishes: true, completed: false })
+
+describe('pathEvents', () => {
+  it('spans each step over the weeks it is planned in', () => {
+    const schedule: PathSchedule = {
+      start: '2026-01-19',
+      weeklyHours: 5,
+      weeks: [
+        { weekStart: '2026-01-19', hours: 5, steps: [{ ...scheduled('a'), finishes: false }] },
+        { weekStart: '2026-01-26', hours: 5, steps: [scheduled('a'), scheduled('b')] },
+      ],
+    }
+
+    expect(pathEvents(path, schedule)).toEqual([
+      {
+        uid: 'path-step-a@learning-path-creator',
+        summary: 'Step a',
+        description: 'Data\n\nDo 10 queries\n\nLearning path: Backend',
+        url: null,
+        start: '2026-01-19',
+        end: '2026-02-02',
+      },
+      expect.objectContaining({
+        uid: 'path-step-b@learning-path-creator',
+        description: 'Learning path: Backend',
+        start: '2026-01-26',
+        end: '2026-02-02',
+      }),
+    ])
+  })
+})
+
+describe('feed tokens', () => {
+  it('are random, URL-safe and stored as a hash', () => {
+    const token = generateFeedToken()
+
+    expect(isFeedToken(token)).toBe(true)
+    expect(generateFeedToken()).not.toBe(token)
+    expect(hashFeedToken(token)).toMatch(/^[0-9a-f]{64}$/)
+    expect(hashFeedToken(token)).toBe(hashFeedToken(token))
+  })
+
+  it('rejects anything else without a lookup', () => {
+    expect(isFeedToken('')).toBe(false)
+    expect(isFeedToken('not-a-token')).toBe(false)
+    expect(isFeedToken(`${generateFeedToken()}.ics`)).toBe(false)
+  })
+})
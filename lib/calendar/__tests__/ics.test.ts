@@ -0,0 +1,88 @@
+import { buildCalendar, escapeText, foldLine, formatDateTime } from '@/lib/calendar/ics'
+
+/**
+ * iCalendar Tests
+ *
+ * Escaping, line folding and the VCALENDAR/VEVENT structure from RFC 5545.
+ */
+
+const octets = (line: string) => Buffer.byteLength(line)
+
+describe('escapeText', () => {
+  it('escapes backslashes, separators and line breaks', () => {
+    expect(escapeText('SQL; joins, indexes\\views\nNext line')).toBe(
+      'SQL\\; joins\\, indexes\\\\views\\nNext line'
+    )
+  })
+})
+
+describe('foldLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldLine('SUMMARY:Learn SQL')).toBe('SUMMARY:Learn SQL')
+  })
+
+  it('folds at 75 octets without splitting characters', () => {
+    const line = `DESCRIPTION:${'é'.repeat(100)}`
+    const folded = foldLine(line).split('\r\n')
+
+    expect(folded.length).toBeGreaterThan(1)
+    expect(folded.every(l => octets(l) <= 75)).toBe(true)
+    expect(folded.slice(1).every(l => l.startsWith(' '))).toBe(true)
+    expect(folded.map((l, i) => (i ? l.slice(1) : l)).join('')).toBe(line)
+  })
+})
+
+describe('buildCalendar', () => {
+  const calendar = buildCalendar({
+    name: 'Learning paths',
+    now: new Date('2026-01-19T09:30:00.000Z'),
+    events: [
+      {
+        uid: 'path-step-1@learning-path-creator',
+        summary: 'Learn SQL, then RLS',
+        description: 'Data\n\nDo 10 queries',
+        url: 'https://example.com/sql',
+        start: '2026-01-19',
+        end: '2026-02-02',
+      },
+      {
+        uid: 'path-step-2@learning-path-creator',
+        summary: 'Build an API',
+        url: 'https://example.com/\r\nX-INJECTED:1',
+        start: '2026-02-02',
+        end: '2026-02-09',
+      },
+    ],
+  })
+  const lines = calendar.split('\r\n')
+
+  it('uses CRLF line endings and wraps the events', () => {
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(lines.slice(0, 2)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0'])
+    expect(lines.filter(l => l === 'BEGIN:VEVENT')).toHaveLength(2)
+  })
+
+  it('writes all-day events', () => {
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'UID:path-step-1@learning-path-creator',
+        'DTSTAMP:20260119T093000Z',
+        'DTSTART;VALUE=DATE:20260119',
+        'DTEND;VALUE=DATE:20260202',
+        'SUMMARY:Learn SQL\\, then RLS',
+        'DESCRIPTION:Data\\n\\nDo 10 queries',
+        'URL:https://example.com/sql',
+      ])
+    )
+  })
+
+  it('leaves out URLs that are not plain http(s) URIs', () => {
+    expect(calendar).not.toContain('X-INJECTED')
+  })
+})
+
+describe('formatDateTime', () => {
+  it('formats UTC date-times', () => {
+    expect(formatDateTime(new Date('2026-12-31T23:59:59.999Z'))).toBe('20261231T235959Z')
+  })
+})
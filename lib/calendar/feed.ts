@@ -0,0 +1,74 @@
+import { createHash, randomBytes } from 'node:crypto'
+import type { CalendarEvent } from '@/lib/calendar/ics'
+import { addWeeks, type PathSchedule } from '@/lib/paths/schedule'
+import type { LearningPath } from '@/types'
+
+/**
+ * Calendar feed of scheduled learning path steps
+ *
+ * Each step in a path's plan (lib/paths/schedule.ts) becomes an all-day
+ * event over the weeks it's planned in. The event UID is derived from the
+ * step id, so when a plan is recomputed, subscribed calendars move the
+ * event instead of adding a new one.
+ *
+ * Calendar apps can't send an Authorization header, so the feed URL carries
+ * a secret token instead. Each user has at most one. Only its SHA-256 hash
+ * is stored (calendar_feed_tokens), so the URL is shown once when it's
+ * created - creating a new one or revoking it invalidates the old URL.
+ *
+ * Usage:
+ *   const token = generateFeedToken()          // store hashFeedToken(token)
+ *   const events = pathEvents(path, schedule)
+ */
+
+const UID_DOMAIN = 'learning-path-creator'
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/
+
+export function generateFeedToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Whether `token` has the shape of a generated token - anything else can
+ * be rejected without a database lookup
+ */
+export function isFeedToken(token: string): boolean {
+  return TOKEN_PATTERN.test(token)
+}
+
+/**
+ * One event per scheduled step, from its first week to the end of its last
+ */
+export function pathEvents(
+  path: Pick<LearningPath, 'title' | 'milestones'>,
+  schedule: PathSchedule
+): CalendarEvent[] {
+  const steps = new Map(path.milestones.flatMap(m => m.steps).map(step => [step.id, step]))
+  const weeksByStep = new Map<string, string[]>()
+
+  for (const week of schedule.weeks) {
+    for (const { stepId } of week.steps) {
+      weeksByStep.set(stepId, [...(weeksByStep.get(stepId) ?? []), week.weekStart])
+    }
+  }
+
+  return [...weeksByStep].flatMap(([stepId, weeks]) => {
+    const step = steps.get(stepId)
+    if (!step) return []
+
+    return {
+      uid: `path-step-${step.id}@${UID_DOMAIN}`,
+      summary: step.title,
+      description: [step.reason, step.action, `Learning path: ${path.title}`]
+        .filter(Boolean)
+        .join('\n\n'),
+      url: step.url,
+      start: weeks[0],
+      end: addWeeks(weeks[weeks.length - 1], 1),
+    }
+  })
+}
@@ -0,0 +1,118 @@
+/**
+ * iCalendar (RFC 5545) serialization
+ *
+ * Just enough of the format for a read-only feed of all-day events:
+ * VCALENDAR with VEVENTs, escaped TEXT values, and content lines folded at
+ * 75 octets with CRLF line endings. Calendar apps that subscribe to a feed
+ * match events by UID, so UIDs must be stable across refreshes.
+ *
+ * Usage:
+ *   const body = buildCalendar({ name: 'My learning paths', events })
+ *   return new Response(body, { headers: { 'Content-Type': ICS_CONTENT_TYPE } })
+ */
+
+export const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8'
+
+const PRODUCT_ID = '-//Learning Path Creator//Learning Paths//EN'
+const MAX_LINE_OCTETS = 75
+
+export interface CalendarEvent {
+  uid: string
+  summary: string
+  description?: string
+  url?: string | null
+  /** First day, YYYY-MM-DD */
+  start: string
+  /** Day after the last day (DTEND is exclusive), YYYY-MM-DD */
+  end: string
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets (RFC 5545 3.1)
+ * Never splits a UTF-8 character
+ */
+export function foldLine(line: string): string {
+  const lines: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = lines.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS
+    if (octets + size > limit) {
+      lines.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  lines.push(current)
+
+  return lines.join('\r\n ')
+}
+
+const formatDate = (date: string) => date.replace(/-/g, '')
+
+// URI values aren't escaped, so anything else (like a line break) is left out
+const isUri = (value: string) => /^https?:\/\/[^\s"<>\\]+$/.test(value)
+
+/**
+ * UTC DATE-TIME, e.g. 20260119T090000Z
+ */
+export function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+/**
+ * A complete VCALENDAR, with CRLF line endings
+ */
+export function buildCalendar({
+  name,
+  events,
+  now = new Date(),
+}: {
+  name: string
+  events: CalendarEvent[]
+  now?: Date
+}): string {
+  const stamp = formatDateTime(now)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+      `DTEND;VALUE=DATE:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.url && isUri(event.url) ? [`URL:${event.url}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,85 @@
+import { generateFeedToken, hashFeedToken, isFeedToken } from '@/lib/calendar/feed'
+import { createServiceClient } from '@/lib/supabase/client'
+
+/**
+ * Calendar feed tokens (calendar_feed_tokens), for API routes
+ * Service role only - the table has no RLS policies
+ */
+
+export interface FeedTokenStatus {
+  createdAt: string
+  lastUsedAt: string | null
+}
+
+/**
+ * Create the user's feed token, replacing (and so revoking) any previous one
+ * Returns the token - it can't be read back later
+ */
+export async function createFeedToken(
+  userId: string
+): Promise<{ token: string; createdAt: string }> {
+  const token = generateFeedToken()
+  const createdAt = new Date().toISOString()
+
+  const supabase = createServiceClient()
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .upsert(
+      {
+        user_id: userId,
+        token_hash: hashFeedToken(token),
+        created_at: createdAt,
+        last_used_at: null,
+      },
+      { onConflict: 'user_id' }
+    )
+
+  if (error) throw error
+  return { token, createdAt }
+}
+
+/**
+ * Revoke the user's feed token. Returns false if they didn't have one
+ */
+export async function revokeFeedToken(userId: string): Promise<boolean> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .delete()
+    .eq('user_id', userId)
+    .select('user_id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+export async function getFeedTokenStatus(userId: string): Promise<FeedTokenStatus | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('created_at, last_used_at')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? { createdAt: data.created_at, lastUsedAt: data.last_used_at } : null
+}
+
+/**
+ * The user a feed token belongs to, or null if it's unknown or revoked
+ * Records when the token was last used
+ */
+export async function findFeedTokenUser(token: string): Promise<string | null> {
+  if (!isFeedToken(token)) return null
+
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('token_hash', hashFeedToken(token))
+    .select('user_id')
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.user_id ?? null
+}
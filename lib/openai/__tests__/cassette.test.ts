@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import OpenAI from 'openai'
+import { parseAiResponse } from '@/lib/ai/parser'
+import { cassetteKey, CassetteMissError, createCassetteFetch } from '@/lib/openai/cassette'
+
+/**
+ * OpenAI Cassette Tests
+ *
+ * Records a realistic chat completion with a fake network, then replays it
+ * through the real OpenAI SDK and response parser with the network disabled.
+ */
+
+const content =
+  'Here you go:\n```json\n{"suggestions":[{"title":"Testing","reason":"Confidence","action":"Write three tests"}]}\n```'
+
+const completion = {
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 1768000000,
+  model: 'gpt-4-0613',
+  choices: [
+    { index: 0, finish_reason: 'stop', message: { role: 'assistant', content, refusal: null } },
+  ],
+  usage: { prompt_tokens: 120, completion_tokens: 40, total_tokens: 160 },
+}
+
+const request = {
+  model: 'gpt-4',
+  messages: [{ role: 'user' as const, content: 'Suggest something' }],
+  temperature: 0.7,
+  max_tokens: 800,
+}
+
+const noNetwork = (() => {
+  throw new Error('Network access in replay mode')
+}) as typeof fetch
+
+const client = (fetch: typeof globalThis.fetch) =>
+  new OpenAI({ apiKey: 'test', fetch, maxRetries: 0 })
+
+describe('createCassetteFetch', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'cassettes-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('replays a recorded completion without network access', async () => {
+    const network = jest.fn(async () => Response.json(completion))
+    const recorded = await client(
+      createCassetteFetch({ mode: 'record', dir, fetch: network as unknown as typeof fetch })
+    ).chat.completions.create(request)
+
+    expect(network).toHaveBeenCalledTimes(1)
+    expect(await readdir(dir)).toHaveLength(1)
+
+    const replayed = await client(
+      createCassetteFetch({ mode: 'replay', dir, fetch: noNetwork })
+    ).chat.completions.create(request)
+
+    expect(replayed).toEqual(recorded)
+
+    const parsed = parseAiResponse(replayed.choices[0].message.content ?? '')
+    expect(parsed.strategy).toBe('fenced')
+    expect(parsed.suggestions[0].title).toBe('Testing')
+  })
+
+  it('replays streamed responses chunk by chunk', async () => {
+    const chunk = (delta: string) =>
+      `data: ${JSON.stringify({ id: 'c1', object: 'chat.completion.chunk', created: 1, model: 'gpt-4', choices: [{ index: 0, delta: { content: delta }, finish_reason: null }] })}\n\n`
+    const body = `${chunk('{"sugg')}${chunk('estions":[]}')}data: [DONE]\n\n`
+    const network = async () =>
+      new Response(body, { headers: { 'content-type': 'text/event-stream' } })
+
+    await createCassetteFetch({ mode: 'record', dir, fetch: network as typeof fetch })(
+      'https://api.openai.com/v1/chat/completions',
+      { method: 'POST', body: JSON.stringify({ ...request, stream: true }) }
+    )
+
+    const stream = await client(
+      createCassetteFetch({ mode: 'replay', dir, fetch: noNetwork })
+    ).chat.completions.create({ ...request, stream: true })
+
+    const deltas: string[] = []
+    for await (const part of stream) deltas.push(part.choices[0]?.delta?.content ?? '')
+    expect(deltas.join('')).toBe('{"suggestions":[]}')
+  })
+
+  it('fails in replay mode when the prompt or parameters changed', async () => {
+    const replay = client(createCassetteFetch({ mode: 'replay', dir, fetch: noNetwork }))
+
+    await expect(
+      replay.chat.completions.create({ ...request, temperature: 0 })
+    ).rejects.toMatchObject({ cause: expect.any(CassetteMissError) })
+  })
+})
+
+describe('cassetteKey', () => {
+  it('ignores key order but not values', () => {
+    const path = '/v1/chat/completions'
+
+    expect(cassetteKey(path, { model: 'gpt-4', temperature: 0.7 })).toBe(
+      cassetteKey(path, { temperature: 0.7, model: 'gpt-4' })
+    )
+    expect(cassetteKey(path, { model: 'gpt-4', temperature: 0.7 })).not.toBe(
+      cassetteKey(path, { model: 'gpt-4', temperature: 0 })
+    )
+  })
+})
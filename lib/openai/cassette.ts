@@ -0,0 +1,161 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+/**
+ * Record/replay ("cassette") mode for OpenAI-compatible clients
+ *
+ * The clients in lib/openai/client.ts pass every HTTP request through
+ * createCassetteFetch(). Depending on OPENAI_CASSETTE_MODE:
+ * - off (default): requests go to the network as usual
+ * - record:        requests go to the network and each request/response pair
+ *                  is written to OPENAI_CASSETTE_DIR
+ * - replay:        responses are served from OPENAI_CASSETTE_DIR; a request
+ *                  without a cassette fails instead of touching the network
+ *
+ * Cassettes are keyed by a hash of the endpoint and request body (model,
+ * messages, temperature, max_tokens, stream, ...), so changing the prompt
+ * or any model parameter needs a new recording. Streamed responses are
+ * stored as raw SSE text and replayed the same way.
+ *
+ * Usage:
+ *   OPENAI_CASSETTE_MODE=record npm run dev     # click through, then commit the cassettes
+ *   OPENAI_CASSETTE_MODE=replay npm run dev     # same flows, no network or API key
+ */
+
+export type CassetteMode = 'off' | 'record' | 'replay'
+
+export interface Cassette {
+  key: string
+  request: { method: string; path: string; body: unknown }
+  response: { status: number; contentType: string | null; body: string }
+  recordedAt: string
+}
+
+/**
+ * Thrown in replay mode when no cassette matches a request
+ */
+export class CassetteMissError extends Error {
+  key: string
+
+  constructor(key: string, file: string) {
+    super(
+      `No cassette for request ${key} (expected ${file}) - record it with OPENAI_CASSETTE_MODE=record`
+    )
+    this.name = 'CassetteMissError'
+    this.key = key
+  }
+}
+
+export function getCassetteMode(): CassetteMode {
+  const mode = process.env.OPENAI_CASSETTE_MODE || 'off'
+
+  if (mode !== 'off' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(
+      'Invalid OPENAI_CASSETTE_MODE environment variable. Expected one of: off, record, replay'
+    )
+  }
+
+  return mode
+}
+
+export function getCassetteDir(): string {
+  return process.env.OPENAI_CASSETTE_DIR || path.join(process.cwd(), 'cassettes', 'openai')
+}
+
+// JSON with sorted keys, so the same request always hashes the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+
+  return JSON.stringify(value)
+}
+
+/**
+ * Cassette key for a request: hash of the endpoint path and request body
+ */
+export function cassetteKey(requestPath: string, body: unknown): string {
+  return createHash('sha256')
+    .update(`${requestPath}\n${stableStringify(body)}`)
+    .digest('hex')
+    .slice(0, 16)
+}
+
+function parseBody(body: RequestInit['body']): unknown {
+  if (typeof body !== 'string') return null
+
+  try {
+    return JSON.parse(body)
+  } catch {
+    return body
+  }
+}
+
+/**
+ * fetch() that records to or replays from cassette files
+ * In 'off' mode it returns the given fetch unchanged
+ */
+export function createCassetteFetch({
+  mode = getCassetteMode(),
+  dir = getCassetteDir(),
+  fetch: realFetch = globalThis.fetch,
+}: { mode?: CassetteMode; dir?: string; fetch?: typeof fetch } = {}): typeof fetch {
+  if (mode === 'off') return realFetch
+
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString())
+    const method = init?.method ?? 'GET'
+    const body = parseBody(init?.body)
+    const key = cassetteKey(url.pathname, body)
+    const file = path.join(dir, `${key}.json`)
+
+    if (mode === 'replay') {
+      let cassette: Cassette
+      try {
+        cassette = JSON.parse(await readFile(file, 'utf8'))
+      } catch {
+        throw new CassetteMissError(key, file)
+      }
+
+      return new Response(cassette.response.body, {
+        status: cassette.response.status,
+        headers: cassette.response.contentType
+          ? { 'content-type': cassette.response.contentType }
+          : undefined,
+      })
+    }
+
+    // Record: read the whole body (including streams) so it can be stored and replayed
+    const response = await realFetch(input, init)
+    const text = await response.text()
+
+    // Only successful responses are worth replaying
+    if (response.ok) {
+      const cassette: Cassette = {
+        key,
+        request: { method, path: url.pathname, body },
+        response: {
+          status: response.status,
+          contentType: response.headers.get('content-type'),
+          body: text,
+        },
+        recordedAt: new Date().toISOString(),
+      }
+
+      await mkdir(dir, { recursive: true })
+      await writeFile(file, `${JSON.stringify(cassette, null, 2)}\n`)
+    }
+
+    return new Response(text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    })
+  }
+}
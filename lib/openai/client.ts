@@ -1,9 +1,27 @@
 import OpenAI from 'openai'
+import { createCassetteFetch, getCassetteMode } from '@/lib/openai/cassette'
 
 let openai: OpenAI | null = null
+let localLLM: OpenAI | null = null
+
+/**
+ * Options shared by every client - routes requests through the cassette
+ * recorder when OPENAI_CASSETTE_MODE is set (see lib/openai/cassette.ts)
+ */
+function clientOptions() {
+  const mode = getCassetteMode()
+
+  return {
+    fetch: createCassetteFetch({ mode }),
+    // A missing cassette won't appear on retry
+    ...(mode === 'replay' && { maxRetries: 0 }),
+  }
+}
 
 export function getOpenAIClient() {
-  const apiKey = process.env.OPENAI_API_KEY
+  // Replayed requests never reach OpenAI, so any key will do
+  const apiKey =
+    process.env.OPENAI_API_KEY || (getCassetteMode() === 'replay' ? 'replay' : undefined)
 
   if (!apiKey) {
     throw new Error(
@@ -12,8 +30,35 @@ export function getOpenAIClient() {
   }
 
   if (!openai) {
-    openai = new OpenAI({ apiKey })
+    openai = new OpenAI({ apiKey, ...clientOptions() })
   }
 
   return openai
 }
+
+/**
+ * Client for a local OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, ...)
+ * Useful for development without an OpenAI account
+ *
+ * Requires LOCAL_LLM_BASE_URL, e.g. http://localhost:11434/v1
+ * LOCAL_LLM_API_KEY is optional - most local servers ignore it
+ */
+export function getLocalLLMClient() {
+  const baseURL = process.env.LOCAL_LLM_BASE_URL
+
+  if (!baseURL) {
+    throw new Error(
+      'Missing LOCAL_LLM_BASE_URL environment variable. Please set it to use the local provider.'
+    )
+  }
+
+  if (!localLLM) {
+    localLLM = new OpenAI({
+      baseURL,
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+      ...clientOptions(),
+    })
+  }
+
+  return localLLM
+}
@@ -0,0 +1,110 @@
+import {
+  acyclicPrerequisites,
+  availableSteps,
+  findCycle,
+  PrerequisiteCycleError,
+  topologicalOrder,
+  validatePrerequisites,
+} from '@/lib/paths/graph'
+
+/**
+ * Prerequisite Graph Tests
+ *
+ * Cycle detection, ordering and availability of steps with prerequisites.
+ */
+
+const edge = (stepId: string, prerequisiteId: string) => ({ stepId, prerequisiteId })
+
+const steps = ['a', 'b', 'c', 'd']
+
+describe('findCycle', () => {
+  it('returns null for a DAG', () => {
+    expect(findCycle(steps, [edge('b', 'a'), edge('c', 'a'), edge('d', 'b'), edge('d', 'c')])).toBe(
+      null
+    )
+  })
+
+  it('returns the cycle, starting and ending with the same step', () => {
+    expect(findCycle(steps, [edge('a', 'b'), edge('b', 'c'), edge('c', 'a')])).toEqual([
+      'a',
+      'b',
+      'c',
+      'a',
+    ])
+    expect(findCycle(steps, [edge('d', 'b'), edge('b', 'c'), edge('c', 'b')])).toEqual([
+      'b',
+      'c',
+      'b',
+    ])
+  })
+})
+
+describe('validatePrerequisites', () => {
+  it('accepts a DAG', () => {
+    expect(() => validatePrerequisites(steps, [edge('b', 'a'), edge('c', 'b')])).not.toThrow()
+  })
+
+  it('rejects cycles and self-references', () => {
+    expect(() => validatePrerequisites(steps, [edge('a', 'b'), edge('b', 'a')])).toThrow(
+      PrerequisiteCycleError
+    )
+
+    try {
+      validatePrerequisites(steps, [edge('c', 'c')])
+      throw new Error('Expected a cycle')
+    } catch (error) {
+      expect(error).toBeInstanceOf(PrerequisiteCycleError)
+      expect((error as PrerequisiteCycleError).cycle).toEqual(['c', 'c'])
+    }
+  })
+
+  it('rejects steps outside the path', () => {
+    expect(() => validatePrerequisites(steps, [edge('a', 'x')])).toThrow('same learning path')
+  })
+})
+
+describe('acyclicPrerequisites', () => {
+  it('keeps edges in order and drops the ones that would close a cycle', () => {
+    expect(
+      acyclicPrerequisites(steps, [edge('b', 'a'), edge('c', 'b'), edge('a', 'c'), edge('d', 'c')])
+    ).toEqual([edge('b', 'a'), edge('c', 'b'), edge('d', 'c')])
+  })
+
+  it('drops unknown steps, self-references and duplicates', () => {
+    expect(
+      acyclicPrerequisites(steps, [edge('a', 'x'), edge('b', 'b'), edge('c', 'a'), edge('c', 'a')])
+    ).toEqual([edge('c', 'a')])
+  })
+})
+
+describe('topologicalOrder', () => {
+  it('keeps the order of steps without prerequisites', () => {
+    expect(topologicalOrder(steps, [])).toEqual(steps)
+  })
+
+  it('moves steps after their prerequisites and nothing else', () => {
+    expect(topologicalOrder(steps, [edge('a', 'c')])).toEqual(['b', 'c', 'a', 'd'])
+    expect(topologicalOrder(steps, [edge('b', 'd'), edge('a', 'd')])).toEqual(['c', 'd', 'a', 'b'])
+  })
+
+  it('throws on a cycle', () => {
+    expect(() => topologicalOrder(steps, [edge('a', 'b'), edge('b', 'a')])).toThrow(
+      PrerequisiteCycleError
+    )
+  })
+})
+
+describe('availableSteps', () => {
+  const edges = [edge('b', 'a'), edge('c', 'a'), edge('d', 'b'), edge('d', 'c')]
+
+  it('returns steps whose prerequisites are all completed', () => {
+    expect(availableSteps(steps, edges, [])).toEqual(['a'])
+    expect(availableSteps(steps, edges, ['a'])).toEqual(['b', 'c'])
+    expect(availableSteps(steps, edges, ['a', 'b'])).toEqual(['c'])
+    expect(availableSteps(steps, edges, ['a', 'b', 'c'])).toEqual(['d'])
+  })
+
+  it('leaves out completed steps', () => {
+    expect(availableSteps(steps, [], ['b'])).toEqual(['a', 'c', 'd'])
+  })
+})
@@ -0,0 +1,245 @@
+import {
+  buildPathFromSuggestions,
+  completedStepIds,
+  nextPosition,
+  pathStepIds,
+  pathTitleFor,
+  PROMOTED_MILESTONE_TITLE,
+  reorderPositions,
+  toLearningPath,
+  type LearningPathWithChildrenRow,
+} from '@/lib/paths/model'
+import { toStoredSuggestion } from '@/lib/suggestions/model'
+import type { PathMilestoneRow, PathStepRow, SuggestionInput } from '@/types'
+
+/**
+ * Learning Path Model Tests
+ *
+ * Ordering of nested rows, reordering and promoting a suggestion set.
+ */
+
+const timestamps = {
+  created_at: '2026-01-19T00:00:00.000Z',
+  updated_at: '2026-01-19T00:00:00.000Z',
+}
+
+const step = (id: string, position: number, overrides: Partial<PathStepRow> = {}): PathStepRow => ({
+  ...timestamps,
+  id,
+  milestone_id: 'milestone-1',
+  user_id: 'user-1',
+  position,
+  title: id,
+  reason: null,
+  action: null,
+  type: null,
+  url: null,
+  duration: null,
+  source_suggestion_id: null,
+  template_step_key: null,
+  completed_at: null,
+  ...overrides,
+})
+
+const milestone = (
+  id: string,
+  position: number,
+  steps: PathStepRow[]
+): PathMilestoneRow & { path_steps: PathStepRow[] } => ({
+  ...timestamps,
+  id,
+  path_id: 'path-1',
+  user_id: 'user-1',
+  position,
+  title: id,
+  description: null,
+  path_steps: steps,
+})
+
+const pathRow = (
+  milestones: LearningPathWithChildrenRow['path_milestones']
+): LearningPathWithChildrenRow => ({
+  ...timestamps,
+  id: 'path-1',
+  user_id: 'user-1',
+  title: 'Become a backend developer',
+  description: null,
+  source_profile_suggestion_id: null,
+  source_template_id: null,
+  source_template_version: null,
+  team_assignment_id: null,
+  weekly_hours: null,
+  schedule_start: null,
+  path_milestones: milestones,
+})
+
+describe('toLearningPath', () => {
+  it('orders milestones and steps by position', () => {
+    const path = toLearningPath(
+      pathRow([
+        milestone('second', 5, []),
+        milestone('first', 0, [step('b', 2), step('a', 1), step('c', 10)]),
+      ])
+    )
+
+    expect(path.milestones.map(m => m.id)).toEqual(['first', 'second'])
+    expect(path.milestones[0].steps.map(s => s.id)).toEqual(['a', 'b', 'c'])
+    expect(path).not.toHaveProperty('path_milestones')
+  })
+
+  it('handles paths without milestones', () => {
+    expect(toLearningPath(pathRow(undefined)).milestones).toEqual([])
+  })
+
+  it('drops unknown step types', () => {
+    const path = toLearningPath(
+      pathRow([
+        milestone('m', 0, [step('a', 0, { type: 'course' }), step('b', 1, { type: 'podcast' })]),
+      ])
+    )
+
+    expect(path.milestones[0].steps.map(s => s.type)).toEqual(['course', null])
+  })
+
+  it('collects prerequisites from the steps', () => {
+    const path = toLearningPath(
+      pathRow([
+        milestone('m', 0, [
+          step('a', 0),
+          {
+            ...step('b', 1),
+            path_step_prerequisites: [{ prerequisite_step_id: 'a' }],
+          } as PathStepRow,
+        ]),
+      ])
+    )
+
+    expect(path.prerequisites).toEqual([{ stepId: 'b', prerequisiteId: 'a' }])
+    expect(path.milestones[0].steps[1]).not.toHaveProperty('path_step_prerequisites')
+  })
+})
+
+describe('pathStepIds and completedStepIds', () => {
+  const path = toLearningPath(
+    pathRow([
+      milestone('second', 1, [step('c', 0, { completed_at: '2026-01-20T00:00:00.000Z' })]),
+      milestone('first', 0, [
+        step('b', 1),
+        step('a', 0, { completed_at: '2026-01-19T00:00:00.000Z' }),
+      ]),
+    ])
+  )
+
+  it('lists steps in path order', () => {
+    expect(pathStepIds(path)).toEqual(['a', 'b', 'c'])
+    expect(completedStepIds(path)).toEqual(['a', 'c'])
+  })
+})
+
+describe('nextPosition', () => {
+  it('appends after the highest position', () => {
+    expect(nextPosition([])).toBe(0)
+    expect(nextPosition([{ position: 0 }, { position: 7 }, { position: 3 }])).toBe(8)
+  })
+})
+
+describe('reorderPositions', () => {
+  const items = [
+    { id: 'a', position: 0 },
+    { id: 'b', position: 1 },
+    { id: 'c', position: 2 },
+  ]
+
+  it('returns only the items that move', () => {
+    expect(reorderPositions(items, ['a', 'c', 'b'])).toEqual([
+      { id: 'c', position: 1 },
+      { id: 'b', position: 2 },
+    ])
+    expect(reorderPositions(items, ['a', 'b', 'c'])).toEqual([])
+  })
+
+  it('closes gaps', () => {
+    expect(reorderPositions([{ id: 'a', position: 4 }], ['a'])).toEqual([{ id: 'a', position: 0 }])
+  })
+
+  it('rejects orders that are not exactly the items', () => {
+    expect(() => reorderPositions(items, ['a', 'b'])).toThrow('every item exactly once')
+    expect(() => reorderPositions(items, ['a', 'b', 'x'])).toThrow('every item exactly once')
+    expect(() => reorderPositions(items, ['a', 'a', 'b'])).toThrow('every item exactly once')
+  })
+})
+
+describe('pathTitleFor', () => {
+  it('uses the goals from AI input', () => {
+    const input_data = {
+      userBackground: 'Frontend developer with two years of React',
+      currentGoals: 'Become a full-stack developer',
+      experienceLevel: 'intermediate',
+    } as unknown as SuggestionInput
+
+    expect(pathTitleFor({ input_data })).toBe('Become a full-stack developer')
+  })
+
+  it('uses the first goal of older input, or a default', () => {
+    expect(pathTitleFor({ input_data: { goals: ['Learn Rust'] } })).toBe('Learn Rust')
+    expect(pathTitleFor({ input_data: { goals: [] } })).toBe('My learning path')
+  })
+})
+
+describe('buildPathFromSuggestions', () => {
+  it('turns each suggestion into a step, in order', () => {
+    const suggestions = [
+      {
+        ...toStoredSuggestion(
+          { title: 'Learn SQL', reason: 'Data', action: 'Do 10 queries' },
+          's1'
+        ),
+        type: 'course' as const,
+        duration: '4 weeks',
+      },
+      toStoredSuggestion(
+        { title: 'Learn RLS', reason: 'Security', action: 'Write a policy' },
+        's2'
+      ),
+    ]
+
+    const draft = buildPathFromSuggestions({ input_data: { goals: ['Backend'] } }, suggestions)
+
+    expect(draft.title).toBe('Backend')
+    expect(draft.milestones).toHaveLength(1)
+    expect(draft.milestones[0].title).toBe(PROMOTED_MILESTONE_TITLE)
+    expect(draft.milestones[0].steps).toEqual([
+      {
+        title: 'Learn SQL',
+        reason: 'Data',
+        action: 'Do 10 queries',
+        type: 'course',
+        url: null,
+        duration: '4 weeks',
+        source_suggestion_id: 's1',
+      },
+      expect.objectContaining({ title: 'Learn RLS', type: null, source_suggestion_id: 's2' }),
+    ])
+    expect(draft.prerequisites).toEqual([])
+  })
+
+  it('keeps prerequisites between suggestions of the set', () => {
+    const suggestions = [
+      toStoredSuggestion({ title: 'Learn SQL', reason: 'r', action: 'a' }, 's1'),
+      {
+        ...toStoredSuggestion({ title: 'Learn RLS', reason: 'r', action: 'a' }, 's2'),
+        prerequisites: ['s1', 'gone'],
+      },
+    ]
+
+    expect(
+      buildPathFromSuggestions({ input_data: { goals: [] } }, suggestions).prerequisites
+    ).toEqual([{ stepId: 's2', prerequisiteId: 's1' }])
+  })
+
+  it('uses the given title', () => {
+    expect(buildPathFromSuggestions({ input_data: { goals: [] } }, [], 'Custom').title).toBe(
+      'Custom'
+    )
+  })
+})
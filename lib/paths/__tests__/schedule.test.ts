@@ -0,0 +1,264 @@
+import {
+  addWeeks,
+  MAX_SCHEDULE_WEEKS,
+  MAX_STEP_HOURS,
+  MIN_WEEKLY_HOURS,
+  overdueSteps,
+  parseDuration,
+  parseTimeCommitment,
+  planLearningPath,
+  schedulePath,
+  weekStartOf,
+} from '@/lib/paths/schedule'
+import { suggestionsRequestSchema } from '@/lib/validation/schemas'
+import type { LearningPath, PathStep } from '@/types'
+
+/**
+ * Learning Path Schedule Tests
+ *
+ * Parsing durations and time commitments, fitting steps into weeks and
+ * replanning when the user falls behind.
+ */
+
+const step = (
+  id: string,
+  duration: string | null,
+  completed_at: string | null = null
+): PathStep => ({
+  created_at: '2026-01-19T00:00:00.000Z',
+  updated_at: '2026-01-19T00:00:00.000Z',
+  id,
+  milestone_id: 'milestone-1',
+  user_id: 'user-1',
+  position: 0,
+  title: id,
+  reason: null,
+  action: null,
+  type: null,
+  url: null,
+  duration,
+  source_suggestion_id: null,
+  template_step_key: null,
+  completed_at,
+})
+
+const path = (
+  steps: PathStep[],
+  prerequisites: LearningPath['prerequisites'] = [],
+  schedule_start: string | null = null
+) => ({
+  milestones: [
+    {
+      created_at: '2026-01-19T00:00:00.000Z',
+      updated_at: '2026-01-19T00:00:00.000Z',
+      id: 'milestone-1',
+      path_id: 'path-1',
+      user_id: 'user-1',
+      position: 0,
+      title: 'Milestone',
+      description: null,
+      steps,
+    },
+  ],
+  prerequisites,
+  schedule_start,
+})
+
+const weekPlan = (schedule: ReturnType<typeof schedulePath>) =>
+  schedule.weeks.map(week => week.steps.map(s => `${s.stepId}:${s.hours}`))
+
+describe('parseDuration', () => {
+  it('reads hours and minutes', () => {
+    expect(parseDuration('3 hours', 5)).toBe(3)
+    expect(parseDuration('1h 30m', 5)).toBe(1.5)
+    expect(parseDuration('45 minutes', 5)).toBe(0.75)
+  })
+
+  it('uses the upper bound of ranges', () => {
+    expect(parseDuration('2-4 hours', 5)).toBe(4)
+    expect(parseDuration('1 to 2 weeks', 5)).toBe(10)
+  })
+
+  it('converts calendar time at the weekly pace', () => {
+    expect(parseDuration('2 weeks', 6)).toBe(12)
+    expect(parseDuration('7 days', 6)).toBe(6)
+    expect(parseDuration('1 month', 6)).toBe(26)
+  })
+
+  it('returns null without a duration', () => {
+    expect(parseDuration(null, 5)).toBeNull()
+    expect(parseDuration('a while', 5)).toBeNull()
+    expect(parseDuration('0.001 hours', 5)).toBeNull()
+  })
+
+  it('caps huge durations', () => {
+    expect(parseDuration('99999999 hours', 5)).toBe(MAX_STEP_HOURS)
+  })
+})
+
+describe('parseTimeCommitment', () => {
+  it('reads hours per week', () => {
+    expect(parseTimeCommitment('5 hours a week')).toBe(5)
+    expect(parseTimeCommitment('3-4 hrs/week')).toBe(3)
+    expect(parseTimeCommitment('10')).toBe(10)
+  })
+
+  it('converts daily and monthly commitments', () => {
+    expect(parseTimeCommitment('30 minutes a day')).toBe(3.5)
+    expect(parseTimeCommitment('an hour every weekday')).toBe(5)
+    expect(parseTimeCommitment('13 hours per month')).toBe(3)
+  })
+
+  it('returns null without hours', () => {
+    expect(parseTimeCommitment('')).toBeNull()
+    expect(parseTimeCommitment('weekends only')).toBeNull()
+    expect(parseTimeCommitment('0.001')).toBeNull()
+    expect(parseTimeCommitment('1 min a month')).toBeNull()
+  })
+
+  it('raises tiny commitments to the minimum', () => {
+    expect(parseTimeCommitment('10 min a month')).toBe(MIN_WEEKLY_HOURS)
+    expect(parseTimeCommitment('0.1')).toBe(MIN_WEEKLY_HOURS)
+  })
+})
+
+describe('weeks', () => {
+  it('start on Monday', () => {
+    expect(weekStartOf(new Date('2026-01-21T15:00:00Z'))).toBe('2026-01-19')
+    expect(weekStartOf(new Date('2026-01-25T23:59:00Z'))).toBe('2026-01-19')
+    expect(weekStartOf(new Date('2026-01-26T00:00:00Z'))).toBe('2026-01-26')
+    expect(addWeeks('2026-01-26', 2)).toBe('2026-02-09')
+  })
+})
+
+describe('schedulePath', () => {
+  it('fills weeks up to the budget and carries long steps over', () => {
+    const schedule = schedulePath(
+      path([step('a', '3 hours'), step('b', '4 hours'), step('c', '1 hour')]),
+      5,
+      '2026-01-19'
+    )
+
+    expect(weekPlan(schedule)).toEqual([
+      ['a:3', 'b:2'],
+      ['b:2', 'c:1'],
+    ])
+    expect(schedule.weeks.map(w => w.weekStart)).toEqual(['2026-01-19', '2026-01-26'])
+    expect(schedule.weeks[0].steps[1].finishes).toBe(false)
+    expect(schedule.weeks[1].steps[0].finishes).toBe(true)
+  })
+
+  it('schedules prerequisites first', () => {
+    const schedule = schedulePath(
+      path([step('a', '5 hours'), step('b', '5 hours')], [{ stepId: 'a', prerequisiteId: 'b' }]),
+      5,
+      '2026-01-19'
+    )
+
+    expect(weekPlan(schedule)).toEqual([['b:5'], ['a:5']])
+  })
+
+  it('counts steps without a duration as the default', () => {
+    expect(weekPlan(schedulePath(path([step('a', null)]), 10, '2026-01-19'))).toEqual([['a:5']])
+  })
+
+  it('leaves out steps completed before the start', () => {
+    const schedule = schedulePath(
+      path([
+        step('a', '2 hours', '2026-01-10T00:00:00Z'),
+        step('b', '2 hours', '2026-01-20T00:00:00Z'),
+      ]),
+      5,
+      '2026-01-19'
+    )
+
+    expect(weekPlan(schedule)).toEqual([['b:2']])
+    expect(schedule.weeks[0].steps[0].completed).toBe(true)
+  })
+
+  it('raises tiny budgets to the minimum', () => {
+    const schedule = schedulePath(path([step('a', '1 hour')]), 0.001, '2026-01-19')
+
+    expect(schedule.weeklyHours).toBe(MIN_WEEKLY_HOURS)
+    expect(schedule.weeks).toHaveLength(4)
+  })
+
+  it('stops after the last week it plans', () => {
+    const schedule = schedulePath(
+      path([step('a', '99999999 hours'), step('b', '1 hour')]),
+      MIN_WEEKLY_HOURS,
+      '2026-01-19'
+    )
+
+    expect(schedule.weeks).toHaveLength(MAX_SCHEDULE_WEEKS)
+    expect(schedule.weeks.flatMap(w => w.steps).some(s => s.stepId === 'b')).toBe(false)
+  })
+})
+
+describe('planLearningPath', () => {
+  const steps = [step('a', '5 hours'), step('b', '5 hours'), step('c', '5 hours')]
+
+  it('starts this week without a schedule_start', () => {
+    const plan = planLearningPath(path(steps), 5, new Date('2026-01-21T00:00:00Z'))
+
+    expect(plan.rescheduled).toBe(true)
+    expect(plan.schedule.start).toBe('2026-01-19')
+  })
+
+  it('keeps the plan while on track', () => {
+    const onTrack = path(
+      [step('a', '5 hours', '2026-01-23T00:00:00Z'), ...steps.slice(1)],
+      [],
+      '2026-01-19'
+    )
+    const plan = planLearningPath(onTrack, 5, new Date('2026-01-28T00:00:00Z'))
+
+    expect(plan).toMatchObject({ rescheduled: false, behind: [] })
+    expect(plan.schedule.start).toBe('2026-01-19')
+  })
+
+  it('replans from this week when the user falls behind', () => {
+    const late = path(steps, [], '2026-01-19')
+    const today = new Date('2026-02-04T00:00:00Z')
+
+    expect(overdueSteps(schedulePath(late, 5, '2026-01-19'), today)).toEqual(['a', 'b'])
+
+    const plan = planLearningPath(late, 5, today)
+    expect(plan.rescheduled).toBe(true)
+    expect(plan.behind).toEqual(['a', 'b'])
+    expect(plan.schedule.start).toBe('2026-02-02')
+    expect(weekPlan(plan.schedule)).toEqual([['a:5'], ['b:5'], ['c:5']])
+  })
+})
+
+describe('time commitment from a suggestions request', () => {
+  const request = {
+    userBackground: 'Marketing for five years, some HTML and CSS',
+    experienceLevel: 'beginner',
+  }
+
+  it('is stored with the input and schedules paths made from the set', () => {
+    const validated = suggestionsRequestSchema.parse({
+      ...request,
+      timeCommitment: ' 10 hours a week ',
+    })
+    // The suggestion routes store the validated input as profile_suggestions.input_data
+    const inputData = { ...validated }
+
+    expect(inputData.timeCommitment).toBe('10 hours a week')
+
+    const weeklyHours = parseTimeCommitment(inputData.timeCommitment)
+    const steps = [step('a', '5 hours'), step('b', '5 hours'), step('c', '5 hours')]
+    const plan = planLearningPath(path(steps), weeklyHours!, new Date('2026-01-21T00:00:00Z'))
+
+    expect(weeklyHours).toBe(10)
+    expect(weekPlan(plan.schedule)).toEqual([['a:5', 'b:5'], ['c:5']])
+  })
+
+  it('is optional but must be readable', () => {
+    expect(suggestionsRequestSchema.parse(request).timeCommitment).toBeUndefined()
+    expect(
+      suggestionsRequestSchema.safeParse({ ...request, timeCommitment: 'often' }).success
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Prerequisite graph
+ *
+ * Steps of a learning path can depend on each other ("Learn SQL" before
+ * "Learn Supabase RLS"). Dependencies are edges from a step to one of its
+ * prerequisites, stored in path_step_prerequisites. They must form a DAG:
+ * validatePrerequisites() rejects cycles, and a trigger on the table rejects
+ * them again in case anything writes to it directly.
+ *
+ * AI suggestions can name prerequisites too. Those go through
+ * acyclicPrerequisites(), which keeps what it can and drops links that
+ * would close a cycle, since one bad link shouldn't fail a whole set.
+ *
+ * Step ids are plain strings, so the same helpers work for path steps and
+ * for suggestions within a set.
+ *
+ * Usage:
+ *   validatePrerequisites(stepIds, edges)                // throws PrerequisiteCycleError
+ *   const order = topologicalOrder(stepIds, edges)       // prerequisites first
+ *   const next = availableSteps(stepIds, edges, completedIds)
+ */
+
+export interface PrerequisiteEdge {
+  stepId: string
+  prerequisiteId: string
+}
+
+/**
+ * Thrown when prerequisites would form a cycle
+ * `cycle` lists the step ids in dependency order, starting and ending with
+ * the same step. API routes map this to 409 Conflict
+ */
+export class PrerequisiteCycleError extends Error {
+  cycle: string[]
+
+  constructor(cycle: string[]) {
+    super('These prerequisites would create a cycle')
+    this.name = 'PrerequisiteCycleError'
+    this.cycle = cycle
+  }
+}
+
+/**
+ * Prerequisite ids per step, in edge order
+ */
+function prerequisiteMap(stepIds: string[], edges: PrerequisiteEdge[]): Map<string, string[]> {
+  const map = new Map(stepIds.map(id => [id, [] as string[]]))
+  for (const { stepId, prerequisiteId } of edges) {
+    map.get(stepId)?.push(prerequisiteId)
+  }
+  return map
+}
+
+/**
+ * First cycle found, or null if the graph is acyclic
+ * The cycle starts and ends with the same step id
+ */
+export function findCycle(stepIds: string[], edges: PrerequisiteEdge[]): string[] | null {
+  const prerequisites = prerequisiteMap(stepIds, edges)
+  const done = new Set<string>()
+  const path: string[] = []
+  const onPath = new Set<string>()
+
+  const visit = (id: string): string[] | null => {
+    if (onPath.has(id)) return [...path.slice(path.indexOf(id)), id]
+    if (done.has(id)) return null
+
+    path.push(id)
+    onPath.add(id)
+    for (const prerequisiteId of prerequisites.get(id) ?? []) {
+      const cycle = visit(prerequisiteId)
+      if (cycle) return cycle
+    }
+    path.pop()
+    onPath.delete(id)
+    done.add(id)
+    return null
+  }
+
+  for (const id of stepIds) {
+    const cycle = visit(id)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * Check a complete set of edges between `stepIds`
+ * Throws an Error for edges to unknown steps or from a step to itself, and
+ * PrerequisiteCycleError for cycles
+ */
+export function validatePrerequisites(stepIds: string[], edges: PrerequisiteEdge[]): void {
+  const ids = new Set(stepIds)
+
+  for (const { stepId, prerequisiteId } of edges) {
+    if (!ids.has(stepId) || !ids.has(prerequisiteId)) {
+      throw new Error('Prerequisites must be steps of the same learning path')
+    }
+    if (stepId === prerequisiteId) {
+      throw new PrerequisiteCycleError([stepId, stepId])
+    }
+  }
+
+  const cycle = findCycle(stepIds, edges)
+  if (cycle) throw new PrerequisiteCycleError(cycle)
+}
+
+/**
+ * The edges that can be kept without a cycle, in order
+ * Edges to unknown steps, self-references, duplicates and any edge that
+ * would close a cycle with the edges kept before it are dropped
+ */
+export function acyclicPrerequisites(
+  stepIds: string[],
+  edges: PrerequisiteEdge[]
+): PrerequisiteEdge[] {
+  const ids = new Set(stepIds)
+  const kept: PrerequisiteEdge[] = []
+
+  for (const edge of edges) {
+    const valid =
+      ids.has(edge.stepId) &&
+      ids.has(edge.prerequisiteId) &&
+      edge.stepId !== edge.prerequisiteId &&
+      !kept.some(k => k.stepId === edge.stepId && k.prerequisiteId === edge.prerequisiteId)
+
+    if (valid && !findCycle(stepIds, [...kept, edge])) kept.push(edge)
+  }
+
+  return kept
+}
+
+/**
+ * Step ids with every step after its prerequisites
+ * Keeps the given order wherever the prerequisites allow it, so a path
+ * without prerequisites comes back unchanged. Throws PrerequisiteCycleError
+ */
+export function topologicalOrder(stepIds: string[], edges: PrerequisiteEdge[]): string[] {
+  const cycle = findCycle(stepIds, edges)
+  if (cycle) throw new PrerequisiteCycleError(cycle)
+
+  const prerequisites = prerequisiteMap(stepIds, edges)
+  const placed = new Set<string>()
+  const order: string[] = []
+
+  // Repeatedly take the first step in the original order whose prerequisites are placed
+  while (order.length < stepIds.length) {
+    const next = stepIds.find(
+      id =>
+        !placed.has(id) && prerequisites.get(id)!.every(p => placed.has(p) || !prerequisites.has(p))
+    )!
+    placed.add(next)
+    order.push(next)
+  }
+
+  return order
+}
+
+/**
+ * Steps that can be started now: not completed, with every prerequisite completed
+ * In the given order
+ */
+export function availableSteps(
+  stepIds: string[],
+  edges: PrerequisiteEdge[],
+  completedIds: Iterable<string>
+): string[] {
+  const completed = new Set(completedIds)
+  const prerequisites = prerequisiteMap(stepIds, edges)
+
+  return stepIds.filter(
+    id => !completed.has(id) && prerequisites.get(id)!.every(p => completed.has(p))
+  )
+}
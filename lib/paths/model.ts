@@ -0,0 +1,286 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { acyclicPrerequisites, type PrerequisiteEdge } from '@/lib/paths/graph'
+import { aiPromptSchema, suggestionTypeEnum, type Suggestion } from '@/lib/validation/schemas'
+import type {
+  LearningPath,
+  LearningPathInsert,
+  LearningPathRow,
+  PathMilestone,
+  PathMilestoneRow,
+  PathStep,
+  PathStepInput,
+  PathStepRow,
+  ProfileSuggestion,
+} from '@/types'
+
+/**
+ * Learning path model helpers
+ *
+ * A learning path is an ordered list of milestones, each with an ordered
+ * list of steps (learning_paths, path_milestones, path_steps). Order is the
+ * `position` column - gaps are allowed, so inserting at the end never has to
+ * touch other rows, and reordering only updates the rows that moved.
+ *
+ * A suggestion set is promoted into a path with one milestone, holding one
+ * step per suggestion in the set's order, and the suggestions' prerequisites
+ * between those steps. After that the path is independent of the set and
+ * can be edited freely.
+ *
+ * Usage:
+ *   const draft = buildPathFromSuggestions(set, suggestions)   // before insert
+ *   const pathId = await insertLearningPathDraft(supabase, user.id, draft)
+ *   const path = toLearningPath(row)                           // after a nested select
+ */
+
+/** Nested select for a whole path - rows come back in toLearningPath()'s input shape */
+export const LEARNING_PATH_SELECT =
+  '*, path_milestones(*, path_steps(*, path_step_prerequisites!path_step_prerequisites_step_id_fkey(prerequisite_step_id)))'
+
+type PathStepWithPrerequisitesRow = PathStepRow & {
+  path_step_prerequisites?: { prerequisite_step_id: string }[]
+}
+
+export type LearningPathWithChildrenRow = LearningPathRow & {
+  path_milestones?: (PathMilestoneRow & { path_steps?: PathStepWithPrerequisitesRow[] })[]
+}
+
+export interface LearningPathDraft {
+  title: string
+  description: string | null
+  milestones: { title: string; description: string | null; steps: PathStepDraft[] }[]
+  /** Between draftStepKey()s - mapped to step ids once the steps exist */
+  prerequisites: PrerequisiteEdge[]
+}
+
+export type PathStepDraft = PathStepInput & {
+  source_suggestion_id: string | null
+  template_step_key?: string | null
+}
+
+export const PROMOTED_MILESTONE_TITLE = 'Suggested next steps'
+const DEFAULT_PATH_TITLE = 'My learning path'
+const MAX_TITLE_LENGTH = 200
+
+const byPosition = (a: { position: number; created_at: string }, b: typeof a) =>
+  a.position - b.position || a.created_at.localeCompare(b.created_at)
+
+export function toPathStep(row: PathStepRow): PathStep {
+  const type = suggestionTypeEnum.safeParse(row.type)
+  return { ...row, type: type.success ? type.data : null }
+}
+
+/**
+ * Turn a nested select (LEARNING_PATH_SELECT) into a LearningPath with
+ * milestones and steps in order, and the prerequisites between its steps
+ */
+export function toLearningPath(row: LearningPathWithChildrenRow): LearningPath {
+  const { path_milestones: milestones = [], ...path } = row
+  const prerequisites: PrerequisiteEdge[] = []
+
+  return {
+    ...path,
+    milestones: [...milestones].sort(byPosition).map(
+      ({ path_steps: steps = [], ...milestone }): PathMilestone => ({
+        ...milestone,
+        steps: [...steps].sort(byPosition).map(({ path_step_prerequisites = [], ...step }) => {
+          for (const { prerequisite_step_id } of path_step_prerequisites) {
+            prerequisites.push({ stepId: step.id, prerequisiteId: prerequisite_step_id })
+          }
+          return toPathStep(step)
+        }),
+      })
+    ),
+    prerequisites,
+  }
+}
+
+/**
+ * Position for an item added after `items`
+ */
+export function nextPosition(items: { position: number }[]): number {
+  return items.reduce((max, item) => Math.max(max, item.position + 1), 0)
+}
+
+/**
+ * Position updates that put `items` in the order of `orderedIds`
+ * Only items whose position changes are returned. Throws if `orderedIds`
+ * isn't exactly the ids of `items`
+ */
+export function reorderPositions(
+  items: { id: string; position: number }[],
+  orderedIds: string[]
+): { id: string; position: number }[] {
+  const ids = new Set(items.map(item => item.id))
+  if (
+    orderedIds.length !== ids.size ||
+    new Set(orderedIds).size !== ids.size ||
+    !orderedIds.every(id => ids.has(id))
+  ) {
+    throw new Error('The new order must contain every item exactly once')
+  }
+
+  const current = new Map(items.map(item => [item.id, item.position]))
+  return orderedIds
+    .map((id, position) => ({ id, position }))
+    .filter(({ id, position }) => current.get(id) !== position)
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1).trimEnd()}…`
+}
+
+/**
+ * Title for a path promoted from a suggestion set: the user's goals, if known
+ */
+export function pathTitleFor(set: Pick<ProfileSuggestion, 'input_data'>): string {
+  // AI routes store aiPromptSchema input; older rows use SuggestionInput
+  const aiInput = aiPromptSchema.safeParse(set.input_data)
+  const goal = aiInput.success ? aiInput.data.currentGoals : set.input_data.goals?.[0]
+
+  return goal?.trim() ? truncate(goal.trim(), MAX_TITLE_LENGTH) : DEFAULT_PATH_TITLE
+}
+
+/**
+ * What a draft's prerequisites refer to a step by: the suggestion it was
+ * promoted from, else the template step it was forked from
+ */
+export function draftStepKey(
+  step: Pick<PathStepDraft, 'source_suggestion_id' | 'template_step_key'>
+): string | null {
+  return step.source_suggestion_id ?? step.template_step_key ?? null
+}
+
+export function suggestionToStep(suggestion: Suggestion): PathStepDraft {
+  return {
+    title: truncate(suggestion.title, MAX_TITLE_LENGTH),
+    reason: suggestion.reason,
+    action: suggestion.action,
+    type: suggestion.type ?? null,
+    url: suggestion.url ?? null,
+    duration: suggestion.duration ?? null,
+    source_suggestion_id: suggestion.id,
+  }
+}
+
+/**
+ * Draft of a path promoted from a suggestion set
+ * `suggestions` is the set's current suggestions - the latest refinement's,
+ * if it was refined
+ */
+export function buildPathFromSuggestions(
+  set: Pick<ProfileSuggestion, 'input_data'>,
+  suggestions: Suggestion[],
+  title: string = pathTitleFor(set)
+): LearningPathDraft {
+  return {
+    title,
+    description: null,
+    milestones: [
+      {
+        title: PROMOTED_MILESTONE_TITLE,
+        description: null,
+        steps: suggestions.map(suggestionToStep),
+      },
+    ],
+    // Stored sets are already acyclic - this drops links to suggestions that were replaced since
+    prerequisites: acyclicPrerequisites(
+      suggestions.map(s => s.id),
+      suggestions.flatMap(s =>
+        (s.prerequisites ?? []).map(prerequisiteId => ({ stepId: s.id, prerequisiteId }))
+      )
+    ),
+  }
+}
+
+/**
+ * Insert a draft as a new path of `userId`, with `fields` on the path row
+ * Milestones, steps and prerequisites are separate inserts - the path is
+ * removed if one fails, so a failed insert doesn't leave a half-filled path
+ * behind. Returns the id of the new path
+ */
+export async function insertLearningPathDraft(
+  supabase: SupabaseClient,
+  userId: string,
+  draft: LearningPathDraft,
+  fields: Omit<LearningPathInsert, 'user_id' | 'title' | 'description'> = {}
+): Promise<string> {
+  const { data: path, error } = await supabase
+    .from('learning_paths')
+    .insert({ ...fields, user_id: userId, title: draft.title, description: draft.description })
+    .select('id')
+    .single()
+
+  if (error) throw error
+
+  try {
+    const { data: milestones, error: milestonesError } = await supabase
+      .from('path_milestones')
+      .insert(
+        draft.milestones.map((milestone, position) => ({
+          path_id: path.id,
+          user_id: userId,
+          position,
+          title: milestone.title,
+          description: milestone.description,
+        }))
+      )
+      .select()
+
+    if (milestonesError) throw milestonesError
+
+    const { data: steps, error: stepsError } = await supabase
+      .from('path_steps')
+      .insert(
+        draft.milestones.flatMap((milestone, index) =>
+          milestone.steps.map((step, position) => ({
+            ...step,
+            milestone_id: (milestones as PathMilestoneRow[]).find(m => m.position === index)!.id,
+            user_id: userId,
+            position,
+          }))
+        )
+      )
+      .select('id, source_suggestion_id, template_step_key')
+
+    if (stepsError) throw stepsError
+
+    if (draft.prerequisites.length) {
+      const stepId = new Map(
+        (steps as Pick<PathStep, 'id' | 'source_suggestion_id' | 'template_step_key'>[]).map(s => [
+          draftStepKey(s),
+          s.id,
+        ])
+      )
+      const { error: prerequisitesError } = await supabase.from('path_step_prerequisites').insert(
+        draft.prerequisites.map(edge => ({
+          step_id: stepId.get(edge.stepId),
+          prerequisite_step_id: stepId.get(edge.prerequisiteId),
+          user_id: userId,
+        }))
+      )
+
+      if (prerequisitesError) throw prerequisitesError
+    }
+  } catch (error) {
+    await supabase.from('learning_paths').delete().eq('id', path.id)
+    throw error
+  }
+
+  return path.id
+}
+
+/**
+ * Ids of every step in a path, in path order (milestone, then step position)
+ */
+export function pathStepIds(path: Pick<LearningPath, 'milestones'>): string[] {
+  return path.milestones.flatMap(milestone => milestone.steps.map(step => step.id))
+}
+
+/**
+ * Ids of the steps of a path that are completed
+ */
+export function completedStepIds(path: Pick<LearningPath, 'milestones'>): string[] {
+  return path.milestones.flatMap(milestone =>
+    milestone.steps.filter(step => step.completed_at).map(step => step.id)
+  )
+}
@@ -0,0 +1,237 @@
+import { topologicalOrder } from '@/lib/paths/graph'
+import type { LearningPath } from '@/types'
+
+/**
+ * Learning path scheduler
+ *
+ * Fits the steps of a path into calendar weeks against a weekly hours
+ * budget. Steps are worked on one at a time, in prerequisite order
+ * (topologicalOrder() in lib/paths/graph.ts), so a step never starts before
+ * its prerequisites are done. A step longer than what's left of a week
+ * carries over into the next weeks.
+ *
+ * Hours come from free text: a step's `duration` ("2 hours", "3-4 weeks")
+ * and the user's time commitment ("5 hours a week", "1h a day"). Durations
+ * in days, weeks or months mean calendar time at the user's pace, so
+ * "2 weeks" is two weeks of budget. Unparseable durations count as
+ * DEFAULT_STEP_HOURS - the prompts ask for actions that fit in 5 hours.
+ *
+ * The plan isn't stored: it's recomputed from learning_paths.schedule_start
+ * and weekly_hours. Steps completed before schedule_start are left out.
+ * When a step is still open after the week it was planned to finish in,
+ * the user has fallen behind and planLearningPath() restarts the plan from
+ * the current week with what's left.
+ *
+ * Weeks start on Monday (UTC) and are identified by that date (YYYY-MM-DD).
+ *
+ * Budgets are at least MIN_WEEKLY_HOURS, a step counts for at most
+ * MAX_STEP_HOURS, and plans stop after MAX_SCHEDULE_WEEKS - steps that don't
+ * fit are left out - so odd input ("1 min a month", "99999999 hours") can't
+ * make a plan run forever.
+ *
+ * Usage:
+ *   const weeklyHours = parseTimeCommitment(input.timeCommitment) ?? DEFAULT_WEEKLY_HOURS
+ *   const { schedule, behind } = planLearningPath(path, weeklyHours, new Date())
+ */
+
+export const DEFAULT_WEEKLY_HOURS = 5
+export const DEFAULT_STEP_HOURS = 5
+export const MIN_WEEKLY_HOURS = 0.25
+export const MAX_WEEKLY_HOURS = 168
+export const MAX_STEP_HOURS = 1000
+export const MAX_SCHEDULE_WEEKS = 520
+
+const WEEKS_PER_MONTH = 52 / 12
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface ScheduledStep {
+  stepId: string
+  /** Hours of this step planned in this week */
+  hours: number
+  /** False if the step carries over into the next week */
+  finishes: boolean
+  completed: boolean
+}
+
+export interface ScheduleWeek {
+  weekStart: string
+  hours: number
+  steps: ScheduledStep[]
+}
+
+export interface PathSchedule {
+  start: string
+  weeklyHours: number
+  weeks: ScheduleWeek[]
+}
+
+export interface PathPlan {
+  schedule: PathSchedule
+  /** Open steps that were due before this week - the plan was restarted because of them */
+  behind: string[]
+  /** True if schedule.start changed and should be stored */
+  rescheduled: boolean
+}
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`
+const range = (number: string) => String.raw`${number}(?:\s*(?:-|–|to)\s*${number})?`
+
+const DURATION_PATTERN = new RegExp(
+  String.raw`${range(NUMBER)}\s*(minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|wks?|w|months?|mo)\b`,
+  'gi'
+)
+// "an hour a day" - only for commitments, where "5 hours a week" mustn't count "a week" as a week of work
+const COMMITMENT_PATTERN = new RegExp(
+  String.raw`\b${range(String.raw`(\d+(?:\.\d+)?|an?)`)}\s*(minutes?|mins?|m|hours?|hrs?|h)\b`,
+  'i'
+)
+
+const toNumber = (text: string) => (/^an?$/i.test(text) ? 1 : Number(text))
+
+const round = (hours: number) => Math.round(hours * 100) / 100
+
+/**
+ * Hours of work in a step duration, or null if it has none
+ * Ranges use the upper bound. Calendar units are converted at `weeklyHours`
+ */
+export function parseDuration(
+  duration: string | null | undefined,
+  weeklyHours: number
+): number | null {
+  if (!duration) return null
+
+  let hours = 0
+  for (const [, low, high, unit] of duration.matchAll(DURATION_PATTERN)) {
+    const amount = Number(high ?? low)
+    const u = unit.toLowerCase()
+
+    if (u.startsWith('mo')) hours += amount * WEEKS_PER_MONTH * weeklyHours
+    else if (u.startsWith('m')) hours += amount / 60
+    else if (u.startsWith('h')) hours += amount
+    else if (u.startsWith('d')) hours += (amount / 7) * weeklyHours
+    else hours += amount * weeklyHours
+  }
+
+  const rounded = round(Math.min(hours, MAX_STEP_HOURS))
+  return rounded > 0 ? rounded : null
+}
+
+/**
+ * Weekly hours in a time commitment ("5 hours a week", "30 min a day"), or null
+ * Ranges use the lower bound. A bare number is hours per week. Commitments
+ * under MIN_WEEKLY_HOURS count as MIN_WEEKLY_HOURS
+ */
+export function parseTimeCommitment(commitment: string | null | undefined): number | null {
+  if (!commitment) return null
+
+  const text = commitment.trim()
+  const bare = /^\d+(?:\.\d+)?$/.test(text)
+  const match = bare ? null : text.match(COMMITMENT_PATTERN)
+  if (!bare && !match) return null
+
+  let hours = bare ? Number(text) : toNumber(match![1])
+  if (match?.[3].toLowerCase().startsWith('m')) hours /= 60
+
+  if (/\bweekdays?\b/i.test(text)) hours *= 5
+  else if (/\b(day|days|daily|night|nights|nightly)\b/i.test(text)) hours *= 7
+  else if (/\b(month|months|monthly)\b/i.test(text)) hours /= WEEKS_PER_MONTH
+
+  const rounded = round(hours)
+  return rounded > 0 ? Math.min(Math.max(rounded, MIN_WEEKLY_HOURS), MAX_WEEKLY_HOURS) : null
+}
+
+/**
+ * Monday (UTC) of the week containing `date`, as YYYY-MM-DD
+ */
+export function weekStartOf(date: Date): string {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7
+  return new Date(date.getTime() - daysSinceMonday * DAY_MS).toISOString().slice(0, 10)
+}
+
+export function addWeeks(weekStart: string, weeks: number): string {
+  return new Date(Date.parse(weekStart) + weeks * 7 * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Plan of a path from the week `start`
+ * Includes the steps that are open or were completed since `start`
+ */
+export function schedulePath(
+  path: Pick<LearningPath, 'milestones' | 'prerequisites'>,
+  weeklyHours: number,
+  start: string
+): PathSchedule {
+  const budget = Math.min(Math.max(weeklyHours, MIN_WEEKLY_HOURS), MAX_WEEKLY_HOURS)
+  const steps = path.milestones
+    .flatMap(milestone => milestone.steps)
+    .filter(step => !step.completed_at || step.completed_at >= start)
+  const byId = new Map(steps.map(step => [step.id, step]))
+  const order = topologicalOrder(
+    steps.map(step => step.id),
+    path.prerequisites
+  )
+
+  const weeks: ScheduleWeek[] = []
+  let week: ScheduleWeek = { weekStart: start, hours: 0, steps: [] }
+
+  for (const id of order) {
+    const step = byId.get(id)!
+    let remaining = parseDuration(step.duration, budget) ?? DEFAULT_STEP_HOURS
+
+    while (remaining > 0) {
+      if (week.hours >= budget) {
+        weeks.push(week)
+        if (weeks.length >= MAX_SCHEDULE_WEEKS) return { start, weeklyHours: budget, weeks }
+        week = { weekStart: addWeeks(week.weekStart, 1), hours: 0, steps: [] }
+      }
+
+      const hours = round(Math.min(remaining, budget - week.hours))
+      remaining = round(remaining - hours)
+      week.hours = round(week.hours + hours)
+      week.steps.push({
+        stepId: id,
+        hours,
+        finishes: remaining <= 0,
+        completed: !!step.completed_at,
+      })
+    }
+  }
+
+  if (week.steps.length) weeks.push(week)
+  return { start, weeklyHours: budget, weeks }
+}
+
+/**
+ * Open steps planned to finish before the week of `today`
+ */
+export function overdueSteps(schedule: PathSchedule, today: Date): string[] {
+  const currentWeek = weekStartOf(today)
+
+  return schedule.weeks
+    .filter(week => week.weekStart < currentWeek)
+    .flatMap(week => week.steps)
+    .filter(step => step.finishes && !step.completed)
+    .map(step => step.stepId)
+}
+
+/**
+ * The current plan of a path, restarted from this week if the user fell
+ * behind or the path has no schedule_start yet
+ */
+export function planLearningPath(
+  path: Pick<LearningPath, 'milestones' | 'prerequisites' | 'schedule_start'>,
+  weeklyHours: number,
+  today: Date
+): PathPlan {
+  const currentWeek = weekStartOf(today)
+
+  if (path.schedule_start) {
+    const schedule = schedulePath(path, weeklyHours, path.schedule_start)
+    const behind = overdueSteps(schedule, today)
+    if (!behind.length) return { schedule, behind, rescheduled: false }
+
+    return { schedule: schedulePath(path, weeklyHours, currentWeek), behind, rescheduled: true }
+  }
+
+  return { schedule: schedulePath(path, weeklyHours, currentWeek), behind: [], rescheduled: true }
+}
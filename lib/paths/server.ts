@@ -0,0 +1,261 @@
+import { pathStepActivity, recordActivity } from '@/lib/activity/events'
+import {
+  insertLearningPathDraft,
+  LEARNING_PATH_SELECT,
+  toLearningPath,
+  toPathStep,
+  type LearningPathDraft,
+} from '@/lib/paths/model'
+import {
+  DEFAULT_WEEKLY_HOURS,
+  parseTimeCommitment,
+  planLearningPath,
+  type PathPlan,
+} from '@/lib/paths/schedule'
+import { templateContentFromPath, toPathTemplate } from '@/lib/paths/templates'
+import { createServiceClient } from '@/lib/supabase/client'
+import {
+  pathTemplateContentSchema,
+  type PathTemplateContent,
+  type PublishTemplateInput,
+} from '@/lib/validation/schemas'
+import type {
+  LearningPath,
+  LearningPathInsert,
+  LearningPathRow,
+  PathStep,
+  PathTemplate,
+  SuggestionInput,
+} from '@/types'
+
+/**
+ * Server-side learning path helpers, for API routes
+ * The browser-side equivalents are in queries.learningPaths
+ */
+
+/**
+ * Load a whole path of a user, or null if it doesn't exist or isn't theirs
+ */
+export async function loadLearningPath(
+  pathId: string,
+  userId: string
+): Promise<LearningPath | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('learning_paths')
+    .select(LEARNING_PATH_SELECT)
+    .eq('id', pathId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toLearningPath(data) : null
+}
+
+/**
+ * Load every path of a user with its children, most recently updated first
+ */
+export async function loadLearningPaths(userId: string): Promise<LearningPath[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('learning_paths')
+    .select(LEARNING_PATH_SELECT)
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []).map(toLearningPath)
+}
+
+/**
+ * Weekly hours budget of a path: its own weekly_hours, else the
+ * timeCommitment the user gave for the suggestion set it was promoted
+ * from, else DEFAULT_WEEKLY_HOURS
+ */
+export async function weeklyHoursFor(
+  path: Pick<LearningPathRow, 'weekly_hours' | 'source_profile_suggestion_id'>
+): Promise<number> {
+  if (path.weekly_hours) return path.weekly_hours
+  if (!path.source_profile_suggestion_id) return DEFAULT_WEEKLY_HOURS
+
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('profile_suggestions')
+    .select('input_data')
+    .eq('id', path.source_profile_suggestion_id)
+    .maybeSingle()
+
+  if (error) throw error
+  const input = data?.input_data as Partial<SuggestionInput> | undefined
+  return parseTimeCommitment(input?.timeCommitment) ?? DEFAULT_WEEKLY_HOURS
+}
+
+/**
+ * The current plan of a path (planLearningPath()), storing schedule_start
+ * when the plan (re)started
+ */
+export async function loadPathPlan(
+  path: LearningPath,
+  today: Date = new Date()
+): Promise<PathPlan> {
+  const plan = planLearningPath(path, await weeklyHoursFor(path), today)
+
+  if (plan.rescheduled) {
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('learning_paths')
+      .update({ schedule_start: plan.schedule.start })
+      .eq('id', path.id)
+
+    if (error) throw error
+  }
+
+  return plan
+}
+
+/**
+ * Complete or reopen a step of a loaded path, logging it (and any time
+ * spent) as activity. Completing a completed step keeps its completed_at
+ */
+export async function setStepCompleted(
+  userId: string,
+  step: PathStep,
+  completed: boolean,
+  minutesSpent: number = 0
+): Promise<PathStep> {
+  let updated = step
+  if (completed !== Boolean(step.completed_at)) {
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('path_steps')
+      .update({ completed_at: completed ? new Date().toISOString() : null })
+      .eq('id', step.id)
+      .select()
+      .single()
+
+    if (error) throw error
+    updated = toPathStep(data)
+  }
+
+  const event = pathStepActivity(userId, step, updated, minutesSpent)
+  if (event) await recordActivity(createServiceClient(), event)
+  return updated
+}
+
+/**
+ * Insert a draft as a new path of a user and load it
+ */
+export async function createLearningPath(
+  userId: string,
+  draft: LearningPathDraft,
+  fields?: Omit<LearningPathInsert, 'user_id' | 'title' | 'description'>
+): Promise<LearningPath> {
+  const pathId = await insertLearningPathDraft(createServiceClient(), userId, draft, fields)
+
+  const path = await loadLearningPath(pathId, userId)
+  if (!path) throw new Error('Learning path not found')
+  return path
+}
+
+export async function loadPathTemplate(id: string): Promise<PathTemplate | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('path_templates')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toPathTemplate(data) : null
+}
+
+/**
+ * Every template, featured first, then most recently updated
+ */
+export async function loadPathTemplates(): Promise<PathTemplate[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('path_templates')
+    .select('*')
+    .order('featured', { ascending: false })
+    .order('updated_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []).map(toPathTemplate)
+}
+
+/**
+ * Content of a published version of a template, or null if it wasn't kept
+ */
+export async function loadPathTemplateVersion(
+  templateId: string,
+  version: number
+): Promise<PathTemplateContent | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('path_template_versions')
+    .select('content')
+    .eq('template_id', templateId)
+    .eq('version', version)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? (pathTemplateContentSchema.safeParse(data.content).data ?? null) : null
+}
+
+/**
+ * Publish a path of its author as a template
+ * Publishing the same path again updates its template and bumps the
+ * version. `featured` is only applied when given - check it's an admin first
+ */
+export async function publishPathTemplate(
+  path: LearningPath,
+  { description, featured }: Omit<PublishTemplateInput, 'pathId'>
+): Promise<{ template: PathTemplate; created: boolean }> {
+  const supabase = createServiceClient()
+  const content = templateContentFromPath(path)
+
+  const { data: existing, error: existingError } = await supabase
+    .from('path_templates')
+    .select('id, version')
+    .eq('source_path_id', path.id)
+    .maybeSingle()
+
+  if (existingError) throw existingError
+
+  const { data, error } = existing
+    ? await supabase
+        .from('path_templates')
+        .update({
+          title: path.title,
+          content,
+          version: existing.version + 1,
+          ...(description !== undefined && { description }),
+          ...(featured !== undefined && { featured }),
+        })
+        .eq('id', existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from('path_templates')
+        .insert({
+          user_id: path.user_id,
+          source_path_id: path.id,
+          title: path.title,
+          description: description ?? path.description,
+          content,
+          featured: featured ?? false,
+        })
+        .select()
+        .single()
+
+  if (error) throw error
+
+  const template = toPathTemplate(data)
+  const { error: versionError } = await supabase
+    .from('path_template_versions')
+    .insert({ template_id: template.id, version: template.version, content })
+
+  if (versionError) throw versionError
+  return { template, created: !existing }
+}
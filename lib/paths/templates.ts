@@ -0,0 +1,291 @@
+import { findInjections, type InjectionMatch } from '@/lib/ai/safety'
+import { acyclicPrerequisites } from '@/lib/paths/graph'
+import { suggestionToStep, type LearningPathDraft, type PathStepDraft } from '@/lib/paths/model'
+import { normalizeTitle } from '@/lib/suggestions/model'
+import {
+  pathTemplateContentSchema,
+  type PathTemplateContent,
+  type PathTemplateStep,
+  type Suggestion,
+} from '@/lib/validation/schemas'
+import type { LearningPath, PathTemplate, PathTemplateRow } from '@/types'
+
+/**
+ * Learning path templates
+ *
+ * A template is a snapshot of a path's milestones, steps and prerequisites
+ * (path_templates.content) - content only, never the author's progress.
+ * Each step has a `key`: the id of the step it was published from, so the
+ * same step keeps its key when the path is published again.
+ *
+ * Forking a template creates an ordinary path of the user's own. The path
+ * keeps source_template_id and source_template_version, and each step keeps
+ * the key of the template step it came from (path_steps.template_step_key).
+ * Every published version is kept (path_template_versions), so
+ * compareWithTemplate() can show what changed upstream since the fork,
+ * without mixing in the user's own edits.
+ *
+ * A template can also seed a personalized path: the AI adapts its steps to
+ * the user's aiPromptSchema input (path-template-personalization prompt),
+ * and steps whose title it kept are matched back to their template step.
+ *
+ * Usage:
+ *   const content = templateContentFromPath(path)              // before publishing
+ *   const draft = buildPathFromTemplate(toPathTemplate(row))   // before insert
+ *   const changes = compareWithTemplate(fork, forkedVersion, template)
+ */
+
+/** Step fields compared between template versions */
+export const TEMPLATE_STEP_FIELDS = [
+  'title',
+  'reason',
+  'action',
+  'type',
+  'url',
+  'duration',
+] as const
+
+export type TemplateStepField = (typeof TEMPLATE_STEP_FIELDS)[number]
+
+export interface TemplateDiff {
+  /** Steps that are new in `after` */
+  added: { key: string; title: string; milestone: string }[]
+  /** Steps of `before` that are gone */
+  removed: { key: string; title: string }[]
+  /** Steps in both whose content changed */
+  changed: { key: string; title: string; fields: TemplateStepField[] }[]
+}
+
+/**
+ * Changes in a template since a path was forked from it - stepId is the
+ * fork's step for that template step (null if the user deleted it)
+ */
+export interface UpstreamChanges {
+  templateVersion: number
+  forkedVersion: number
+  added: TemplateDiff['added']
+  removed: (TemplateDiff['removed'][number] & { stepId: string | null })[]
+  changed: (TemplateDiff['changed'][number] & { stepId: string | null })[]
+}
+
+/**
+ * A template as the API returns it - without the author's user and path ids
+ */
+export type PublicPathTemplate = Omit<PathTemplate, 'user_id' | 'source_path_id'> & {
+  isOwn: boolean
+  stepCount: number
+}
+
+/**
+ * Typed template from a row - content that can't be read counts as empty
+ */
+export function toPathTemplate(row: PathTemplateRow): PathTemplate {
+  const content = pathTemplateContentSchema.safeParse(row.content)
+  return {
+    ...row,
+    content: content.success ? content.data : { milestones: [], prerequisites: [] },
+  }
+}
+
+export function templateStepCount(content: PathTemplateContent): number {
+  return content.milestones.reduce((count, milestone) => count + milestone.steps.length, 0)
+}
+
+export function toPublicTemplate(template: PathTemplate, userId: string): PublicPathTemplate {
+  return {
+    id: template.id,
+    title: template.title,
+    description: template.description,
+    content: template.content,
+    version: template.version,
+    featured: template.featured,
+    created_at: template.created_at,
+    updated_at: template.updated_at,
+    isOwn: template.user_id === userId,
+    stepCount: templateStepCount(template.content),
+  }
+}
+
+/**
+ * Prompt-injection phrases in the text of a template
+ * Templates are written by other users, so their text is checked before it
+ * goes into a personalization prompt
+ */
+export function findTemplateInjections(
+  template: Pick<PathTemplate, 'title' | 'description' | 'content'>
+): InjectionMatch[] {
+  return [
+    ...findInjections(template.title, 'title'),
+    ...findInjections(template.description ?? '', 'description'),
+    ...template.content.milestones.flatMap((milestone, m) => [
+      ...findInjections(`${milestone.title} ${milestone.description ?? ''}`, `milestones.${m}`),
+      ...milestone.steps.flatMap(step =>
+        findInjections(
+          [step.title, step.reason, step.action].filter(Boolean).join(' '),
+          `steps.${step.key}`
+        )
+      ),
+    ]),
+  ]
+}
+
+/**
+ * Snapshot of a path to publish as a template
+ */
+export function templateContentFromPath(
+  path: Pick<LearningPath, 'milestones' | 'prerequisites'>
+): PathTemplateContent {
+  return {
+    milestones: path.milestones.map(milestone => ({
+      title: milestone.title,
+      description: milestone.description,
+      steps: milestone.steps.map(step => ({
+        key: step.id,
+        title: step.title,
+        reason: step.reason,
+        action: step.action,
+        type: step.type,
+        url: step.url,
+        duration: step.duration,
+      })),
+    })),
+    prerequisites: path.prerequisites,
+  }
+}
+
+function templateStepToStep({ key, ...step }: PathTemplateStep): PathStepDraft {
+  return { ...step, source_suggestion_id: null, template_step_key: key }
+}
+
+/**
+ * Draft of a path forked from a template
+ */
+export function buildPathFromTemplate(
+  template: Pick<PathTemplate, 'title' | 'description' | 'content'>,
+  title: string = template.title
+): LearningPathDraft {
+  return {
+    title,
+    description: template.description,
+    milestones: template.content.milestones.map(milestone => ({
+      title: milestone.title,
+      description: milestone.description,
+      steps: milestone.steps.map(templateStepToStep),
+    })),
+    prerequisites: template.content.prerequisites,
+  }
+}
+
+/**
+ * Draft of a path from a template personalized by the AI
+ *
+ * `suggestions` is the personalized set, in order. A suggestion with the
+ * title of a template step becomes that step, in its template milestone,
+ * with the AI's reason and action and the template's type, url and
+ * duration. Other suggestions go into the same milestone as the suggestion
+ * before them. Milestones left empty are dropped.
+ */
+export function buildPathFromPersonalizedTemplate(
+  template: Pick<PathTemplate, 'title' | 'description' | 'content'>,
+  suggestions: Suggestion[],
+  title: string = template.title
+): LearningPathDraft {
+  const milestones = template.content.milestones.map(milestone => ({
+    title: milestone.title,
+    description: milestone.description,
+    steps: [] as PathStepDraft[],
+  }))
+  const templateSteps = new Map(
+    template.content.milestones.flatMap((milestone, index) =>
+      milestone.steps.map(step => [normalizeTitle(step.title), { step, index }] as const)
+    )
+  )
+
+  let current = 0
+  for (const suggestion of suggestions) {
+    const match = templateSteps.get(normalizeTitle(suggestion.title))
+    if (match) current = match.index
+
+    milestones[current]?.steps.push({
+      ...suggestionToStep(suggestion),
+      // The AI only writes titles, reasons and actions - keep the rest of the template step
+      ...(match && { type: match.step.type, url: match.step.url, duration: match.step.duration }),
+      template_step_key: match?.step.key ?? null,
+    })
+  }
+
+  return {
+    title,
+    description: template.description,
+    milestones: milestones.filter(milestone => milestone.steps.length),
+    prerequisites: acyclicPrerequisites(
+      suggestions.map(s => s.id),
+      suggestions.flatMap(s =>
+        (s.prerequisites ?? []).map(prerequisiteId => ({ stepId: s.id, prerequisiteId }))
+      )
+    ),
+  }
+}
+
+function stepsByKey(content: PathTemplateContent) {
+  return new Map(
+    content.milestones.flatMap(milestone =>
+      milestone.steps.map(step => [step.key, { step, milestone: milestone.title }] as const)
+    )
+  )
+}
+
+/**
+ * Step changes between two versions of a template
+ */
+export function diffTemplateContent(
+  before: PathTemplateContent,
+  after: PathTemplateContent
+): TemplateDiff {
+  const old = stepsByKey(before)
+  const current = stepsByKey(after)
+  const diff: TemplateDiff = { added: [], removed: [], changed: [] }
+
+  for (const [key, { step, milestone }] of current) {
+    const previous = old.get(key)?.step
+    if (!previous) {
+      diff.added.push({ key, title: step.title, milestone })
+      continue
+    }
+
+    const fields = TEMPLATE_STEP_FIELDS.filter(field => previous[field] !== step[field])
+    if (fields.length) diff.changed.push({ key, title: step.title, fields })
+  }
+
+  for (const [key, { step }] of old) {
+    if (!current.has(key)) diff.removed.push({ key, title: step.title })
+  }
+
+  return diff
+}
+
+/**
+ * What changed in a template since `path` was forked from it
+ * `forked` is the template's content at path.source_template_version. Only
+ * upstream changes are listed - the user's own edits to the fork aren't
+ */
+export function compareWithTemplate(
+  path: Pick<LearningPath, 'milestones'>,
+  forked: { version: number; content: PathTemplateContent },
+  template: Pick<PathTemplate, 'version' | 'content'>
+): UpstreamChanges {
+  const stepIdByKey = new Map<string, string>()
+  for (const step of path.milestones.flatMap(m => m.steps)) {
+    if (step.template_step_key) stepIdByKey.set(step.template_step_key, step.id)
+  }
+  const stepId = (key: string) => stepIdByKey.get(key) ?? null
+
+  const diff = diffTemplateContent(forked.content, template.content)
+  return {
+    templateVersion: template.version,
+    forkedVersion: forked.version,
+    added: diff.added,
+    removed: diff.removed.map(change => ({ ...change, stepId: stepId(change.key) })),
+    changed: diff.changed.map(change => ({ ...change, stepId: stepId(change.key) })),
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  DEFAULT_EASE_FACTOR,
+  gradeReview,
+  MIN_EASE_FACTOR,
+  nextReviewState,
+  ReviewNotDueError,
+  type ReviewState,
+} from '@/lib/reviews/sm2'
+
+/**
+ * SM-2 Tests
+ *
+ * Intervals, ease factor updates and rescheduling after a grade.
+ */
+
+const fresh: ReviewState = { repetitions: 0, interval_days: 0, ease_factor: DEFAULT_EASE_FACTOR }
+
+describe('nextReviewState', () => {
+  it('goes 1 day, 6 days, then grows by the ease factor', () => {
+    const first = nextReviewState(fresh, 4)
+    const second = nextReviewState(first, 4)
+    const third = nextReviewState(second, 4)
+
+    expect([first, second, third].map(s => s.interval_days)).toEqual([1, 6, 15])
+    expect(third.repetitions).toBe(3)
+  })
+
+  it('moves the ease factor with the grade', () => {
+    expect(nextReviewState(fresh, 5).ease_factor).toBe(2.6)
+    expect(nextReviewState(fresh, 4).ease_factor).toBe(2.5)
+    expect(nextReviewState(fresh, 3).ease_factor).toBe(2.36)
+  })
+
+  it('never drops the ease factor below the minimum', () => {
+    let state: ReviewState = { ...fresh, ease_factor: 1.35 }
+    for (let i = 0; i < 3; i++) state = nextReviewState(state, 3)
+
+    expect(state.ease_factor).toBe(MIN_EASE_FACTOR)
+  })
+
+  it('starts over after a failed recall, keeping the ease factor', () => {
+    const learned = { repetitions: 4, interval_days: 40, ease_factor: 2.2 }
+
+    expect(nextReviewState(learned, 2)).toEqual({
+      repetitions: 0,
+      interval_days: 1,
+      ease_factor: 2.2,
+    })
+  })
+})
+
+describe('gradeReview', () => {
+  const item = { ...fresh, due_on: '2026-01-25', review_count: 0 }
+  const now = new Date('2026-01-26T08:00:00.000Z')
+
+  it('reschedules from today', () => {
+    expect(
+      gradeReview({ ...item, repetitions: 1, interval_days: 1 }, 5, '2026-01-26', now)
+    ).toEqual({
+      repetitions: 2,
+      interval_days: 6,
+      ease_factor: 2.6,
+      due_on: '2026-02-01',
+      last_grade: 5,
+      last_reviewed_at: now.toISOString(),
+      review_count: 1,
+    })
+  })
+
+  it('refuses reviews that are not due yet', () => {
+    expect(() => gradeReview(item, 5, '2026-01-24', now)).toThrow(ReviewNotDueError)
+  })
+})
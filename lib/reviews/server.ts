@@ -0,0 +1,96 @@
+import { recordActivity, reviewActivity } from '@/lib/activity/events'
+import { gradeReview } from '@/lib/reviews/sm2'
+import { findSuggestion, upcastProfileSuggestion } from '@/lib/suggestions/model'
+import { createServiceClient } from '@/lib/supabase/client'
+import type { ProfileSuggestionRow, ReviewItem, ReviewItemRow } from '@/types'
+
+/**
+ * Server-side review queue helpers, for API routes
+ */
+
+export interface ReviewQueue {
+  /** Items due on or before today, most overdue first */
+  due: ReviewItem[]
+  /** Next day something comes due after today, or null if the queue is empty */
+  nextDueOn: string | null
+}
+
+/**
+ * Attach the suggestion each item reviews, dropping items whose suggestion
+ * can't be found any more
+ */
+function withSuggestions(
+  rows: (ReviewItemRow & { profile_suggestions: ProfileSuggestionRow | null })[]
+): ReviewItem[] {
+  return rows.flatMap(({ profile_suggestions, ...item }) => {
+    if (!profile_suggestions) return []
+
+    const suggestion = findSuggestion(
+      upcastProfileSuggestion(profile_suggestions),
+      item.suggestion_id
+    )
+    return suggestion ? [{ ...item, suggestion }] : []
+  })
+}
+
+/**
+ * The user's reviews due on `today` (YYYY-MM-DD in their time zone)
+ */
+export async function loadReviewQueue(userId: string, today: string): Promise<ReviewQueue> {
+  const supabase = createServiceClient()
+  const [due, next] = await Promise.all([
+    supabase
+      .from('review_items')
+      .select('*, profile_suggestions(*)')
+      .eq('user_id', userId)
+      .lte('due_on', today)
+      .order('due_on', { ascending: true })
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('review_items')
+      .select('due_on')
+      .eq('user_id', userId)
+      .gt('due_on', today)
+      .order('due_on', { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+  ])
+
+  if (due.error) throw due.error
+  if (next.error) throw next.error
+  return { due: withSuggestions(due.data || []), nextDueOn: next.data?.due_on ?? null }
+}
+
+/**
+ * Grade a review item of a user and reschedule it (gradeReview())
+ * Returns null if the item doesn't exist or isn't theirs
+ */
+export async function gradeReviewItem(
+  userId: string,
+  id: string,
+  grade: number,
+  today: string
+): Promise<ReviewItemRow | null> {
+  const supabase = createServiceClient()
+  const { data: item, error: fetchError } = await supabase
+    .from('review_items')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (fetchError) throw fetchError
+  if (!item) return null
+
+  const { data, error } = await supabase
+    .from('review_items')
+    .update(gradeReview(item, grade, today))
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await recordActivity(supabase, reviewActivity(userId, item, grade))
+  return data
+}
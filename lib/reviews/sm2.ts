@@ -0,0 +1,97 @@
+import { addDays } from '@/lib/activity/streaks'
+import type { ReviewItemRow, ReviewItemUpdate } from '@/types'
+
+/**
+ * Spaced-repetition scheduler (SM-2)
+ *
+ * Completed suggestions are queued for review (review_items, filled by a
+ * trigger on suggestion_progress) and come back on their due day. The user
+ * grades how well they remembered the topic from 0 to 5:
+ *
+ *   5 perfect, 4 after some thought, 3 with serious difficulty,
+ *   2 wrong but it felt familiar, 1 wrong but recognised once seen, 0 blackout
+ *
+ * A grade of 3 or more is a successful recall: the interval goes from 1 day
+ * to 6 days, then grows by the ease factor each time. Below 3 the item
+ * starts over at 1 day. The ease factor moves with every successful grade
+ * (up for 5, unchanged for 4, down for 3) and never drops below 1.3 -
+ * failed recalls leave it alone, as in the original algorithm.
+ *
+ * Days are YYYY-MM-DD in the user's time zone (see lib/activity/streaks.ts).
+ *
+ * Usage:
+ *   const changes = gradeReview(item, 4, localDay(new Date(), timeZone))
+ */
+
+export const MIN_GRADE = 0
+export const MAX_GRADE = 5
+export const PASSING_GRADE = 3
+export const DEFAULT_EASE_FACTOR = 2.5
+export const MIN_EASE_FACTOR = 1.3
+
+export type ReviewState = Pick<ReviewItemRow, 'repetitions' | 'interval_days' | 'ease_factor'>
+
+/**
+ * Thrown by gradeReview() for an item that isn't due yet
+ */
+export class ReviewNotDueError extends Error {
+  dueOn: string
+
+  constructor(dueOn: string) {
+    super(`This review isn't due until ${dueOn}`)
+    this.name = 'ReviewNotDueError'
+    this.dueOn = dueOn
+  }
+}
+
+/**
+ * SM-2 state after a review graded `grade` (0-5)
+ */
+export function nextReviewState(state: ReviewState, grade: number): ReviewState {
+  if (grade < PASSING_GRADE) {
+    return { repetitions: 0, interval_days: 1, ease_factor: state.ease_factor }
+  }
+
+  const repetitions = state.repetitions + 1
+  const interval_days =
+    repetitions === 1
+      ? 1
+      : repetitions === 2
+        ? 6
+        : Math.round(state.interval_days * state.ease_factor)
+
+  const miss = MAX_GRADE - grade
+  const ease_factor = Math.max(
+    MIN_EASE_FACTOR,
+    Math.round((state.ease_factor + 0.1 - miss * (0.08 + miss * 0.02)) * 100) / 100
+  )
+
+  return { repetitions, interval_days, ease_factor }
+}
+
+export function isDue(item: Pick<ReviewItemRow, 'due_on'>, today: string): boolean {
+  return item.due_on <= today
+}
+
+/**
+ * Columns to write when `item` is reviewed on `today` with `grade`
+ * Throws ReviewNotDueError if the item isn't due - reviewing early would
+ * count the recall against a shorter interval than planned
+ */
+export function gradeReview(
+  item: Pick<ReviewItemRow, 'due_on' | 'review_count'> & ReviewState,
+  grade: number,
+  today: string,
+  now: Date = new Date()
+): ReviewItemUpdate {
+  if (!isDue(item, today)) throw new ReviewNotDueError(item.due_on)
+
+  const state = nextReviewState(item, grade)
+  return {
+    ...state,
+    due_on: addDays(today, state.interval_days),
+    last_grade: grade,
+    last_reviewed_at: now.toISOString(),
+    review_count: item.review_count + 1,
+  }
+}
@@ -0,0 +1,173 @@
+import { toLearningPath, type LearningPathWithChildrenRow } from '@/lib/paths/model'
+import {
+  generateShareSlug,
+  isShareSlug,
+  shareStatus,
+  shareSummary,
+  SHARED_SUGGESTIONS_TITLE,
+  toSharedLearningPath,
+  toSharedSuggestionSet,
+} from '@/lib/sharing/share'
+import { toStoredSuggestion } from '@/lib/suggestions/model'
+import type { PathStepRow } from '@/types'
+
+/**
+ * Share Page Tests
+ *
+ * Slugs, what shared pages leave out, and link preview text.
+ */
+
+const timestamps = {
+  created_at: '2026-01-27T00:00:00.000Z',
+  updated_at: '2026-01-27T00:00:00.000Z',
+}
+
+const step = (id: string, position: number, overrides: Partial<PathStepRow> = {}): PathStepRow => ({
+  ...timestamps,
+  id,
+  milestone_id: 'milestone-1',
+  user_id: 'user-1',
+  position,
+  title: `Step ${id}`,
+  reason: 'You mentioned you work at Acme on billing',
+  action: `Do ${id}`,
+  type: null,
+  url: null,
+  duration: null,
+  source_suggestion_id: null,
+  template_step_key: null,
+  completed_at: null,
+  ...overrides,
+})
+
+const path = toLearningPath({
+  ...timestamps,
+  id: 'path-1',
+  user_id: 'user-1',
+  title: 'Become a backend developer',
+  description: null,
+  source_profile_suggestion_id: 'set-1',
+  source_template_id: null,
+  source_template_version: null,
+  team_assignment_id: null,
+  weekly_hours: 5,
+  schedule_start: '2026-01-26',
+  path_milestones: [
+    {
+      ...timestamps,
+      id: 'milestone-1',
+      path_id: 'path-1',
+      user_id: 'user-1',
+      position: 0,
+      title: 'Foundations',
+      description: null,
+      path_steps: [
+        step('a', 0, { completed_at: '2026-01-27T10:00:00.000Z' }),
+        step('b', 1),
+        step('c', 2),
+        step('d', 3),
+      ],
+    },
+  ],
+} as LearningPathWithChildrenRow)
+
+describe('share slugs', () => {
+  it('generates random slugs of the expected shape', () => {
+    const slug = generateShareSlug()
+
+    expect(isShareSlug(slug)).toBe(true)
+    expect(generateShareSlug()).not.toBe(slug)
+  })
+
+  it('rejects anything else', () => {
+    expect(isShareSlug('my-path')).toBe(false)
+    expect(isShareSlug(`${generateShareSlug()}/..`)).toBe(false)
+  })
+
+  it('builds the public URL from any URL of the site', () => {
+    expect(
+      shareStatus(
+        { slug: 'abcdefghijklmnopqrstuv', created_at: timestamps.created_at },
+        'https://example.com/api/paths/path-1/share'
+      )
+    ).toEqual({
+      url: 'https://example.com/share/abcdefghijklmnopqrstuv',
+      createdAt: timestamps.created_at,
+    })
+  })
+})
+
+describe('toSharedLearningPath', () => {
+  const shared = toSharedLearningPath(path)
+
+  it('keeps content and which steps are done', () => {
+    expect(shared.milestones[0].steps[0]).toEqual({
+      id: 'a',
+      title: 'Step a',
+      action: 'Do a',
+      type: null,
+      url: null,
+      duration: null,
+      completed: true,
+    })
+    expect(shared.milestones[0].steps[1].completed).toBe(false)
+  })
+
+  it('leaves out the owner, personal reasons and where the path came from', () => {
+    const json = JSON.stringify(shared)
+
+    expect(json).not.toContain('user-1')
+    expect(json).not.toContain('Acme')
+    expect(json).not.toContain('set-1')
+    expect(json).not.toContain('completed_at')
+  })
+})
+
+describe('toSharedSuggestionSet', () => {
+  it('keeps suggestions without their reasons', () => {
+    const suggestion = {
+      ...toStoredSuggestion({
+        title: 'SQL Basics',
+        reason: 'Your background in Excel at Acme',
+        action: 'Finish the SQLBolt lessons',
+      }),
+      url: 'https://sqlbolt.com',
+    }
+
+    const shared = toSharedSuggestionSet([suggestion], timestamps.created_at)
+
+    expect(shared.title).toBe(SHARED_SUGGESTIONS_TITLE)
+    expect(shared.suggestions).toEqual([
+      {
+        id: suggestion.id,
+        title: 'SQL Basics',
+        action: 'Finish the SQLBolt lessons',
+        type: null,
+        url: 'https://sqlbolt.com',
+        duration: null,
+        prerequisites: [],
+      },
+    ])
+    expect(JSON.stringify(shared)).not.toContain('Acme')
+  })
+})
+
+describe('shareSummary', () => {
+  it('counts the steps and names the first few', () => {
+    expect(shareSummary(toSharedLearningPath(path))).toEqual({
+      title: 'Become a backend developer',
+      description: '4 steps: Step a, Step b, Step c, …',
+    })
+  })
+
+  it('uses the path description when there is one', () => {
+    const shared = toSharedLearningPath({ ...path, description: 'From zero to an API' })
+    expect(shareSummary(shared).description).toBe('From zero to an API')
+  })
+
+  it('handles empty pages', () => {
+    expect(shareSummary(toSharedSuggestionSet([], timestamps.created_at)).description).toBe(
+      '0 suggestions'
+    )
+  })
+})
@@ -0,0 +1,133 @@
+import { LEARNING_PATH_SELECT, toLearningPath } from '@/lib/paths/model'
+import {
+  generateShareSlug,
+  isShareSlug,
+  toSharedLearningPath,
+  toSharedSuggestionSet,
+  type SharedPage,
+  type ShareKind,
+} from '@/lib/sharing/share'
+import { upcastProfileSuggestion } from '@/lib/suggestions/model'
+import { loadCurrentSuggestions } from '@/lib/suggestions/server'
+import { createServiceClient } from '@/lib/supabase/client'
+import type { ShareLinkRow } from '@/types'
+
+/**
+ * Share links (share_links), for API routes and the public share page
+ * Links are only written here - users can read their own, but not create them
+ */
+
+const COLUMNS = {
+  'learning-path': 'learning_path_id',
+  suggestions: 'profile_suggestion_id',
+} as const satisfies Record<ShareKind, keyof ShareLinkRow>
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * The link of a user's item, or null if it isn't shared
+ */
+export async function loadShareLink(
+  userId: string,
+  kind: ShareKind,
+  itemId: string
+): Promise<ShareLinkRow | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('share_links')
+    .select('*')
+    .eq(COLUMNS[kind], itemId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Share an item the user owns (check first). Sharing a shared item keeps its link
+ */
+export async function createShareLink(
+  userId: string,
+  kind: ShareKind,
+  itemId: string
+): Promise<{ link: ShareLinkRow; created: boolean }> {
+  const existing = await loadShareLink(userId, kind, itemId)
+  if (existing) return { link: existing, created: false }
+
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('share_links')
+    .insert({ slug: generateShareSlug(), user_id: userId, [COLUMNS[kind]]: itemId })
+    .select()
+    .single()
+
+  // Shared twice at once - the other request's link wins
+  if (error?.code === UNIQUE_VIOLATION) {
+    const link = await loadShareLink(userId, kind, itemId)
+    if (link) return { link, created: false }
+  }
+  if (error) throw error
+  return { link: data, created: true }
+}
+
+/**
+ * Unshare an item. Returns false if it wasn't shared
+ */
+export async function deleteShareLink(
+  userId: string,
+  kind: ShareKind,
+  itemId: string
+): Promise<boolean> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('share_links')
+    .delete()
+    .eq(COLUMNS[kind], itemId)
+    .eq('user_id', userId)
+    .select('slug')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+/**
+ * What the page at /share/<slug> shows, or null if nothing is shared there
+ */
+export async function loadSharedPage(slug: string): Promise<SharedPage | null> {
+  if (!isShareSlug(slug)) return null
+
+  const supabase = createServiceClient()
+  const { data: link, error } = await supabase
+    .from('share_links')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!link) return null
+
+  if (link.learning_path_id) {
+    const { data: path, error: pathError } = await supabase
+      .from('learning_paths')
+      .select(LEARNING_PATH_SELECT)
+      .eq('id', link.learning_path_id)
+      .maybeSingle()
+
+    if (pathError) throw pathError
+    return path ? toSharedLearningPath(toLearningPath(path)) : null
+  }
+
+  const { data: row, error: setError } = await supabase
+    .from('profile_suggestions')
+    .select('*')
+    .eq('id', link.profile_suggestion_id)
+    .maybeSingle()
+
+  if (setError) throw setError
+  if (!row) return null
+
+  const set = upcastProfileSuggestion(row)
+  return toSharedSuggestionSet(await loadCurrentSuggestions(set), set.created_at)
+}
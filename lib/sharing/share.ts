@@ -0,0 +1,172 @@
+import { randomBytes } from 'node:crypto'
+import { truncateAtWord } from '@/lib/ai/moderation'
+import { completedStepIds } from '@/lib/paths/model'
+import type { PrerequisiteEdge } from '@/lib/paths/graph'
+import type { Suggestion } from '@/lib/validation/schemas'
+import type { LearningPath, PathStep, ShareLinkRow } from '@/types'
+
+/**
+ * Public share pages
+ *
+ * A learning path or a suggestion set can be shared at /share/<slug>, a
+ * read-only page anyone with the link can open. The slug is random (128
+ * bits), so shared pages can't be found by guessing, and unsharing deletes
+ * it - sharing again gives a new one.
+ *
+ * Shared pages only show content, never who it belongs to or what they told
+ * us: no user ids, no aiPromptSchema input (userBackground, goals), no notes
+ * or ratings. Reasons are left out too - the AI writes them from the user's
+ * background ("You know React, so..."), so they can repeat it.
+ *
+ * Usage:
+ *   const slug = generateShareSlug()                  // store in share_links
+ *   const shared = toSharedLearningPath(path)        // what the page shows
+ *   const { title, description } = shareSummary(shared)
+ */
+
+export type ShareKind = 'learning-path' | 'suggestions'
+
+const SLUG_PATTERN = /^[A-Za-z0-9_-]{22}$/
+const DESCRIPTION_MAX_LENGTH = 200
+
+/** Content of a shared step or suggestion */
+export interface SharedItem {
+  id: string
+  title: string
+  action: string | null
+  type: Suggestion['type'] | null
+  url: string | null
+  duration: string | null
+}
+
+export interface SharedLearningPath {
+  kind: 'learning-path'
+  title: string
+  description: string | null
+  milestones: {
+    title: string
+    description: string | null
+    steps: (SharedItem & { completed: boolean })[]
+  }[]
+  prerequisites: PrerequisiteEdge[]
+}
+
+export interface SharedSuggestionSet {
+  kind: 'suggestions'
+  title: string
+  suggestions: (SharedItem & { prerequisites: string[] })[]
+  createdAt: string
+}
+
+export type SharedPage = SharedLearningPath | SharedSuggestionSet
+
+export const SHARED_SUGGESTIONS_TITLE = 'Learning suggestions'
+
+/** Whether an item is shared, as the share routes return it */
+export interface ShareStatus {
+  url: string
+  createdAt: string
+}
+
+export function generateShareSlug(): string {
+  return randomBytes(16).toString('base64url')
+}
+
+/**
+ * Whether `slug` has the shape of a generated slug - anything else can be
+ * rejected without a database lookup
+ */
+export function isShareSlug(slug: string): boolean {
+  return SLUG_PATTERN.test(slug)
+}
+
+/**
+ * Public URL of a link - `baseUrl` is any URL of this site (e.g. the request's)
+ */
+export function shareStatus(
+  link: Pick<ShareLinkRow, 'slug' | 'created_at'>,
+  baseUrl: string
+): ShareStatus {
+  return { url: new URL(`/share/${link.slug}`, baseUrl).toString(), createdAt: link.created_at }
+}
+
+function sharedStep(step: PathStep): SharedItem {
+  return {
+    id: step.id,
+    title: step.title,
+    action: step.action,
+    type: step.type,
+    url: step.url,
+    duration: step.duration,
+  }
+}
+
+export function toSharedLearningPath(
+  path: Pick<LearningPath, 'title' | 'description' | 'milestones' | 'prerequisites'>
+): SharedLearningPath {
+  const completed = new Set(completedStepIds(path))
+
+  return {
+    kind: 'learning-path',
+    title: path.title,
+    description: path.description,
+    milestones: path.milestones.map(milestone => ({
+      title: milestone.title,
+      description: milestone.description,
+      steps: milestone.steps.map(step => ({
+        ...sharedStep(step),
+        completed: completed.has(step.id),
+      })),
+    })),
+    prerequisites: path.prerequisites,
+  }
+}
+
+/**
+ * A suggestion set to share - `suggestions` is the set's current suggestions
+ * (the latest refinement's, if it was refined)
+ */
+export function toSharedSuggestionSet(
+  suggestions: Suggestion[],
+  createdAt: string
+): SharedSuggestionSet {
+  return {
+    kind: 'suggestions',
+    title: SHARED_SUGGESTIONS_TITLE,
+    suggestions: suggestions.map(suggestion => ({
+      id: suggestion.id,
+      title: suggestion.title,
+      action: suggestion.action,
+      type: suggestion.type ?? null,
+      url: suggestion.url ?? null,
+      duration: suggestion.duration ?? null,
+      prerequisites: suggestion.prerequisites ?? [],
+    })),
+    createdAt,
+  }
+}
+
+function sharedItems(page: SharedPage): SharedItem[] {
+  return page.kind === 'learning-path'
+    ? page.milestones.flatMap(milestone => milestone.steps)
+    : page.suggestions
+}
+
+/**
+ * Title and description for link previews (OpenGraph)
+ */
+export function shareSummary(page: SharedPage): { title: string; description: string } {
+  const items = sharedItems(page)
+  const noun = page.kind === 'learning-path' ? 'step' : 'suggestion'
+  const count = `${items.length} ${noun}${items.length === 1 ? '' : 's'}`
+  const highlights = items.slice(0, 3).map(item => item.title)
+
+  const description =
+    page.kind === 'learning-path' && page.description
+      ? page.description
+      : highlights.length
+        ? `${count}: ${highlights.join(', ')}${items.length > highlights.length ? ', …' : ''}`
+        : count
+
+  return { title: page.title, description: truncateAtWord(description, DESCRIPTION_MAX_LENGTH) }
+}
@@ -0,0 +1,42 @@
+/**
+ * Applies the upcast migration to the legacy fixture rows in an in-memory
+ * Postgres and prints the migrated rows as JSON
+ *
+ * Runs in its own process: PGlite loads parts of itself with dynamic imports,
+ * which Jest only supports behind --experimental-vm-modules
+ *
+ * Usage: node run-upcast-migration.mjs <migration.sql> <fixture.json>
+ */
+import { readFile } from 'node:fs/promises'
+import { PGlite } from '@electric-sql/pglite'
+
+const [migrationPath, fixturePath] = process.argv.slice(2)
+const rows = JSON.parse(await readFile(fixturePath, 'utf8'))
+
+const db = new PGlite()
+await db.exec(`
+  create table public.profile_suggestions (
+    id uuid primary key,
+    suggestions jsonb not null,
+    completed_suggestions jsonb,
+    created_at timestamp with time zone not null
+  );
+`)
+
+for (const row of rows) {
+  await db.query(
+    'insert into public.profile_suggestions (id, suggestions, completed_suggestions, created_at) values ($1, $2, $3, $4)',
+    [row.id, row.suggestions, row.completed_suggestions, row.created_at]
+  )
+}
+
+await db.exec(await readFile(migrationPath, 'utf8'))
+
+const { rows: migrated } = await db.query(`
+  select id, suggestions, completed_suggestions, to_jsonb(created_at) #>> '{}' as created_at
+  from public.profile_suggestions
+  order by id
+`)
+await db.close()
+
+process.stdout.write(JSON.stringify(migrated))
@@ -0,0 +1,104 @@
+import { buildSuggestionHistory, dedupeSuggestions } from '@/lib/suggestions/history'
+import type { ProfileSuggestion } from '@/types'
+
+/**
+ * Suggestion History Tests
+ */
+
+const suggestion = (id: string, title: string) => ({
+  schemaVersion: 2 as const,
+  id,
+  title,
+  reason: 'r',
+  action: 'a',
+})
+
+const set = (overrides: Partial<ProfileSuggestion>): ProfileSuggestion => ({
+  id: 'row-1',
+  user_id: 'user-1',
+  created_at: '2026-01-10T00:00:00.000Z',
+  suggestions_updated_at: '2026-01-10T00:00:00.000Z',
+  viewed_at: null,
+  prompt_version: null,
+  rating: null,
+  input_data: { goals: [] },
+  suggestions: [],
+  completed_suggestions: [],
+  replaced_suggestions: [],
+  ...overrides,
+})
+
+describe('buildSuggestionHistory', () => {
+  it('separates completed titles from earlier suggestions', () => {
+    const history = buildSuggestionHistory([
+      set({
+        suggestions: [suggestion('s3', 'Docker Basics'), suggestion('s4', 'SQL Joins')],
+      }),
+      set({
+        id: 'row-0',
+        suggestions: [suggestion('s1', 'SQL Joins'), suggestion('s2', 'Git Rebase')],
+        completed_suggestions: [
+          { suggestionId: 's1', completedAt: '2026-01-05T00:00:00.000Z' },
+          { suggestionId: 'unknown', completedAt: '2026-01-06T00:00:00.000Z' },
+        ],
+      }),
+    ])
+
+    expect(history.completed).toEqual([
+      { title: 'SQL Joins', completedAt: '2026-01-05T00:00:00.000Z' },
+    ])
+    expect(history.suggested).toEqual(['Docker Basics', 'Git Rebase'])
+  })
+
+  it('matches completions of suggestions that were replaced since', () => {
+    const history = buildSuggestionHistory([
+      set({
+        suggestions: [suggestion('s2', 'Git Rebase')],
+        replaced_suggestions: [
+          { suggestion: suggestion('s1', 'SQL Joins'), replacedBy: 's2', replacedAt: 't' },
+        ],
+        completed_suggestions: [{ suggestionId: 's1', completedAt: '2026-01-05T00:00:00.000Z' }],
+      }),
+    ])
+
+    expect(history.completed.map(c => c.title)).toEqual(['SQL Joins'])
+  })
+
+  it('matches completions of refined suggestions and uses the latest turn', () => {
+    const history = buildSuggestionHistory(
+      [
+        set({
+          suggestions: [suggestion('s1', 'SQL Joins')],
+          completed_suggestions: [{ suggestionId: 't1', completedAt: '2026-01-05T00:00:00.000Z' }],
+        }),
+      ],
+      [
+        { profile_suggestion_id: 'row-1', turn: 1, suggestions: [suggestion('t1', 'Go Basics')] },
+        { profile_suggestion_id: 'row-1', turn: 2, suggestions: [suggestion('t2', 'Rust Basics')] },
+      ]
+    )
+
+    expect(history.completed.map(c => c.title)).toEqual(['Go Basics'])
+    expect(history.suggested).toEqual(['Rust Basics'])
+  })
+})
+
+describe('dedupeSuggestions', () => {
+  it('drops repeated titles and titles the user completed', () => {
+    const history = {
+      completed: [{ title: 'SQL Joins', completedAt: '2026-01-05T00:00:00.000Z' }],
+      suggested: ['Git Rebase'],
+    }
+    const deduped = dedupeSuggestions(
+      [
+        { title: 'sql joins!' },
+        { title: 'Git Rebase' },
+        { title: 'Docker Basics' },
+        { title: 'docker basics' },
+      ],
+      history
+    )
+
+    expect(deduped.map(s => s.title)).toEqual(['Git Rebase', 'Docker Basics'])
+  })
+})
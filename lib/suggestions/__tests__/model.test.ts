@@ -0,0 +1,309 @@
+import {
+  currentSuggestions,
+  findSuggestion,
+  isKnownSuggestion,
+  linkPrerequisites,
+  normalizeTitle,
+  pickReplacement,
+  replaceSuggestion,
+  toStoredSuggestion,
+  upcastProfileSuggestion,
+  upcastSuggestion,
+} from '@/lib/suggestions/model'
+import { summarizeProgress, toSuggestionProgress } from '@/lib/suggestions/progress'
+import type { ProfileSuggestionRow } from '@/types'
+
+/**
+ * Suggestion Model Tests
+ *
+ * Rows written in any earlier suggestion shape must come back in the
+ * current (schemaVersion 2) shape with stable ids.
+ */
+
+const row = (overrides: Partial<ProfileSuggestionRow>): ProfileSuggestionRow => ({
+  id: 'row-1',
+  user_id: 'user-1',
+  created_at: '2026-01-10T00:00:00.000Z',
+  suggestions_updated_at: '2026-01-10T00:00:00.000Z',
+  viewed_at: null,
+  prompt_version: null,
+  replaced_suggestions: [],
+  rating: null,
+  input_data: {},
+  suggestions: [],
+  completed_suggestions: [],
+  ...overrides,
+})
+
+describe('upcastSuggestion', () => {
+  it('keeps current suggestions as they are', () => {
+    const current = { schemaVersion: 2, id: 's1', title: 'A', reason: 'r', action: 'a' }
+    expect(upcastSuggestion(current, 'fallback')).toEqual(current)
+  })
+
+  it('adds an id to AI output saved without one', () => {
+    expect(upcastSuggestion({ title: 'A', reason: 'r', action: 'a' }, 'row-1:0')).toEqual({
+      schemaVersion: 2,
+      id: 'row-1:0',
+      title: 'A',
+      reason: 'r',
+      action: 'a',
+    })
+  })
+
+  it('maps resource objects to reason and action', () => {
+    const upcast = upcastSuggestion(
+      {
+        id: 'r1',
+        title: 'Intro to SQL',
+        description: 'Learn joins',
+        type: 'course',
+        url: 'https://example.com/sql',
+        difficulty: 'beginner',
+        tags: ['sql', 42],
+      },
+      'fallback'
+    )
+
+    expect(upcast).toMatchObject({
+      id: 'r1',
+      reason: 'Learn joins',
+      action: 'Start here: https://example.com/sql',
+      type: 'course',
+      difficulty: 'beginner',
+      tags: ['sql'],
+    })
+  })
+
+  it('drops items without a title', () => {
+    expect(upcastSuggestion({ reason: 'r' }, 'fallback')).toBeNull()
+    expect(upcastSuggestion('just text', 'fallback')).toBeNull()
+  })
+})
+
+describe('upcastProfileSuggestion', () => {
+  it('matches completions stored as titles to suggestion ids', () => {
+    const upcast = upcastProfileSuggestion(
+      row({
+        suggestions: [
+          { title: 'A', reason: 'r', action: 'a' },
+          { title: 'B', reason: 'r', action: 'b' },
+        ],
+        completed_suggestions: ['b'],
+      })
+    )
+
+    expect(upcast.suggestions.map(s => s.id)).toEqual(['row-1:0', 'row-1:1'])
+    expect(upcast.completed_suggestions).toEqual([
+      { suggestionId: 'row-1:1', completedAt: '2026-01-10T00:00:00.000Z' },
+    ])
+  })
+
+  it('reads a whole AI response stored in the column', () => {
+    const upcast = upcastProfileSuggestion(
+      row({ suggestions: { suggestions: [{ title: 'A', reason: 'r', action: 'a' }] } })
+    )
+
+    expect(upcast.suggestions).toHaveLength(1)
+  })
+})
+
+describe('linkPrerequisites', () => {
+  const generated = [
+    { title: 'Learn SQL', reason: 'r', action: 'a', prerequisites: ['Learn RLS'] },
+    { title: 'Learn RLS', reason: 'r', action: 'a', prerequisites: ['learn sql', 'Unknown'] },
+    { title: 'Build an API', reason: 'r', action: 'a', prerequisites: ['Learn RLS!'] },
+  ]
+  const stored = generated.map((s, i) => toStoredSuggestion(s, `s${i + 1}`))
+
+  it('resolves titles to ids and drops unknown titles and cycles', () => {
+    const linked = linkPrerequisites(stored, generated)
+
+    // s1 -> s2 is kept first, so s2 -> s1 would close a cycle
+    expect(linked.map(s => s.prerequisites)).toEqual([['s2'], undefined, ['s2']])
+  })
+
+  it('leaves suggestions without prerequisites unchanged', () => {
+    expect(
+      linkPrerequisites(
+        stored,
+        generated.map(s => ({ ...s, prerequisites: undefined }))
+      )
+    ).toEqual(stored)
+  })
+})
+
+describe('normalizeTitle', () => {
+  it('ignores case and punctuation', () => {
+    expect(normalizeTitle('  Build a CLI tool! ')).toBe('build a cli tool')
+    expect(normalizeTitle('Learn Node.js.')).toBe('learn node.js')
+  })
+
+  it('keeps C++ and C# apart', () => {
+    expect(normalizeTitle('C++ Basics')).toBe('c++ basics')
+    expect(normalizeTitle('C# Basics')).toBe('c# basics')
+  })
+
+  it('keeps titles in other scripts', () => {
+    expect(normalizeTitle('学习 SQL 基础')).toBe('学习 sql 基础')
+    expect(normalizeTitle('学习 SQL 基础')).not.toBe(normalizeTitle('学习 Python 基础'))
+  })
+})
+
+describe('replacing a suggestion', () => {
+  const suggestion = (id: string, title: string) => ({
+    schemaVersion: 2 as const,
+    id,
+    title,
+    reason: 'r',
+    action: 'a',
+  })
+
+  it('skips candidates whose title is already in the set', () => {
+    const existing = [suggestion('s1', 'Build a CLI tool'), suggestion('s2', 'Learn SQL')]
+    const candidates = [
+      { title: 'build a CLI tool!', reason: 'r', action: 'a' },
+      { title: 'Write tests', reason: 'r', action: 'a' },
+    ]
+
+    expect(pickReplacement(candidates, existing)?.title).toBe('Write tests')
+    expect(pickReplacement(candidates.slice(0, 1), existing)).toBeUndefined()
+  })
+
+  it('swaps in place and keeps the old suggestion in the audit trail', () => {
+    const current = {
+      suggestions: [suggestion('s1', 'A'), suggestion('s2', 'B')],
+      replaced_suggestions: [],
+    }
+    const updated = replaceSuggestion(current, 's1', suggestion('s3', 'C'), {
+      feedback: 'Too basic',
+      replacedAt: '2026-01-16T00:00:00.000Z',
+    })
+
+    expect(updated?.suggestions.map(s => s.id)).toEqual(['s3', 's2'])
+    expect(updated?.replaced_suggestions).toEqual([
+      {
+        suggestion: current.suggestions[0],
+        replacedBy: 's3',
+        replacedAt: '2026-01-16T00:00:00.000Z',
+        feedback: 'Too basic',
+      },
+    ])
+    expect(replaceSuggestion(current, 'missing', suggestion('s3', 'C'))).toBeNull()
+  })
+
+  it('points prerequisites of the other suggestions at the replacement', () => {
+    const current = {
+      suggestions: [
+        suggestion('s1', 'A'),
+        { ...suggestion('s2', 'B'), prerequisites: ['s1'] },
+        { ...suggestion('s3', 'C'), prerequisites: ['s2'] },
+      ],
+      replaced_suggestions: [],
+    }
+    const updated = replaceSuggestion(current, 's1', suggestion('s4', 'D'))
+
+    expect(updated?.suggestions.map(s => s.prerequisites)).toEqual([undefined, ['s4'], ['s2']])
+    expect(updated?.replaced_suggestions[0].suggestion).toBe(current.suggestions[0])
+  })
+
+  it('still finds replaced suggestions by id', () => {
+    const updated = replaceSuggestion(
+      { suggestions: [suggestion('s1', 'A')], replaced_suggestions: [] },
+      's1',
+      suggestion('s2', 'B')
+    )!
+
+    expect(findSuggestion(updated, 's2')?.title).toBe('B')
+    expect(findSuggestion(updated, 's1')?.title).toBe('A')
+    expect(findSuggestion(updated, 'missing')).toBeUndefined()
+  })
+
+  it('upcasts the audit trail stored on a row', () => {
+    const upcast = upcastProfileSuggestion(
+      row({
+        replaced_suggestions: [
+          {
+            suggestion: { title: 'Old', reason: 'r', action: 'a' },
+            replacedBy: 's3',
+            replacedAt: 't',
+          },
+          { suggestion: {}, replacedBy: 's4', replacedAt: 't' },
+        ],
+      })
+    )
+
+    expect(upcast.replaced_suggestions).toEqual([
+      {
+        suggestion: expect.objectContaining({ id: 'row-1:replaced:0', title: 'Old' }),
+        replacedBy: 's3',
+        replacedAt: 't',
+      },
+    ])
+  })
+})
+
+describe('progress on a refined set', () => {
+  const suggestion = (id: string, title: string) => ({
+    schemaVersion: 2 as const,
+    id,
+    title,
+    reason: 'r',
+    action: 'a',
+  })
+  const set = {
+    suggestions: [suggestion('s1', 'A'), suggestion('s2', 'B')],
+    replaced_suggestions: [
+      { suggestion: suggestion('s0', 'Old'), replacedBy: 's1', replacedAt: 't' },
+    ],
+  }
+  const refinements = [
+    { turn: 2, suggestions: [suggestion('t2-1', 'C'), suggestion('t2-2', 'D')] },
+    { turn: 1, suggestions: [suggestion('t1-1', 'E')] },
+  ]
+
+  it("uses the latest turn's suggestions as the current ones", () => {
+    expect(currentSuggestions(set, refinements).map(s => s.id)).toEqual(['t2-1', 't2-2'])
+    expect(currentSuggestions(set, [])).toBe(set.suggestions)
+  })
+
+  it('accepts ids from the set, its replacements and every refinement turn', () => {
+    for (const id of ['s1', 's0', 't1-1', 't2-2']) {
+      expect(isKnownSuggestion(set, refinements, id)).toBe(true)
+    }
+    expect(isKnownSuggestion(set, refinements, 'missing')).toBe(false)
+    expect(isKnownSuggestion(set, [], 't2-1')).toBe(false)
+  })
+
+  it('summarizes the refined suggestions, not the original set', () => {
+    const progress = [
+      { suggestion_id: 's1', status: 'completed' },
+      { suggestion_id: 't2-1', status: 'completed' },
+    ].map(({ suggestion_id, status }, i) =>
+      toSuggestionProgress({
+        id: `progress-${i}`,
+        user_id: 'user-1',
+        profile_suggestion_id: 'row-1',
+        suggestion_id,
+        status,
+        started_at: null,
+        blocked_at: null,
+        completed_at: '2026-01-23T10:00:00.000Z',
+        skipped_at: null,
+        time_spent_minutes: 30,
+        notes: null,
+        created_at: '2026-01-23T10:00:00.000Z',
+        updated_at: '2026-01-23T10:00:00.000Z',
+      })
+    )
+    const current = currentSuggestions(set, refinements)
+    const ids = new Set(current.map(s => s.id))
+
+    expect(
+      summarizeProgress(
+        progress.filter(p => ids.has(p.suggestion_id)),
+        current.length
+      )
+    ).toMatchObject({ completed: 1, not_started: 1, minutesSpent: 30 })
+  })
+})
@@ -0,0 +1,139 @@
+import {
+  completedSuggestionsFrom,
+  progressTransition,
+  summarizeProgress,
+  toSuggestionProgress,
+} from '@/lib/suggestions/progress'
+import type { SuggestionProgress, SuggestionProgressRow } from '@/types'
+
+/**
+ * Suggestion Progress Tests
+ *
+ * Status transitions, their timestamps and summaries.
+ */
+
+const now = new Date('2026-01-23T10:00:00.000Z')
+const earlier = '2026-01-20T10:00:00.000Z'
+
+const row = (overrides: Partial<SuggestionProgressRow> = {}): SuggestionProgressRow => ({
+  id: 'progress-1',
+  user_id: 'user-1',
+  profile_suggestion_id: 'row-1',
+  suggestion_id: 's1',
+  status: 'not_started',
+  started_at: null,
+  blocked_at: null,
+  completed_at: null,
+  skipped_at: null,
+  time_spent_minutes: 0,
+  notes: null,
+  created_at: earlier,
+  updated_at: earlier,
+  ...overrides,
+})
+
+const progress = (overrides: Partial<SuggestionProgressRow> = {}): SuggestionProgress =>
+  toSuggestionProgress(row(overrides))
+
+describe('toSuggestionProgress', () => {
+  it('treats unknown statuses as not started', () => {
+    expect(progress({ status: 'paused' }).status).toBe('not_started')
+    expect(progress({ status: 'blocked' }).status).toBe('blocked')
+  })
+})
+
+describe('progressTransition', () => {
+  it('records the first start', () => {
+    expect(progressTransition(null, 'in_progress', now)).toEqual({
+      status: 'in_progress',
+      started_at: now.toISOString(),
+      blocked_at: null,
+      completed_at: null,
+      skipped_at: null,
+    })
+  })
+
+  it('keeps the first start when picked up again', () => {
+    const blocked = progress({ status: 'blocked', started_at: earlier, blocked_at: earlier })
+
+    expect(progressTransition(blocked, 'in_progress', now)).toEqual({
+      status: 'in_progress',
+      blocked_at: null,
+      completed_at: null,
+      skipped_at: null,
+    })
+  })
+
+  it('sets the timestamp of the new status and clears the old one', () => {
+    const blocked = progress({ status: 'blocked', started_at: earlier, blocked_at: earlier })
+
+    expect(progressTransition(blocked, 'completed', now)).toEqual({
+      status: 'completed',
+      blocked_at: null,
+      completed_at: now.toISOString(),
+      skipped_at: null,
+    })
+    expect(progressTransition(null, 'skipped', now)).toMatchObject({
+      skipped_at: now.toISOString(),
+    })
+  })
+
+  it('clears everything when reset to not started', () => {
+    const completed = progress({ status: 'completed', started_at: earlier, completed_at: earlier })
+
+    expect(progressTransition(completed, 'not_started', now)).toEqual({
+      status: 'not_started',
+      started_at: null,
+      blocked_at: null,
+      completed_at: null,
+      skipped_at: null,
+    })
+  })
+
+  it('changes nothing for the current status', () => {
+    expect(
+      progressTransition(progress({ status: 'completed', completed_at: earlier }), 'completed', now)
+    ).toEqual({})
+  })
+})
+
+describe('completedSuggestionsFrom', () => {
+  it('returns completions in the completed_suggestions shape', () => {
+    expect(
+      completedSuggestionsFrom([
+        progress({
+          suggestion_id: 's1',
+          status: 'completed',
+          completed_at: earlier,
+          notes: 'Done',
+        }),
+        progress({ suggestion_id: 's2', status: 'completed', completed_at: earlier }),
+        progress({ suggestion_id: 's3', status: 'in_progress', started_at: earlier }),
+      ])
+    ).toEqual([
+      { suggestionId: 's1', completedAt: earlier, notes: 'Done' },
+      { suggestionId: 's2', completedAt: earlier },
+    ])
+  })
+})
+
+describe('summarizeProgress', () => {
+  it('counts statuses and adds up time spent', () => {
+    const summary = summarizeProgress(
+      [
+        progress({ status: 'in_progress', time_spent_minutes: 30 }),
+        progress({ status: 'completed', completed_at: earlier, time_spent_minutes: 90 }),
+      ],
+      4
+    )
+
+    expect(summary).toEqual({
+      not_started: 2,
+      in_progress: 1,
+      blocked: 0,
+      completed: 1,
+      skipped: 0,
+      minutesSpent: 120,
+    })
+  })
+})
@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { execFile } from 'node:child_process'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import rows from '@/lib/suggestions/__fixtures__/legacy-suggestions.json'
+import { upcastCompletedSuggestions, upcastSuggestions } from '@/lib/suggestions/model'
+
+/**
+ * Upcast Migration Tests
+ *
+ * Runs the shared legacy fixture through the SQL migration (in an in-memory
+ * Postgres, see __fixtures__/run-upcast-migration.mjs) and through
+ * upcastSuggestions(): rows must read the same before and after the migration.
+ */
+
+const FIXTURES = path.join(__dirname, '../__fixtures__')
+const MIGRATION = path.join(
+  __dirname,
+  '../../../supabase/migrations/20260112120000_upcast_profile_suggestions.sql'
+)
+
+interface MigratedRow {
+  id: string
+  suggestions: unknown
+  completed_suggestions: unknown
+  created_at: string
+}
+
+describe('20260112120000_upcast_profile_suggestions.sql', () => {
+  let migrated: Map<string, MigratedRow>
+
+  beforeAll(async () => {
+    const { stdout } = await promisify(execFile)(
+      process.execPath,
+      [
+        path.join(FIXTURES, 'run-upcast-migration.mjs'),
+        MIGRATION,
+        path.join(FIXTURES, 'legacy-suggestions.json'),
+      ],
+      { timeout: 60000 }
+    )
+    const results: MigratedRow[] = JSON.parse(stdout)
+    migrated = new Map(results.map(result => [result.id, result]))
+  }, 60000)
+
+  it.each(rows.map(row => [row.id, row] as const))(
+    'upcasts row %s like upcastSuggestions()',
+    (id, row) => {
+      const result = migrated.get(id)!
+      const expected = upcastSuggestions(row.suggestions, id)
+
+      expect(result.suggestions).toEqual(expected)
+      expect(upcastSuggestions(result.suggestions, id)).toEqual(expected)
+      expect(
+        upcastCompletedSuggestions(result.completed_suggestions, expected, result.created_at)
+      ).toEqual(upcastCompletedSuggestions(row.completed_suggestions, expected, result.created_at))
+    }
+  )
+
+  it('trims text and keeps only http(s) links', () => {
+    const [first] = rows
+    const suggestions = upcastSuggestions(first.suggestions, first.id)
+
+    expect(suggestions.map(s => s.title)).toEqual([
+      'Learn SQL',
+      'Intro to Docker',
+      'XSS',
+      'FTP',
+      'Local',
+      'Kept',
+      'Versioned',
+      'Numbered',
+      'Unicode spaces',
+    ])
+    expect(suggestions[1]).toEqual({
+      schemaVersion: 2,
+      id: 'r1',
+      title: 'Intro to Docker',
+      reason: 'Containers for local development',
+      action: 'Start here: https://docs.docker.com/get-started/',
+      type: 'course',
+      url: 'https://docs.docker.com/get-started/',
+      duration: '4 weeks',
+      difficulty: 'beginner',
+      tags: ['docker'],
+    })
+    expect(suggestions.slice(2, 5).map(s => [s.url, s.action])).toEqual([
+      [undefined, 'Spend an hour on: XSS'],
+      [undefined, 'Spend an hour on: FTP'],
+      [undefined, 'Spend an hour on: Local'],
+    ])
+    expect(suggestions.slice(6, 8).map(s => s.id)).toEqual(['v1-item', `${first.id}:10`])
+  })
+})
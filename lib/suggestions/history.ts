@@ -0,0 +1,183 @@
+import {
+  currentSuggestions,
+  normalizeTitle,
+  upcastProfileSuggestion,
+  upcastSuggestionRefinement,
+} from '@/lib/suggestions/model'
+import { completedSuggestionsFrom, toSuggestionProgress } from '@/lib/suggestions/progress'
+import { createServiceClient } from '@/lib/supabase/client'
+import type { ProfileSuggestion, SuggestionRefinement } from '@/types'
+
+/**
+ * Suggestion history
+ *
+ * What a user has been suggested before and what they finished, taken from
+ * their earlier profile_suggestions rows and suggestion_progress. The
+ * profile-suggestions prompt (v3+) uses it so the model builds on completed
+ * suggestions instead of repeating them, and dedupeSuggestions() removes
+ * repeats the model still returns before a new set is stored.
+ *
+ * Usage:
+ *   const history = await loadSuggestionHistory(user.id)
+ *   const messages = template.build({ ...validated, history })
+ *   const suggestions = dedupeSuggestions(parsed.suggestions, history)
+ */
+
+export interface SuggestionHistory {
+  /** Suggestions the user finished, most recent first */
+  completed: { title: string; completedAt: string }[]
+  /** Titles suggested before that the user hasn't finished, most recent first */
+  suggested: string[]
+}
+
+export const EMPTY_SUGGESTION_HISTORY: SuggestionHistory = { completed: [], suggested: [] }
+
+// How many earlier sets are read, and how much of them reaches the prompt
+const HISTORY_SETS = 20
+const HISTORY_ITEMS = 20
+
+export function hasSuggestionHistory(history: SuggestionHistory): boolean {
+  return history.completed.length > 0 || history.suggested.length > 0
+}
+
+/**
+ * Build the history from a user's suggestion sets (most recent first,
+ * as returned by queries.profileSuggestions.getAll())
+ *
+ * Completions are matched to titles through the set they were recorded on,
+ * including suggestions that were replaced since and ones from its
+ * refinement turns. Completions that can't be matched (legacy rows) are
+ * skipped. A refined set counts with its latest turn's suggestions.
+ */
+export function buildSuggestionHistory(
+  sets: ProfileSuggestion[],
+  refinements: Pick<SuggestionRefinement, 'profile_suggestion_id' | 'turn' | 'suggestions'>[] = []
+): SuggestionHistory {
+  const completed: SuggestionHistory['completed'] = []
+  const completedTitles = new Set<string>()
+  const turnsOf = (set: ProfileSuggestion) =>
+    refinements.filter(r => r.profile_suggestion_id === set.id)
+
+  for (const set of sets) {
+    const titleById = new Map(
+      [
+        ...set.suggestions,
+        ...set.replaced_suggestions.map(r => r.suggestion),
+        ...turnsOf(set).flatMap(r => r.suggestions),
+      ].map(s => [s.id, s.title])
+    )
+
+    for (const completion of set.completed_suggestions ?? []) {
+      const title = titleById.get(completion.suggestionId)
+      if (!title || completedTitles.has(normalizeTitle(title))) continue
+
+      completedTitles.add(normalizeTitle(title))
+      completed.push({ title, completedAt: completion.completedAt })
+    }
+  }
+
+  const suggestedTitles = new Set<string>()
+  const suggested = sets
+    .flatMap(set => currentSuggestions(set, turnsOf(set)).map(s => s.title))
+    .filter(title => {
+      const key = normalizeTitle(title)
+      if (completedTitles.has(key) || suggestedTitles.has(key)) return false
+      suggestedTitles.add(key)
+      return true
+    })
+
+  return {
+    completed: completed
+      .sort((a, b) => b.completedAt.localeCompare(a.completedAt))
+      .slice(0, HISTORY_ITEMS),
+    suggested: suggested.slice(0, HISTORY_ITEMS),
+  }
+}
+
+/**
+ * Load a user's suggestion history (server-side, for API routes)
+ * Never throws - without history, generation still works, so a failure
+ * is logged and treated as no history
+ */
+export async function loadSuggestionHistory(userId: string): Promise<SuggestionHistory> {
+  try {
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('profile_suggestions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_SETS)
+
+    if (error) throw error
+    const sets = (data ?? []).map(upcastProfileSuggestion)
+
+    // Completions are read from suggestion_progress, not the deprecated completed_suggestions
+    const { data: progress, error: progressError } = await supabase
+      .from('suggestion_progress')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'completed')
+      .in(
+        'profile_suggestion_id',
+        sets.map(set => set.id)
+      )
+
+    if (progressError) throw progressError
+    const completed = (progress ?? []).map(toSuggestionProgress)
+
+    const { data: refinements, error: refinementsError } = await supabase
+      .from('suggestion_refinements')
+      .select('*')
+      .in(
+        'profile_suggestion_id',
+        sets.map(set => set.id)
+      )
+
+    if (refinementsError) throw refinementsError
+
+    return buildSuggestionHistory(
+      sets.map(set => ({
+        ...set,
+        completed_suggestions: completedSuggestionsFrom(
+          completed.filter(p => p.profile_suggestion_id === set.id)
+        ),
+      })),
+      (refinements ?? []).map(upcastSuggestionRefinement)
+    )
+  } catch (error) {
+    console.error('Failed to load suggestion history:', error)
+    return EMPTY_SUGGESTION_HISTORY
+  }
+}
+
+/**
+ * Returns a filter that accepts each title once, and never one the user
+ * already completed - for checking suggestions one at a time (streaming)
+ *
+ * Earlier suggestions the user hasn't finished may come back: they can
+ * still be the best next step, and the prompt already asks to avoid them.
+ */
+export function createSuggestionDeduper(
+  history: SuggestionHistory
+): (suggestion: { title: string }) => boolean {
+  const seen = new Set(history.completed.map(c => normalizeTitle(c.title)))
+
+  return suggestion => {
+    const key = normalizeTitle(suggestion.title)
+    if (seen.has(key)) return false
+
+    seen.add(key)
+    return true
+  }
+}
+
+/**
+ * Drop repeated titles and titles the user already completed
+ */
+export function dedupeSuggestions<T extends { title: string }>(
+  suggestions: T[],
+  history: SuggestionHistory
+): T[] {
+  return suggestions.filter(createSuggestionDeduper(history))
+}
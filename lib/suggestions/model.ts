@@ -0,0 +1,365 @@
+import { z } from 'zod'
+import { acyclicPrerequisites } from '@/lib/paths/graph'
+import {
+  experienceLevelEnum,
+  storedSuggestionSchema,
+  suggestionTypeEnum,
+  SUGGESTION_SCHEMA_VERSION,
+  type AiSuggestion,
+  type Suggestion,
+} from '@/lib/validation/schemas'
+import type {
+  CompletedSuggestion,
+  ProfileSuggestion,
+  ProfileSuggestionRow,
+  ReplacedSuggestion,
+  SuggestionRefinement,
+  SuggestionRefinementRow,
+} from '@/types'
+
+/**
+ * Suggestion model helpers
+ *
+ * profile_suggestions.suggestions has held several shapes over time
+ * (see storedSuggestionSchema for the version history). Everything that
+ * reads the column goes through upcastProfileSuggestion(), so the rest of
+ * the app only ever sees the current Suggestion shape.
+ *
+ * The SQL migration 20260112120000_upcast_profile_suggestions.sql applies
+ * the same rules to existing rows, including the same fallback ids.
+ *
+ * Usage:
+ *   const stored = toStoredSuggestions(parsed.suggestions)   // before insert
+ *   const typed = upcastProfileSuggestion(row)               // after select
+ */
+
+/**
+ * Turn freshly generated AI suggestions into stored suggestions
+ * Prerequisite titles become ids within the set (see linkPrerequisites)
+ */
+export function toStoredSuggestions(suggestions: AiSuggestion[]): Suggestion[] {
+  return linkPrerequisites(
+    suggestions.map(suggestion => toStoredSuggestion(suggestion)),
+    suggestions
+  )
+}
+
+export function toStoredSuggestion(
+  suggestion: AiSuggestion,
+  id: string = crypto.randomUUID()
+): Suggestion {
+  return {
+    schemaVersion: SUGGESTION_SCHEMA_VERSION,
+    id,
+    title: suggestion.title,
+    reason: suggestion.reason,
+    action: suggestion.action,
+  }
+}
+
+/**
+ * Resolve the prerequisite titles of generated suggestions to the ids of
+ * the stored suggestions made from them (`stored[i]` from `generated[i]`)
+ *
+ * Titles that don't match another suggestion in the set are dropped, and so
+ * are links that would close a cycle (acyclicPrerequisites() in
+ * lib/paths/graph.ts) - the rest of the set is kept either way
+ */
+export function linkPrerequisites(stored: Suggestion[], generated: AiSuggestion[]): Suggestion[] {
+  const idByTitle = new Map(stored.map(s => [normalizeTitle(s.title), s.id]))
+  const edges = acyclicPrerequisites(
+    stored.map(s => s.id),
+    stored.flatMap((s, i) =>
+      (generated[i]?.prerequisites ?? []).flatMap(title => {
+        const prerequisiteId = idByTitle.get(normalizeTitle(title))
+        return prerequisiteId ? [{ stepId: s.id, prerequisiteId }] : []
+      })
+    )
+  )
+
+  return stored.map(s => {
+    const prerequisites = edges.filter(e => e.stepId === s.id).map(e => e.prerequisiteId)
+    return prerequisites.length ? { ...s, prerequisites } : s
+  })
+}
+
+/**
+ * Id given to stored items that were saved without one
+ * Deterministic, so completions recorded against it stay valid
+ */
+export function legacySuggestionId(rowId: string, index: number): string {
+  return `${rowId}:${index}`
+}
+
+/**
+ * Trimmed string, or undefined for anything else and blank strings
+ * pg_temp.text_value() in the upcast migration does the same
+ */
+function text(value: unknown): string | undefined {
+  const trimmed = typeof value === 'string' ? value.trim() : ''
+  return trimmed || undefined
+}
+
+// An http(s) link with a real hostname - the same pattern as the upcast migration
+const LINK_PATTERN = /^https?:\/\/(?:[a-z0-9-]+\.)+[a-z]{2,}(?:[/?#][!-~]*)?$/i
+
+function link(value: unknown): string | undefined {
+  const url = text(value)
+  return url && LINK_PATTERN.test(url) ? z.url().safeParse(url).data : undefined
+}
+
+/**
+ * Upcast a single raw JSONB item of any known version to the current shape
+ * Returns null for items that can't be understood (e.g. no title)
+ *
+ * Items with the current schemaVersion are only validated. Anything else is
+ * rebuilt from its trimmed string fields; links that aren't http(s) are dropped
+ */
+export function upcastSuggestion(raw: unknown, fallbackId: string): Suggestion | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null
+  const item = raw as Record<string, unknown>
+
+  if (item.schemaVersion === SUGGESTION_SCHEMA_VERSION) {
+    return storedSuggestionSchema.safeParse(item).data ?? null
+  }
+
+  const title = text(item.title)
+  if (!title) return null
+
+  const url = link(item.url)
+
+  return (
+    storedSuggestionSchema.safeParse({
+      schemaVersion: SUGGESTION_SCHEMA_VERSION,
+      id: text(item.id) ?? fallbackId,
+      title,
+      // Version 1 only had a description - it served as the reason
+      reason: text(item.reason) ?? text(item.description) ?? title,
+      action: text(item.action) ?? (url ? `Start here: ${url}` : `Spend an hour on: ${title}`),
+      type: suggestionTypeEnum.safeParse(item.type).data,
+      url,
+      duration: text(item.duration),
+      difficulty: experienceLevelEnum.safeParse(item.difficulty).data,
+      tags: Array.isArray(item.tags) ? item.tags.filter(tag => typeof tag === 'string') : undefined,
+      provider: text(item.provider),
+    }).data ?? null
+  )
+}
+
+/**
+ * Upcast the suggestions column of a row
+ * Accepts an array of items, or a whole `{ suggestions: [...] }` AI response
+ */
+export function upcastSuggestions(raw: unknown, rowId: string): Suggestion[] {
+  const items =
+    raw && typeof raw === 'object' && !Array.isArray(raw) && 'suggestions' in raw
+      ? (raw as { suggestions: unknown }).suggestions
+      : raw
+
+  if (!Array.isArray(items)) return []
+
+  return items
+    .map((item, index) => upcastSuggestion(item, legacySuggestionId(rowId, index)))
+    .filter((suggestion): suggestion is Suggestion => suggestion !== null)
+}
+
+/**
+ * Upcast the completed_suggestions column of a row
+ * Older rows stored plain suggestion titles - they are matched to suggestion ids
+ */
+export function upcastCompletedSuggestions(
+  raw: unknown,
+  suggestions: Suggestion[],
+  fallbackCompletedAt: string
+): CompletedSuggestion[] {
+  if (!Array.isArray(raw)) return []
+
+  const idForTitle = (title: string) =>
+    suggestions.find(s => s.title.toLowerCase() === title.toLowerCase())?.id ?? title
+
+  return raw.flatMap((entry): CompletedSuggestion[] => {
+    if (typeof entry === 'string') {
+      return [{ suggestionId: idForTitle(entry), completedAt: fallbackCompletedAt }]
+    }
+
+    if (!entry || typeof entry !== 'object') return []
+    const item = entry as Record<string, unknown>
+
+    const suggestionId =
+      text(item.suggestionId) ??
+      (text(item.suggestionTitle) && idForTitle(text(item.suggestionTitle)!))
+    if (!suggestionId) return []
+
+    return [
+      {
+        suggestionId,
+        completedAt: text(item.completedAt) ?? fallbackCompletedAt,
+        ...(text(item.notes) && { notes: text(item.notes) }),
+      },
+    ]
+  })
+}
+
+/**
+ * Upcast the replaced_suggestions audit trail of a row
+ * Entries whose suggestion can't be understood are dropped
+ */
+export function upcastReplacedSuggestions(raw: unknown, rowId: string): ReplacedSuggestion[] {
+  if (!Array.isArray(raw)) return []
+
+  return raw.flatMap((entry, index): ReplacedSuggestion[] => {
+    if (!entry || typeof entry !== 'object') return []
+    const item = entry as Record<string, unknown>
+
+    const suggestion = upcastSuggestion(item.suggestion, `${rowId}:replaced:${index}`)
+    const replacedBy = text(item.replacedBy)
+    const replacedAt = text(item.replacedAt)
+    if (!suggestion || !replacedBy || !replacedAt) return []
+
+    return [
+      {
+        suggestion,
+        replacedBy,
+        replacedAt,
+        ...(text(item.feedback) && { feedback: text(item.feedback) }),
+      },
+    ]
+  })
+}
+
+/**
+ * Upcast a raw profile_suggestions row to the typed ProfileSuggestion
+ */
+export function upcastProfileSuggestion(row: ProfileSuggestionRow): ProfileSuggestion {
+  const suggestions = upcastSuggestions(row.suggestions, row.id)
+
+  return {
+    ...row,
+    suggestions,
+    input_data: row.input_data as unknown as ProfileSuggestion['input_data'],
+    completed_suggestions: upcastCompletedSuggestions(
+      row.completed_suggestions,
+      suggestions,
+      row.created_at
+    ),
+    replaced_suggestions: upcastReplacedSuggestions(row.replaced_suggestions, row.id),
+  }
+}
+
+/**
+ * Upcast a raw suggestion_refinements row (one conversation turn)
+ */
+export function upcastSuggestionRefinement(row: SuggestionRefinementRow): SuggestionRefinement {
+  return { ...row, suggestions: upcastSuggestions(row.suggestions, row.id) }
+}
+
+/**
+ * The suggestions the user sees: the latest refinement turn's, if the set
+ * was refined, otherwise the set's own
+ */
+export function currentSuggestions(
+  set: Pick<ProfileSuggestion, 'suggestions'>,
+  refinements: Pick<SuggestionRefinement, 'turn' | 'suggestions'>[]
+): Suggestion[] {
+  const latest = refinements.reduce<(typeof refinements)[number] | undefined>(
+    (latest, refinement) => (!latest || refinement.turn > latest.turn ? refinement : latest),
+    undefined
+  )
+  return latest ? latest.suggestions : set.suggestions
+}
+
+/**
+ * Whether progress can be recorded on `suggestionId`: it is in the set, was
+ * replaced in it, or came from one of the set's refinement turns
+ */
+export function isKnownSuggestion(
+  set: Pick<ProfileSuggestion, 'suggestions' | 'replaced_suggestions'>,
+  refinements: Pick<SuggestionRefinement, 'suggestions'>[],
+  suggestionId: string
+): boolean {
+  return (
+    findSuggestion(set, suggestionId) !== undefined ||
+    refinements.some(refinement => refinement.suggestions.some(s => s.id === suggestionId))
+  )
+}
+
+/**
+ * Title used to compare suggestions - ignores case and punctuation
+ * Letters of any script count, and so do + # . so "C++" and "C#" stay apart
+ * (same rules as normalizeText() in lib/ai/cache.ts)
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}+#.]+/gu, ' ')
+    .replace(/\.+(?=\s|$)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * First candidate whose title isn't already taken
+ * `existing` should include the suggestion being replaced
+ */
+export function pickReplacement(
+  candidates: AiSuggestion[],
+  existing: Pick<AiSuggestion, 'title'>[]
+): AiSuggestion | undefined {
+  const taken = new Set(existing.map(s => normalizeTitle(s.title)))
+  return candidates.find(candidate => !taken.has(normalizeTitle(candidate.title)))
+}
+
+/**
+ * Swap one suggestion for a replacement, keeping its position in the set
+ * The old suggestion moves to the replaced_suggestions audit trail, and
+ * suggestions that listed it as a prerequisite now point at the replacement
+ * Returns null when the suggestion is not in the set
+ */
+export function replaceSuggestion(
+  current: Pick<ProfileSuggestion, 'suggestions' | 'replaced_suggestions'>,
+  suggestionId: string,
+  replacement: Suggestion,
+  {
+    feedback,
+    replacedAt = new Date().toISOString(),
+  }: { feedback?: string; replacedAt?: string } = {}
+): Pick<ProfileSuggestion, 'suggestions' | 'replaced_suggestions'> | null {
+  const index = current.suggestions.findIndex(s => s.id === suggestionId)
+  if (index === -1) return null
+
+  return {
+    suggestions: current.suggestions.map((s, i) =>
+      i === index
+        ? replacement
+        : s.prerequisites?.includes(suggestionId)
+          ? {
+              ...s,
+              prerequisites: s.prerequisites.map(id => (id === suggestionId ? replacement.id : id)),
+            }
+          : s
+    ),
+    replaced_suggestions: [
+      ...current.replaced_suggestions,
+      {
+        suggestion: current.suggestions[index],
+        replacedBy: replacement.id,
+        replacedAt,
+        ...(feedback && { feedback }),
+      },
+    ],
+  }
+}
+
+/**
+ * A suggestion of the set by id, including ones that have since been replaced
+ */
+export function findSuggestion(
+  set: Pick<ProfileSuggestion, 'suggestions' | 'replaced_suggestions'>,
+  suggestionId: string
+): Suggestion | undefined {
+  return (
+    set.suggestions.find(s => s.id === suggestionId) ??
+    set.replaced_suggestions.find(r => r.suggestion.id === suggestionId)?.suggestion
+  )
+}
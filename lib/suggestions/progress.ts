@@ -0,0 +1,102 @@
+import { progressStatusEnum, type ProgressStatus } from '@/lib/validation/schemas'
+import type {
+  CompletedSuggestion,
+  SuggestionProgress,
+  SuggestionProgressRow,
+  SuggestionProgressUpdate,
+} from '@/types'
+
+/**
+ * Suggestion progress helpers
+ *
+ * suggestion_progress has one row per suggestion the user has touched, with
+ * a status: not_started, in_progress, blocked, completed or skipped. Any
+ * status can move to any other (a completed suggestion can be reopened, a
+ * skipped one picked up again). blocked_at, completed_at and skipped_at are
+ * set while the suggestion is in that status, so a completed row always has
+ * completed_at. started_at keeps the first start instead, and only going
+ * back to not_started clears it.
+ *
+ * Time spent is logged in minutes and only ever added up.
+ *
+ * Usage:
+ *   const changes = progressTransition(current, 'completed')   // before upsert
+ *   const progress = toSuggestionProgress(row)                 // after select
+ */
+
+const STATUS_TIMESTAMPS = {
+  blocked: 'blocked_at',
+  completed: 'completed_at',
+  skipped: 'skipped_at',
+} as const satisfies Partial<Record<ProgressStatus, keyof SuggestionProgressRow>>
+
+export function toSuggestionProgress(row: SuggestionProgressRow): SuggestionProgress {
+  const status = progressStatusEnum.safeParse(row.status)
+  return { ...row, status: status.success ? status.data : 'not_started' }
+}
+
+/**
+ * Columns to write when `current` (null if there's no row yet) moves to `status`
+ * Moving to the current status changes nothing
+ */
+export function progressTransition(
+  current: Pick<SuggestionProgress, 'status' | 'started_at'> | null,
+  status: ProgressStatus,
+  now: Date = new Date()
+): SuggestionProgressUpdate {
+  if (current?.status === status) return {}
+
+  const at = now.toISOString()
+  const changes: SuggestionProgressUpdate = {
+    status,
+    blocked_at: null,
+    completed_at: null,
+    skipped_at: null,
+  }
+
+  if (status === 'not_started') return { ...changes, started_at: null }
+  if (status === 'in_progress' && !current?.started_at) changes.started_at = at
+  if (status !== 'in_progress') changes[STATUS_TIMESTAMPS[status]] = at
+
+  return changes
+}
+
+/**
+ * Completed progress in the shape of profile_suggestions.completed_suggestions
+ * (for code that works with completions per set, like suggestion history)
+ */
+export function completedSuggestionsFrom(progress: SuggestionProgress[]): CompletedSuggestion[] {
+  return progress
+    .filter(p => p.status === 'completed' && p.completed_at)
+    .map(p => ({
+      suggestionId: p.suggestion_id,
+      completedAt: p.completed_at!,
+      ...(p.notes ? { notes: p.notes } : {}),
+    }))
+}
+
+/**
+ * Number of suggestions per status, and the total time spent
+ * Suggestions without a row count as not_started when `total` is given
+ */
+export function summarizeProgress(
+  progress: SuggestionProgress[],
+  total?: number
+): Record<ProgressStatus, number> & { minutesSpent: number } {
+  const summary = {
+    not_started: 0,
+    in_progress: 0,
+    blocked: 0,
+    completed: 0,
+    skipped: 0,
+    minutesSpent: 0,
+  }
+
+  for (const p of progress) {
+    summary[p.status] += 1
+    summary.minutesSpent += p.time_spent_minutes
+  }
+  if (total !== undefined) summary.not_started += Math.max(0, total - progress.length)
+
+  return summary
+}
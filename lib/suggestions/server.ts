@@ -0,0 +1,112 @@
+import { recordActivity, suggestionProgressActivity } from '@/lib/activity/events'
+import {
+  currentSuggestions,
+  upcastProfileSuggestion,
+  upcastSuggestionRefinement,
+} from '@/lib/suggestions/model'
+import { progressTransition, toSuggestionProgress } from '@/lib/suggestions/progress'
+import { createServiceClient } from '@/lib/supabase/client'
+import type { Suggestion, UpdateSuggestionProgressInput } from '@/lib/validation/schemas'
+import type { ProfileSuggestion, SuggestionProgress, SuggestionRefinement } from '@/types'
+
+/**
+ * Server-side suggestion helpers, for API routes
+ * The browser-side equivalents are in queries.profileSuggestions and queries.suggestionProgress
+ */
+
+/**
+ * Load a suggestion set of a user, or null if it doesn't exist or isn't theirs
+ */
+export async function loadProfileSuggestion(
+  id: string,
+  userId: string
+): Promise<ProfileSuggestion | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('profile_suggestions')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? upcastProfileSuggestion(data) : null
+}
+
+/**
+ * The refinement turns of a set, oldest first
+ */
+export async function loadSuggestionRefinements(
+  profileSuggestionId: string
+): Promise<SuggestionRefinement[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('suggestion_refinements')
+    .select('*')
+    .eq('profile_suggestion_id', profileSuggestionId)
+    .order('turn', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map(upcastSuggestionRefinement)
+}
+
+/**
+ * The set's current suggestions: the latest refinement's, if it was refined
+ */
+export async function loadCurrentSuggestions(set: ProfileSuggestion): Promise<Suggestion[]> {
+  return currentSuggestions(set, await loadSuggestionRefinements(set.id))
+}
+
+export async function loadSuggestionProgress(
+  profileSuggestionId: string,
+  userId: string
+): Promise<SuggestionProgress[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('suggestion_progress')
+    .select('*')
+    .eq('profile_suggestion_id', profileSuggestionId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+  return (data || []).map(toSuggestionProgress)
+}
+
+/**
+ * Same as queries.suggestionProgress.update(), for a set already loaded
+ * (check isKnownSuggestion() in lib/suggestions/model.ts first). Logs the
+ * change as activity
+ */
+export async function updateSuggestionProgress(
+  userId: string,
+  set: ProfileSuggestion,
+  { suggestionId, status, minutesSpent, notes }: UpdateSuggestionProgressInput
+): Promise<SuggestionProgress> {
+  const current =
+    (await loadSuggestionProgress(set.id, userId)).find(p => p.suggestion_id === suggestionId) ??
+    null
+
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('suggestion_progress')
+    .upsert(
+      {
+        user_id: userId,
+        profile_suggestion_id: set.id,
+        suggestion_id: suggestionId,
+        ...(status ? progressTransition(current, status) : {}),
+        time_spent_minutes: (current?.time_spent_minutes ?? 0) + (minutesSpent ?? 0),
+        ...(notes !== undefined ? { notes } : {}),
+      },
+      { onConflict: 'profile_suggestion_id,suggestion_id' }
+    )
+    .select()
+    .single()
+
+  if (error) throw error
+
+  const progress = toSuggestionProgress(data)
+  const event = suggestionProgressActivity(userId, current, progress, minutesSpent)
+  if (event) await recordActivity(supabase, event)
+  return progress
+}
@@ -1,6 +1,49 @@
-import { CompletedSuggestion, ProfileSuggestion, Suggestion, SuggestionInput } from '@/types'
+import {
+  pathStepActivity,
+  recordActivity,
+  suggestionProgressActivity,
+  suggestionViewedActivity,
+} from '@/lib/activity/events'
+import {
+  buildPathFromSuggestions,
+  insertLearningPathDraft,
+  LEARNING_PATH_SELECT,
+  nextPosition,
+  reorderPositions,
+  toLearningPath,
+  toPathStep,
+} from '@/lib/paths/model'
+import {
+  currentSuggestions,
+  isKnownSuggestion,
+  upcastProfileSuggestion,
+  upcastSuggestionRefinement,
+} from '@/lib/suggestions/model'
+import {
+  progressTransition,
+  summarizeProgress,
+  toSuggestionProgress,
+} from '@/lib/suggestions/progress'
+import {
+  updateSuggestionProgressSchema,
+  validate,
+  type ProgressStatus,
+  type UpdateSuggestionProgressInput,
+} from '@/lib/validation/schemas'
+import {
+  LearningPath,
+  LearningPathRow,
+  PathMilestoneRow,
+  PathStep,
+  PathStepInput,
+  ProfileSuggestion,
+  Suggestion,
+  SuggestionInput,
+  SuggestionProgress,
+  SuggestionRefinement,
+} from '@/types'
 import { createBrowserClient } from '@supabase/ssr'
-import { createClient as sbCreateClient } from '@supabase/supabase-js'
+import { createClient as sbCreateClient, type User } from '@supabase/supabase-js'
 
 /**
  * Client-side Supabase client for use in React components (Client Components)
@@ -71,6 +114,48 @@ export async function getCurrentUser() {
   return user
 }
 
+/**
+ * Server-side helper to get the user making an API request
+ * Reads the Supabase access token from the Authorization header
+ * Returns null if the token is missing or invalid
+ *
+ * Usage in API routes:
+ *   const user = await getUserFromRequest(req)
+ *   if (!user) {
+ *     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+ *   }
+ */
+export async function getUserFromRequest(req: Request) {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) return null
+
+  const supabase = createServiceClient()
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token)
+
+  if (error || !user) {
+    return null
+  }
+
+  return user
+}
+
+/**
+ * Whether a user is an admin
+ * The role lives in app_metadata, which only the service role can change -
+ * set it with auth.admin.updateUserById(id, { app_metadata: { role: 'admin' } })
+ *
+ * Usage in API routes:
+ *   if (!isAdmin(user)) {
+ *     return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+ *   }
+ */
+export function isAdmin(user: Pick<User, 'app_metadata'>): boolean {
+  return user.app_metadata?.role === 'admin'
+}
+
 /**
  * Type-safe query helpers
  * These provide autocomplete and type checking for common queries
@@ -140,6 +225,10 @@ export const queries = {
     },
   },
 
+  /**
+   * Every read goes through upcastProfileSuggestion(), so rows written in
+   * older suggestion shapes come back in the current Suggestion shape
+   */
   profileSuggestions: {
     /**
      * Get latest suggestions for current user
@@ -161,7 +250,7 @@ export const queries = {
         // PGRST116 = no rows returned (not an error)
         throw error
       }
-      return data as ProfileSuggestion | null
+      return data ? upcastProfileSuggestion(data) : null
     },
 
     /**
@@ -182,7 +271,26 @@ export const queries = {
       if (error && error.code !== 'PGRST116') {
         throw error
       }
-      return data as ProfileSuggestion | null
+      return data ? upcastProfileSuggestion(data) : null
+    },
+
+    /**
+     * Get the refinement turns of a suggestion set, oldest first
+     */
+    getRefinements: async (id: string): Promise<SuggestionRefinement[]> => {
+      const user = await getCurrentUser()
+      if (!user) return []
+
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('suggestion_refinements')
+        .select('*')
+        .eq('profile_suggestion_id', id)
+        .eq('user_id', user.id)
+        .order('turn', { ascending: true })
+
+      if (error) throw error
+      return (data || []).map(upcastSuggestionRefinement)
     },
 
     /**
@@ -200,11 +308,12 @@ export const queries = {
         .order('created_at', { ascending: false })
 
       if (error) throw error
-      return (data as ProfileSuggestion[]) || []
+      return (data || []).map(upcastProfileSuggestion)
     },
 
     /**
      * Create new suggestions
+     * Use toStoredSuggestions() to turn AI output into stored suggestions
      */
     create: async (
       suggestions: Suggestion[],
@@ -225,7 +334,7 @@ export const queries = {
         .single()
 
       if (error) throw error
-      return data as ProfileSuggestion
+      return upcastProfileSuggestion(data)
     },
 
     /**
@@ -236,7 +345,6 @@ export const queries = {
       updates: {
         suggestions?: Suggestion[]
         rating?: number
-        completed_suggestions?: CompletedSuggestion[]
       }
     ): Promise<ProfileSuggestion> => {
       const user = await getCurrentUser()
@@ -252,7 +360,7 @@ export const queries = {
         .single()
 
       if (error) throw error
-      return data as ProfileSuggestion
+      return upcastProfileSuggestion(data)
     },
 
     /**
@@ -293,69 +401,519 @@ export const queries = {
         .single()
 
       if (error) throw error
-      return data as ProfileSuggestion
+      return upcastProfileSuggestion(data)
     },
 
     /**
      * Mark a suggestion as complete
+     * Shortcut for queries.suggestionProgress.update() - completing it again keeps the first completion
      */
     markComplete: async (
       id: string,
       suggestionId: string,
       notes?: string
-    ): Promise<ProfileSuggestion> => {
+    ): Promise<SuggestionProgress> => {
+      return queries.suggestionProgress.update(id, { suggestionId, status: 'completed', notes })
+    },
+
+    /**
+     * Mark suggestions as viewed
+     */
+    markViewed: async (id: string): Promise<ProfileSuggestion> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('profile_suggestions')
+        .update({ viewed_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single()
+
+      if (error) throw error
+      await recordActivity(supabase, suggestionViewedActivity(user.id, id))
+      return upcastProfileSuggestion(data)
+    },
+  },
+
+  /**
+   * Progress on the suggestions of a set (see lib/suggestions/progress.ts)
+   * Suggestions without a row haven't been started
+   */
+  suggestionProgress: {
+    /**
+     * Get the progress rows of a suggestion set
+     */
+    getForSet: async (profileSuggestionId: string): Promise<SuggestionProgress[]> => {
+      const user = await getCurrentUser()
+      if (!user) return []
+
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('suggestion_progress')
+        .select('*')
+        .eq('profile_suggestion_id', profileSuggestionId)
+        .eq('user_id', user.id)
+
+      if (error) throw error
+      return (data || []).map(toSuggestionProgress)
+    },
+
+    /**
+     * Get the progress on one suggestion, or null if it hasn't been started
+     */
+    get: async (
+      profileSuggestionId: string,
+      suggestionId: string
+    ): Promise<SuggestionProgress | null> => {
+      const user = await getCurrentUser()
+      if (!user) return null
+
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('suggestion_progress')
+        .select('*')
+        .eq('profile_suggestion_id', profileSuggestionId)
+        .eq('suggestion_id', suggestionId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (error && error.code !== 'PGRST116') {
+        throw error
+      }
+      return data ? toSuggestionProgress(data) : null
+    },
+
+    /**
+     * Get the current user's progress in one status across all sets,
+     * most recently updated first
+     */
+    getByStatus: async (status: ProgressStatus): Promise<SuggestionProgress[]> => {
+      const user = await getCurrentUser()
+      if (!user) return []
+
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('suggestion_progress')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('status', status)
+        .order('updated_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []).map(toSuggestionProgress)
+    },
+
+    /**
+     * Count the set's current suggestions (the latest refinement's, if it was
+     * refined) per status, with the total time spent
+     */
+    getSummary: async (profileSuggestionId: string) => {
+      const [set, refinements, progress] = await Promise.all([
+        queries.profileSuggestions.getById(profileSuggestionId),
+        queries.profileSuggestions.getRefinements(profileSuggestionId),
+        queries.suggestionProgress.getForSet(profileSuggestionId),
+      ])
+      if (!set) throw new Error('Suggestion not found')
+
+      const suggestions = currentSuggestions(set, refinements)
+      const current = new Set(suggestions.map(s => s.id))
+      return summarizeProgress(
+        progress.filter(p => current.has(p.suggestion_id)),
+        suggestions.length
+      )
+    },
+
+    /**
+     * Change the status of a suggestion, log time spent on it or set notes
+     * The suggestion must be in the set, have been replaced in it or come
+     * from one of its refinements
+     */
+    update: async (
+      profileSuggestionId: string,
+      input: UpdateSuggestionProgressInput
+    ): Promise<SuggestionProgress> => {
       const user = await getCurrentUser()
       if (!user) throw new Error('Not authenticated')
 
-      // First get current completed suggestions
-      const current = await queries.profileSuggestions.getById(id)
-      if (!current) throw new Error('Suggestion not found')
+      const { suggestionId, status, minutesSpent, notes } = validate(
+        updateSuggestionProgressSchema,
+        input
+      )
+
+      const [set, refinements] = await Promise.all([
+        queries.profileSuggestions.getById(profileSuggestionId),
+        queries.profileSuggestions.getRefinements(profileSuggestionId),
+      ])
+      if (!set || !isKnownSuggestion(set, refinements, suggestionId)) {
+        throw new Error('Suggestion not found')
+      }
+
+      const current = await queries.suggestionProgress.get(profileSuggestionId, suggestionId)
+
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('suggestion_progress')
+        .upsert(
+          {
+            user_id: user.id,
+            profile_suggestion_id: profileSuggestionId,
+            suggestion_id: suggestionId,
+            ...(status ? progressTransition(current, status) : {}),
+            time_spent_minutes: (current?.time_spent_minutes ?? 0) + (minutesSpent ?? 0),
+            ...(notes !== undefined ? { notes } : {}),
+          },
+          { onConflict: 'profile_suggestion_id,suggestion_id' }
+        )
+        .select()
+        .single()
 
-      const completedSuggestions: CompletedSuggestion[] = current.completed_suggestions || []
+      if (error) throw error
 
-      // Check if already completed
-      if (completedSuggestions.some(c => c.suggestionId === suggestionId)) {
-        return current
+      const progress = toSuggestionProgress(data)
+      const event = suggestionProgressActivity(user.id, current, progress, minutesSpent)
+      if (event) await recordActivity(supabase, event)
+      return progress
+    },
+  },
+
+  /**
+   * Learning paths with ordered milestones and steps (see lib/paths/model.ts)
+   * Whole paths are read with one nested select and come back in order
+   */
+  learningPaths: {
+    /**
+     * Get all paths of the current user, most recently updated first
+     * Without milestones - use getById() for a whole path
+     */
+    getAll: async (): Promise<LearningPathRow[]> => {
+      const user = await getCurrentUser()
+      if (!user) return []
+
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('learning_paths')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    },
+
+    /**
+     * Get a whole path with its milestones and steps
+     */
+    getById: async (id: string): Promise<LearningPath | null> => {
+      const user = await getCurrentUser()
+      if (!user) return null
+
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('learning_paths')
+        .select(LEARNING_PATH_SELECT)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .single()
+
+      if (error && error.code !== 'PGRST116') {
+        throw error
       }
+      return data ? toLearningPath(data) : null
+    },
+
+    /**
+     * Create an empty path
+     */
+    create: async (path: { title: string; description?: string }): Promise<LearningPath> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('learning_paths')
+        .insert({ user_id: user.id, title: path.title, description: path.description ?? null })
+        .select()
+        .single()
 
-      // Add new completion
-      completedSuggestions.push({
-        suggestionId,
-        completedAt: new Date().toISOString(),
-        notes,
+      if (error) throw error
+      return { ...data, milestones: [], prerequisites: [] }
+    },
+
+    /**
+     * Promote a suggestion set into a new path
+     * Uses the set's current suggestions - the latest refinement's, if it was refined
+     */
+    createFromSuggestions: async (
+      profileSuggestionId: string,
+      title?: string
+    ): Promise<LearningPath> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const set = await queries.profileSuggestions.getById(profileSuggestionId)
+      if (!set) throw new Error('Suggestion not found')
+
+      const refinements = await queries.profileSuggestions.getRefinements(profileSuggestionId)
+      const draft = buildPathFromSuggestions(set, currentSuggestions(set, refinements), title)
+
+      const supabase = createClient()
+
+      const pathId = await insertLearningPathDraft(supabase, user.id, draft, {
+        source_profile_suggestion_id: profileSuggestionId,
       })
 
+      const created = await queries.learningPaths.getById(pathId)
+      if (!created) throw new Error('Learning path not found')
+      return created
+    },
+
+    /**
+     * Update a path's title or description
+     */
+    update: async (
+      id: string,
+      updates: { title?: string; description?: string | null }
+    ): Promise<LearningPathRow> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
       const supabase = createClient()
       const { data, error } = await supabase
-        .from('profile_suggestions')
-        .update({ completed_suggestions: completedSuggestions })
+        .from('learning_paths')
+        .update(updates)
         .eq('id', id)
         .eq('user_id', user.id)
         .select()
         .single()
 
       if (error) throw error
-      return data as ProfileSuggestion
+      return data
     },
 
     /**
-     * Mark suggestions as viewed
+     * Delete a path with its milestones and steps
      */
-    markViewed: async (id: string): Promise<ProfileSuggestion> => {
+    delete: async (id: string): Promise<void> => {
       const user = await getCurrentUser()
       if (!user) throw new Error('Not authenticated')
 
       const supabase = createClient()
+      const { error } = await supabase
+        .from('learning_paths')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id)
+
+      if (error) throw error
+    },
+
+    /**
+     * Add a milestone at the end of a path
+     */
+    addMilestone: async (
+      pathId: string,
+      milestone: { title: string; description?: string }
+    ): Promise<PathMilestoneRow> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const supabase = createClient()
+      const { data: siblings, error: siblingsError } = await supabase
+        .from('path_milestones')
+        .select('position')
+        .eq('path_id', pathId)
+
+      if (siblingsError) throw siblingsError
+
       const { data, error } = await supabase
-        .from('profile_suggestions')
-        .update({ viewed_at: new Date().toISOString() })
+        .from('path_milestones')
+        .insert({
+          path_id: pathId,
+          user_id: user.id,
+          position: nextPosition(siblings || []),
+          title: milestone.title,
+          description: milestone.description ?? null,
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+
+    /**
+     * Update a milestone's title or description
+     */
+    updateMilestone: async (
+      id: string,
+      updates: { title?: string; description?: string | null }
+    ): Promise<PathMilestoneRow> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('path_milestones')
+        .update(updates)
         .eq('id', id)
         .eq('user_id', user.id)
         .select()
         .single()
 
       if (error) throw error
-      return data as ProfileSuggestion
+      return data
+    },
+
+    /**
+     * Delete a milestone with its steps
+     */
+    deleteMilestone: async (id: string): Promise<void> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const supabase = createClient()
+      const { error } = await supabase
+        .from('path_milestones')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id)
+
+      if (error) throw error
+    },
+
+    /**
+     * Put a path's milestones in the given order (every milestone id, once)
+     */
+    reorderMilestones: async (pathId: string, orderedIds: string[]): Promise<void> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const supabase = createClient()
+      const { data: milestones, error: fetchError } = await supabase
+        .from('path_milestones')
+        .select('id, position')
+        .eq('path_id', pathId)
+        .eq('user_id', user.id)
+
+      if (fetchError) throw fetchError
+
+      for (const { id, position } of reorderPositions(milestones || [], orderedIds)) {
+        const { error } = await supabase.from('path_milestones').update({ position }).eq('id', id)
+        if (error) throw error
+      }
+    },
+
+    /**
+     * Add a step at the end of a milestone
+     */
+    addStep: async (milestoneId: string, step: PathStepInput): Promise<PathStep> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const supabase = createClient()
+      const { data: siblings, error: siblingsError } = await supabase
+        .from('path_steps')
+        .select('position')
+        .eq('milestone_id', milestoneId)
+
+      if (siblingsError) throw siblingsError
+
+      const { data, error } = await supabase
+        .from('path_steps')
+        .insert({
+          ...step,
+          milestone_id: milestoneId,
+          user_id: user.id,
+          position: nextPosition(siblings || []),
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return toPathStep(data)
+    },
+
+    /**
+     * Update a step - pass milestone_id (and position) to move it to another milestone
+     * Completing or reopening it (completed_at) is logged as activity
+     */
+    updateStep: async (
+      id: string,
+      updates: Partial<PathStepInput> & { milestone_id?: string; position?: number }
+    ): Promise<PathStep> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const supabase = createClient()
+
+      let before: Pick<PathStep, 'completed_at'> | null = null
+      if (updates.completed_at !== undefined) {
+        const { data: current, error: fetchError } = await supabase
+          .from('path_steps')
+          .select('completed_at')
+          .eq('id', id)
+          .eq('user_id', user.id)
+          .maybeSingle()
+
+        if (fetchError) throw fetchError
+        before = current
+      }
+
+      const { data, error } = await supabase
+        .from('path_steps')
+        .update(updates)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      const event = before && pathStepActivity(user.id, before, data)
+      if (event) await recordActivity(supabase, event)
+      return toPathStep(data)
+    },
+
+    /**
+     * Delete a step
+     */
+    deleteStep: async (id: string): Promise<void> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const supabase = createClient()
+      const { error } = await supabase
+        .from('path_steps')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id)
+
+      if (error) throw error
+    },
+
+    /**
+     * Put a milestone's steps in the given order (every step id, once)
+     */
+    reorderSteps: async (milestoneId: string, orderedIds: string[]): Promise<void> => {
+      const user = await getCurrentUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const supabase = createClient()
+      const { data: steps, error: fetchError } = await supabase
+        .from('path_steps')
+        .select('id, position')
+        .eq('milestone_id', milestoneId)
+        .eq('user_id', user.id)
+
+      if (fetchError) throw fetchError
+
+      for (const { id, position } of reorderPositions(steps || [], orderedIds)) {
+        const { error } = await supabase.from('path_steps').update({ position }).eq('id', id)
+        if (error) throw error
+      }
     },
   },
 }
@@ -369,6 +927,10 @@ export const queries = {
  *
  * const profile = await queries.profiles.getCurrent()
  *
+ * // Turn a suggestion set into an editable learning path:
+ * const path = await queries.learningPaths.createFromSuggestions(suggestionSetId)
+ * await queries.learningPaths.addStep(path.milestones[0].id, { title: 'Build a portfolio site' })
+ *
  * // In an API route:
  * import { createServiceClient } from '@/lib/supabase/client'
  *
@@ -0,0 +1,76 @@
+import {
+  checkInvitation,
+  generateInvitationToken,
+  hashInvitationToken,
+  invitationExpiry,
+  isInvitationToken,
+  TeamInvitationError,
+} from '@/lib/teams/invitations'
+
+/**
+ * Team Invitation Tests
+ *
+ * Tokens, expiry, and who can accept an invitation.
+ */
+
+const now = new Date('2026-01-28T12:00:00.000Z')
+
+const invitation = {
+  email: 'sam@example.com',
+  expires_at: invitationExpiry(now),
+  accepted_at: null,
+}
+
+describe('invitation tokens', () => {
+  it('generates random tokens of the expected shape', () => {
+    const token = generateInvitationToken()
+
+    expect(isInvitationToken(token)).toBe(true)
+    expect(generateInvitationToken()).not.toBe(token)
+    expect(isInvitationToken('not-a-token')).toBe(false)
+  })
+
+  it('stores a hash, not the token', () => {
+    const token = generateInvitationToken()
+
+    expect(hashInvitationToken(token)).toMatch(/^[0-9a-f]{64}$/)
+    expect(hashInvitationToken(token)).toBe(hashInvitationToken(token))
+  })
+})
+
+describe('invitationExpiry', () => {
+  it('is a week from now', () => {
+    expect(invitationExpiry(now)).toBe('2026-02-04T12:00:00.000Z')
+  })
+})
+
+describe('checkInvitation', () => {
+  const problem = (fn: () => void) => {
+    try {
+      fn()
+    } catch (error) {
+      return error instanceof TeamInvitationError ? error.problem : error
+    }
+    return null
+  }
+
+  it('accepts the invited address, in any case', () => {
+    expect(problem(() => checkInvitation(invitation, 'Sam@Example.com', now))).toBeNull()
+  })
+
+  it('rejects other addresses and users without one', () => {
+    expect(problem(() => checkInvitation(invitation, 'alex@example.com', now))).toBe('wrong-email')
+    expect(problem(() => checkInvitation(invitation, undefined, now))).toBe('wrong-email')
+  })
+
+  it('rejects expired and used invitations', () => {
+    const later = new Date('2026-02-04T12:00:00.000Z')
+
+    expect(problem(() => checkInvitation(invitation, 'sam@example.com', later))).toBe('expired')
+    expect(
+      problem(() =>
+        checkInvitation({ ...invitation, accepted_at: now.toISOString() }, 'sam@example.com', now)
+      )
+    ).toBe('accepted')
+  })
+})
@@ -0,0 +1,169 @@
+import { toLearningPath, type LearningPathWithChildrenRow } from '@/lib/paths/model'
+import { buildTeamProgress } from '@/lib/teams/progress'
+import type { PathTemplateContent } from '@/lib/validation/schemas'
+import type { PathStepRow } from '@/types'
+
+/**
+ * Team Progress Tests
+ *
+ * Per-member completion of assigned paths, and the leaderboard order.
+ */
+
+const timestamps = {
+  created_at: '2026-01-28T00:00:00.000Z',
+  updated_at: '2026-01-28T00:00:00.000Z',
+}
+
+const content = (keys: string[]): PathTemplateContent => ({
+  milestones: [
+    {
+      title: 'Foundations',
+      description: null,
+      steps: keys.map(key => ({
+        key,
+        title: `Step ${key}`,
+        reason: null,
+        action: null,
+        type: null,
+        url: null,
+        duration: null,
+      })),
+    },
+  ],
+  prerequisites: [],
+})
+
+const assignments = [
+  { id: 'assignment-1', title: 'Backend basics', content: content(['a', 'b']) },
+  { id: 'assignment-2', title: 'Docker', content: content(['c', 'd']) },
+]
+
+const step = (id: string, userId: string, completedAt: string | null = null): PathStepRow => ({
+  ...timestamps,
+  id: `${userId}-${id}`,
+  milestone_id: 'milestone',
+  user_id: userId,
+  position: 0,
+  title: `Step ${id}`,
+  reason: null,
+  action: null,
+  type: null,
+  url: null,
+  duration: null,
+  source_suggestion_id: null,
+  template_step_key: id,
+  completed_at: completedAt,
+})
+
+const copy = (userId: string, assignmentId: string, steps: PathStepRow[]) =>
+  toLearningPath({
+    ...timestamps,
+    id: `${userId}-${assignmentId}`,
+    user_id: userId,
+    title: 'Copy',
+    description: null,
+    source_profile_suggestion_id: null,
+    source_template_id: null,
+    source_template_version: null,
+    team_assignment_id: assignmentId,
+    weekly_hours: null,
+    schedule_start: null,
+    path_milestones: [
+      {
+        ...timestamps,
+        id: 'milestone',
+        path_id: `${userId}-${assignmentId}`,
+        user_id: userId,
+        position: 0,
+        title: 'Foundations',
+        description: null,
+        path_steps: steps,
+      },
+    ],
+  } as LearningPathWithChildrenRow)
+
+const member = (userId: string, role: 'owner' | 'admin' | 'member' = 'member') => ({
+  user_id: userId,
+  name: userId.toUpperCase(),
+  role,
+})
+
+describe('buildTeamProgress', () => {
+  const paths = [
+    copy('sam', 'assignment-1', [
+      step('a', 'sam', '2026-01-29T09:00:00.000Z'),
+      step('b', 'sam', '2026-01-30T09:00:00.000Z'),
+    ]),
+    copy('sam', 'assignment-2', [step('c', 'sam'), step('d', 'sam')]),
+    copy('alex', 'assignment-1', [
+      step('a', 'alex', '2026-01-29T10:00:00.000Z'),
+      step('b', 'alex'),
+    ]),
+    copy('alex', 'assignment-2', [step('c', 'alex'), step('d', 'alex')]),
+  ]
+
+  const progress = buildTeamProgress(
+    [member('owner', 'owner'), member('alex'), member('sam'), member('kim')],
+    assignments,
+    paths
+  )
+
+  it('counts steps across each member’s copies, leaving out owners and admins', () => {
+    expect(progress.members.map(m => m.userId)).toEqual(['sam', 'alex', 'kim'])
+    expect(progress.members[0]).toEqual({
+      userId: 'sam',
+      name: 'SAM',
+      rank: 1,
+      completedSteps: 2,
+      totalSteps: 4,
+      completion: 0.5,
+      lastCompletedAt: '2026-01-30T09:00:00.000Z',
+      assignments: [
+        {
+          assignmentId: 'assignment-1',
+          pathId: 'sam-assignment-1',
+          completedSteps: 2,
+          totalSteps: 2,
+        },
+        {
+          assignmentId: 'assignment-2',
+          pathId: 'sam-assignment-2',
+          completedSteps: 0,
+          totalSteps: 2,
+        },
+      ],
+    })
+  })
+
+  it('counts a missing copy as none of the assignment’s steps done', () => {
+    expect(progress.members[2]).toMatchObject({
+      userId: 'kim',
+      completedSteps: 0,
+      totalSteps: 4,
+      lastCompletedAt: null,
+    })
+    expect(progress.members[2].assignments[0].pathId).toBeNull()
+  })
+
+  it('summarizes the team', () => {
+    expect(progress.assignments).toEqual([
+      { id: 'assignment-1', title: 'Backend basics', totalSteps: 2 },
+      { id: 'assignment-2', title: 'Docker', totalSteps: 2 },
+    ])
+    expect(progress.averageCompletion).toBeCloseTo((0.5 + 0.25 + 0) / 3)
+    expect(progress.finishedMembers).toBe(0)
+  })
+
+  it('gives members with the same progress the same rank', () => {
+    const tied = buildTeamProgress([member('alex'), member('kim'), member('sam')], assignments, [])
+
+    expect(tied.members.map(m => m.rank)).toEqual([1, 1, 1])
+  })
+
+  it('handles teams without assignments', () => {
+    const empty = buildTeamProgress([member('alex')], [], [])
+
+    expect(empty.members[0]).toMatchObject({ completion: 0, totalSteps: 0 })
+    expect(empty.finishedMembers).toBe(0)
+  })
+})
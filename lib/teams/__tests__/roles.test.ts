@@ -0,0 +1,48 @@
+import { canChangeRole, canManageTeam, canRemoveMember } from '@/lib/teams/roles'
+
+/**
+ * Team Role Tests
+ *
+ * Who can manage a team, change roles and remove people - the same rules
+ * as the RLS policies on team_members.
+ */
+
+describe('canManageTeam', () => {
+  it('allows owners and admins', () => {
+    expect(canManageTeam('owner')).toBe(true)
+    expect(canManageTeam('admin')).toBe(true)
+    expect(canManageTeam('member')).toBe(false)
+    expect(canManageTeam(null)).toBe(false)
+  })
+})
+
+describe('canRemoveMember', () => {
+  const owner = { userId: 'owner', role: 'owner' as const }
+  const admin = { userId: 'admin', role: 'admin' as const }
+  const member = { userId: 'member', role: 'member' as const }
+
+  it('never removes the owner, not even by themselves', () => {
+    expect(canRemoveMember(owner, { user_id: 'owner', role: 'owner' })).toBe(false)
+    expect(canRemoveMember(admin, { user_id: 'owner', role: 'owner' })).toBe(false)
+  })
+
+  it('lets anyone else leave', () => {
+    expect(canRemoveMember(admin, { user_id: 'admin', role: 'admin' })).toBe(true)
+    expect(canRemoveMember(member, { user_id: 'member', role: 'member' })).toBe(true)
+  })
+
+  it('lets the owner remove anyone and admins remove members', () => {
+    expect(canRemoveMember(owner, { user_id: 'other', role: 'admin' })).toBe(true)
+    expect(canRemoveMember(admin, { user_id: 'other', role: 'member' })).toBe(true)
+    expect(canRemoveMember(admin, { user_id: 'other', role: 'admin' })).toBe(false)
+    expect(canRemoveMember(member, { user_id: 'other', role: 'member' })).toBe(false)
+  })
+})
+
+describe('canChangeRole', () => {
+  it('only lets the owner change the roles of others', () => {
+    expect(canChangeRole('owner', { role: 'member' })).toBe(true)
+    expect(canChangeRole('owner', { role: 'owner' })).toBe(false)
+    expect(canChangeRole('admin', { role: 'member' })).toBe(false)
+  })
+})
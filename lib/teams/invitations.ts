@@ -0,0 +1,77 @@
+import { createHash, randomBytes } from 'node:crypto'
+import type { TeamInvitationRow } from '@/types'
+
+/**
+ * Team invitations
+ *
+ * An invitation is a link with a secret token for one email address. It can
+ * only be accepted by a signed-in user with that address, once, within
+ * INVITATION_TTL_DAYS. Only the token's SHA-256 hash is stored
+ * (team_invitations.token_hash), like calendar feed tokens - the link is
+ * shown to the inviter once, and inviting the same address again replaces it.
+ *
+ * Usage:
+ *   const token = generateInvitationToken()     // store hashInvitationToken(token)
+ *   checkInvitation(invitation, user.email)      // before adding the member
+ */
+
+export const INVITATION_TTL_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/
+
+export type InvitationProblem = 'accepted' | 'expired' | 'wrong-email'
+
+/**
+ * Thrown by checkInvitation() for an invitation that can't be accepted
+ */
+export class TeamInvitationError extends Error {
+  problem: InvitationProblem
+
+  constructor(problem: InvitationProblem) {
+    super(
+      problem === 'accepted'
+        ? 'This invitation has already been used'
+        : problem === 'expired'
+          ? 'This invitation has expired. Ask for a new one.'
+          : 'This invitation was sent to a different email address'
+    )
+    this.name = 'TeamInvitationError'
+    this.problem = problem
+  }
+}
+
+export function generateInvitationToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+export function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Whether `token` has the shape of a generated token - anything else can
+ * be rejected without a database lookup
+ */
+export function isInvitationToken(token: string): boolean {
+  return TOKEN_PATTERN.test(token)
+}
+
+export function invitationExpiry(now: Date = new Date()): string {
+  return new Date(now.getTime() + INVITATION_TTL_DAYS * DAY_MS).toISOString()
+}
+
+/**
+ * Throws TeamInvitationError unless `email` can accept the invitation now
+ */
+export function checkInvitation(
+  invitation: Pick<TeamInvitationRow, 'email' | 'expires_at' | 'accepted_at'>,
+  email: string | undefined,
+  now: Date = new Date()
+): void {
+  if (invitation.accepted_at) throw new TeamInvitationError('accepted')
+  if (new Date(invitation.expires_at) <= now) throw new TeamInvitationError('expired')
+  if (email?.trim().toLowerCase() !== invitation.email) {
+    throw new TeamInvitationError('wrong-email')
+  }
+}
@@ -0,0 +1,137 @@
+import { completedStepIds, pathStepIds } from '@/lib/paths/model'
+import { templateStepCount } from '@/lib/paths/templates'
+import type { LearningPath, TeamAssignment, TeamMember } from '@/types'
+
+/**
+ * Team progress dashboard
+ *
+ * Every member (role 'member' - owners and admins run the team) gets their
+ * own copy of each assigned path (learning_paths.team_assignment_id), and
+ * progress is counted on that copy. A member who deleted their copy, or
+ * joined after it failed to be created, counts as 0 of the assignment's
+ * steps rather than dropping off the board.
+ *
+ * The leaderboard is ordered by completion, then by completed steps, and
+ * members with the same numbers share a rank.
+ *
+ * Usage:
+ *   const progress = buildTeamProgress(members, assignments, paths)
+ */
+
+export interface AssignmentProgress {
+  assignmentId: string
+  pathId: string | null
+  completedSteps: number
+  totalSteps: number
+}
+
+export interface MemberProgress {
+  userId: string
+  name: string | null
+  rank: number
+  completedSteps: number
+  totalSteps: number
+  /** 0-1, 0 when there is nothing assigned */
+  completion: number
+  lastCompletedAt: string | null
+  assignments: AssignmentProgress[]
+}
+
+export interface TeamProgress {
+  assignments: { id: string; title: string; totalSteps: number }[]
+  members: MemberProgress[]
+  /** Average completion of the members, 0-1 */
+  averageCompletion: number
+  /** Members who completed every assigned step */
+  finishedMembers: number
+}
+
+type AssignedPath = Pick<LearningPath, 'id' | 'user_id' | 'team_assignment_id' | 'milestones'>
+
+function completionOf(completed: number, total: number): number {
+  return total > 0 ? completed / total : 0
+}
+
+function lastCompletedAt(paths: AssignedPath[]): string | null {
+  let latest: string | null = null
+  for (const path of paths) {
+    for (const milestone of path.milestones) {
+      for (const step of milestone.steps) {
+        if (step.completed_at && (!latest || step.completed_at > latest)) {
+          latest = step.completed_at
+        }
+      }
+    }
+  }
+  return latest
+}
+
+function memberProgress(
+  member: Pick<TeamMember, 'user_id' | 'name'>,
+  assignments: Pick<TeamAssignment, 'id' | 'content'>[],
+  paths: AssignedPath[]
+): Omit<MemberProgress, 'rank'> {
+  const own = paths.filter(path => path.user_id === member.user_id)
+
+  const progress = assignments.map(assignment => {
+    const path = own.find(p => p.team_assignment_id === assignment.id)
+    return {
+      assignmentId: assignment.id,
+      pathId: path?.id ?? null,
+      completedSteps: path ? completedStepIds(path).length : 0,
+      totalSteps: path ? pathStepIds(path).length : templateStepCount(assignment.content),
+    }
+  })
+
+  const completedSteps = progress.reduce((sum, p) => sum + p.completedSteps, 0)
+  const totalSteps = progress.reduce((sum, p) => sum + p.totalSteps, 0)
+
+  return {
+    userId: member.user_id,
+    name: member.name,
+    completedSteps,
+    totalSteps,
+    completion: completionOf(completedSteps, totalSteps),
+    lastCompletedAt: lastCompletedAt(own.filter(path => path.team_assignment_id)),
+    assignments: progress,
+  }
+}
+
+/**
+ * Per-member progress on a team's assignments, as a leaderboard
+ * `paths` are the members' copies of the assignments (any order)
+ */
+export function buildTeamProgress(
+  members: Pick<TeamMember, 'user_id' | 'name' | 'role'>[],
+  assignments: Pick<TeamAssignment, 'id' | 'title' | 'content'>[],
+  paths: AssignedPath[]
+): TeamProgress {
+  const sorted = members
+    .filter(member => member.role === 'member')
+    .map(member => memberProgress(member, assignments, paths))
+    .sort((a, b) => b.completion - a.completion || b.completedSteps - a.completedSteps)
+
+  const ranked: MemberProgress[] = []
+  sorted.forEach((member, index) => {
+    const previous = ranked[index - 1]
+    const tied =
+      previous &&
+      previous.completion === member.completion &&
+      previous.completedSteps === member.completedSteps
+    ranked.push({ ...member, rank: tied ? previous.rank : index + 1 })
+  })
+
+  return {
+    assignments: assignments.map(assignment => ({
+      id: assignment.id,
+      title: assignment.title,
+      totalSteps: templateStepCount(assignment.content),
+    })),
+    members: ranked,
+    averageCompletion: ranked.length
+      ? ranked.reduce((sum, member) => sum + member.completion, 0) / ranked.length
+      : 0,
+    finishedMembers: ranked.filter(member => member.totalSteps > 0 && member.completion === 1)
+      .length,
+  }
+}
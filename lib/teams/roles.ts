@@ -0,0 +1,50 @@
+import type { TeamRole } from '@/lib/validation/schemas'
+import type { TeamMemberRow } from '@/types'
+
+/**
+ * Team roles
+ *
+ * - owner: the team's creator. Manages everything, and is the only one who
+ *   can change roles or delete the team. Can't leave or be removed
+ * - admin: invites people, assigns paths and removes members
+ * - member: a learner - gets the team's assigned paths and shows on the
+ *   progress dashboard
+ *
+ * The same rules are enforced by RLS on team_members (see the
+ * 20260128090000_create_teams.sql migration). API routes use the service
+ * role and check them with these helpers.
+ *
+ * Usage:
+ *   const role = await loadTeamRole(teamId, user.id)
+ *   if (!canManageTeam(role)) return 403
+ */
+
+/**
+ * Whether a role can invite people, assign paths and edit the team
+ */
+export function canManageTeam(role: TeamRole | null): boolean {
+  return role === 'owner' || role === 'admin'
+}
+
+/**
+ * Whether a member with `actorRole` can remove `target` from the team
+ * Anyone but the owner can leave; the owner removes anyone else, admins remove members
+ */
+export function canRemoveMember(
+  actor: { userId: string; role: TeamRole | null },
+  target: Pick<TeamMemberRow, 'user_id' | 'role'>
+): boolean {
+  if (target.role === 'owner') return false
+  if (actor.userId === target.user_id) return true
+  return actor.role === 'owner' || (actor.role === 'admin' && target.role === 'member')
+}
+
+/**
+ * Whether a member with `actorRole` can change the role of `target`
+ */
+export function canChangeRole(
+  actorRole: TeamRole | null,
+  target: Pick<TeamMemberRow, 'role'>
+): boolean {
+  return actorRole === 'owner' && target.role !== 'owner'
+}
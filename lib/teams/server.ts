@@ -0,0 +1,463 @@
+import { insertLearningPathDraft, LEARNING_PATH_SELECT, toLearningPath } from '@/lib/paths/model'
+import { buildPathFromTemplate, templateContentFromPath } from '@/lib/paths/templates'
+import { createServiceClient } from '@/lib/supabase/client'
+import {
+  checkInvitation,
+  generateInvitationToken,
+  hashInvitationToken,
+  invitationExpiry,
+  isInvitationToken,
+  TeamInvitationError,
+} from '@/lib/teams/invitations'
+import { buildTeamProgress, type TeamProgress } from '@/lib/teams/progress'
+import {
+  pathTemplateContentSchema,
+  type CreateTeamInput,
+  type CreateTeamInvitationInput,
+  type TeamRole,
+  type UpdateTeamInput,
+} from '@/lib/validation/schemas'
+import type {
+  LearningPath,
+  TeamAssignment,
+  TeamAssignmentRow,
+  TeamInvitationRow,
+  TeamMember,
+  TeamMemberRow,
+  TeamRow,
+} from '@/types'
+
+/**
+ * Server-side team helpers, for API routes
+ * These use the service role - check the caller's role (lib/teams/roles.ts) first
+ */
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+/** A pending invitation, as owners and admins see it - without the token hash */
+export type PendingTeamInvitation = Omit<TeamInvitationRow, 'token_hash'>
+
+const INVITATION_COLUMNS =
+  'id, team_id, email, role, invited_by, expires_at, accepted_at, accepted_by, created_at'
+
+function toTeamAssignment(row: TeamAssignmentRow): TeamAssignment {
+  const content = pathTemplateContentSchema.safeParse(row.content)
+  return {
+    ...row,
+    content: content.success ? content.data : { milestones: [], prerequisites: [] },
+  }
+}
+
+/**
+ * The user's role in a team, or null if they aren't a member
+ */
+export async function loadTeamRole(teamId: string, userId: string): Promise<TeamRole | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('role')
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.role ?? null
+}
+
+/**
+ * Teams the user belongs to, with their role, newest first
+ */
+export async function loadTeams(userId: string): Promise<(TeamRow & { role: TeamRole })[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('role, teams(*)')
+    .eq('user_id', userId)
+
+  if (error) throw error
+  // teams(*) is a many-to-one embed, so each row has one team
+  const rows = (data || []) as unknown as { role: TeamRole; teams: TeamRow }[]
+  return rows
+    .map(row => ({ ...row.teams, role: row.role }))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+export async function loadTeam(teamId: string): Promise<TeamRow | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase.from('teams').select('*').eq('id', teamId).maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Create a team - its creator becomes the owner (add_team_owner trigger)
+ */
+export async function createTeam(userId: string, input: CreateTeamInput): Promise<TeamRow> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('teams')
+    .insert({ ...input, created_by: userId })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function updateTeam(teamId: string, input: UpdateTeamInput): Promise<TeamRow> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('teams')
+    .update(input)
+    .eq('id', teamId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Delete a team with its members, invitations and assignments
+ * Members keep their copies of assigned paths
+ */
+export async function deleteTeam(teamId: string): Promise<void> {
+  const supabase = createServiceClient()
+  const { error } = await supabase.from('teams').delete().eq('id', teamId)
+
+  if (error) throw error
+}
+
+/**
+ * Members of a team with their names, owner first, then by when they joined
+ */
+export async function loadTeamMembers(teamId: string): Promise<TeamMember[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('*')
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  const rows: TeamMemberRow[] = data || []
+  if (!rows.length) return []
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, full_name')
+    .in(
+      'id',
+      rows.map(row => row.user_id)
+    )
+
+  if (profilesError) throw profilesError
+  const names = new Map<string, string | null>(
+    (profiles || []).map((p: { id: string; full_name: string | null }) => [p.id, p.full_name])
+  )
+
+  return rows
+    .map(row => ({ ...row, role: row.role as TeamRole, name: names.get(row.user_id) ?? null }))
+    .sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner'))
+}
+
+export async function loadTeamMember(
+  teamId: string,
+  userId: string
+): Promise<TeamMemberRow | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('*')
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+export async function updateTeamMemberRole(
+  teamId: string,
+  userId: string,
+  role: Exclude<TeamRole, 'owner'>
+): Promise<TeamMemberRow> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('team_members')
+    .update({ role })
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Remove a member from a team. They keep their copies of assigned paths
+ */
+export async function removeTeamMember(teamId: string, userId: string): Promise<void> {
+  const supabase = createServiceClient()
+  const { error } = await supabase
+    .from('team_members')
+    .delete()
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+/**
+ * Invitations of a team that haven't been accepted yet (expired ones included)
+ */
+export async function loadTeamInvitations(teamId: string): Promise<PendingTeamInvitation[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('team_invitations')
+    .select(INVITATION_COLUMNS)
+    .eq('team_id', teamId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Invite an email address to a team. Inviting it again replaces the pending
+ * invitation, so only the newest link works. The token is only returned here
+ */
+export async function createTeamInvitation(
+  teamId: string,
+  invitedBy: string,
+  { email, role }: CreateTeamInvitationInput
+): Promise<{ invitation: PendingTeamInvitation; token: string }> {
+  const supabase = createServiceClient()
+  const { error: deleteError } = await supabase
+    .from('team_invitations')
+    .delete()
+    .eq('team_id', teamId)
+    .eq('email', email)
+    .is('accepted_at', null)
+
+  if (deleteError) throw deleteError
+
+  const token = generateInvitationToken()
+  const { data, error } = await supabase
+    .from('team_invitations')
+    .insert({
+      team_id: teamId,
+      email,
+      role,
+      token_hash: hashInvitationToken(token),
+      invited_by: invitedBy,
+      expires_at: invitationExpiry(),
+    })
+    .select(INVITATION_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return { invitation: data, token }
+}
+
+/**
+ * Revoke a pending invitation. Returns false if there was none
+ */
+export async function deleteTeamInvitation(teamId: string, invitationId: string): Promise<boolean> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('team_invitations')
+    .delete()
+    .eq('id', invitationId)
+    .eq('team_id', teamId)
+    .is('accepted_at', null)
+    .select('id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+/**
+ * Accept an invitation as `user`, who joins the team with the invited role
+ * and gets copies of the team's assigned paths. Returns null for unknown
+ * tokens, and throws TeamInvitationError if it can't be accepted. Someone
+ * who is already a member keeps their role
+ *
+ * If joining fails, the membership and the claim on the invitation are undone,
+ * so the same link can be tried again
+ */
+export async function acceptTeamInvitation(
+  user: { id: string; email?: string },
+  token: string
+): Promise<{ teamId: string; role: TeamRole } | null> {
+  if (!isInvitationToken(token)) return null
+
+  const supabase = createServiceClient()
+  const { data: invitation, error } = await supabase
+    .from('team_invitations')
+    .select('*')
+    .eq('token_hash', hashInvitationToken(token))
+    .maybeSingle()
+
+  if (error) throw error
+  if (!invitation) return null
+
+  checkInvitation(invitation, user.email)
+
+  // Only one request can mark it accepted
+  const { data: claimed, error: claimError } = await supabase
+    .from('team_invitations')
+    .update({ accepted_at: new Date().toISOString(), accepted_by: user.id })
+    .eq('id', invitation.id)
+    .is('accepted_at', null)
+    .select('id')
+
+  if (claimError) throw claimError
+  if (!(claimed || []).length) throw new TeamInvitationError('accepted')
+
+  try {
+    return await joinTeam(invitation, user.id)
+  } catch (error) {
+    await supabase
+      .from('team_invitations')
+      .update({ accepted_at: null, accepted_by: null })
+      .eq('id', invitation.id)
+      .eq('accepted_by', user.id)
+    throw error
+  }
+}
+
+/**
+ * Add the user to the invitation's team and copy its assigned paths to them
+ * A new membership is removed again if a copy fails - copies already made
+ * are kept and skipped on the next attempt
+ */
+async function joinTeam(
+  invitation: TeamInvitationRow,
+  userId: string
+): Promise<{ teamId: string; role: TeamRole }> {
+  const existing = await loadTeamMember(invitation.team_id, userId)
+  if (existing) return { teamId: invitation.team_id, role: existing.role as TeamRole }
+
+  const supabase = createServiceClient()
+  const { error: memberError } = await supabase
+    .from('team_members')
+    .insert({ team_id: invitation.team_id, user_id: userId, role: invitation.role })
+
+  if (memberError) throw memberError
+
+  if (invitation.role === 'member') {
+    try {
+      for (const assignment of await loadTeamAssignments(invitation.team_id)) {
+        await copyAssignment(assignment, userId)
+      }
+    } catch (error) {
+      await supabase
+        .from('team_members')
+        .delete()
+        .eq('team_id', invitation.team_id)
+        .eq('user_id', userId)
+      throw error
+    }
+  }
+
+  return { teamId: invitation.team_id, role: invitation.role as TeamRole }
+}
+
+/**
+ * Paths assigned to a team, newest first
+ */
+export async function loadTeamAssignments(teamId: string): Promise<TeamAssignment[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('team_assignments')
+    .select('*')
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []).map(toTeamAssignment)
+}
+
+/**
+ * Give `userId` their own copy of an assigned path
+ * Returns false if they already have one
+ */
+async function copyAssignment(assignment: TeamAssignment, userId: string): Promise<boolean> {
+  try {
+    await insertLearningPathDraft(
+      createServiceClient(),
+      userId,
+      buildPathFromTemplate(assignment),
+      { team_assignment_id: assignment.id }
+    )
+    return true
+  } catch (error) {
+    if ((error as { code?: string }).code === UNIQUE_VIOLATION) return false
+    throw error
+  }
+}
+
+/**
+ * Assign a path to a team: a snapshot of it is copied to every member (role
+ * 'member'), and to members who join later. Later edits of the path aren't
+ * passed on - assign it again for that
+ */
+export async function assignTeamPath(
+  teamId: string,
+  assignedBy: string,
+  path: LearningPath
+): Promise<{ assignment: TeamAssignment; assignedTo: number }> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('team_assignments')
+    .insert({
+      team_id: teamId,
+      source_path_id: path.id,
+      assigned_by: assignedBy,
+      title: path.title,
+      description: path.description,
+      content: templateContentFromPath(path),
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  const assignment = toTeamAssignment(data)
+  const members = (await loadTeamMembers(teamId)).filter(member => member.role === 'member')
+
+  let assignedTo = 0
+  for (const member of members) {
+    if (await copyAssignment(assignment, member.user_id)) assignedTo++
+  }
+
+  return { assignment, assignedTo }
+}
+
+/**
+ * The team's progress dashboard (see lib/teams/progress.ts)
+ */
+export async function loadTeamProgress(teamId: string): Promise<TeamProgress> {
+  const [members, assignments] = await Promise.all([
+    loadTeamMembers(teamId),
+    loadTeamAssignments(teamId),
+  ])
+  if (!assignments.length) return buildTeamProgress(members, [], [])
+
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('learning_paths')
+    .select(LEARNING_PATH_SELECT)
+    .in(
+      'team_assignment_id',
+      assignments.map(assignment => assignment.id)
+    )
+
+  if (error) throw error
+  return buildTeamProgress(members, assignments, (data || []).map(toLearningPath))
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { isTimeZone } from '@/lib/activity/streaks'
+import { parseTimeCommitment } from '@/lib/paths/schedule'
 
 /**
  * Zod validation schemas
@@ -148,18 +150,79 @@ export const aiPromptSchema = z.object({
     .trim()
     .optional(),
   experienceLevel: experienceLevelEnum,
+  /** Weekly time budget ("5 hours a week"), used to schedule paths made from the suggestions */
+  timeCommitment: z
+    .string()
+    .max(100, 'Time commitment is too long (max 100 characters)')
+    .trim()
+    .refine(value => value === '' || parseTimeCommitment(value) !== null, {
+      message: "Please give your time commitment like '5 hours a week' or '30 minutes a day'",
+    })
+    .optional(),
 })
 
 export type AiPromptInput = z.infer<typeof aiPromptSchema>
 
 /**
- * Single suggestion schema
- * Validates the structure of AI-generated suggestions
+ * AI suggestion providers
+ * - openai: OpenAI API
+ * - local: OpenAI-compatible local endpoint
+ * - template: deterministic offline provider (no network or API key)
+ */
+export const suggestionProviderEnum = z.enum(['openai', 'local', 'template'])
+
+export type SuggestionProviderName = z.infer<typeof suggestionProviderEnum>
+
+/**
+ * Profile suggestions request schema
+ * The AI prompt input plus per-request options that are not stored with the suggestions
+ */
+export const suggestionsRequestSchema = aiPromptSchema.extend({
+  provider: suggestionProviderEnum.optional(),
+  /** 'bypass' skips the suggestion cache lookup and refreshes the cached entry */
+  cache: z.enum(['default', 'bypass']).optional(),
+})
+
+export type SuggestionsRequestInput = z.infer<typeof suggestionsRequestSchema>
+
+/**
+ * Regenerate suggestion request schema
+ * Replaces one suggestion in an existing profile_suggestions row
+ */
+export const regenerateSuggestionSchema = z.object({
+  suggestionId: z.string().min(1, 'Suggestion ID is required'),
+  feedback: z.string().max(500, 'Feedback is too long (max 500 characters)').trim().optional(),
+  provider: suggestionProviderEnum.optional(),
+})
+
+export type RegenerateSuggestionInput = z.infer<typeof regenerateSuggestionSchema>
+
+/**
+ * Refine suggestions request schema
+ * One conversation turn on an existing profile_suggestions row
+ */
+export const refineSuggestionsSchema = z.object({
+  message: z
+    .string()
+    .trim()
+    .min(1, 'Message is required')
+    .max(500, 'Message is too long (max 500 characters)'),
+  provider: suggestionProviderEnum.optional(),
+})
+
+export type RefineSuggestionsInput = z.infer<typeof refineSuggestionsSchema>
+
+/**
+ * Single AI suggestion schema
+ * Validates the structure of AI-generated suggestions (what the model returns)
+ * Stored suggestions use storedSuggestionSchema below
  */
 export const suggestionSchema = z.object({
   title: z.string().min(1, 'Title is required'),
   reason: z.string().min(1, 'Reason is required'),
   action: z.string().min(1, 'Action is required'),
+  /** Titles of other suggestions in the same response to do first - dropped if malformed */
+  prerequisites: z.array(z.string()).max(10).optional().catch(undefined),
 })
 
 /**
@@ -170,9 +233,60 @@ export const aiResponseSchema = z.object({
   suggestions: z.array(suggestionSchema).min(1).max(10),
 })
 
-export type Suggestion = z.infer<typeof suggestionSchema>
+export type AiSuggestion = z.infer<typeof suggestionSchema>
 export type AiResponse = z.infer<typeof aiResponseSchema>
 
+// ============================================================================
+// Stored Suggestion Schemas
+// ============================================================================
+
+/**
+ * Current version of the stored suggestion shape
+ * Bump this and extend upcastSuggestion() (lib/suggestions/model.ts)
+ * whenever the shape changes
+ */
+export const SUGGESTION_SCHEMA_VERSION = 2
+
+/**
+ * Learning resource types
+ */
+export const suggestionTypeEnum = z.enum([
+  'course',
+  'article',
+  'video',
+  'book',
+  'project',
+  'tutorial',
+  'other',
+])
+
+/**
+ * Stored suggestion schema (canonical)
+ * The single shape for items in profile_suggestions.suggestions
+ * An AI suggestion plus a stable id and optional resource details
+ *
+ * Version history:
+ * - 0: AI output only ({ title, reason, action }), no id
+ * - 1: Resource shape ({ id, title, description, type, url, ... }), no reason/action
+ * - 2: Current - AI fields + id + optional resource fields
+ */
+export const storedSuggestionSchema = suggestionSchema.extend({
+  schemaVersion: z.literal(SUGGESTION_SCHEMA_VERSION),
+  id: z.string().min(1),
+  type: suggestionTypeEnum.optional(),
+  url: z.url().optional(),
+  duration: z.string().optional(),
+  difficulty: experienceLevelEnum.optional(),
+  tags: z.array(z.string()).optional(),
+  /** Who offers the resource (e.g. "freeCodeCamp") - not the AI provider */
+  provider: z.string().optional(),
+  /** Ids of other suggestions in the same set to do first - never forms a cycle */
+  prerequisites: z.array(z.string()).optional(),
+})
+
+export type Suggestion = z.infer<typeof storedSuggestionSchema>
+export type SuggestionType = z.infer<typeof suggestionTypeEnum>
+
 // ============================================================================
 // Suggestion Management Schemas
 // ============================================================================
@@ -193,16 +307,283 @@ export const rateSuggestionsSchema = z.object({
   rating: z.number().int().min(1, 'Rating must be at least 1').max(5, 'Rating must be at most 5'),
 })
 
+/**
+ * Progress states of a suggestion (suggestion_progress.status)
+ */
+export const progressStatusEnum = z.enum([
+  'not_started',
+  'in_progress',
+  'blocked',
+  'completed',
+  'skipped',
+])
+
+/**
+ * Update progress on a suggestion
+ * minutesSpent is added to the time already spent
+ */
+export const updateSuggestionProgressSchema = z.object({
+  suggestionId: z.string().min(1, 'Suggestion ID is required'),
+  status: progressStatusEnum.optional(),
+  minutesSpent: z
+    .number()
+    .int()
+    .min(0, 'Time spent cannot be negative')
+    .max(24 * 60, 'Log at most a day at a time')
+    .optional(),
+  notes: z.string().max(2000, 'Notes are too long (max 2000 characters)').optional(),
+})
+
 export type CompleteSuggestionInput = z.infer<typeof completeSuggestionSchema>
 export type RateSuggestionsInput = z.infer<typeof rateSuggestionsSchema>
+export type ProgressStatus = z.infer<typeof progressStatusEnum>
+export type UpdateSuggestionProgressInput = z.infer<typeof updateSuggestionProgressSchema>
+
+// ============================================================================
+// Learning Path Schemas
+// ============================================================================
+
+/**
+ * Set the prerequisites of one path step
+ * Replaces the step's prerequisites - an empty list removes them all
+ */
+export const setStepPrerequisitesSchema = z.object({
+  stepId: z.uuid('Invalid step ID'),
+  prerequisiteIds: z
+    .array(z.uuid('Invalid step ID'))
+    .max(50, 'Too many prerequisites (max 50)')
+    .refine(ids => new Set(ids).size === ids.length, 'Prerequisites must be unique'),
+})
+
+export type SetStepPrerequisitesInput = z.infer<typeof setStepPrerequisitesSchema>
+
+/**
+ * Set the weekly hours budget of a path's schedule
+ * null goes back to the time commitment of the suggestion set it came from
+ */
+export const updatePathScheduleSchema = z.object({
+  weeklyHours: z
+    .number()
+    .min(0.25, 'Weekly hours must be at least 0.25')
+    .max(168, 'There are only 168 hours in a week')
+    .nullable(),
+})
+
+export type UpdatePathScheduleInput = z.infer<typeof updatePathScheduleSchema>
+
+/**
+ * Complete or reopen a path step, optionally logging time spent on it
+ */
+export const updatePathStepProgressSchema = z.object({
+  completed: z.boolean(),
+  minutesSpent: z
+    .number()
+    .int()
+    .min(0, 'Time spent cannot be negative')
+    .max(24 * 60, 'Log at most a day at a time')
+    .optional(),
+})
+
+export type UpdatePathStepProgressInput = z.infer<typeof updatePathStepProgressSchema>
+
+// ============================================================================
+// Path Template Schemas
+// ============================================================================
+
+/**
+ * One step of a template (path_templates.content)
+ * `key` identifies the step across template versions and in forks
+ */
+export const pathTemplateStepSchema = z.object({
+  key: z.string().min(1),
+  title: z.string().min(1).max(200),
+  reason: z.string().nullable(),
+  action: z.string().nullable(),
+  type: suggestionTypeEnum.nullable().catch(null),
+  url: z.string().nullable(),
+  duration: z.string().nullable(),
+})
+
+/**
+ * Snapshot of a path stored in path_templates.content
+ * Prerequisites are between step keys
+ */
+export const pathTemplateContentSchema = z.object({
+  milestones: z.array(
+    z.object({
+      title: z.string().min(1),
+      description: z.string().nullable(),
+      steps: z.array(pathTemplateStepSchema),
+    })
+  ),
+  prerequisites: z.array(z.object({ stepId: z.string(), prerequisiteId: z.string() })),
+})
+
+export type PathTemplateStep = z.infer<typeof pathTemplateStepSchema>
+export type PathTemplateContent = z.infer<typeof pathTemplateContentSchema>
+
+/**
+ * Publish one of your paths as a template, or publish it again to update the template
+ * Only admins can feature a template
+ */
+export const publishTemplateSchema = z.object({
+  pathId: z.uuid('Invalid path ID'),
+  description: z.string().max(1000, 'Description is too long (max 1000 characters)').optional(),
+  featured: z.boolean().optional(),
+})
+
+/**
+ * Feature or unfeature a template (admins only)
+ */
+export const updateTemplateSchema = z.object({
+  featured: z.boolean(),
+})
+
+/**
+ * Fork a template into a new path of your own
+ */
+export const forkTemplateSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Title is required')
+    .max(200, 'Title is too long (max 200 characters)')
+    .optional(),
+})
+
+/**
+ * Fork a template, with its steps personalized by the AI for this input
+ */
+export const personalizeTemplateSchema = aiPromptSchema.extend({
+  title: forkTemplateSchema.shape.title,
+  provider: suggestionProviderEnum.optional(),
+})
+
+export type PublishTemplateInput = z.infer<typeof publishTemplateSchema>
+export type UpdateTemplateInput = z.infer<typeof updateTemplateSchema>
+export type ForkTemplateInput = z.infer<typeof forkTemplateSchema>
+export type PersonalizeTemplateInput = z.infer<typeof personalizeTemplateSchema>
+
+// ============================================================================
+// Activity Schemas
+// ============================================================================
+
+/**
+ * IANA time zone the user's days are counted in (streaks, heatmap)
+ */
+export const timeZoneSchema = z.string().refine(isTimeZone, 'Unknown time zone').default('UTC')
+
+/**
+ * Add or remove a streak freeze day (YYYY-MM-DD in the user's time zone)
+ */
+export const freezeDaySchema = z.object({
+  day: z.iso.date('Invalid day (use YYYY-MM-DD)'),
+  timeZone: timeZoneSchema,
+})
+
+export type FreezeDayInput = z.infer<typeof freezeDaySchema>
+
+// ============================================================================
+// Review Schemas
+// ============================================================================
+
+/**
+ * Grade a due review: how well the topic was recalled, 0 (blackout) to 5 (perfect)
+ */
+export const gradeReviewSchema = z.object({
+  grade: z
+    .number()
+    .int('Grade must be a whole number')
+    .min(0, 'Grade must be at least 0')
+    .max(5, 'Grade must be at most 5'),
+  timeZone: timeZoneSchema,
+})
+
+export type GradeReviewInput = z.infer<typeof gradeReviewSchema>
+
+// ============================================================================
+// Team Schemas
+// ============================================================================
+
+/**
+ * Roles in a team - a team has exactly one owner
+ */
+export const teamRoleEnum = z.enum(['owner', 'admin', 'member'])
+
+/**
+ * Roles that can be given to someone - ownership can't be handed out
+ */
+export const assignableTeamRoleEnum = teamRoleEnum.exclude(['owner'])
+
+export const createTeamSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Team name is required')
+    .max(100, 'Team name is too long (max 100 characters)'),
+  description: z.string().max(1000, 'Description is too long (max 1000 characters)').optional(),
+})
+
+export const updateTeamSchema = createTeamSchema.partial()
+
+/**
+ * Change a member's role (owners only)
+ */
+export const updateTeamMemberSchema = z.object({
+  role: assignableTeamRoleEnum,
+})
+
+/**
+ * Invite someone to a team by email
+ */
+export const createTeamInvitationSchema = z.object({
+  email: emailSchema,
+  role: assignableTeamRoleEnum.default('member'),
+})
+
+/**
+ * Accept an invitation with the token from its link
+ */
+export const acceptTeamInvitationSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+})
+
+/**
+ * Assign one of your paths to every member of a team
+ */
+export const assignTeamPathSchema = z.object({
+  pathId: z.uuid('Invalid path ID'),
+})
+
+export type TeamRole = z.infer<typeof teamRoleEnum>
+export type CreateTeamInput = z.infer<typeof createTeamSchema>
+export type UpdateTeamInput = z.infer<typeof updateTeamSchema>
+export type UpdateTeamMemberInput = z.infer<typeof updateTeamMemberSchema>
+export type CreateTeamInvitationInput = z.infer<typeof createTeamInvitationSchema>
+export type AcceptTeamInvitationInput = z.infer<typeof acceptTeamInvitationSchema>
+export type AssignTeamPathInput = z.infer<typeof assignTeamPathSchema>
 
 // ============================================================================
 // Utility Functions
 // ============================================================================
 
+/**
+ * Error thrown by validate() when data does not match a schema
+ * Lets API routes tell bad input (400) apart from other failures
+ */
+export class ValidationError extends Error {
+  issues: z.ZodError['issues']
+
+  constructor(message: string, issues: z.ZodError['issues']) {
+    super(message)
+    this.name = 'ValidationError'
+    this.issues = issues
+  }
+}
+
 /**
  * Validate data against a schema and return typed result
- * Throws error with clear message if validation fails
+ * Throws ValidationError with clear message if validation fails
  *
  * Usage:
  *   const validated = validate(loginSchema, formData)
@@ -212,7 +593,7 @@ export function validate<T>(schema: z.ZodSchema<T>, data: unknown): T {
 
   if (!result.success) {
     const errors = result.error.issues.map(err => `${err.path.join('.')}: ${err.message}`)
-    throw new Error(`Validation failed: ${errors.join(', ')}`)
+    throw new ValidationError(`Validation failed: ${errors.join(', ')}`, result.error.issues)
   }
 
   return result.data
@@ -0,0 +1,133 @@
+import { existsSync } from 'node:fs'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  createRecordedProvider,
+  evalFixtureSchema,
+  evalRecordingSchema,
+  formatEvalMarkdown,
+  runEval,
+  type EvalFixture,
+} from '@/lib/ai/eval'
+import { listPromptTemplates, promptId, type PromptTemplate } from '@/lib/ai/prompts'
+import { getSuggestionProvider } from '@/lib/ai/providers'
+import { suggestionProviderEnum } from '@/lib/validation/schemas'
+
+/**
+ * Suggestion quality eval
+ *
+ * Scores every prompt version against eval/fixtures/profile-suggestions.json
+ * and writes eval/reports/<prompt>@<version>.{json,md}. Commit the reports
+ * with prompt or model changes so reviewers can see the difference.
+ *
+ * Usage:
+ *   npm run eval                                   # all versions, offline
+ *   npm run eval -- --prompt v2                    # a single version
+ *   npm run eval -- --record --provider openai     # call the provider and save new recordings
+ *   npm run eval -- --min-score 0.8                # exit 1 if any version scores lower
+ *
+ * Workflow:
+ * 1. Change a prompt, then record its responses with
+ *    `--record --provider openai --prompt <version>`. Recording needs the
+ *    provider's environment variables - they are read from .env.local when
+ *    it exists (see .env.example)
+ * 2. Commit eval/recordings/ and eval/reports/ with the change
+ * 3. Plain `npm run eval` replays the recordings, so anyone can rescore
+ *    without network access or an API key
+ *
+ * Without --provider, a version that has no recording yet is scored with
+ * the template provider instead, so the eval always runs offline. That
+ * checks the pipeline, not the prompt: template output ignores the prompt,
+ * and its reports say "Provider: template" - don't commit them as a
+ * version's score. --record without --provider uses AI_PROVIDER (default openai).
+ */
+
+const ROOT = path.join(process.cwd(), 'eval')
+const FIXTURES = path.join(ROOT, 'fixtures', 'profile-suggestions.json')
+
+const recordingPath = (template: PromptTemplate<'profile-suggestions'>) =>
+  path.join(ROOT, 'recordings', `${promptId(template)}.json`)
+
+async function readJson(file: string): Promise<unknown> {
+  return JSON.parse(await readFile(file, 'utf8'))
+}
+
+async function writeJson(file: string, value: unknown) {
+  await mkdir(path.dirname(file), { recursive: true })
+  await writeFile(file, `${JSON.stringify(value, null, 2)}\n`)
+}
+
+async function main() {
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local')
+
+  const { values } = parseArgs({
+    options: {
+      prompt: { type: 'string' },
+      provider: { type: 'string' },
+      record: { type: 'boolean', default: false },
+      'min-score': { type: 'string' },
+    },
+  })
+
+  const fixtures: EvalFixture[] = evalFixtureSchema.array().parse(await readJson(FIXTURES))
+  const templates = listPromptTemplates('profile-suggestions').filter(
+    t => !values.prompt || t.version === values.prompt
+  )
+  if (templates.length === 0) {
+    throw new Error(`Unknown prompt version: ${values.prompt}`)
+  }
+
+  // Recording needs a real provider; otherwise replay unless one is given
+  const providerName =
+    values.provider ?? (values.record ? (process.env.AI_PROVIDER ?? 'openai') : undefined)
+  const minScore = values['min-score'] === undefined ? undefined : Number(values['min-score'])
+  let belowMinimum = false
+
+  for (const template of templates) {
+    const recorded = existsSync(recordingPath(template))
+    if (!providerName && !recorded) {
+      console.log(
+        `${promptId(template)}: no recording yet, scoring the template provider (record one with --record --provider openai)`
+      )
+    }
+
+    const provider = providerName
+      ? getSuggestionProvider(suggestionProviderEnum.parse(providerName))
+      : recorded
+        ? createRecordedProvider(
+            evalRecordingSchema.parse(await readJson(recordingPath(template))),
+            fixtures
+          )
+        : getSuggestionProvider('template')
+
+    const { report, responses } = await runEval({ fixtures, template, provider })
+
+    if (values.record) {
+      await writeJson(recordingPath(template), {
+        prompt: promptId(template),
+        model: report.model,
+        responses,
+      })
+    }
+
+    const reportPath = path.join(ROOT, 'reports', promptId(template))
+    await writeJson(`${reportPath}.json`, report)
+    await writeFile(`${reportPath}.md`, formatEvalMarkdown(report))
+
+    console.log(
+      `${report.prompt}: score ${report.summary.score} over ${report.summary.cases} cases (${provider.name}, ${report.model})`
+    )
+    if (minScore !== undefined && report.summary.score < minScore) belowMinimum = true
+  }
+
+  if (belowMinimum) {
+    console.error(`At least one prompt version scored below ${minScore}`)
+    process.exitCode = 1
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
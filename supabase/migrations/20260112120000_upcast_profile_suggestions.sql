@@ -0,0 +1,119 @@
+-- Upcast stored suggestions to the canonical shape (schemaVersion 2)
+--
+-- Older rows hold either AI output ({ title, reason, action } without an id)
+-- or resource objects ({ id, title, description, type, url, ... } without
+-- reason/action). This rewrites every item using the same rules as
+-- upcastSuggestion() in lib/suggestions/model.ts, including the fallback id
+-- '<row id>:<index>', so rows read before and after the migration agree.
+--
+-- Items with the current schemaVersion (2) are left untouched - safe to re-run.
+-- lib/suggestions/__tests__/upcast-migration.test.ts runs a shared fixture
+-- (lib/suggestions/__fixtures__) through this migration and upcastSuggestions()
+-- and expects the same result.
+
+-- Trimmed string, or null for other JSON types and blank strings (text() in model.ts)
+-- Trims the same whitespace as String.prototype.trim(), not just spaces
+create or replace function pg_temp.text_value(value jsonb)
+returns text as $$
+  select case when jsonb_typeof(value) = 'string' then nullif(btrim(
+    value #>> '{}',
+    E' \t\n\r\f\u000b\u00a0\u1680\u2000\u2001\u2002\u2003\u2004\u2005\u2006\u2007\u2008\u2009\u200a\u2028\u2029\u202f\u205f\u3000\ufeff'
+  ), '') end;
+$$ language sql immutable;
+
+-- An http(s) link with a real hostname (link() in model.ts)
+create or replace function pg_temp.link_value(value jsonb)
+returns text as $$
+  select url
+  from (select pg_temp.text_value(value) as url) as t
+  where url ~* '^https?://([a-z0-9-]+\.)+[a-z]{2,}([/?#][!-~]*)?$';
+$$ language sql immutable;
+
+create or replace function pg_temp.upcast_suggestion(item jsonb, fallback_id text)
+returns jsonb as $$
+  select case
+    when item->'schemaVersion' = '2'::jsonb then item
+    else jsonb_strip_nulls(jsonb_build_object(
+      'schemaVersion', 2,
+      'id', coalesce(pg_temp.text_value(item->'id'), fallback_id),
+      'title', pg_temp.text_value(item->'title'),
+      'reason', coalesce(
+        pg_temp.text_value(item->'reason'),
+        pg_temp.text_value(item->'description'),
+        pg_temp.text_value(item->'title')
+      ),
+      'action', coalesce(
+        pg_temp.text_value(item->'action'),
+        'Start here: ' || pg_temp.link_value(item->'url'),
+        'Spend an hour on: ' || pg_temp.text_value(item->'title')
+      ),
+      'type', case
+        when item->>'type' in ('course', 'article', 'video', 'book', 'project', 'tutorial', 'other')
+        then item->'type'
+      end,
+      'url', pg_temp.link_value(item->'url'),
+      'duration', pg_temp.text_value(item->'duration'),
+      'difficulty', case
+        when item->>'difficulty' in ('beginner', 'intermediate', 'advanced') then item->'difficulty'
+      end,
+      'tags', case when jsonb_typeof(item->'tags') = 'array' then (
+        select coalesce(jsonb_agg(tag), '[]'::jsonb)
+        from jsonb_array_elements(item->'tags') as tag
+        where jsonb_typeof(tag) = 'string'
+      ) end,
+      'provider', pg_temp.text_value(item->'provider')
+    ))
+  end;
+$$ language sql immutable;
+
+-- Rewrite suggestions (a bare array, or a whole { suggestions: [...] } AI response)
+update public.profile_suggestions ps
+set suggestions = (
+  select coalesce(
+    jsonb_agg(pg_temp.upcast_suggestion(s.item, ps.id::text || ':' || (s.ord - 1)) order by s.ord),
+    '[]'::jsonb
+  )
+  from jsonb_array_elements(
+    case
+      when jsonb_typeof(ps.suggestions) = 'array' then ps.suggestions
+      when jsonb_typeof(ps.suggestions->'suggestions') = 'array' then ps.suggestions->'suggestions'
+      else '[]'::jsonb
+    end
+  ) with ordinality as s(item, ord)
+  where jsonb_typeof(s.item) = 'object'
+    and (s.item->'schemaVersion' = '2'::jsonb or pg_temp.text_value(s.item->'title') is not null)
+);
+
+-- Completions stored as plain titles become { suggestionId, completedAt }
+update public.profile_suggestions ps
+set completed_suggestions = (
+  select coalesce(jsonb_agg(
+    case
+      when jsonb_typeof(c.entry) = 'string' then jsonb_build_object(
+        'suggestionId', coalesce(
+          (
+            select s->>'id'
+            from jsonb_array_elements(ps.suggestions) as s
+            where lower(s->>'title') = lower(c.entry #>> '{}')
+            limit 1
+          ),
+          c.entry #>> '{}'
+        ),
+        'completedAt', to_jsonb(ps.created_at)
+      )
+      else c.entry
+    end
+    order by c.ord
+  ), '[]'::jsonb)
+  from jsonb_array_elements(ps.completed_suggestions) with ordinality as c(entry, ord)
+)
+where jsonb_typeof(ps.completed_suggestions) = 'array'
+  and exists (
+    select 1
+    from jsonb_array_elements(ps.completed_suggestions) as c
+    where jsonb_typeof(c) = 'string'
+  );
+
+-- Keep column comments in line with the stored shapes
+comment on column public.profile_suggestions.suggestions is 'Array of suggestion objects (schemaVersion 2): id, title, reason, action and optional resource details';
+comment on column public.profile_suggestions.completed_suggestions is 'Array of { suggestionId, completedAt, notes? } referencing suggestion ids in this row';
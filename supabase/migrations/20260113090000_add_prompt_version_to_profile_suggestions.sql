@@ -0,0 +1,27 @@
+-- Track which prompt template produced each suggestion set
+alter table public.profile_suggestions
+  add column prompt_version text;
+
+-- Create indexes for comparing prompt versions
+create index profile_suggestions_prompt_version_idx on public.profile_suggestions(prompt_version);
+
+-- Create a view to A/B compare prompt versions against user ratings
+-- security_invoker: callers only see rows their own RLS policies allow,
+-- so use the service role for the full picture
+create or replace view public.profile_suggestion_prompt_stats
+with (security_invoker = true) as
+  select
+    prompt_version,
+    count(*) as total_sets,
+    count(rating) as rated_sets,
+    round(avg(rating)::numeric, 2) as average_rating,
+    count(*) filter (where viewed_at is not null) as viewed_sets
+  from public.profile_suggestions
+  group by prompt_version;
+
+-- Grant permissions
+revoke all on public.profile_suggestion_prompt_stats from anon, authenticated;
+
+-- Add helpful comments
+comment on column public.profile_suggestions.prompt_version is 'Prompt template id that generated these suggestions (e.g. profile-suggestions@v1); null for rows created before versioning';
+comment on view public.profile_suggestion_prompt_stats is 'Suggestion sets and average rating per prompt version, for A/B comparison';
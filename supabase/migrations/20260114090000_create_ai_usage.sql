@@ -0,0 +1,45 @@
+create table public.ai_usage (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+
+  -- What made the call (e.g. profile-suggestions) and with which model
+  feature text not null,
+  provider text not null,
+  model text not null,
+
+  -- How the call ended: succeeded, failed, or failed and was retried (see lib/ai/resilience.ts)
+  status text not null default 'succeeded' check (status in ('succeeded', 'failed', 'retried')),
+
+  -- Token counts reported by the provider, or estimated from text length
+  prompt_tokens integer not null default 0 check (prompt_tokens >= 0),
+  completion_tokens integer not null default 0 check (completion_tokens >= 0),
+  usage_estimated boolean not null default false,
+
+  -- Estimated cost in USD at the time of the call (see lib/ai/usage.ts)
+  estimated_cost numeric(12, 6) not null default 0,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Enable Row Level Security
+alter table public.ai_usage enable row level security;
+
+-- Create policies
+-- Users can view their own usage
+-- Usage is written by API routes with the service role, so there is no insert policy
+create policy "Users can view own ai usage"
+  on public.ai_usage
+  for select
+  using ((select auth.uid()) = user_id);
+
+-- Create indexes for quota checks (usage per user since a point in time)
+create index ai_usage_user_id_created_at_idx on public.ai_usage(user_id, created_at desc);
+
+-- Grant permissions
+grant select on public.ai_usage to authenticated;
+
+-- Add helpful comments
+comment on table public.ai_usage is 'One row per LLM call, for cost tracking and per-user quotas';
+comment on column public.ai_usage.status is 'succeeded, failed, or retried (a failed attempt that was tried again). Only succeeded calls count towards quotas';
+comment on column public.ai_usage.usage_estimated is 'True when the provider did not report token counts (e.g. streaming) and they were estimated from text length';
+comment on column public.ai_usage.estimated_cost is 'Estimated cost in USD, from the model price table in lib/ai/usage.ts';
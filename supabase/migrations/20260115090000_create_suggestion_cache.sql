@@ -0,0 +1,77 @@
+-- Cache of AI suggestions for similar inputs (see lib/ai/cache.ts)
+-- Only accessed by API routes with the service role
+create table public.suggestion_cache (
+  -- Hash of the normalized input, prompt version, provider and model
+  key text primary key,
+
+  prompt_version text not null,
+  provider text not null,
+  model text not null,
+  experience_level text not null,
+
+  -- User the entry was last generated for - similarity hits only reuse their own entries
+  user_id uuid references auth.users(id) on delete cascade not null,
+
+  -- Normalized aiPromptSchema input the entry was generated from
+  normalized_input jsonb not null,
+
+  -- Embedding of the normalized input, only set when similarity lookup is enabled
+  embedding double precision[],
+
+  -- Parsed AI suggestions ({ title, reason, action }, without ids)
+  suggestions jsonb not null,
+
+  -- Tracking fields
+  hit_count integer not null default 0,
+  last_hit_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  expires_at timestamp with time zone not null
+);
+
+-- One row per cache lookup, for hit/miss metrics
+create table public.suggestion_cache_events (
+  id uuid primary key default uuid_generate_v4(),
+  status text not null check (status in ('hit', 'similar', 'miss', 'bypass')),
+  prompt_version text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Enable Row Level Security (no policies - service role only)
+alter table public.suggestion_cache enable row level security;
+alter table public.suggestion_cache_events enable row level security;
+
+-- Create indexes for similarity candidates and expiry cleanup
+create index suggestion_cache_scope_idx
+  on public.suggestion_cache(user_id, prompt_version, provider, model, experience_level, expires_at desc);
+create index suggestion_cache_events_created_at_idx on public.suggestion_cache_events(created_at desc);
+
+-- Create a view with daily hit rates per prompt version
+create or replace view public.suggestion_cache_stats
+with (security_invoker = true) as
+  select
+    date_trunc('day', created_at) as day,
+    prompt_version,
+    count(*) as lookups,
+    count(*) filter (where status = 'hit') as hits,
+    count(*) filter (where status = 'similar') as similar_hits,
+    count(*) filter (where status = 'miss') as misses,
+    count(*) filter (where status = 'bypass') as bypasses,
+    round(
+      count(*) filter (where status in ('hit', 'similar'))::numeric
+        / nullif(count(*) filter (where status <> 'bypass'), 0),
+      3
+    ) as hit_rate
+  from public.suggestion_cache_events
+  group by 1, 2;
+
+-- Grant permissions
+revoke all on public.suggestion_cache from anon, authenticated;
+revoke all on public.suggestion_cache_events from anon, authenticated;
+revoke all on public.suggestion_cache_stats from anon, authenticated;
+
+-- Add helpful comments
+comment on table public.suggestion_cache is 'AI suggestions cached by normalized input, prompt version, provider and model';
+comment on column public.suggestion_cache.user_id is 'Similarity hits are limited to the same user, since reasons can mention details from their input';
+comment on column public.suggestion_cache.expires_at is 'Entries are ignored after this; expired rows are replaced on the next miss for the same key';
+comment on table public.suggestion_cache_events is 'One row per suggestion cache lookup (hit, similar, miss or bypass)';
+comment on view public.suggestion_cache_stats is 'Daily suggestion cache hit rate per prompt version (bypassed lookups excluded)';
@@ -0,0 +1,6 @@
+-- Audit trail for suggestions replaced through POST /api/profile/suggestions/[id]/regenerate
+alter table public.profile_suggestions
+  add column replaced_suggestions jsonb not null default '[]'::jsonb;
+
+-- Add helpful comments
+comment on column public.profile_suggestions.replaced_suggestions is 'Array of { suggestion, replacedBy, replacedAt, feedback? } for suggestions replaced by regeneration, oldest first';
@@ -0,0 +1,43 @@
+-- Conversational refinement of a suggestion set ("make these more backend-focused")
+-- Each turn is the user's message and the suggestion set the model answered with.
+-- The profile_suggestions row keeps the original set; the latest turn is the current one.
+create table public.suggestion_refinements (
+  id uuid primary key default uuid_generate_v4(),
+  profile_suggestion_id uuid references public.profile_suggestions(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+
+  -- 1 for the first refinement of a set, then 2, 3, ...
+  turn integer not null check (turn > 0),
+  message text not null check (char_length(message) between 1 and 500),
+
+  -- Stored suggestions (same shape as profile_suggestions.suggestions)
+  suggestions jsonb not null,
+  prompt_version text,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  unique (profile_suggestion_id, turn)
+);
+
+-- Enable Row Level Security
+alter table public.suggestion_refinements enable row level security;
+
+-- Create policies
+-- Users can view the refinements of their own suggestion sets
+-- Turns are written by API routes with the service role, so there is no insert policy
+create policy "Users can view own suggestion refinements"
+  on public.suggestion_refinements
+  for select
+  using ((select auth.uid()) = user_id);
+
+-- Create indexes
+-- The unique constraint covers loading a conversation in turn order
+create index suggestion_refinements_user_id_idx on public.suggestion_refinements(user_id);
+
+-- Grant permissions
+grant select on public.suggestion_refinements to authenticated;
+
+-- Add helpful comments
+comment on table public.suggestion_refinements is 'Conversation turns refining a profile_suggestions set, one new suggestion set per turn';
+comment on column public.suggestion_refinements.turn is 'Position in the conversation, starting at 1 - unique per suggestion set';
+comment on column public.suggestion_refinements.suggestions is 'Array of stored suggestions produced by this turn (see storedSuggestionSchema)';
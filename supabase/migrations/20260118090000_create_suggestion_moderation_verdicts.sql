@@ -0,0 +1,40 @@
+-- Moderation verdicts for AI suggestions that were rewritten or rejected
+-- before being stored (see lib/ai/moderation.ts). Allowed suggestions are not recorded.
+create table public.suggestion_moderation_verdicts (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  -- The set the moderated suggestions were generated for; null if it was never stored
+  profile_suggestion_id uuid references public.profile_suggestions(id) on delete set null,
+
+  -- Which AI feature produced the suggestion (same values as ai_usage.feature)
+  feature text not null,
+  outcome text not null check (outcome in ('rewritten', 'rejected')),
+  reasons text[] not null default '{}',
+
+  -- The suggestion as the model returned it, and as it was stored (null when rejected)
+  original jsonb not null,
+  result jsonb,
+
+  -- Set once someone has looked at the verdict
+  reviewed_at timestamp with time zone,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Enable Row Level Security
+alter table public.suggestion_moderation_verdicts enable row level security;
+
+-- Create policies
+-- None: verdicts are written by API routes and reviewed with the service role
+
+-- Create indexes for the review queue (unreviewed verdicts, newest first)
+create index suggestion_moderation_verdicts_unreviewed_idx
+  on public.suggestion_moderation_verdicts(created_at desc)
+  where reviewed_at is null;
+create index suggestion_moderation_verdicts_profile_suggestion_id_idx
+  on public.suggestion_moderation_verdicts(profile_suggestion_id);
+
+-- Add helpful comments
+comment on table public.suggestion_moderation_verdicts is 'AI suggestions rewritten or rejected by output moderation, kept for review';
+comment on column public.suggestion_moderation_verdicts.reasons is 'disallowed-content, malformed-url, url-not-allowed, action-too-long and/or empty-after-rewrite';
+comment on column public.suggestion_moderation_verdicts.result is 'The suggestion as stored after rewriting; null when rejected';
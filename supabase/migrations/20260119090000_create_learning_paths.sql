@@ -0,0 +1,187 @@
+-- Learning paths: an ordered, editable plan of milestones, each with ordered steps
+-- A path can be created from scratch or promoted from a profile_suggestions set,
+-- in which case each suggestion becomes a step.
+-- Milestones and steps carry user_id too, so their policies don't need a join to read.
+create table public.learning_paths (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+
+  title text not null check (char_length(title) between 1 and 200),
+  description text,
+
+  -- The suggestion set this path was promoted from, if any
+  source_profile_suggestion_id uuid references public.profile_suggestions(id) on delete set null,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table public.path_milestones (
+  id uuid primary key default uuid_generate_v4(),
+  path_id uuid references public.learning_paths(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+
+  -- Order within the path, ascending (gaps are fine)
+  position integer not null check (position >= 0),
+  title text not null check (char_length(title) between 1 and 200),
+  description text,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table public.path_steps (
+  id uuid primary key default uuid_generate_v4(),
+  milestone_id uuid references public.path_milestones(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+
+  -- Order within the milestone, ascending (gaps are fine)
+  position integer not null check (position >= 0),
+
+  -- Same content as a stored suggestion (see storedSuggestionSchema)
+  title text not null check (char_length(title) between 1 and 200),
+  reason text,
+  action text,
+  type text check (type in ('course', 'article', 'video', 'book', 'project', 'tutorial', 'other')),
+  url text,
+  duration text,
+
+  -- Suggestion.id this step was promoted from, if any
+  source_suggestion_id text,
+  completed_at timestamp with time zone,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Enable Row Level Security
+alter table public.learning_paths enable row level security;
+alter table public.path_milestones enable row level security;
+alter table public.path_steps enable row level security;
+
+-- Create policies
+-- Users can only see and change their own paths
+create policy "Users can view own learning paths"
+  on public.learning_paths
+  for select
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can insert own learning paths"
+  on public.learning_paths
+  for insert
+  with check ((select auth.uid()) = user_id);
+
+create policy "Users can update own learning paths"
+  on public.learning_paths
+  for update
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can delete own learning paths"
+  on public.learning_paths
+  for delete
+  using ((select auth.uid()) = user_id);
+
+-- Milestones can only be added to (or moved into) the user's own paths
+create policy "Users can view own path milestones"
+  on public.path_milestones
+  for select
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can insert own path milestones"
+  on public.path_milestones
+  for insert
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1 from public.learning_paths p
+      where p.id = path_id and p.user_id = (select auth.uid())
+    )
+  );
+
+create policy "Users can update own path milestones"
+  on public.path_milestones
+  for update
+  using ((select auth.uid()) = user_id)
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1 from public.learning_paths p
+      where p.id = path_id and p.user_id = (select auth.uid())
+    )
+  );
+
+create policy "Users can delete own path milestones"
+  on public.path_milestones
+  for delete
+  using ((select auth.uid()) = user_id);
+
+-- Steps can only be added to (or moved into) the user's own milestones
+create policy "Users can view own path steps"
+  on public.path_steps
+  for select
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can insert own path steps"
+  on public.path_steps
+  for insert
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1 from public.path_milestones m
+      where m.id = milestone_id and m.user_id = (select auth.uid())
+    )
+  );
+
+create policy "Users can update own path steps"
+  on public.path_steps
+  for update
+  using ((select auth.uid()) = user_id)
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1 from public.path_milestones m
+      where m.id = milestone_id and m.user_id = (select auth.uid())
+    )
+  );
+
+create policy "Users can delete own path steps"
+  on public.path_steps
+  for delete
+  using ((select auth.uid()) = user_id);
+
+-- Create indexes
+create index learning_paths_user_id_idx on public.learning_paths(user_id);
+create index learning_paths_updated_at_idx on public.learning_paths(updated_at desc);
+create index path_milestones_path_id_position_idx on public.path_milestones(path_id, position);
+create index path_milestones_user_id_idx on public.path_milestones(user_id);
+create index path_steps_milestone_id_position_idx on public.path_steps(milestone_id, position);
+create index path_steps_user_id_idx on public.path_steps(user_id);
+
+-- Create triggers for updated_at (handle_updated_at is defined with profiles)
+create trigger set_updated_at
+  before update on public.learning_paths
+  for each row
+  execute function public.handle_updated_at();
+
+create trigger set_updated_at
+  before update on public.path_milestones
+  for each row
+  execute function public.handle_updated_at();
+
+create trigger set_updated_at
+  before update on public.path_steps
+  for each row
+  execute function public.handle_updated_at();
+
+-- Grant permissions
+grant all on public.learning_paths to authenticated;
+grant all on public.path_milestones to authenticated;
+grant all on public.path_steps to authenticated;
+
+-- Add helpful comments
+comment on table public.learning_paths is 'User-owned learning paths made of ordered milestones and steps';
+comment on column public.learning_paths.source_profile_suggestion_id is 'Suggestion set this path was promoted from (null if created from scratch or the set was deleted)';
+comment on table public.path_milestones is 'Ordered milestones of a learning path';
+comment on column public.path_milestones.position is 'Order within the path, ascending - gaps are allowed';
+comment on table public.path_steps is 'Ordered steps of a path milestone, with the same content as a stored suggestion';
+comment on column public.path_steps.source_suggestion_id is 'Suggestion.id in the source profile_suggestions set, if promoted from one';
@@ -0,0 +1,99 @@
+-- Prerequisites between steps of a learning path ("Learn SQL" before "Learn Supabase RLS")
+-- Each row says step_id depends on prerequisite_step_id. Both steps must be in the
+-- same path, and the edges must not form a cycle - API routes validate this first
+-- (lib/paths/graph.ts), and the trigger below enforces it for every write.
+create table public.path_step_prerequisites (
+  step_id uuid references public.path_steps(id) on delete cascade not null,
+  prerequisite_step_id uuid references public.path_steps(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  primary key (step_id, prerequisite_step_id),
+  check (step_id <> prerequisite_step_id)
+);
+
+-- Enable Row Level Security
+alter table public.path_step_prerequisites enable row level security;
+
+-- Create policies
+-- Users can view and change prerequisites between their own steps
+create policy "Users can view own path step prerequisites"
+  on public.path_step_prerequisites
+  for select
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can insert own path step prerequisites"
+  on public.path_step_prerequisites
+  for insert
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1 from public.path_steps s
+      where s.id = step_id and s.user_id = (select auth.uid())
+    )
+    and exists (
+      select 1 from public.path_steps s
+      where s.id = prerequisite_step_id and s.user_id = (select auth.uid())
+    )
+  );
+
+create policy "Users can delete own path step prerequisites"
+  on public.path_step_prerequisites
+  for delete
+  using ((select auth.uid()) = user_id);
+
+-- Create indexes
+-- The primary key covers lookups by step_id
+create index path_step_prerequisites_prerequisite_step_id_idx on public.path_step_prerequisites(prerequisite_step_id);
+create index path_step_prerequisites_user_id_idx on public.path_step_prerequisites(user_id);
+
+-- Create function to reject prerequisites across paths and cycles
+create or replace function public.check_path_step_prerequisite()
+returns trigger as $$
+begin
+  if (
+    select m.path_id from public.path_steps s
+    join public.path_milestones m on m.id = s.milestone_id
+    where s.id = new.step_id
+  ) is distinct from (
+    select m.path_id from public.path_steps s
+    join public.path_milestones m on m.id = s.milestone_id
+    where s.id = new.prerequisite_step_id
+  ) then
+    raise exception 'Prerequisites must be steps of the same learning path'
+      using errcode = 'check_violation';
+  end if;
+
+  -- A cycle exists if the new step is already a (transitive) prerequisite of its prerequisite
+  if exists (
+    with recursive ancestors(id) as (
+      select new.prerequisite_step_id
+      union
+      select p.prerequisite_step_id
+      from public.path_step_prerequisites p
+      join ancestors a on p.step_id = a.id
+    )
+    select 1 from ancestors where id = new.step_id
+  ) then
+    raise exception 'This prerequisite would create a cycle'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+-- Create trigger for the checks
+create trigger check_path_step_prerequisite
+  before insert or update on public.path_step_prerequisites
+  for each row
+  execute function public.check_path_step_prerequisite();
+
+-- Grant permissions
+grant select, insert, delete on public.path_step_prerequisites to authenticated;
+
+-- Add helpful comments
+comment on table public.path_step_prerequisites is 'Dependencies between steps of one learning path - must form a DAG';
+comment on column public.path_step_prerequisites.step_id is 'The step that depends on prerequisite_step_id';
+comment on column public.path_step_prerequisites.prerequisite_step_id is 'The step to finish first';
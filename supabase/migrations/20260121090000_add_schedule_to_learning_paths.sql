@@ -0,0 +1,9 @@
+-- Scheduling a learning path against the user's time commitment (lib/paths/schedule.ts)
+-- The week-by-week plan isn't stored - it's recomputed from these columns and the steps.
+alter table public.learning_paths
+  add column weekly_hours numeric check (weekly_hours >= 0.25 and weekly_hours <= 168),
+  add column schedule_start date;
+
+-- Add helpful comments
+comment on column public.learning_paths.weekly_hours is 'Hours per week the user plans to spend on this path; null to use the timeCommitment of the source suggestion set';
+comment on column public.learning_paths.schedule_start is 'Monday of the week the current plan starts; moved to the current week when the user falls behind';
@@ -0,0 +1,19 @@
+-- Secret tokens for subscribing to a user's learning path calendar (lib/calendar/feed.ts)
+-- Calendar apps fetch the feed URL without a session, so the token in the URL is the credential.
+-- Only its SHA-256 hash is stored. One token per user: creating a new one replaces the old,
+-- and deleting the row revokes the URL.
+-- Only accessed by API routes with the service role
+create table public.calendar_feed_tokens (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  token_hash text not null unique,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  last_used_at timestamp with time zone
+);
+
+-- Enable Row Level Security (no policies - service role only)
+alter table public.calendar_feed_tokens enable row level security;
+
+-- Add helpful comments
+comment on table public.calendar_feed_tokens is 'Per-user secret for the .ics feed URL - delete the row to revoke it';
+comment on column public.calendar_feed_tokens.token_hash is 'Hex SHA-256 of the token in the feed URL';
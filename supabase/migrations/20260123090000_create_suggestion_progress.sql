@@ -0,0 +1,112 @@
+-- Progress on each suggestion of a set: one row per (set, suggestion) with its status,
+-- when it last entered each status and the time spent on it (lib/suggestions/progress.ts).
+-- Replaces profile_suggestions.completed_suggestions, which only recorded completions -
+-- existing completions are copied below and the column is no longer written.
+create table public.suggestion_progress (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  profile_suggestion_id uuid references public.profile_suggestions(id) on delete cascade not null,
+  -- Suggestion.id inside the set (legacy ids aren't uuids, so text)
+  suggestion_id text not null,
+
+  status text not null default 'not_started'
+    check (status in ('not_started', 'in_progress', 'blocked', 'completed', 'skipped')),
+
+  -- Transition timestamps: started_at is the first start, the others are set while in that status
+  started_at timestamp with time zone,
+  blocked_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  skipped_at timestamp with time zone,
+
+  time_spent_minutes integer not null default 0 check (time_spent_minutes >= 0),
+  notes text check (char_length(notes) <= 2000),
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  unique (profile_suggestion_id, suggestion_id),
+  check (status <> 'blocked' or blocked_at is not null),
+  check (status <> 'completed' or completed_at is not null),
+  check (status <> 'skipped' or skipped_at is not null)
+);
+
+-- Enable Row Level Security
+alter table public.suggestion_progress enable row level security;
+
+-- Create policies
+-- Users can only track progress on their own suggestion sets
+create policy "Users can view own suggestion progress"
+  on public.suggestion_progress
+  for select
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can insert own suggestion progress"
+  on public.suggestion_progress
+  for insert
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1 from public.profile_suggestions ps
+      where ps.id = profile_suggestion_id and ps.user_id = (select auth.uid())
+    )
+  );
+
+create policy "Users can update own suggestion progress"
+  on public.suggestion_progress
+  for update
+  using ((select auth.uid()) = user_id)
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1 from public.profile_suggestions ps
+      where ps.id = profile_suggestion_id and ps.user_id = (select auth.uid())
+    )
+  );
+
+create policy "Users can delete own suggestion progress"
+  on public.suggestion_progress
+  for delete
+  using ((select auth.uid()) = user_id);
+
+-- Create indexes
+-- The unique constraint covers lookups by set
+create index suggestion_progress_user_id_status_idx on public.suggestion_progress(user_id, status);
+
+-- Create trigger for updated_at (handle_updated_at is defined with profiles)
+create trigger set_updated_at
+  before update on public.suggestion_progress
+  for each row
+  execute function public.handle_updated_at();
+
+-- Grant permissions
+grant all on public.suggestion_progress to authenticated;
+
+-- Move existing completions ({ suggestionId, completedAt, notes? }, see 20260112120000)
+insert into public.suggestion_progress (
+  user_id, profile_suggestion_id, suggestion_id, status, completed_at, notes, created_at
+)
+select distinct on (ps.id, c.entry->>'suggestionId')
+  ps.user_id,
+  ps.id,
+  c.entry->>'suggestionId',
+  'completed',
+  case
+    when c.entry->>'completedAt' ~ '^\d{4}-\d{2}-\d{2}' then (c.entry->>'completedAt')::timestamp with time zone
+    else ps.created_at
+  end,
+  left(nullif(trim(c.entry->>'notes'), ''), 2000),
+  ps.created_at
+from public.profile_suggestions ps
+cross join lateral jsonb_array_elements(
+  case when jsonb_typeof(ps.completed_suggestions) = 'array' then ps.completed_suggestions else '[]'::jsonb end
+) with ordinality as c(entry, ord)
+where jsonb_typeof(c.entry) = 'object'
+  and nullif(trim(c.entry->>'suggestionId'), '') is not null
+order by ps.id, c.entry->>'suggestionId', c.ord
+on conflict (profile_suggestion_id, suggestion_id) do nothing;
+
+-- Add helpful comments
+comment on table public.suggestion_progress is 'Status and time spent per suggestion of a profile_suggestions set';
+comment on column public.suggestion_progress.suggestion_id is 'Suggestion.id inside the profile_suggestions row';
+comment on column public.suggestion_progress.started_at is 'First time the suggestion went in_progress';
+comment on column public.profile_suggestions.completed_suggestions is 'Deprecated: copied into suggestion_progress by 20260123090000 and no longer written';
@@ -0,0 +1,85 @@
+-- Activity log for learning streaks and the activity heatmap (lib/activity/)
+-- One row whenever a suggestion or path step changes state. Append-only:
+-- users can read and add their own events, but not change them or choose
+-- when they happened (occurred_at is always the time of the insert).
+create table public.activity_events (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+
+  type text not null check (type in ('suggestion_viewed', 'suggestion_progress', 'path_step_progress')),
+
+  -- What changed - events outlive the rows they refer to
+  profile_suggestion_id uuid references public.profile_suggestions(id) on delete set null,
+  suggestion_id text,
+  path_step_id uuid references public.path_steps(id) on delete set null,
+
+  -- The new status (suggestion_progress.status, or completed/not_started for path steps)
+  status text,
+  minutes_spent integer not null default 0 check (minutes_spent between 0 and 1440),
+
+  occurred_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Days a user takes off without breaking their streak
+create table public.activity_freeze_days (
+  user_id uuid references auth.users(id) on delete cascade not null,
+  day date not null,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  primary key (user_id, day)
+);
+
+-- Enable Row Level Security
+alter table public.activity_events enable row level security;
+alter table public.activity_freeze_days enable row level security;
+
+-- Create policies
+create policy "Users can view own activity events"
+  on public.activity_events
+  for select
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can insert own activity events"
+  on public.activity_events
+  for insert
+  with check ((select auth.uid()) = user_id);
+
+-- Freeze days are added and removed through /api/activity/freeze-days (service role),
+-- which enforces the monthly allowance
+create policy "Users can view own activity freeze days"
+  on public.activity_freeze_days
+  for select
+  using ((select auth.uid()) = user_id);
+
+-- Create function to stamp events with the time they were logged
+-- Streaks and the heatmap count days from occurred_at, so it can't be backdated
+create or replace function public.set_activity_event_occurred_at()
+returns trigger as $$
+begin
+  new.occurred_at = timezone('utc'::text, now());
+  return new;
+end;
+$$ language plpgsql;
+
+-- Create trigger for occurred_at
+create trigger set_activity_event_occurred_at
+  before insert on public.activity_events
+  for each row
+  execute function public.set_activity_event_occurred_at();
+
+-- Create indexes
+create index activity_events_user_id_occurred_at_idx on public.activity_events(user_id, occurred_at desc);
+create index activity_events_profile_suggestion_id_idx on public.activity_events(profile_suggestion_id);
+create index activity_events_path_step_id_idx on public.activity_events(path_step_id);
+
+-- Grant permissions
+grant select on public.activity_events to authenticated;
+grant insert (user_id, type, profile_suggestion_id, suggestion_id, path_step_id, status, minutes_spent)
+  on public.activity_events to authenticated;
+grant select on public.activity_freeze_days to authenticated;
+
+-- Add helpful comments
+comment on table public.activity_events is 'Append-only log of suggestion and path step state changes, for streaks and the heatmap';
+comment on column public.activity_events.occurred_at is 'When it happened (UTC) - days are computed in the user''s time zone when reading';
+comment on table public.activity_freeze_days is 'Days (in the user''s time zone) that neither break nor extend a streak';
@@ -0,0 +1,125 @@
+-- Spaced-repetition review queue (lib/reviews/sm2.ts)
+-- A completed suggestion enters the queue through the trigger below and is then
+-- reviewed on due_on; each 0-5 grade updates its SM-2 interval and ease factor.
+create table public.review_items (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  profile_suggestion_id uuid references public.profile_suggestions(id) on delete cascade not null,
+  -- Suggestion.id inside the set, like suggestion_progress.suggestion_id
+  suggestion_id text not null,
+
+  -- SM-2 state
+  repetitions integer not null default 0 check (repetitions >= 0),
+  interval_days integer not null default 0 check (interval_days >= 0),
+  ease_factor numeric(4, 2) not null default 2.5 check (ease_factor >= 1.3),
+  due_on date not null,
+
+  last_grade smallint check (last_grade between 0 and 5),
+  last_reviewed_at timestamp with time zone,
+  review_count integer not null default 0 check (review_count >= 0),
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  unique (profile_suggestion_id, suggestion_id)
+);
+
+-- Enable Row Level Security
+alter table public.review_items enable row level security;
+
+-- Create policies
+create policy "Users can view own review items"
+  on public.review_items
+  for select
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can insert own review items"
+  on public.review_items
+  for insert
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1 from public.profile_suggestions ps
+      where ps.id = profile_suggestion_id and ps.user_id = (select auth.uid())
+    )
+  );
+
+create policy "Users can update own review items"
+  on public.review_items
+  for update
+  using ((select auth.uid()) = user_id)
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1 from public.profile_suggestions ps
+      where ps.id = profile_suggestion_id and ps.user_id = (select auth.uid())
+    )
+  );
+
+create policy "Users can delete own review items"
+  on public.review_items
+  for delete
+  using ((select auth.uid()) = user_id);
+
+-- Create indexes
+-- The unique constraint covers lookups by set
+create index review_items_user_id_due_on_idx on public.review_items(user_id, due_on);
+
+-- Create trigger for updated_at (handle_updated_at is defined with profiles)
+create trigger set_updated_at
+  before update on public.review_items
+  for each row
+  execute function public.handle_updated_at();
+
+-- Create function to queue completed suggestions for review
+-- First review the day after completion (UTC). Completing a suggestion again,
+-- or reopening it, leaves its review schedule as it is
+create or replace function public.queue_completed_suggestion_for_review()
+returns trigger as $$
+begin
+  if new.status = 'completed' and (tg_op = 'INSERT' or old.status is distinct from 'completed') then
+    insert into public.review_items (user_id, profile_suggestion_id, suggestion_id, due_on)
+    values (
+      new.user_id,
+      new.profile_suggestion_id,
+      new.suggestion_id,
+      (new.completed_at at time zone 'utc')::date + 1
+    )
+    on conflict (profile_suggestion_id, suggestion_id) do nothing;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+-- Create trigger to queue completions
+create trigger queue_completed_suggestion_for_review
+  after insert or update of status on public.suggestion_progress
+  for each row
+  execute function public.queue_completed_suggestion_for_review();
+
+-- Grant permissions
+-- Updates are limited to the SM-2 scheduling columns that a review changes
+grant select, insert, delete on public.review_items to authenticated;
+grant update (repetitions, interval_days, ease_factor, due_on, last_grade, last_reviewed_at, review_count)
+  on public.review_items to authenticated;
+
+-- Queue suggestions completed before the queue existed
+insert into public.review_items (user_id, profile_suggestion_id, suggestion_id, due_on)
+select user_id, profile_suggestion_id, suggestion_id, (completed_at at time zone 'utc')::date + 1
+from public.suggestion_progress
+where status = 'completed'
+on conflict (profile_suggestion_id, suggestion_id) do nothing;
+
+-- Reviews count as activity for streaks (lib/activity/events.ts)
+alter table public.activity_events drop constraint activity_events_type_check;
+alter table public.activity_events add constraint activity_events_type_check
+  check (type in ('suggestion_viewed', 'suggestion_progress', 'path_step_progress', 'suggestion_reviewed'));
+
+alter table public.activity_events add column review_item_id uuid references public.review_items(id) on delete set null;
+
+-- Add helpful comments
+comment on table public.review_items is 'Spaced-repetition queue of completed suggestions, scheduled with SM-2';
+comment on column public.review_items.interval_days is 'Days from the last review to due_on';
+comment on column public.review_items.ease_factor is 'SM-2 E-Factor - how fast the interval grows (min 1.3)';
+comment on column public.review_items.last_grade is 'Recall at the last review, 0 (blackout) to 5 (perfect)';
@@ -0,0 +1,89 @@
+-- Learning path templates (lib/paths/templates.ts)
+-- A template is a published snapshot of a learning path: its milestones, steps
+-- and prerequisites, without anyone's progress. Publishing the same path again
+-- updates the snapshot and bumps its version. Other users fork a template into
+-- their own path, which keeps a back-reference to the template and the version
+-- it was forked from. Every published version is kept in path_template_versions,
+-- so a fork can be shown what changed upstream since, apart from its own edits.
+create table public.path_templates (
+  id uuid primary key default uuid_generate_v4(),
+  -- The author
+  user_id uuid references auth.users(id) on delete cascade not null,
+  -- The path it was published from (one template per path)
+  source_path_id uuid unique references public.learning_paths(id) on delete set null,
+
+  title text not null check (char_length(title) between 1 and 200),
+  description text,
+
+  -- { milestones: [{ title, description, steps: [{ key, title, ... }] }], prerequisites: [{ stepId, prerequisiteId }] }
+  -- Step keys are stable across versions (the source step id); prerequisites are between keys
+  content jsonb not null,
+  version integer not null default 1 check (version >= 1),
+
+  -- Highlighted in the template list - only admins can set it
+  featured boolean not null default false,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Every published version of a template (the latest is also in path_templates.content)
+create table public.path_template_versions (
+  template_id uuid references public.path_templates(id) on delete cascade not null,
+  version integer not null check (version >= 1),
+  content jsonb not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  primary key (template_id, version)
+);
+
+-- Forks keep a back-reference to their template
+alter table public.learning_paths
+  add column source_template_id uuid references public.path_templates(id) on delete set null,
+  add column source_template_version integer;
+
+-- Which template step a forked step came from (path_templates.content step key)
+alter table public.path_steps add column template_step_key text;
+
+-- Enable Row Level Security
+alter table public.path_templates enable row level security;
+alter table public.path_template_versions enable row level security;
+
+-- Create policies
+-- Templates are public to signed-in users. They are published, updated and
+-- removed through /api/templates (service role), which checks authorship and
+-- admin rights
+create policy "Authenticated users can view templates"
+  on public.path_templates
+  for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can view template versions"
+  on public.path_template_versions
+  for select
+  to authenticated
+  using (true);
+
+-- Create indexes
+create index path_templates_user_id_idx on public.path_templates(user_id);
+create index path_templates_featured_updated_at_idx on public.path_templates(featured desc, updated_at desc);
+create index learning_paths_source_template_id_idx on public.learning_paths(source_template_id);
+
+-- Create trigger for updated_at (handle_updated_at is defined with profiles)
+create trigger set_updated_at
+  before update on public.path_templates
+  for each row
+  execute function public.handle_updated_at();
+
+-- Grant permissions
+grant select on public.path_templates to authenticated;
+grant select on public.path_template_versions to authenticated;
+
+-- Add helpful comments
+comment on table public.path_templates is 'Published snapshots of learning paths that other users can fork';
+comment on column public.path_templates.version is 'Bumped every time the template is published again';
+comment on table public.path_template_versions is 'Content of every published version of a template, for upstream changes';
+comment on column public.learning_paths.source_template_id is 'Template this path was forked from, if any';
+comment on column public.learning_paths.source_template_version is 'Template version at the time of the fork';
+comment on column public.path_steps.template_step_key is 'Key of the template step this step was forked from';
@@ -0,0 +1,40 @@
+-- Public share links for learning paths and suggestion sets (lib/sharing/share.ts)
+-- A shared item is readable by anyone at /share/<slug>. The slug is random, so
+-- shared pages can't be found by guessing; deleting the row unshares the item.
+-- The public page reads through the service role and only shows content
+-- (toSharedLearningPath/toSharedSuggestionSet) - the "view own" policies on
+-- learning_paths and profile_suggestions are unchanged, and anonymous users
+-- get no access to any table.
+create table public.share_links (
+  slug text primary key check (slug ~ '^[A-Za-z0-9_-]{22}$'),
+  user_id uuid references auth.users(id) on delete cascade not null,
+
+  -- Exactly one of these - each item has at most one link
+  learning_path_id uuid unique references public.learning_paths(id) on delete cascade,
+  profile_suggestion_id uuid unique references public.profile_suggestions(id) on delete cascade,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  check (num_nonnulls(learning_path_id, profile_suggestion_id) = 1)
+);
+
+-- Enable Row Level Security
+alter table public.share_links enable row level security;
+
+-- Create policies
+-- Users can see which of their items are shared. Links are created and
+-- deleted through the share API routes (service role), which generate the slug
+create policy "Users can view own share links"
+  on public.share_links
+  for select
+  using ((select auth.uid()) = user_id);
+
+-- Create indexes
+create index share_links_user_id_idx on public.share_links(user_id);
+
+-- Grant permissions
+grant select on public.share_links to authenticated;
+
+-- Add helpful comments
+comment on table public.share_links is 'Public read-only links to a learning path or suggestion set - delete the row to unshare';
+comment on column public.share_links.slug is 'Random URL slug of the shared page (/share/<slug>)';
@@ -0,0 +1,198 @@
+-- Teams and cohorts (lib/teams)
+-- A team has one owner, admins and members (team_members.role). People join by
+-- accepting an invitation sent to their email address (team_invitations). Owners
+-- and admins assign learning paths to the team (team_assignments): every member
+-- gets their own copy of the path, and the team's progress dashboard compares
+-- how far each member got.
+create table public.teams (
+  id uuid primary key default uuid_generate_v4(),
+  name text not null check (char_length(name) between 1 and 100),
+  description text,
+  -- Becomes the owner (see add_team_owner below)
+  created_by uuid references auth.users(id) on delete set null,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table public.team_members (
+  team_id uuid references public.teams(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  role text not null default 'member' check (role in ('owner', 'admin', 'member')),
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+
+  primary key (team_id, user_id)
+);
+
+-- Invitations are links with a secret token, sent to one email address.
+-- Only the token's SHA-256 hash is stored, like calendar_feed_tokens
+create table public.team_invitations (
+  id uuid primary key default uuid_generate_v4(),
+  team_id uuid references public.teams(id) on delete cascade not null,
+  email text not null check (email = lower(email)),
+  role text not null default 'member' check (role in ('admin', 'member')),
+  token_hash text not null unique,
+  invited_by uuid references auth.users(id) on delete set null,
+
+  expires_at timestamp with time zone not null,
+  accepted_at timestamp with time zone,
+  accepted_by uuid references auth.users(id) on delete set null,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- A path assigned to a team: a snapshot of it (same content shape as
+-- path_templates.content), copied into a path of every member
+create table public.team_assignments (
+  id uuid primary key default uuid_generate_v4(),
+  team_id uuid references public.teams(id) on delete cascade not null,
+  source_path_id uuid references public.learning_paths(id) on delete set null,
+  assigned_by uuid references auth.users(id) on delete set null,
+
+  title text not null check (char_length(title) between 1 and 200),
+  description text,
+  content jsonb not null,
+
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Members' copies of an assigned path
+alter table public.learning_paths
+  add column team_assignment_id uuid references public.team_assignments(id) on delete set null;
+
+-- Create function to look up the current user's role in a team
+-- Security definer so policies on team_members can use it without recursing
+create or replace function public.team_role(team uuid)
+returns text as $$
+  select role from public.team_members
+  where team_id = team and user_id = (select auth.uid())
+$$ language sql stable security definer set search_path = '';
+
+-- Enable Row Level Security
+alter table public.teams enable row level security;
+alter table public.team_members enable row level security;
+alter table public.team_invitations enable row level security;
+alter table public.team_assignments enable row level security;
+
+-- Create policies
+-- Teams are visible to their members. Anyone can create a team, and becomes its owner
+create policy "Members can view their teams"
+  on public.teams
+  for select
+  using (public.team_role(id) is not null);
+
+create policy "Users can create teams"
+  on public.teams
+  for insert
+  with check ((select auth.uid()) = created_by);
+
+create policy "Owners and admins can update their teams"
+  on public.teams
+  for update
+  using (public.team_role(id) in ('owner', 'admin'));
+
+create policy "Owners can delete their teams"
+  on public.teams
+  for delete
+  using (public.team_role(id) = 'owner');
+
+-- Members join by accepting an invitation (/api/teams/invitations/accept, service
+-- role) - there is no insert policy. The owner can't be demoted or removed
+create policy "Members can view their team's members"
+  on public.team_members
+  for select
+  using (public.team_role(team_id) is not null);
+
+create policy "Owners can change member roles"
+  on public.team_members
+  for update
+  using (public.team_role(team_id) = 'owner' and role <> 'owner')
+  with check (public.team_role(team_id) = 'owner' and role in ('admin', 'member'));
+
+create policy "Members can leave and owners and admins can remove members"
+  on public.team_members
+  for delete
+  using (
+    role <> 'owner'
+    and (
+      (select auth.uid()) = user_id
+      or public.team_role(team_id) = 'owner'
+      or (public.team_role(team_id) = 'admin' and role = 'member')
+    )
+  );
+
+-- Invitations are created through /api/teams/[id]/invitations (service role),
+-- which generates the token
+create policy "Owners and admins can view invitations"
+  on public.team_invitations
+  for select
+  using (public.team_role(team_id) in ('owner', 'admin'));
+
+create policy "Owners and admins can revoke invitations"
+  on public.team_invitations
+  for delete
+  using (public.team_role(team_id) in ('owner', 'admin'));
+
+-- Assignments are created through /api/teams/[id]/assignments (service role),
+-- which creates the members' paths. Removing one keeps the members' paths
+create policy "Members can view team assignments"
+  on public.team_assignments
+  for select
+  using (public.team_role(team_id) is not null);
+
+create policy "Owners and admins can remove assignments"
+  on public.team_assignments
+  for delete
+  using (public.team_role(team_id) in ('owner', 'admin'));
+
+-- Create indexes
+create unique index team_members_one_owner_idx on public.team_members(team_id) where role = 'owner';
+create index team_members_user_id_idx on public.team_members(user_id);
+-- One pending invitation per address - inviting again replaces it
+create unique index team_invitations_pending_email_idx on public.team_invitations(team_id, email) where accepted_at is null;
+create index team_assignments_team_id_idx on public.team_assignments(team_id);
+create unique index learning_paths_team_assignment_user_idx on public.learning_paths(team_assignment_id, user_id);
+
+-- Create trigger for updated_at (handle_updated_at is defined with profiles)
+create trigger set_updated_at
+  before update on public.teams
+  for each row
+  execute function public.handle_updated_at();
+
+-- Create function to make the creator of a team its owner
+create or replace function public.add_team_owner()
+returns trigger as $$
+begin
+  if new.created_by is not null then
+    insert into public.team_members (team_id, user_id, role)
+    values (new.id, new.created_by, 'owner');
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = '';
+
+-- Create trigger to add the owner
+create trigger add_team_owner
+  after insert on public.teams
+  for each row
+  execute function public.add_team_owner();
+
+-- Grant permissions
+-- Updates are limited to the columns that may change: a team's name and
+-- description, and a member's role
+grant select, insert, delete on public.teams to authenticated;
+grant update (name, description) on public.teams to authenticated;
+grant select, delete on public.team_members to authenticated;
+grant update (role) on public.team_members to authenticated;
+grant select, delete on public.team_invitations to authenticated;
+grant select, delete on public.team_assignments to authenticated;
+grant execute on function public.team_role(uuid) to authenticated;
+
+-- Add helpful comments
+comment on table public.teams is 'Teams and cohorts of learners';
+comment on table public.team_members is 'Who is in a team: one owner, then admins and members';
+comment on table public.team_invitations is 'Email invitations to a team - the token in the link is the credential, only its hash is stored';
+comment on table public.team_assignments is 'Learning paths assigned to a team, copied into a path of every member';
+comment on column public.learning_paths.team_assignment_id is 'Team assignment this path is the member''s copy of, if any';
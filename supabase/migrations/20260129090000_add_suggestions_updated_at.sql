@@ -0,0 +1,23 @@
+-- When a suggestion set's suggestions last changed (regenerating one replaces
+-- it in place). The regenerate route only saves if this is unchanged since it
+-- loaded the set, so two regenerations at once can't overwrite each other.
+alter table public.profile_suggestions
+  add column suggestions_updated_at timestamp with time zone default timezone('utc'::text, now()) not null;
+
+-- Create trigger for suggestions_updated_at - viewing or rating a set doesn't count as a change
+create or replace function public.handle_suggestions_updated_at()
+returns trigger as $$
+begin
+  new.suggestions_updated_at = timezone('utc'::text, now());
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger set_suggestions_updated_at
+  before update on public.profile_suggestions
+  for each row
+  when (old.suggestions is distinct from new.suggestions)
+  execute function public.handle_suggestions_updated_at();
+
+-- Add helpful comments
+comment on column public.profile_suggestions.suggestions_updated_at is 'When suggestions last changed; compared before saving a regenerated suggestion';
@@ -1,4 +1,12 @@
 import { User } from '@supabase/supabase-js'
+import type { PrerequisiteEdge } from '@/lib/paths/graph'
+import type {
+  PathTemplateContent,
+  ProgressStatus,
+  Suggestion,
+  SuggestionType,
+  TeamRole,
+} from '@/lib/validation/schemas'
 import { Tables, TablesInsert, TablesUpdate } from './supabase'
 
 // Database row types
@@ -6,23 +14,36 @@ export type Profile = Tables<'profiles'>
 export type ProfileSuggestionRow = Tables<'profile_suggestions'>
 export type ProfileSuggestionInsert = TablesInsert<'profile_suggestions'>
 export type ProfileSuggestionUpdate = TablesUpdate<'profile_suggestions'>
+export type AiUsageRow = Tables<'ai_usage'>
+export type SuggestionRefinementRow = Tables<'suggestion_refinements'>
+export type SuggestionProgressRow = Tables<'suggestion_progress'>
+export type SuggestionProgressUpdate = TablesUpdate<'suggestion_progress'>
+export type LearningPathRow = Tables<'learning_paths'>
+export type LearningPathInsert = TablesInsert<'learning_paths'>
+export type LearningPathUpdate = TablesUpdate<'learning_paths'>
+export type PathMilestoneRow = Tables<'path_milestones'>
+export type PathStepRow = Tables<'path_steps'>
+export type PathStepPrerequisiteRow = Tables<'path_step_prerequisites'>
+export type PathTemplateRow = Tables<'path_templates'>
+export type ActivityEventRow = Tables<'activity_events'>
+export type ActivityEventInsert = TablesInsert<'activity_events'>
+export type ActivityFreezeDayRow = Tables<'activity_freeze_days'>
+export type ReviewItemRow = Tables<'review_items'>
+export type ReviewItemUpdate = TablesUpdate<'review_items'>
+export type ShareLinkRow = Tables<'share_links'>
+export type TeamRow = Tables<'teams'>
+export type TeamMemberRow = Tables<'team_members'>
+export type TeamInvitationRow = Tables<'team_invitations'>
+export type TeamAssignmentRow = Tables<'team_assignments'>
 
 // Typed JSON field interfaces
 
 /**
- * A single learning suggestion/resource
+ * A single stored learning suggestion (canonical, versioned)
+ * Defined by storedSuggestionSchema - raw rows are upcast with
+ * upcastProfileSuggestion() from lib/suggestions/model.ts
  */
-export interface Suggestion {
-  id: string
-  title: string
-  description: string
-  type: 'course' | 'article' | 'video' | 'book' | 'project' | 'tutorial' | 'other'
-  url?: string
-  duration?: string
-  difficulty?: 'beginner' | 'intermediate' | 'advanced'
-  tags?: string[]
-  provider?: string
-}
+export type { Suggestion, SuggestionType } from '@/lib/validation/schemas'
 
 /**
  * Input data used to generate suggestions
@@ -38,6 +59,9 @@ export interface SuggestionInput {
 
 /**
  * Tracking for completed suggestions
+ * suggestionId is the Suggestion.id inside the same row
+ * Stored in profile_suggestions.completed_suggestions until suggestion_progress
+ * replaced it - now built from completed progress with completedSuggestionsFrom()
  */
 export interface CompletedSuggestion {
   suggestionId: string
@@ -45,18 +69,109 @@ export interface CompletedSuggestion {
   notes?: string
 }
 
+/**
+ * Audit trail entry for a suggestion replaced by regeneration
+ * replacedBy is the Suggestion.id that took its place in the same row
+ */
+export interface ReplacedSuggestion {
+  suggestion: Suggestion
+  replacedBy: string
+  replacedAt: string
+  feedback?: string
+}
+
 /**
  * Full profile suggestion with typed JSON fields
  */
 export interface ProfileSuggestion extends Omit<
   ProfileSuggestionRow,
-  'suggestions' | 'input_data' | 'completed_suggestions'
+  'suggestions' | 'input_data' | 'completed_suggestions' | 'replaced_suggestions'
 > {
   suggestions: Suggestion[]
   input_data: SuggestionInput
+  /** @deprecated No longer written - read suggestion_progress (queries.suggestionProgress) */
   completed_suggestions: CompletedSuggestion[] | null
+  replaced_suggestions: ReplacedSuggestion[]
+}
+
+/**
+ * Progress on one suggestion of a set, with a typed status
+ * Built from SuggestionProgressRow with toSuggestionProgress()
+ */
+export interface SuggestionProgress extends Omit<SuggestionProgressRow, 'status'> {
+  status: ProgressStatus
 }
 
+/**
+ * A review_items row with the suggestion it reviews
+ * The suggestion may since have been replaced in its set
+ */
+export interface ReviewItem extends ReviewItemRow {
+  suggestion: Suggestion
+}
+
+/**
+ * One turn of a conversation refining a suggestion set, with typed suggestions
+ * Upcast from SuggestionRefinementRow with upcastSuggestionRefinement()
+ */
+export interface SuggestionRefinement extends Omit<SuggestionRefinementRow, 'suggestions'> {
+  suggestions: Suggestion[]
+}
+
+/**
+ * A step of a learning path milestone
+ * Same content as a stored Suggestion - promoted steps keep its id in source_suggestion_id
+ */
+export interface PathStep extends Omit<PathStepRow, 'type'> {
+  type: SuggestionType | null
+}
+
+/**
+ * A milestone of a learning path with its steps, in order
+ */
+export interface PathMilestone extends PathMilestoneRow {
+  steps: PathStep[]
+}
+
+/**
+ * A learning path with its milestones and their steps, in order
+ * Built from a nested select with toLearningPath() from lib/paths/model.ts
+ */
+export interface LearningPath extends LearningPathRow {
+  milestones: PathMilestone[]
+  /** Dependencies between the path's steps (see lib/paths/graph.ts) */
+  prerequisites: PrerequisiteEdge[]
+}
+
+/**
+ * A published path template with typed content
+ * Built from PathTemplateRow with toPathTemplate()
+ */
+export interface PathTemplate extends Omit<PathTemplateRow, 'content'> {
+  content: PathTemplateContent
+}
+
+/**
+ * A member of a team, with their display name (profiles.full_name)
+ */
+export interface TeamMember extends Omit<TeamMemberRow, 'role'> {
+  role: TeamRole
+  name: string | null
+}
+
+/**
+ * A path assigned to a team with typed content (same shape as a template's)
+ */
+export interface TeamAssignment extends Omit<TeamAssignmentRow, 'content'> {
+  content: PathTemplateContent
+}
+
+/**
+ * Editable fields of a path step
+ */
+export type PathStepInput = Pick<PathStep, 'title'> &
+  Partial<Pick<PathStep, 'reason' | 'action' | 'type' | 'url' | 'duration' | 'completed_at'>>
+
 /**
  * @deprecated Use ProfileSuggestionRow for raw database type or ProfileSuggestion for typed version
  */
@@ -1,10 +1,4 @@
-export type Json =
-  | string
-  | number
-  | boolean
-  | null
-  | { [key: string]: Json | undefined }
-  | Json[]
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
 
 export type Database = {
   graphql_public: {
@@ -34,14 +28,441 @@ export type Database = {
   }
   public: {
     Tables: {
+      activity_events: {
+        Row: {
+          id: string
+          minutes_spent: number
+          occurred_at: string
+          path_step_id: string | null
+          profile_suggestion_id: string | null
+          review_item_id: string | null
+          status: string | null
+          suggestion_id: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          minutes_spent?: number
+          occurred_at?: string
+          path_step_id?: string | null
+          profile_suggestion_id?: string | null
+          review_item_id?: string | null
+          status?: string | null
+          suggestion_id?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          minutes_spent?: number
+          occurred_at?: string
+          path_step_id?: string | null
+          profile_suggestion_id?: string | null
+          review_item_id?: string | null
+          status?: string | null
+          suggestion_id?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'activity_events_path_step_id_fkey'
+            columns: ['path_step_id']
+            isOneToOne: false
+            referencedRelation: 'path_steps'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'activity_events_profile_suggestion_id_fkey'
+            columns: ['profile_suggestion_id']
+            isOneToOne: false
+            referencedRelation: 'profile_suggestions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'activity_events_review_item_id_fkey'
+            columns: ['review_item_id']
+            isOneToOne: false
+            referencedRelation: 'review_items'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      activity_freeze_days: {
+        Row: {
+          created_at: string
+          day: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          day: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          day?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ai_usage: {
+        Row: {
+          completion_tokens: number
+          created_at: string
+          estimated_cost: number
+          feature: string
+          id: string
+          model: string
+          prompt_tokens: number
+          provider: string
+          status: string
+          usage_estimated: boolean
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          created_at?: string
+          estimated_cost?: number
+          feature: string
+          id?: string
+          model: string
+          prompt_tokens?: number
+          provider: string
+          status?: string
+          usage_estimated?: boolean
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          created_at?: string
+          estimated_cost?: number
+          feature?: string
+          id?: string
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          status?: string
+          usage_estimated?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          last_used_at: string | null
+          token_hash: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          last_used_at?: string | null
+          token_hash: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          last_used_at?: string | null
+          token_hash?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      learning_paths: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          schedule_start: string | null
+          source_profile_suggestion_id: string | null
+          source_template_id: string | null
+          source_template_version: number | null
+          team_assignment_id: string | null
+          title: string
+          updated_at: string
+          user_id: string
+          weekly_hours: number | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          schedule_start?: string | null
+          source_profile_suggestion_id?: string | null
+          source_template_id?: string | null
+          source_template_version?: number | null
+          team_assignment_id?: string | null
+          title: string
+          updated_at?: string
+          user_id: string
+          weekly_hours?: number | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          schedule_start?: string | null
+          source_profile_suggestion_id?: string | null
+          source_template_id?: string | null
+          source_template_version?: number | null
+          team_assignment_id?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+          weekly_hours?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'learning_paths_source_profile_suggestion_id_fkey'
+            columns: ['source_profile_suggestion_id']
+            isOneToOne: false
+            referencedRelation: 'profile_suggestions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'learning_paths_source_template_id_fkey'
+            columns: ['source_template_id']
+            isOneToOne: false
+            referencedRelation: 'path_templates'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'learning_paths_team_assignment_id_fkey'
+            columns: ['team_assignment_id']
+            isOneToOne: false
+            referencedRelation: 'team_assignments'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      path_milestones: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          path_id: string
+          position: number
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          path_id: string
+          position: number
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          path_id?: string
+          position?: number
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'path_milestones_path_id_fkey'
+            columns: ['path_id']
+            isOneToOne: false
+            referencedRelation: 'learning_paths'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      path_step_prerequisites: {
+        Row: {
+          created_at: string
+          prerequisite_step_id: string
+          step_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          prerequisite_step_id: string
+          step_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          prerequisite_step_id?: string
+          step_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'path_step_prerequisites_prerequisite_step_id_fkey'
+            columns: ['prerequisite_step_id']
+            isOneToOne: false
+            referencedRelation: 'path_steps'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'path_step_prerequisites_step_id_fkey'
+            columns: ['step_id']
+            isOneToOne: false
+            referencedRelation: 'path_steps'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      path_steps: {
+        Row: {
+          action: string | null
+          completed_at: string | null
+          created_at: string
+          duration: string | null
+          id: string
+          milestone_id: string
+          position: number
+          reason: string | null
+          source_suggestion_id: string | null
+          template_step_key: string | null
+          title: string
+          type: string | null
+          updated_at: string
+          url: string | null
+          user_id: string
+        }
+        Insert: {
+          action?: string | null
+          completed_at?: string | null
+          created_at?: string
+          duration?: string | null
+          id?: string
+          milestone_id: string
+          position: number
+          reason?: string | null
+          source_suggestion_id?: string | null
+          template_step_key?: string | null
+          title: string
+          type?: string | null
+          updated_at?: string
+          url?: string | null
+          user_id: string
+        }
+        Update: {
+          action?: string | null
+          completed_at?: string | null
+          created_at?: string
+          duration?: string | null
+          id?: string
+          milestone_id?: string
+          position?: number
+          reason?: string | null
+          source_suggestion_id?: string | null
+          template_step_key?: string | null
+          title?: string
+          type?: string | null
+          updated_at?: string
+          url?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'path_steps_milestone_id_fkey'
+            columns: ['milestone_id']
+            isOneToOne: false
+            referencedRelation: 'path_milestones'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      path_template_versions: {
+        Row: {
+          content: Json
+          created_at: string
+          template_id: string
+          version: number
+        }
+        Insert: {
+          content: Json
+          created_at?: string
+          template_id: string
+          version: number
+        }
+        Update: {
+          content?: Json
+          created_at?: string
+          template_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'path_template_versions_template_id_fkey'
+            columns: ['template_id']
+            isOneToOne: false
+            referencedRelation: 'path_templates'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      path_templates: {
+        Row: {
+          content: Json
+          created_at: string
+          description: string | null
+          featured: boolean
+          id: string
+          source_path_id: string | null
+          title: string
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          content: Json
+          created_at?: string
+          description?: string | null
+          featured?: boolean
+          id?: string
+          source_path_id?: string | null
+          title: string
+          updated_at?: string
+          user_id: string
+          version?: number
+        }
+        Update: {
+          content?: Json
+          created_at?: string
+          description?: string | null
+          featured?: boolean
+          id?: string
+          source_path_id?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'path_templates_source_path_id_fkey'
+            columns: ['source_path_id']
+            isOneToOne: true
+            referencedRelation: 'learning_paths'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       profile_suggestions: {
         Row: {
           completed_suggestions: Json | null
           created_at: string
           id: string
           input_data: Json
+          prompt_version: string | null
           rating: number | null
+          replaced_suggestions: Json
           suggestions: Json
+          suggestions_updated_at: string
           user_id: string
           viewed_at: string | null
         }
@@ -50,8 +471,11 @@ export type Database = {
           created_at?: string
           id?: string
           input_data: Json
+          prompt_version?: string | null
           rating?: number | null
+          replaced_suggestions?: Json
           suggestions: Json
+          suggestions_updated_at?: string
           user_id: string
           viewed_at?: string | null
         }
@@ -60,8 +484,11 @@ export type Database = {
           created_at?: string
           id?: string
           input_data?: Json
+          prompt_version?: string | null
           rating?: number | null
+          replaced_suggestions?: Json
           suggestions?: Json
+          suggestions_updated_at?: string
           user_id?: string
           viewed_at?: string | null
         }
@@ -91,12 +518,494 @@ export type Database = {
         }
         Relationships: []
       }
+      review_items: {
+        Row: {
+          created_at: string
+          due_on: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          last_grade: number | null
+          last_reviewed_at: string | null
+          profile_suggestion_id: string
+          repetitions: number
+          review_count: number
+          suggestion_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_on: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          last_grade?: number | null
+          last_reviewed_at?: string | null
+          profile_suggestion_id: string
+          repetitions?: number
+          review_count?: number
+          suggestion_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_on?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          last_grade?: number | null
+          last_reviewed_at?: string | null
+          profile_suggestion_id?: string
+          repetitions?: number
+          review_count?: number
+          suggestion_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'review_items_profile_suggestion_id_fkey'
+            columns: ['profile_suggestion_id']
+            isOneToOne: false
+            referencedRelation: 'profile_suggestions'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      share_links: {
+        Row: {
+          created_at: string
+          learning_path_id: string | null
+          profile_suggestion_id: string | null
+          slug: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          learning_path_id?: string | null
+          profile_suggestion_id?: string | null
+          slug: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          learning_path_id?: string | null
+          profile_suggestion_id?: string | null
+          slug?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'share_links_learning_path_id_fkey'
+            columns: ['learning_path_id']
+            isOneToOne: true
+            referencedRelation: 'learning_paths'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'share_links_profile_suggestion_id_fkey'
+            columns: ['profile_suggestion_id']
+            isOneToOne: true
+            referencedRelation: 'profile_suggestions'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      suggestion_cache: {
+        Row: {
+          created_at: string
+          embedding: number[] | null
+          experience_level: string
+          expires_at: string
+          hit_count: number
+          key: string
+          last_hit_at: string | null
+          model: string
+          normalized_input: Json
+          prompt_version: string
+          provider: string
+          suggestions: Json
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          embedding?: number[] | null
+          experience_level: string
+          expires_at: string
+          hit_count?: number
+          key: string
+          last_hit_at?: string | null
+          model: string
+          normalized_input: Json
+          prompt_version: string
+          provider: string
+          suggestions: Json
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          embedding?: number[] | null
+          experience_level?: string
+          expires_at?: string
+          hit_count?: number
+          key?: string
+          last_hit_at?: string | null
+          model?: string
+          normalized_input?: Json
+          prompt_version?: string
+          provider?: string
+          suggestions?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
+      suggestion_cache_events: {
+        Row: {
+          created_at: string
+          id: string
+          prompt_version: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          prompt_version: string
+          status: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          prompt_version?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      suggestion_moderation_verdicts: {
+        Row: {
+          created_at: string
+          feature: string
+          id: string
+          original: Json
+          outcome: string
+          profile_suggestion_id: string | null
+          reasons: string[]
+          result: Json | null
+          reviewed_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          feature: string
+          id?: string
+          original: Json
+          outcome: string
+          profile_suggestion_id?: string | null
+          reasons?: string[]
+          result?: Json | null
+          reviewed_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          feature?: string
+          id?: string
+          original?: Json
+          outcome?: string
+          profile_suggestion_id?: string | null
+          reasons?: string[]
+          result?: Json | null
+          reviewed_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'suggestion_moderation_verdicts_profile_suggestion_id_fkey'
+            columns: ['profile_suggestion_id']
+            isOneToOne: false
+            referencedRelation: 'profile_suggestions'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      suggestion_progress: {
+        Row: {
+          blocked_at: string | null
+          completed_at: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          profile_suggestion_id: string
+          skipped_at: string | null
+          started_at: string | null
+          status: string
+          suggestion_id: string
+          time_spent_minutes: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          blocked_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          profile_suggestion_id: string
+          skipped_at?: string | null
+          started_at?: string | null
+          status?: string
+          suggestion_id: string
+          time_spent_minutes?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          blocked_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          profile_suggestion_id?: string
+          skipped_at?: string | null
+          started_at?: string | null
+          status?: string
+          suggestion_id?: string
+          time_spent_minutes?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'suggestion_progress_profile_suggestion_id_fkey'
+            columns: ['profile_suggestion_id']
+            isOneToOne: false
+            referencedRelation: 'profile_suggestions'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      suggestion_refinements: {
+        Row: {
+          created_at: string
+          id: string
+          message: string
+          profile_suggestion_id: string
+          prompt_version: string | null
+          suggestions: Json
+          turn: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message: string
+          profile_suggestion_id: string
+          prompt_version?: string | null
+          suggestions: Json
+          turn: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string
+          profile_suggestion_id?: string
+          prompt_version?: string | null
+          suggestions?: Json
+          turn?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'suggestion_refinements_profile_suggestion_id_fkey'
+            columns: ['profile_suggestion_id']
+            isOneToOne: false
+            referencedRelation: 'profile_suggestions'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      team_assignments: {
+        Row: {
+          assigned_by: string | null
+          content: Json
+          created_at: string
+          description: string | null
+          id: string
+          source_path_id: string | null
+          team_id: string
+          title: string
+        }
+        Insert: {
+          assigned_by?: string | null
+          content: Json
+          created_at?: string
+          description?: string | null
+          id?: string
+          source_path_id?: string | null
+          team_id: string
+          title: string
+        }
+        Update: {
+          assigned_by?: string | null
+          content?: Json
+          created_at?: string
+          description?: string | null
+          id?: string
+          source_path_id?: string | null
+          team_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'team_assignments_source_path_id_fkey'
+            columns: ['source_path_id']
+            isOneToOne: false
+            referencedRelation: 'learning_paths'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'team_assignments_team_id_fkey'
+            columns: ['team_id']
+            isOneToOne: false
+            referencedRelation: 'teams'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      team_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          role: string
+          team_id: string
+          token_hash: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          team_id: string
+          token_hash: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          team_id?: string
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'team_invitations_team_id_fkey'
+            columns: ['team_id']
+            isOneToOne: false
+            referencedRelation: 'teams'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      team_members: {
+        Row: {
+          created_at: string
+          role: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'team_members_team_id_fkey'
+            columns: ['team_id']
+            isOneToOne: false
+            referencedRelation: 'teams'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      profile_suggestion_prompt_stats: {
+        Row: {
+          average_rating: number | null
+          prompt_version: string | null
+          rated_sets: number | null
+          total_sets: number | null
+          viewed_sets: number | null
+        }
+        Relationships: []
+      }
+      suggestion_cache_stats: {
+        Row: {
+          bypasses: number | null
+          day: string | null
+          hit_rate: number | null
+          hits: number | null
+          lookups: number | null
+          misses: number | null
+          prompt_version: string | null
+          similar_hits: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       get_latest_profile_suggestions: { Args: { uid: string }; Returns: Json }
+      team_role: { Args: { team: string }; Returns: string }
     }
     Enums: {
       [_ in never]: never
@@ -107,33 +1016,31 @@ export type Database = {
   }
 }
 
-type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+type DatabaseWithoutInternals = Omit<Database, '__InternalSupabase'>
 
-type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, 'public'>]
 
 export type Tables<
   DefaultSchemaTableNameOrOptions extends
-    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
     | { schema: keyof DatabaseWithoutInternals },
   TableName extends DefaultSchemaTableNameOrOptions extends {
     schema: keyof DatabaseWithoutInternals
   }
-    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
-        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])
     : never = never,
 > = DefaultSchemaTableNameOrOptions extends {
   schema: keyof DatabaseWithoutInternals
 }
-  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
-      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])[TableName] extends {
       Row: infer R
     }
     ? R
     : never
-  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
-        DefaultSchema["Views"])
-    ? (DefaultSchema["Tables"] &
-        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
+    ? (DefaultSchema['Tables'] & DefaultSchema['Views'])[DefaultSchemaTableNameOrOptions] extends {
         Row: infer R
       }
       ? R
@@ -142,23 +1049,23 @@ export type Tables<
 
 export type TablesInsert<
   DefaultSchemaTableNameOrOptions extends
-    | keyof DefaultSchema["Tables"]
+    | keyof DefaultSchema['Tables']
     | { schema: keyof DatabaseWithoutInternals },
   TableName extends DefaultSchemaTableNameOrOptions extends {
     schema: keyof DatabaseWithoutInternals
   }
-    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
     : never = never,
 > = DefaultSchemaTableNameOrOptions extends {
   schema: keyof DatabaseWithoutInternals
 }
-  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
       Insert: infer I
     }
     ? I
     : never
-  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
-    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
         Insert: infer I
       }
       ? I
@@ -167,23 +1074,23 @@ export type TablesInsert<
 
 export type TablesUpdate<
   DefaultSchemaTableNameOrOptions extends
-    | keyof DefaultSchema["Tables"]
+    | keyof DefaultSchema['Tables']
     | { schema: keyof DatabaseWithoutInternals },
   TableName extends DefaultSchemaTableNameOrOptions extends {
     schema: keyof DatabaseWithoutInternals
   }
-    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
     : never = never,
 > = DefaultSchemaTableNameOrOptions extends {
   schema: keyof DatabaseWithoutInternals
 }
-  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
       Update: infer U
     }
     ? U
     : never
-  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
-    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
         Update: infer U
       }
       ? U
@@ -192,36 +1099,36 @@ export type TablesUpdate<
 
 export type Enums<
   DefaultSchemaEnumNameOrOptions extends
-    | keyof DefaultSchema["Enums"]
+    | keyof DefaultSchema['Enums']
     | { schema: keyof DatabaseWithoutInternals },
   EnumName extends DefaultSchemaEnumNameOrOptions extends {
     schema: keyof DatabaseWithoutInternals
   }
-    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums']
     : never = never,
 > = DefaultSchemaEnumNameOrOptions extends {
   schema: keyof DatabaseWithoutInternals
 }
-  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
-  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
-    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums'][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema['Enums']
+    ? DefaultSchema['Enums'][DefaultSchemaEnumNameOrOptions]
     : never
 
 export type CompositeTypes<
   PublicCompositeTypeNameOrOptions extends
-    | keyof DefaultSchema["CompositeTypes"]
+    | keyof DefaultSchema['CompositeTypes']
     | { schema: keyof DatabaseWithoutInternals },
   CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
     schema: keyof DatabaseWithoutInternals
   }
-    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions['schema']]['CompositeTypes']
     : never = never,
 > = PublicCompositeTypeNameOrOptions extends {
   schema: keyof DatabaseWithoutInternals
 }
-  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
-  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
-    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions['schema']]['CompositeTypes'][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema['CompositeTypes']
+    ? DefaultSchema['CompositeTypes'][PublicCompositeTypeNameOrOptions]
     : never
 
 export const Constants = {
@@ -232,4 +1139,3 @@ export const Constants = {
     Enums: {},
   },
 } as const
-